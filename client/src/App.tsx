@@ -32,8 +32,28 @@ function Router() {
           <Route path="/invoices" component={() => <Layout page="invoices" />} />
           <Route path="/invoices/:id" component={() => <Layout page="invoice-detail" />} />
           <Route path="/create-invoice" component={() => <Layout page="create-invoice" />} />
+          <Route path="/credit-notes" component={() => <Layout page="credit-notes" />} />
+          <Route path="/quotations" component={() => <Layout page="quotations" />} />
+          <Route path="/recurring-invoices" component={() => <Layout page="recurring-invoices" />} />
+          <Route path="/quotations/:id" component={() => <Layout page="quotation-detail" />} />
+          <Route path="/create-quotation" component={() => <Layout page="create-quotation" />} />
+          <Route path="/purchase-orders" component={() => <Layout page="purchase-orders" />} />
+          <Route path="/purchase-orders/:id" component={() => <Layout page="purchase-order-detail" />} />
+          <Route path="/create-purchase-order" component={() => <Layout page="create-purchase-order" />} />
+          <Route path="/suppliers" component={() => <Layout page="suppliers" />} />
+          <Route path="/customers" component={() => <Layout page="customers" />} />
+          <Route path="/customers/:id" component={() => <Layout page="customer-detail" />} />
+          <Route path="/price-lists" component={() => <Layout page="price-lists" />} />
+          <Route path="/promotions" component={() => <Layout page="promotions" />} />
+          <Route path="/stock-takes" component={() => <Layout page="stock-takes" />} />
+          <Route path="/stock-takes/:id" component={() => <Layout page="stock-take-detail" />} />
           <Route path="/reports" component={() => <Layout page="reports" />} />
           <Route path="/users" component={() => <Layout page="users" />} />
+          <Route path="/tax-rates" component={() => <Layout page="tax-rates" />} />
+          <Route path="/exchange-rates" component={() => <Layout page="exchange-rates" />} />
+          <Route path="/numbering" component={() => <Layout page="numbering" />} />
+          <Route path="/company-profile" component={() => <Layout page="company-profile" />} />
+          <Route path="/settings" component={() => <Layout page="settings" />} />
           <Route path="/activity-logs" component={() => <Layout page="activity-logs" />} />
         </>
       )}
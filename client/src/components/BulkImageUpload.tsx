@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { productImageExtensions, type ProductImageImportResult } from "@shared/productImages";
+
+const acceptedFiles = [...productImageExtensions, ".zip"].join(",");
+
+// Posts the images and archives as multipart form data
+const postImages = async (files: File[], replaceExisting: boolean): Promise<ProductImageImportResult> => {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+  formData.append("replaceExisting", String(replaceExisting));
+  const response = await fetch("/api/products/images/bulk", { method: "POST", body: formData, credentials: "include" });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
+};
+
+/**
+ * Sets product images in bulk from photos named after product IDs, uploaded as files or ZIP
+ * archives. Files that match no product are listed so they can be renamed and uploaded again.
+ */
+export function BulkImageUpload() {
+  const { toast } = useToast();
+  const [files, setFiles] = useState<File[]>([]);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [result, setResult] = useState<ProductImageImportResult | null>(null);
+
+  const uploadMutation = useMutation({
+    mutationFn: () => postImages(files, replaceExisting),
+    onSuccess: (data) => {
+      setResult(data);
+      setFiles([]);
+      toast({
+        title: "Images Uploaded",
+        description: `${data.matched.length} products updated${data.unmatched.length > 0 ? `, ${data.unmatched.length} files not matched` : ""}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to upload images";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    event.target.value = "";
+    if (selected.length === 0) return;
+    setFiles(selected);
+    setResult(null);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">Bulk Upload Images</h3>
+          <p className="text-sm text-muted-foreground">
+            Name each photo after its product ID, e.g. "ABC-123.jpg" or "ABC-123_front.jpg", and upload the photos
+            or a ZIP of them. Each product gets one image; a file named exactly after the product ID is preferred.
+          </p>
+        </div>
+
+        <div className="border-2 border-dashed border-border rounded-lg p-6 text-center">
+          <input
+            type="file"
+            multiple
+            accept={acceptedFiles}
+            onChange={handleFileSelect}
+            className="hidden"
+            id="bulk-image-files"
+            data-testid="input-image-files"
+          />
+          <label htmlFor="bulk-image-files" className="cursor-pointer">
+            <i className="fas fa-images text-primary text-2xl mb-2"></i>
+            <p className="font-medium text-foreground">
+              {files.length > 0
+                ? `${files.length} file${files.length === 1 ? "" : "s"} selected`
+                : "Choose images or ZIP archives"}
+            </p>
+            <p className="text-sm text-muted-foreground mt-1">
+              {productImageExtensions.join(", ")} or .zip
+            </p>
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="replace-existing-images"
+              checked={replaceExisting}
+              onCheckedChange={(checked) => setReplaceExisting(checked === true)}
+              data-testid="checkbox-replace-images"
+            />
+            <Label htmlFor="replace-existing-images" className="text-sm font-normal">
+              Replace images products already have
+            </Label>
+          </div>
+          <Button
+            onClick={() => uploadMutation.mutate()}
+            disabled={files.length === 0 || uploadMutation.isPending}
+            data-testid="button-upload-images"
+          >
+            <i className="fas fa-upload mr-2"></i>
+            {uploadMutation.isPending ? "Uploading..." : "Upload Images"}
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <Alert>
+              <i className="fas fa-check-circle text-accent"></i>
+              <AlertDescription data-testid="text-image-results">
+                {result.matched.length} products updated
+                {result.unmatched.length > 0 && `, ${result.unmatched.length} files not matched`}
+                {result.failed.length > 0 && `, ${result.failed.length} failed`}
+              </AlertDescription>
+            </Alert>
+
+            {result.matched.length > 0 && (
+              <div className="max-h-48 overflow-y-auto text-sm space-y-1">
+                {result.matched.map((match, index) => (
+                  <p key={`${match.filename}-${index}`}>
+                    <span className="text-muted-foreground">{match.filename}</span> → {match.productId} ({match.productName})
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {[...result.unmatched, ...result.failed].length > 0 && (
+              <Alert variant="destructive">
+                <i className="fas fa-exclamation-triangle"></i>
+                <AlertDescription>
+                  <h5 className="font-medium mb-2">Files Not Used</h5>
+                  <div className="space-y-1 text-sm max-h-48 overflow-y-auto" data-testid="list-unmatched-images">
+                    {[...result.unmatched, ...result.failed].map((skip, index) => (
+                      <p key={`${skip.filename}-${index}`}>
+                        {skip.filename}: {skip.reason}
+                      </p>
+                    ))}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { exportFormats, exportFormatLabels, type ExportFormat } from "@shared/exports";
+
+interface ExportMenuProps {
+  url: string;
+  // Filters to export with; empty values and "all" mean no filter, as in the list views
+  params?: Record<string, string | number | undefined>;
+  label?: string;
+  testId?: string;
+}
+
+const exportUrl = (url: string, format: ExportFormat, params: ExportMenuProps["params"] = {}) => {
+  const searchParams = new URLSearchParams({ format });
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "" && value !== "all") {
+      searchParams.append(key, String(value));
+    }
+  }
+  return `${url}?${searchParams.toString()}`;
+};
+
+// The server names the file, including the date it was exported
+const filenameFrom = (response: Response, fallback: string) =>
+  response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] || fallback;
+
+/**
+ * Download button offering each export format. The file is built on the server from the
+ * same filters the page is showing.
+ */
+export function ExportMenu({ url, params, label = "Export", testId = "button-export" }: ExportMenuProps) {
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const download = async (format: ExportFormat) => {
+    setIsExporting(true);
+    try {
+      const response = await apiRequest("GET", exportUrl(url, format, params));
+      const blob = await response.blob();
+      const objectUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = objectUrl;
+      a.download = filenameFrom(response, `export.${format}`);
+      a.click();
+      window.URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      if (isUnauthorizedError(error as Error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Export Failed",
+        description: "Failed to export. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting} data-testid={testId}>
+          <i className="fas fa-download mr-2"></i>
+          {isExporting ? "Exporting..." : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {exportFormats.map((format) => (
+          <DropdownMenuItem key={format} onClick={() => download(format)} data-testid={`${testId}-${format}`}>
+            <i className={`fas ${format === "xlsx" ? "fa-file-excel" : "fa-file-csv"} mr-2`}></i>
+            {exportFormatLabels[format]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import type { CompanyProfile } from "@shared/schema";
 
 interface HeaderProps {
   title: string;
@@ -15,6 +17,10 @@ export default function Header({ title, onMenuClick }: HeaderProps) {
     return false;
   });
 
+  const { data: profile } = useQuery<CompanyProfile>({
+    queryKey: ["/api/company-profile"],
+  });
+
   const toggleTheme = () => {
     const newTheme = !isDark;
     setIsDark(newTheme);
@@ -34,18 +40,22 @@ export default function Header({ title, onMenuClick }: HeaderProps) {
       <div className="bg-card border-b border-border px-6 py-2">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-2">
           <div className="flex items-center gap-2">
-            <h3 className="text-sm font-semibold text-foreground">Volume Fashion Collection</h3>
+            <h3 className="text-sm font-semibold text-foreground">{profile?.companyName}</h3>
           </div>
           <div className="flex flex-col lg:flex-row lg:items-center gap-3 text-xs text-muted-foreground">
-            <div className="flex items-center gap-1.5">
-              <i className="fas fa-map-marker-alt w-3 h-3"></i>
-              <span className="hidden xl:inline">4006-4008Room, 5Floor, Changjiang International Garment Building, No.931, Renmingbei Road, Yuexiu District, Guangzhou, China</span>
-              <span className="xl:hidden">Guangzhou, China</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <i className="fas fa-phone w-3 h-3"></i>
-              <a href="tel:+8613288689165" className="hover:text-foreground transition-colors">+86 132 8868 9165</a>
-            </div>
+            {profile && profile.addressLines.length > 0 && (
+              <div className="flex items-center gap-1.5">
+                <i className="fas fa-map-marker-alt w-3 h-3"></i>
+                <span className="hidden xl:inline">{profile.addressLines.join(", ")}</span>
+                <span className="xl:hidden">{profile.addressLines[profile.addressLines.length - 1]}</span>
+              </div>
+            )}
+            {profile?.phone && (
+              <div className="flex items-center gap-1.5">
+                <i className="fas fa-phone w-3 h-3"></i>
+                <a href={`tel:${profile.phone.replace(/[^\d+]/g, "")}`} className="hover:text-foreground transition-colors">{profile.phone}</a>
+              </div>
+            )}
           </div>
         </div>
       </div>
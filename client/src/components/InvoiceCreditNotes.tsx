@@ -0,0 +1,356 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { creditNoteReasons, downloadCreditNotePDF, restocksByDefault } from "@/lib/creditNoteUtils";
+import type { CreditNoteReason, CreditNoteWithItems, InvoiceItem, InvoiceWithPaymentState, Product, ProductVariant } from "@shared/schema";
+
+interface InvoiceCreditNotesProps {
+  invoice: InvoiceWithPaymentState & { items: (InvoiceItem & { product: Product; variant: ProductVariant | null })[] };
+}
+
+type CreditLineDraft = { quantity: number; restock: boolean };
+
+/**
+ * Credit notes issued against a processed invoice. Each one credits some of the
+ * invoice's lines; returned units go back into stock unless restocking is unticked.
+ */
+export function InvoiceCreditNotes({ invoice }: InvoiceCreditNotesProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isIssuing, setIsIssuing] = useState(false);
+  const [reason, setReason] = useState<CreditNoteReason>("Return");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<Record<string, CreditLineDraft>>({});
+
+  const { data: creditNotes, isLoading } = useQuery<CreditNoteWithItems[]>({
+    queryKey: [`/api/invoices/${invoice.id}/credit-notes`],
+  });
+
+  // Units already credited per invoice line, so the dialog only offers what is left
+  const creditedQuantities = (creditNotes || []).reduce<Record<string, number>>((totals, creditNote) => {
+    creditNote.items.forEach((item) => {
+      totals[item.invoiceItemId] = (totals[item.invoiceItemId] || 0) + item.quantity;
+    });
+    return totals;
+  }, {});
+
+  const creditableItems = invoice.items
+    .map((item) => ({ item, remaining: item.quantity - (creditedQuantities[item.id] || 0) }))
+    .filter(({ remaining }) => remaining > 0);
+
+  // Units are credited at what was charged for them, after any line discount
+  const netUnitPrice = (item: InvoiceItem) => parseFloat(item.totalPrice) / item.quantity;
+  const draftSubtotal = creditableItems.reduce(
+    (sum, { item }) => sum + (lines[item.id]?.quantity || 0) * netUnitPrice(item),
+    0
+  );
+  // Promotions come back with their units; the invoice discount is shared over the rest, as on the server
+  const draftPromotions = creditableItems.reduce(
+    (sum, { item }) => sum + parseFloat(item.promotionDiscount) * (lines[item.id]?.quantity || 0) / item.quantity,
+    0
+  );
+  const invoiceNet = parseFloat(invoice.subtotal) - parseFloat(invoice.promotionDiscount);
+  const draftDiscount = draftPromotions + (invoiceNet > 0
+    ? (draftSubtotal - draftPromotions) * parseFloat(invoice.discountAmount || "0") / invoiceNet
+    : 0);
+  const draftTax = creditableItems.reduce(
+    (sum, { item }) => sum + parseFloat(item.taxAmount) * (lines[item.id]?.quantity || 0) / item.quantity,
+    0
+  );
+  const draftTotal = draftSubtotal - draftDiscount + (invoice.pricesIncludeTax ? 0 : draftTax);
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const issueCreditNoteMutation = useMutation({
+    mutationFn: async () => {
+      const items = Object.entries(lines)
+        .filter(([, line]) => line.quantity > 0)
+        .map(([invoiceItemId, line]) => ({ invoiceItemId, quantity: line.quantity, restock: line.restock }));
+      const response = await apiRequest("POST", `/api/invoices/${invoice.id}/credit-notes`, {
+        creditNote: { reason, notes: notes || null },
+        items,
+      });
+      return response.json();
+    },
+    onSuccess: (creditNote) => {
+      toast({
+        title: "Success",
+        description: `Credit note ${creditNote.creditNoteNumber} issued`,
+      });
+      setIsIssuing(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/credit-notes`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/credit-notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      if (invoice.customerId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/customers/${invoice.customerId}`] });
+      }
+    },
+    onError: (error) => handleMutationError(error, "Failed to issue credit note"),
+  });
+
+  const openIssueDialog = () => {
+    setReason("Return");
+    setNotes("");
+    setLines(Object.fromEntries(
+      creditableItems.map(({ item }) => [item.id, { quantity: 0, restock: restocksByDefault("Return") }])
+    ));
+    setIsIssuing(true);
+  };
+
+  const changeReason = (value: CreditNoteReason) => {
+    setReason(value);
+    setLines((current) => Object.fromEntries(
+      Object.entries(current).map(([id, line]) => [id, { ...line, restock: restocksByDefault(value) }])
+    ));
+  };
+
+  const updateLine = (invoiceItemId: string, change: Partial<CreditLineDraft>) => {
+    setLines((current) => ({ ...current, [invoiceItemId]: { ...current[invoiceItemId], ...change } }));
+  };
+
+  const handleDownload = async (creditNote: CreditNoteWithItems) => {
+    try {
+      await downloadCreditNotePDF(creditNote);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canIssue = invoice.status === 'Processed' && creditableItems.length > 0 && ['Admin', 'Manager'].includes(user?.role || '');
+
+  // Nothing to show on invoices that can't be credited and never were
+  if (invoice.status !== 'Processed' && !creditNotes?.length) {
+    return null;
+  }
+
+  return (
+    <Card data-testid="card-invoice-credit-notes">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Credit Notes</h3>
+            {parseFloat(invoice.creditedAmount) > 0 && (
+              <p className="text-sm text-muted-foreground" data-testid="text-credited-amount">
+                {formatCurrency(invoice.creditedAmount, invoice.currency)} credited
+              </p>
+            )}
+          </div>
+          {canIssue && (
+            <Button variant="outline" size="sm" onClick={openIssueDialog} data-print-hide data-testid="button-issue-credit-note">
+              <i className="fas fa-undo w-4 h-4 mr-2"></i>
+              Issue Credit Note
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading credit notes...</p>
+        ) : creditNotes?.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Credit Note</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Date</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Reason</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Items</th>
+                  <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Amount</th>
+                  <th className="py-2" data-print-hide></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {creditNotes.map((creditNote) => (
+                  <tr key={creditNote.id} className="text-foreground" data-testid={`row-credit-note-${creditNote.id}`}>
+                    <td className="py-2 font-medium">{creditNote.creditNoteNumber}</td>
+                    <td className="py-2">{formatDate(creditNote.createdAt!)}</td>
+                    <td className="py-2">
+                      {creditNote.reason}
+                      {creditNote.notes && <div className="text-xs text-muted-foreground">{creditNote.notes}</div>}
+                    </td>
+                    <td className="py-2">
+                      {creditNote.items.map((item) => (
+                        <div key={item.id} className="text-xs">
+                          {item.quantity} x {item.product.productName}
+                          {item.variant && ` (${item.variant.size} / ${item.variant.color})`}
+                          {!item.restock && <span className="text-muted-foreground"> - not restocked</span>}
+                        </div>
+                      ))}
+                    </td>
+                    <td className="py-2 text-right font-medium">-{formatCurrency(creditNote.total, invoice.currency)}</td>
+                    <td className="py-2 text-right" data-print-hide>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDownload(creditNote)}
+                        data-testid={`button-download-credit-note-${creditNote.id}`}
+                      >
+                        <i className="fas fa-file-pdf w-4 h-4"></i>
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No credit notes issued</p>
+        )}
+      </CardContent>
+
+      {/* Issue Credit Note Dialog */}
+      <Dialog open={isIssuing} onOpenChange={setIsIssuing}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Issue Credit Note</DialogTitle>
+            <DialogDescription>
+              Choose the quantities being credited on {invoice.invoiceNumber}. Restocked units go back into available stock.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-border">
+                    <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Product</th>
+                    <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Price</th>
+                    <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Creditable</th>
+                    <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Credit Qty</th>
+                    <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Restock</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {creditableItems.map(({ item, remaining }) => (
+                    <tr key={item.id} data-testid={`row-credit-line-${item.id}`}>
+                      <td className="py-2">
+                        <div className="font-medium text-foreground">{item.product.productName}</div>
+                        {item.variant && (
+                          <div className="text-xs text-muted-foreground">{item.variant.size} / {item.variant.color}</div>
+                        )}
+                      </td>
+                      <td className="py-2">{formatCurrency(netUnitPrice(item), invoice.currency)}</td>
+                      <td className="py-2">{remaining} of {item.quantity}</td>
+                      <td className="py-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          max={remaining}
+                          className="w-20 h-8"
+                          value={lines[item.id]?.quantity ?? 0}
+                          onChange={(e) => updateLine(item.id, {
+                            quantity: Math.min(Math.max(parseInt(e.target.value) || 0, 0), remaining)
+                          })}
+                          data-testid={`input-credit-quantity-${item.id}`}
+                        />
+                      </td>
+                      <td className="py-2">
+                        <Checkbox
+                          checked={lines[item.id]?.restock ?? true}
+                          onCheckedChange={(checked) => updateLine(item.id, { restock: checked === true })}
+                          data-testid={`checkbox-credit-restock-${item.id}`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={(value) => changeReason(value as CreditNoteReason)}>
+                  <SelectTrigger data-testid="select-credit-note-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {creditNoteReasons.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 text-sm text-right self-end">
+                {draftDiscount > 0 && (
+                  <p className="text-muted-foreground">Includes -{formatCurrency(draftDiscount, invoice.currency)} of the invoice discount</p>
+                )}
+                {draftTax > 0 && (
+                  <p className="text-muted-foreground">
+                    {invoice.pricesIncludeTax ? "Includes" : "Plus"} {formatCurrency(draftTax, invoice.currency)} tax
+                  </p>
+                )}
+                <p className="text-lg font-semibold text-foreground" data-testid="text-credit-note-total">
+                  Credit: {formatCurrency(draftTotal, invoice.currency)}
+                </p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="credit-note-notes">Notes (Optional)</Label>
+              <Textarea
+                id="credit-note-notes"
+                rows={2}
+                className="resize-none"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-credit-note-notes"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsIssuing(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => issueCreditNoteMutation.mutate()}
+              disabled={draftSubtotal <= 0 || issueCreditNoteMutation.isPending}
+              data-testid="button-confirm-credit-note"
+            >
+              {issueCreditNoteMutation.isPending ? "Issuing..." : "Issue Credit Note"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
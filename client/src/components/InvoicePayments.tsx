@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { paymentMethods, paymentStatusStyles } from "@/lib/paymentUtils";
+import type { InvoiceWithPaymentState, PaymentMethod, PaymentWithUsers } from "@shared/schema";
+
+interface InvoicePaymentsProps {
+  invoice: InvoiceWithPaymentState;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Payments received against an invoice, with the running balance.
+ * Voided payments stay listed (struck through) so the history is complete.
+ */
+export function InvoicePayments({ invoice }: InvoicePaymentsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [isRecording, setIsRecording] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("Cash");
+  const [reference, setReference] = useState("");
+  const [paidAt, setPaidAt] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [voidingPayment, setVoidingPayment] = useState<PaymentWithUsers | null>(null);
+  const [voidReason, setVoidReason] = useState("");
+
+  const { data: payments, isLoading } = useQuery<PaymentWithUsers[]>({
+    queryKey: [`/api/invoices/${invoice.id}/payments`],
+  });
+
+  const invalidatePaymentQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}/payments`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    if (invoice.customerId) {
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${invoice.customerId}`] });
+    }
+  };
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // Server messages such as overpayment are worth showing as-is
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/invoices/${invoice.id}/payments`, {
+        amount,
+        method,
+        reference: reference || null,
+        paidAt,
+        notes: notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payment recorded",
+      });
+      setIsRecording(false);
+      invalidatePaymentQueries();
+    },
+    onError: (error) => handleMutationError(error, "Failed to record payment"),
+  });
+
+  const voidPaymentMutation = useMutation({
+    mutationFn: async (payment: PaymentWithUsers) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoice.id}/payments/${payment.id}/void`, { reason: voidReason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payment voided",
+      });
+      setVoidingPayment(null);
+      invalidatePaymentQueries();
+    },
+    onError: (error) => handleMutationError(error, "Failed to void payment"),
+  });
+
+  const openRecordDialog = () => {
+    setAmount(Math.max(invoice.balanceDue, 0).toFixed(2));
+    setMethod("Cash");
+    setReference("");
+    setPaidAt(today());
+    setNotes("");
+    setIsRecording(true);
+  };
+
+  const openVoidDialog = (payment: PaymentWithUsers) => {
+    setVoidReason("");
+    setVoidingPayment(payment);
+  };
+
+  const formatUser = (person: PaymentWithUsers["createdByUser"]) => {
+    if (!person) return null;
+    return person.firstName && person.lastName ? `${person.firstName} ${person.lastName}` : person.username;
+  };
+
+  const canRecord = invoice.status !== 'Deleted' && invoice.balanceDue > 0 && ['Admin', 'Manager', 'Staff'].includes(user?.role || '');
+  const canVoid = invoice.status !== 'Deleted' && ['Admin', 'Manager'].includes(user?.role || '');
+
+  return (
+    <Card data-testid="card-invoice-payments">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <h3 className="text-lg font-semibold text-foreground">Payments</h3>
+            <Badge className={paymentStatusStyles[invoice.paymentStatus]} data-testid="badge-payment-status">
+              {invoice.paymentStatus}
+            </Badge>
+          </div>
+          {canRecord && (
+            <Button variant="outline" size="sm" onClick={openRecordDialog} data-print-hide data-testid="button-record-payment">
+              <i className="fas fa-money-bill-wave w-4 h-4 mr-2"></i>
+              Record Payment
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div>
+            <p className="text-sm text-muted-foreground">Amount Paid</p>
+            <p className="text-lg font-semibold text-foreground">{formatCurrency(invoice.amountPaid, invoice.currency)}</p>
+            {invoice.balanceDue < 0 && (
+              <p className="text-xs text-amber-600" data-testid="text-refund-due">
+                {formatCurrency(-invoice.balanceDue, invoice.currency)} to refund after credit notes
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Balance Due</p>
+            <p className={`text-lg font-semibold ${invoice.paymentStatus === 'Overdue' ? 'text-destructive' : 'text-foreground'}`} data-testid="text-balance-due">
+              {formatCurrency(Math.max(invoice.balanceDue, 0), invoice.currency)}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Due Date</p>
+            <p className="text-lg font-semibold text-foreground">{invoice.dueDate ? formatDate(invoice.dueDate) : '-'}</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading payments...</p>
+        ) : payments?.length ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border">
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Date</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Method</th>
+                  <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">Reference</th>
+                  <th className="py-2 text-right text-xs font-medium text-muted-foreground uppercase">Amount</th>
+                  <th className="py-2" data-print-hide></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {payments.map((payment) => (
+                  <tr key={payment.id} className={payment.voidedAt ? 'text-muted-foreground' : 'text-foreground'} data-testid={`row-payment-${payment.id}`}>
+                    <td className="py-2">
+                      {formatDate(payment.paidAt)}
+                      {formatUser(payment.createdByUser) && (
+                        <div className="text-xs text-muted-foreground">by {formatUser(payment.createdByUser)}</div>
+                      )}
+                    </td>
+                    <td className="py-2">{payment.method}</td>
+                    <td className="py-2">
+                      {payment.reference || '-'}
+                      {payment.voidedAt && (
+                        <div className="text-xs text-destructive">
+                          Voided {formatDate(payment.voidedAt)}{payment.voidReason ? `: ${payment.voidReason}` : ''}
+                        </div>
+                      )}
+                    </td>
+                    <td className={`py-2 text-right font-medium ${payment.voidedAt ? 'line-through' : ''}`}>
+                      {formatCurrency(payment.amount, invoice.currency)}
+                    </td>
+                    <td className="py-2 text-right" data-print-hide>
+                      {canVoid && !payment.voidedAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openVoidDialog(payment)}
+                          className="text-destructive hover:text-destructive"
+                          data-testid={`button-void-payment-${payment.id}`}
+                        >
+                          Void
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+        )}
+      </CardContent>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={isRecording} onOpenChange={setIsRecording}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Record Payment</DialogTitle>
+            <DialogDescription>
+              Balance due on {invoice.invoiceNumber} is {formatCurrency(Math.max(invoice.balanceDue, 0), invoice.currency)}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="payment-amount">Amount</Label>
+                <Input
+                  id="payment-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  max={Math.max(invoice.balanceDue, 0)}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  data-testid="input-payment-amount"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-date">Date Received</Label>
+                <Input
+                  id="payment-date"
+                  type="date"
+                  value={paidAt}
+                  onChange={(e) => setPaidAt(e.target.value)}
+                  data-testid="input-payment-date"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                  <SelectTrigger data-testid="select-payment-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentMethods.map((paymentMethod) => (
+                      <SelectItem key={paymentMethod} value={paymentMethod}>{paymentMethod}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="payment-reference">Reference (Optional)</Label>
+                <Input
+                  id="payment-reference"
+                  placeholder="Receipt or transfer no."
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  data-testid="input-payment-reference"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="payment-notes">Notes (Optional)</Label>
+              <Textarea
+                id="payment-notes"
+                rows={2}
+                className="resize-none"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-payment-notes"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsRecording(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => recordPaymentMutation.mutate()}
+              disabled={!(parseFloat(amount) > 0) || !paidAt || recordPaymentMutation.isPending}
+              data-testid="button-confirm-payment"
+            >
+              {recordPaymentMutation.isPending ? "Saving..." : "Record Payment"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Payment Dialog */}
+      <Dialog open={!!voidingPayment} onOpenChange={(open) => !open && setVoidingPayment(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Void Payment</DialogTitle>
+            <DialogDescription>
+              {voidingPayment && `The ${formatCurrency(voidingPayment.amount, invoice.currency)} ${voidingPayment.method.toLowerCase()} payment will be added back to the balance due.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason (Optional)</Label>
+            <Input
+              id="void-reason"
+              placeholder="e.g. Cheque bounced"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              data-testid="input-void-reason"
+            />
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setVoidingPayment(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => voidingPayment && voidPaymentMutation.mutate(voidingPayment)}
+              disabled={voidPaymentMutation.isPending}
+              data-testid="button-confirm-void-payment"
+            >
+              {voidPaymentMutation.isPending ? "Voiding..." : "Void Payment"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
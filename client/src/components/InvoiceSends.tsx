@@ -0,0 +1,127 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { JobProgress } from "@/components/JobProgress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatTimeAgo } from "@/lib/formatters";
+import { isJobFinished, type JobType } from "@shared/jobs";
+import type { InvoiceWithPaymentState, JobSummary } from "@shared/schema";
+
+interface InvoiceSendsProps {
+  invoice: InvoiceWithPaymentState;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+const channelLabels: Partial<Record<JobType, string>> = {
+  invoice_email: "Email",
+  invoice_whatsapp: "WhatsApp",
+};
+
+/**
+ * Sends a processed invoice to the customer by email or WhatsApp. Sends run in the background,
+ * so the latest ones are listed with their progress, and any retries after a failed attempt.
+ */
+export function InvoiceSends({ invoice }: InvoiceSendsProps) {
+  const { toast } = useToast();
+  const sendsKey = [`/api/invoices/${invoice.id}/jobs`];
+
+  const { data: sends } = useQuery<JobSummary[]>({
+    queryKey: sendsKey,
+    refetchInterval: (query) =>
+      query.state.data?.some((job) => !isJobFinished(job.status)) ? POLL_INTERVAL_MS : false,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (channel: "email" | "whatsapp") => {
+      const response = await apiRequest("POST", `/api/invoices/${invoice.id}/${channel}`);
+      return response.json() as Promise<JobSummary>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sendsKey });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to send invoice";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSend = invoice.status === "Processed";
+  const isSending = (type: JobType) =>
+    sendMutation.isPending || !!sends?.some((job) => job.type === type && !isJobFinished(job.status));
+
+  return (
+    <Card data-testid="card-invoice-sends" data-print-hide>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-foreground">Send to Customer</h3>
+          {canSend && (
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => sendMutation.mutate("email")}
+                disabled={!invoice.customerEmail || isSending("invoice_email")}
+                title={invoice.customerEmail ? undefined : "The customer has no email address"}
+                data-testid="button-send-email"
+              >
+                <i className="fas fa-envelope w-4 h-4 mr-2"></i>
+                Email
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => sendMutation.mutate("whatsapp")}
+                disabled={!invoice.customerPhone || isSending("invoice_whatsapp")}
+                title={invoice.customerPhone ? undefined : "The customer has no phone number"}
+                data-testid="button-send-whatsapp"
+              >
+                <i className="fab fa-whatsapp w-4 h-4 mr-2"></i>
+                WhatsApp
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {sends?.length ? (
+          <div className="space-y-4">
+            {sends.map((job) => (
+              <JobProgress
+                key={job.id}
+                job={job}
+                label={`${channelLabels[job.type] || job.type}${job.createdAt ? ` · ${formatTimeAgo(job.createdAt)}` : ""}`}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {canSend ? "This invoice hasn't been sent yet." : "Invoices can be sent once they are processed."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency, formatDate, formatTimeAgo } from "@/lib/formatters";
+import { describeLineDiscount } from "@shared/pricing";
+import { diffVersionLines, versionTotalFields, type VersionLineChange, type VersionLineField } from "@shared/invoiceVersions";
+import type { InvoiceVersionLine, InvoiceVersionSummary, InvoiceVersionWithUser } from "@shared/schema";
+
+interface InvoiceVersionHistoryProps {
+  invoiceId: string;
+  currency: string;
+}
+
+const formatUser = (person: InvoiceVersionSummary["createdByUser"]) => {
+  if (!person) return "System";
+  return person.firstName && person.lastName ? `${person.firstName} ${person.lastName}` : person.username;
+};
+
+const lineChangeStyles: Record<VersionLineChange["status"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+  unchanged: "",
+};
+
+/**
+ * Every saved version of an invoice, newest first. Picking one shows it side by side
+ * with an earlier version (the one just before it unless another is chosen).
+ */
+export function InvoiceVersionHistory({ invoiceId, currency }: InvoiceVersionHistoryProps) {
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+
+  const { data: versions, isLoading } = useQuery<InvoiceVersionSummary[]>({
+    queryKey: [`/api/invoices/${invoiceId}/versions`],
+  });
+
+  const afterVersion = selectedVersion ?? versions?.[0]?.version ?? null;
+  const beforeVersion = compareWith ?? (afterVersion && afterVersion > 1 ? afterVersion - 1 : null);
+
+  const { data: after } = useQuery<InvoiceVersionWithUser>({
+    queryKey: [`/api/invoices/${invoiceId}/versions/${afterVersion}`],
+    enabled: afterVersion !== null,
+  });
+
+  const { data: before } = useQuery<InvoiceVersionWithUser>({
+    queryKey: [`/api/invoices/${invoiceId}/versions/${beforeVersion}`],
+    enabled: beforeVersion !== null,
+  });
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    setCompareWith(null);
+  };
+
+  const changes = after ? diffVersionLines(beforeVersion !== null ? before?.snapshot || null : null, after.snapshot) : [];
+
+  const renderLine = (line: InvoiceVersionLine | null, change: VersionLineChange, side: "before" | "after") => {
+    if (!line) {
+      return <span className="text-muted-foreground">—</span>;
+    }
+    const highlight = (field: VersionLineField) =>
+      change.changedFields.includes(field) ? "font-semibold text-foreground bg-amber-100 rounded px-1" : "";
+    const discount = describeLineDiscount(line.discountType, line.discountValue, (amount) => formatCurrency(amount, currency));
+    const discountChanged = change.changedFields.includes("discountType") || change.changedFields.includes("discountValue");
+    return (
+      <div className={change.status === "removed" && side === "before" ? "line-through text-muted-foreground" : ""}>
+        <div className="font-medium text-foreground">{line.productName}</div>
+        <div className="text-xs text-muted-foreground">
+          {line.productCode}{line.variant && ` · ${line.variant}`}
+        </div>
+        <div className="text-xs mt-1">
+          <span className={highlight("quantity")}>{line.quantity}</span>
+          {" × "}
+          <span className={highlight("unitPrice")}>{formatCurrency(line.unitPrice, currency)}</span>
+          {(discount || discountChanged) && (
+            <span className={`ml-1 ${highlight(change.changedFields.includes("discountType") ? "discountType" : "discountValue")}`}>
+              ({discount ? `${discount} off` : "no discount"})
+            </span>
+          )}
+          {" = "}
+          <span className={highlight("totalPrice")}>{formatCurrency(line.totalPrice, currency)}</span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Card data-testid="card-invoice-versions">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold text-foreground mb-4">Edit History</h3>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : versions?.length ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="overflow-y-auto max-h-96 border border-border rounded-lg divide-y divide-border" data-print-hide>
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => selectVersion(version.version)}
+                  className={`w-full text-left px-4 py-3 transition-colors ${afterVersion === version.version ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                  data-testid={`button-invoice-version-${version.version}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-foreground">v{version.version}</span>
+                    <span className="text-xs text-muted-foreground" title={version.createdAt ? formatDate(version.createdAt, 'long') : undefined}>
+                      {version.createdAt ? formatTimeAgo(version.createdAt) : '-'}
+                    </span>
+                  </div>
+                  <div className="text-sm text-foreground">{version.summary}</div>
+                  <div className="text-xs text-muted-foreground">
+                    by {formatUser(version.createdByUser)} · {version.itemCount} line{version.itemCount === 1 ? '' : 's'} · {formatCurrency(version.total, currency)}
+                  </div>
+                </button>
+              ))}
+            </div>
+
+            <div className="lg:col-span-2 space-y-4">
+              {after ? (
+                <>
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="text-sm text-muted-foreground">
+                      <span className="font-medium text-foreground">{after.summary}</span>
+                      {" "}by {formatUser(after.createdByUser)}
+                      {after.createdAt && <> on {formatDate(after.createdAt, 'long')}</>}
+                    </div>
+                    {afterVersion !== null && afterVersion > 1 && (
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="text-muted-foreground">Compare with</span>
+                        <Select
+                          value={String(beforeVersion)}
+                          onValueChange={(value) => setCompareWith(parseInt(value))}
+                        >
+                          <SelectTrigger className="w-24" data-testid="select-compare-version">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {versions
+                              .filter((version) => version.version < afterVersion)
+                              .map((version) => (
+                                <SelectItem key={version.id} value={String(version.version)}>
+                                  v{version.version}
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm table-fixed">
+                      <thead>
+                        <tr className="border-b border-border">
+                          <th className="py-2 pr-4 text-left text-xs font-medium text-muted-foreground uppercase">
+                            {beforeVersion !== null ? `Before (v${beforeVersion})` : 'Before'}
+                          </th>
+                          <th className="py-2 text-left text-xs font-medium text-muted-foreground uppercase">
+                            After (v{afterVersion})
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {changes.map((change) => (
+                          <tr key={(change.after || change.before)!.id} data-testid={`row-version-line-${(change.after || change.before)!.id}`}>
+                            <td className="py-2 pr-4 align-top">{renderLine(change.before, change, "before")}</td>
+                            <td className="py-2 align-top">
+                              <div className="flex items-start justify-between gap-2">
+                                {renderLine(change.after, change, "after")}
+                                {change.status !== "unchanged" && beforeVersion !== null && (
+                                  <Badge className={lineChangeStyles[change.status]}>{change.status}</Badge>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <table className="w-full text-sm table-fixed">
+                    <tbody className="divide-y divide-border">
+                      {before && beforeVersion !== null && before.snapshot.status !== after.snapshot.status && (
+                        <tr>
+                          <td className="py-1 text-muted-foreground">Status</td>
+                          <td className="py-1 text-right">{before.snapshot.status}</td>
+                          <td className="py-1 text-right font-semibold">{after.snapshot.status}</td>
+                        </tr>
+                      )}
+                      {before && beforeVersion !== null && before.snapshot.couponCode !== after.snapshot.couponCode && (
+                        <tr>
+                          <td className="py-1 text-muted-foreground">Coupon</td>
+                          <td className="py-1 text-right">{before.snapshot.couponCode || '—'}</td>
+                          <td className="py-1 text-right font-semibold">{after.snapshot.couponCode || '—'}</td>
+                        </tr>
+                      )}
+                      {versionTotalFields.map(({ key, label }) => {
+                        const previous = beforeVersion !== null ? before?.snapshot[key] : null;
+                        const current = after.snapshot[key];
+                        const changed = previous != null && parseFloat(previous) !== parseFloat(current || "0");
+                        return (
+                          <tr key={key} className={key === "total" ? "font-semibold" : ""} data-testid={`row-version-total-${key}`}>
+                            <td className="py-1 text-muted-foreground">{label}</td>
+                            <td className="py-1 text-right">{previous != null ? formatCurrency(previous, currency) : '—'}</td>
+                            <td className={`py-1 text-right ${changed ? 'text-amber-700 font-semibold' : ''}`}>
+                              {formatCurrency(current || 0, currency)}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Loading version...</p>
+              )}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No changes have been recorded for this invoice yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import { Progress } from "@/components/ui/progress";
+import { describeJobStatus, isJobFinished, jobPercent } from "@shared/jobs";
+import type { JobSummary } from "@shared/schema";
+
+interface JobProgressProps {
+  job: JobSummary;
+  label: string;
+}
+
+/**
+ * A background job's status with a progress bar while it runs. The last error is shown
+ * while a failed attempt waits to be retried, and once the job has given up.
+ */
+export function JobProgress({ job, label }: JobProgressProps) {
+  const percent = jobPercent(job);
+
+  return (
+    <div className="space-y-2" data-testid={`job-${job.id}`}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium text-foreground">{label}</span>
+        <span className={job.status === "failed" ? "text-destructive" : "text-muted-foreground"}>
+          {describeJobStatus(job)}
+          {job.status === "running" && percent !== null && ` (${percent}%)`}
+        </span>
+      </div>
+      {!isJobFinished(job.status) && (
+        <Progress value={percent ?? 0} className={`h-2 ${percent === null ? "animate-pulse" : ""}`} />
+      )}
+      {job.error && job.status !== "completed" && (
+        <p className="text-sm text-destructive">{job.error}</p>
+      )}
+    </div>
+  );
+}
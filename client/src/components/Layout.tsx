@@ -10,8 +10,28 @@ import BulkUpload from "@/pages/BulkUpload";
 import Invoices from "@/pages/Invoices";
 import CreateInvoice from "@/pages/CreateInvoice";
 import InvoiceDetail from "@/pages/InvoiceDetail";
+import CreditNotes from "@/pages/CreditNotes";
+import Quotations from "@/pages/Quotations";
+import RecurringInvoices from "@/pages/RecurringInvoices";
+import QuotationDetail from "@/pages/QuotationDetail";
+import CreateQuotation from "@/pages/CreateQuotation";
 import Reports from "@/pages/Reports";
+import PurchaseOrders from "@/pages/PurchaseOrders";
+import PurchaseOrderDetail from "@/pages/PurchaseOrderDetail";
+import CreatePurchaseOrder from "@/pages/CreatePurchaseOrder";
+import Suppliers from "@/pages/Suppliers";
+import Customers from "@/pages/Customers";
+import CustomerDetail from "@/pages/CustomerDetail";
+import PriceLists from "@/pages/PriceLists";
+import Promotions from "@/pages/Promotions";
+import StockTakes from "@/pages/StockTakes";
+import StockTakeDetail from "@/pages/StockTakeDetail";
 import UserManagement from "@/pages/UserManagement";
+import TaxRates from "@/pages/TaxRates";
+import ExchangeRates from "@/pages/ExchangeRates";
+import DocumentNumbering from "@/pages/DocumentNumbering";
+import CompanyProfile from "@/pages/CompanyProfile";
+import Settings from "@/pages/Settings";
 import ActivityLogs from "@/pages/ActivityLogs";
 import ProtectedRoute from "@/components/ProtectedRoute";
 
@@ -28,8 +48,28 @@ const pageComponents = {
   invoices: Invoices,
   "invoice-detail": InvoiceDetail,
   "create-invoice": CreateInvoice,
+  "credit-notes": CreditNotes,
+  quotations: Quotations,
+  "recurring-invoices": RecurringInvoices,
+  "quotation-detail": QuotationDetail,
+  "create-quotation": CreateQuotation,
+  "purchase-orders": PurchaseOrders,
+  "purchase-order-detail": PurchaseOrderDetail,
+  "create-purchase-order": CreatePurchaseOrder,
+  suppliers: Suppliers,
+  customers: Customers,
+  "customer-detail": CustomerDetail,
+  "price-lists": PriceLists,
+  promotions: Promotions,
+  "stock-takes": StockTakes,
+  "stock-take-detail": StockTakeDetail,
   reports: Reports,
   users: UserManagement,
+  "tax-rates": TaxRates,
+  "exchange-rates": ExchangeRates,
+  numbering: DocumentNumbering,
+  "company-profile": CompanyProfile,
+  settings: Settings,
   "activity-logs": ActivityLogs,
 };
 
@@ -42,8 +82,28 @@ const pageTitles = {
   invoices: 'Invoices',
   "invoice-detail": 'Invoice Details',
   "create-invoice": 'Create Invoice',
+  "credit-notes": 'Credit Notes',
+  quotations: 'Quotations',
+  "recurring-invoices": 'Recurring Invoices',
+  "quotation-detail": 'Quotation Details',
+  "create-quotation": 'Create Quotation',
+  "purchase-orders": 'Purchase Orders',
+  "purchase-order-detail": 'Purchase Order Details',
+  "create-purchase-order": 'Create Purchase Order',
+  suppliers: 'Suppliers',
+  customers: 'Customers',
+  "customer-detail": 'Customer Details',
+  "price-lists": 'Price Lists',
+  promotions: 'Promotions',
+  "stock-takes": 'Stock Takes',
+  "stock-take-detail": 'Stock Take Details',
   reports: 'Reports',
   users: 'User Management',
+  "tax-rates": 'Tax Rates',
+  "exchange-rates": 'Exchange Rates',
+  numbering: 'Document Numbering',
+  "company-profile": 'Company Profile',
+  settings: 'Settings',
   "activity-logs": 'Activity Logs',
 };
 
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { LineDiscountType } from "@shared/pricing";
+
+export type LineDiscountDraft = {
+  discountType: LineDiscountType | null;
+  // Percentages are a fraction (0.1 for 10%), amounts are in the document's currency
+  discountValue: number;
+};
+
+interface LineDiscountInputProps {
+  value: LineDiscountDraft;
+  onChange: (value: LineDiscountDraft) => void;
+  currency: string;
+  testIdSuffix?: string;
+}
+
+const NO_DISCOUNT = "none";
+
+const displayValue = ({ discountType, discountValue }: LineDiscountDraft) => {
+  if (!discountType || !discountValue) return "";
+  return String(discountType === 'percentage' ? parseFloat((discountValue * 100).toFixed(2)) : discountValue);
+};
+
+/**
+ * Discount type and value for a single invoice or quotation line. Percentages are
+ * typed as 0-100 and handed back as a fraction, matching how they are stored.
+ */
+export function LineDiscountInput({ value, onChange, currency, testIdSuffix = "" }: LineDiscountInputProps) {
+  const [text, setText] = useState(() => displayValue(value));
+
+  const emit = (discountType: LineDiscountType | null, entered: string) => {
+    const number = parseFloat(entered) || 0;
+    onChange({
+      discountType,
+      discountValue: discountType === 'percentage' ? Math.min(number, 100) / 100 : number,
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={value.discountType || NO_DISCOUNT}
+        onValueChange={(type) => {
+          const discountType = type === NO_DISCOUNT ? null : type as LineDiscountType;
+          if (!discountType) setText("");
+          emit(discountType, discountType ? text : "");
+        }}
+      >
+        <SelectTrigger className="w-32" data-testid={`select-line-discount-type${testIdSuffix}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_DISCOUNT}>No discount</SelectItem>
+          <SelectItem value="percentage">Percent</SelectItem>
+          <SelectItem value="amount">Amount ({currency})</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="number"
+        min="0"
+        max={value.discountType === 'percentage' ? 100 : undefined}
+        step="0.01"
+        className="w-24"
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          emit(value.discountType, e.target.value);
+        }}
+        disabled={!value.discountType}
+        placeholder={value.discountType === 'percentage' ? "%" : "0.00"}
+        data-testid={`input-line-discount-value${testIdSuffix}`}
+      />
+    </div>
+  );
+}
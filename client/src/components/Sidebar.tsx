@@ -18,8 +18,22 @@ const navigationItems = [
   { id: "bulk-upload", path: "/bulk-upload", icon: "fas fa-upload", label: "Bulk Upload", roles: ["Admin", "Manager"] },
   { id: "invoices", path: "/invoices", icon: "fas fa-file-invoice", label: "Invoices", roles: ["Admin", "Manager", "Staff", "Viewer"] },
   { id: "create-invoice", path: "/create-invoice", icon: "fas fa-plus-circle", label: "Create Invoice", roles: ["Admin", "Manager", "Staff"] },
+  { id: "recurring-invoices", path: "/recurring-invoices", icon: "fas fa-redo", label: "Recurring Invoices", roles: ["Admin", "Manager"] },
+  { id: "quotations", path: "/quotations", icon: "fas fa-file-alt", label: "Quotations", roles: ["Admin", "Manager", "Staff", "Viewer"] },
+  { id: "credit-notes", path: "/credit-notes", icon: "fas fa-undo", label: "Credit Notes", roles: ["Admin", "Manager", "Viewer"] },
+  { id: "customers", path: "/customers", icon: "fas fa-address-book", label: "Customers", roles: ["Admin", "Manager", "Staff", "Viewer"] },
+  { id: "price-lists", path: "/price-lists", icon: "fas fa-tags", label: "Price Lists", roles: ["Admin", "Manager"] },
+  { id: "promotions", path: "/promotions", icon: "fas fa-gift", label: "Promotions", roles: ["Admin", "Manager"] },
+  { id: "purchase-orders", path: "/purchase-orders", icon: "fas fa-truck-loading", label: "Purchase Orders", roles: ["Admin", "Manager"] },
+  { id: "suppliers", path: "/suppliers", icon: "fas fa-truck", label: "Suppliers", roles: ["Admin", "Manager"] },
+  { id: "stock-takes", path: "/stock-takes", icon: "fas fa-clipboard-check", label: "Stock Takes", roles: ["Admin", "Manager", "Staff"] },
   { id: "reports", path: "/reports", icon: "fas fa-chart-bar", label: "Reports", roles: ["Admin", "Manager", "Viewer"] },
   { id: "users", path: "/users", icon: "fas fa-users", label: "User Management", roles: ["Admin"] },
+  { id: "tax-rates", path: "/tax-rates", icon: "fas fa-percent", label: "Tax Rates", roles: ["Admin"] },
+  { id: "exchange-rates", path: "/exchange-rates", icon: "fas fa-exchange-alt", label: "Exchange Rates", roles: ["Admin"] },
+  { id: "numbering", path: "/numbering", icon: "fas fa-hashtag", label: "Numbering", roles: ["Admin"] },
+  { id: "company-profile", path: "/company-profile", icon: "fas fa-building", label: "Company Profile", roles: ["Admin"] },
+  { id: "settings", path: "/settings", icon: "fas fa-cog", label: "Settings", roles: ["Admin"] },
   { id: "activity-logs", path: "/activity-logs", icon: "fas fa-history", label: "Activity Logs", roles: ["Admin", "Manager"] },
 ];
 
@@ -0,0 +1,69 @@
+import { Input } from "@/components/ui/input";
+
+export const variantKey = (size: string, color: string) => `${size}|${color}`;
+
+interface VariantStockGridProps {
+  sizes: string[];
+  colors: string[];
+  value: Record<string, number>;
+  onChange: (value: Record<string, number>) => void;
+}
+
+/**
+ * Size x color matrix for entering stock per variant.
+ * Values are keyed by `variantKey(size, color)`; missing cells count as 0.
+ */
+export function VariantStockGrid({ sizes, colors, value, onChange }: VariantStockGridProps) {
+  if (sizes.length === 0 || colors.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Select at least one size and one color to enter stock per variant.
+      </p>
+    );
+  }
+
+  const total = sizes.reduce(
+    (sum, size) => sum + colors.reduce((colorSum, color) => colorSum + (value[variantKey(size, color)] || 0), 0),
+    0
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border">
+            <th className="px-2 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Color</th>
+            {sizes.map((size) => (
+              <th key={size} className="px-2 py-2 text-left text-xs font-medium text-muted-foreground uppercase">{size}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {colors.map((color) => (
+            <tr key={color}>
+              <td className="px-2 py-2 font-medium text-foreground capitalize">{color}</td>
+              {sizes.map((size) => {
+                const key = variantKey(size, color);
+                return (
+                  <td key={key} className="px-2 py-2">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={value[key] ?? 0}
+                      onChange={(e) => onChange({ ...value, [key]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 h-8 text-sm"
+                      data-testid={`input-variant-${size}-${color}`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-muted-foreground mt-2">
+        Total stock across variants: <span className="font-medium text-foreground">{total}</span>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { isJobFinished } from "@shared/jobs";
+import type { JobSummary } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 1000;
+
+// Follows a background job, polling until it completes or fails
+export function useJob(jobId: string | null) {
+  const { data } = useQuery<JobSummary>({
+    queryKey: [`/api/jobs/${jobId}`],
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const job = query.state.data;
+      return job && isJobFinished(job.status) ? false : POLL_INTERVAL_MS;
+    },
+  });
+
+  return jobId ? data : undefined;
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { defaultSettings, type AppSettings } from "@shared/settings";
+
+export function useSettings() {
+  const { data, isLoading } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  return {
+    settings: data || defaultSettings,
+    isLoading,
+  };
+}
@@ -0,0 +1,18 @@
+import { apiRequest } from "@/lib/queryClient";
+import type { CreditNoteReason } from "@shared/schema";
+
+export const creditNoteReasons: CreditNoteReason[] = ["Return", "Damaged", "Wrong Item", "Pricing Error", "Other"];
+
+// Damaged goods are usually written off, so they default to not going back into stock
+export const restocksByDefault = (reason: CreditNoteReason): boolean => reason !== "Damaged";
+
+export async function downloadCreditNotePDF(creditNote: { id: string; creditNoteNumber: string }): Promise<void> {
+  const response = await apiRequest("POST", `/api/credit-notes/${creditNote.id}/pdf`);
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `credit-note-${creditNote.creditNoteNumber}.pdf`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -3,22 +3,13 @@
  * Centralized formatters to avoid code duplication
  */
 
+import { BASE_CURRENCY, formatMoney } from "@shared/currency";
+
 /**
- * Format number as currency (USD)
+ * Format number as currency (base currency unless an invoice currency is given)
  */
-export const formatCurrency = (amount: number | string): string => {
-  const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-  
-  if (isNaN(numAmount)) {
-    return '$0.00';
-  }
-
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(numAmount);
+export const formatCurrency = (amount: number | string, currency?: string | null): string => {
+  return formatMoney(amount, currency || BASE_CURRENCY);
 };
 
 /**
@@ -0,0 +1,10 @@
+import type { PaymentMethod, PaymentStatus } from "@shared/schema";
+
+export const paymentStatusStyles: Record<PaymentStatus, string> = {
+  Unpaid: "bg-muted text-muted-foreground",
+  "Partially Paid": "bg-blue-100 text-blue-800",
+  Paid: "bg-accent/10 text-accent",
+  Overdue: "bg-destructive/10 text-destructive",
+};
+
+export const paymentMethods: PaymentMethod[] = ["Cash", "Card", "Bank Transfer", "Cheque", "Mobile Money", "Other"];
@@ -0,0 +1,96 @@
+import { BrowserQRCodeReader, BrowserBarcodeReader } from "@zxing/library";
+import Tesseract from "tesseract.js";
+import type { ProductWithVariants } from "@shared/schema";
+
+export type ProductScanResult =
+  | { status: "found"; product: ProductWithVariants; scanMethod: string }
+  | { status: "not-found"; decodedText: string }
+  | { status: "unreadable" };
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Failed to load image"));
+      img.src = e.target?.result as string;
+    };
+    reader.onerror = () => reject(new Error("Failed to read the image file"));
+    reader.readAsDataURL(file);
+  });
+
+// Read a product ID from a label photo: QR code first, then the barcode, then OCR on the text printed under it
+const decodeProductId = async (img: HTMLImageElement, onOcrStart?: () => void): Promise<{ decodedText: string; scanMethod: string } | null> => {
+  // Step 1: Try QR code reader first
+  try {
+    const qrCodeReader = new BrowserQRCodeReader();
+    const result = await qrCodeReader.decodeFromImageElement(img);
+    console.log("✓ QR code successfully read:", result.getText());
+    return { decodedText: result.getText(), scanMethod: "QR code scan" };
+  } catch (qrError) {
+    console.log("✗ QR code not readable, trying barcode...");
+  }
+
+  // Step 2: If QR fails, try to read the barcode itself
+  try {
+    const barcodeReader = new BrowserBarcodeReader();
+    const result = await barcodeReader.decodeFromImageElement(img);
+    console.log("✓ Barcode successfully read:", result.getText());
+    return { decodedText: result.getText(), scanMethod: "barcode scan" };
+  } catch (barcodeError) {
+    console.log("✗ Barcode not readable, trying OCR for product ID text...");
+  }
+
+  // Step 3: If barcode is not readable, use OCR to read the product ID text printed under the barcode
+  try {
+    onOcrStart?.();
+
+    const { data: { text } } = await Tesseract.recognize(
+      img,
+      'eng',
+      {
+        logger: (m) => console.log('OCR Progress:', m)
+      }
+    );
+
+    // Extract product ID from OCR text (preserve hyphens, remove other whitespace)
+    const cleanedText = text.trim().replace(/\s+/g, '');
+    // Look for patterns like product IDs (alphanumeric sequences with optional hyphens)
+    const productIdMatch = cleanedText.match(/[A-Z0-9][-A-Z0-9]{2,}/i);
+
+    if (productIdMatch) {
+      console.log("✓ Product ID text successfully read via OCR:", productIdMatch[0]);
+      return { decodedText: productIdMatch[0], scanMethod: "OCR text recognition (product ID under barcode)" };
+    }
+    console.log("✗ No product ID found in OCR text");
+  } catch (ocrError) {
+    console.error("✗ OCR error:", ocrError);
+  }
+
+  return null;
+};
+
+/**
+ * Decode a product label photo and look the product up by its product ID.
+ * Shared by invoice creation and stock takes so both accept the same labels.
+ */
+export async function scanProductImage(file: File, options?: { onOcrStart?: () => void }): Promise<ProductScanResult> {
+  const img = await loadImage(file);
+  const decoded = await decodeProductId(img, options?.onOcrStart);
+  if (!decoded) {
+    return { status: "unreadable" };
+  }
+
+  // Look up the product by productId
+  const response = await fetch(`/api/products/by-product-id/${encodeURIComponent(decoded.decodedText)}`, {
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    return { status: "not-found", decodedText: decoded.decodedText };
+  }
+
+  const product = await response.json();
+  return { status: "found", product, scanMethod: decoded.scanMethod };
+}
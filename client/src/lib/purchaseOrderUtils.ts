@@ -0,0 +1,16 @@
+export const purchaseOrderStatusStyles: Record<string, string> = {
+  Draft: "bg-muted text-muted-foreground",
+  Ordered: "bg-blue-100 text-blue-800",
+  "Partially Received": "bg-amber-100 text-amber-800",
+  Received: "bg-accent/10 text-accent",
+  Cancelled: "bg-destructive/10 text-destructive",
+};
+
+// Open orders are overdue once the whole expected delivery day has passed
+export function isPurchaseOrderOverdue(purchaseOrder: { status: string | null; expectedDeliveryDate: string | Date | null }): boolean {
+  if (!purchaseOrder.expectedDeliveryDate) return false;
+  if (!['Ordered', 'Partially Received'].includes(purchaseOrder.status || '')) return false;
+  const endOfExpectedDay = new Date(purchaseOrder.expectedDeliveryDate);
+  endOfExpectedDay.setHours(23, 59, 59, 999);
+  return endOfExpectedDay < new Date();
+}
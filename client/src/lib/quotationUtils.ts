@@ -0,0 +1,33 @@
+import { apiRequest } from "@/lib/queryClient";
+
+export const quotationStatusStyles: Record<string, string> = {
+  Open: "bg-muted text-muted-foreground",
+  Sent: "bg-blue-100 text-blue-800",
+  Converted: "bg-accent/10 text-accent",
+  Cancelled: "bg-destructive/10 text-destructive",
+  Expired: "bg-amber-100 text-amber-800",
+};
+
+// Open and sent quotations lapse once the whole validity day has passed
+export function isQuotationExpired(quotation: { status: string; validUntil: string | Date }): boolean {
+  if (!['Open', 'Sent'].includes(quotation.status)) return false;
+  const endOfValidDay = new Date(quotation.validUntil);
+  endOfValidDay.setHours(23, 59, 59, 999);
+  return endOfValidDay < new Date();
+}
+
+// Status shown to users; expiry is derived from the validity date rather than stored
+export function quotationDisplayStatus(quotation: { status: string; validUntil: string | Date }): string {
+  return isQuotationExpired(quotation) ? "Expired" : quotation.status;
+}
+
+export async function downloadQuotationPDF(quotation: { id: string; quotationNumber: string }): Promise<void> {
+  const response = await apiRequest("POST", `/api/quotations/${quotation.id}/pdf`);
+  const blob = await response.blob();
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `quotation-${quotation.quotationNumber}.pdf`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
@@ -0,0 +1,5 @@
+export const stockTakeStatusStyles: Record<string, string> = {
+  "In Progress": "bg-amber-100 text-amber-800",
+  Approved: "bg-accent/10 text-accent",
+  Cancelled: "bg-destructive/10 text-destructive",
+};
@@ -0,0 +1,29 @@
+import type { StockShortage } from "@shared/schema";
+
+export function availableQuantity(stock: { quantity: number; reservedQuantity?: number | null }): number {
+  return Math.max(stock.quantity - (stock.reservedQuantity || 0), 0);
+}
+
+// Mirrors the server: low at the product's reorder point, or at the shop-wide threshold if higher
+export function isLowStock(available: number, reorderPoint: number, lowStockThreshold = 0): boolean {
+  return available <= Math.max(reorderPoint, lowStockThreshold);
+}
+
+// Stock conflicts come back as 409 with a per-line report, surfaced by apiRequest as "409: {json}"
+export function getStockShortages(error: Error): StockShortage[] | null {
+  const match = /^409: ([\s\S]*)$/.exec(error.message);
+  if (!match) return null;
+
+  try {
+    const body = JSON.parse(match[1]);
+    return Array.isArray(body.shortages) ? body.shortages : null;
+  } catch {
+    return null;
+  }
+}
+
+export function describeStockShortages(shortages: StockShortage[]): string {
+  return shortages
+    .map(s => `${s.productName}${s.sku ? ` (${s.sku})` : ""}: requested ${s.requested}, available ${s.available}`)
+    .join("; ");
+}
@@ -0,0 +1,5 @@
+// "20%" style label for a stored decimal rate such as "0.2000"
+export const formatTaxRate = (rate: string | number): string => {
+  const numRate = typeof rate === 'string' ? parseFloat(rate) : rate;
+  return `${parseFloat(((numRate || 0) * 100).toFixed(2))}%`;
+};
@@ -40,7 +40,9 @@ export default function ActivityLogs() {
     const icons = {
       Products: 'fas fa-box text-accent',
       Invoices: 'fas fa-file-invoice text-primary',
+      Customers: 'fas fa-address-book text-blue-600',
       Users: 'fas fa-users text-purple-500',
+      Purchasing: 'fas fa-truck text-amber-600',
       Inventory: 'fas fa-exclamation-triangle text-destructive',
       System: 'fas fa-cog text-muted-foreground',
     };
@@ -51,7 +53,9 @@ export default function ActivityLogs() {
     const colors = {
       Products: "bg-accent/10 text-accent",
       Invoices: "bg-primary/10 text-primary",
+      Customers: "bg-blue-100 text-blue-800",
       Users: "bg-purple-100 text-purple-600",
+      Purchasing: "bg-amber-100 text-amber-800",
       Inventory: "bg-destructive/10 text-destructive",
       System: "bg-muted text-muted-foreground",
     };
@@ -85,8 +89,11 @@ export default function ActivityLogs() {
               <SelectItem value="all">All Activities</SelectItem>
               <SelectItem value="Products">Product Activities</SelectItem>
               <SelectItem value="Invoices">Invoice Activities</SelectItem>
+              <SelectItem value="Customers">Customer Activities</SelectItem>
               <SelectItem value="Users">User Activities</SelectItem>
+              <SelectItem value="Purchasing">Purchasing Activities</SelectItem>
               <SelectItem value="Inventory">Inventory Activities</SelectItem>
+              <SelectItem value="System">System Activities</SelectItem>
             </SelectContent>
           </Select>
           
@@ -171,9 +178,18 @@ export default function ActivityLogs() {
                           <p className="text-xs text-muted-foreground mt-1">
                             by {log.user.firstName && log.user.lastName ? 
                                 `${log.user.firstName} ${log.user.lastName}` : 
-                                log.user.email}
+                                log.user.username}
                           </p>
                         )}
+                        {Array.isArray(log.details?.stockDeltas) && log.details.stockDeltas.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1" data-testid={`stock-deltas-${log.id}`}>
+                            {log.details.stockDeltas.map((delta: any) => (
+                              <Badge key={delta.variantId || delta.productId} variant="outline" className="text-xs font-normal">
+                                {delta.sku || delta.productName}: {delta.quantity > 0 ? `+${delta.quantity}` : delta.quantity}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <Button variant="ghost" size="icon" className="opacity-0 group-hover:opacity-100">
                         <i className="fas fa-ellipsis-h w-4 h-4"></i>
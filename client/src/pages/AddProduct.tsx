@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { z } from "zod";
 import { Card, CardContent } from "@/components/ui/card";
@@ -12,9 +12,12 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { VariantStockGrid, variantKey } from "@/components/VariantStockGrid";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatTaxRate } from "@/lib/taxUtils";
+import type { TaxRatesResponse } from "@shared/schema";
 
 const addProductSchema = z.object({
   productId: z.string().min(1, "Product ID is required"),
@@ -22,18 +25,25 @@ const addProductSchema = z.object({
   color: z.string().min(1, "At least one color is required"),
   size: z.array(z.string()).min(1, "At least one size is required"),
   quantity: z.number().min(0, "Quantity must be 0 or greater"),
+  reorderPoint: z.number().int().min(0, "Reorder point must be 0 or greater"),
+  reorderQuantity: z.number().int().min(0, "Reorder quantity must be 0 or greater"),
   price: z.number().min(0, "Price must be 0 or greater"),
   manufacturer: z.string().optional(),
   category: z.string().optional(),
+  taxRateId: z.string().optional(),
   description: z.string().optional(),
 });
 
+// Select value for "no tax class of its own"; sent to the server as null
+const INHERIT_TAX_CLASS = "inherit";
+
 type AddProductForm = z.infer<typeof addProductSchema>;
 
 export default function AddProduct() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [uploadedImageUrl, setUploadedImageUrl] = useState<string>("");
+  const [variantQuantities, setVariantQuantities] = useState<Record<string, number>>({});
 
   const form = useForm<AddProductForm>({
     resolver: zodResolver(addProductSchema),
@@ -43,15 +53,30 @@ export default function AddProduct() {
       color: "",
       size: [],
       quantity: 0,
+      reorderPoint: 5,
+      reorderQuantity: 0,
       price: 0,
       manufacturer: "",
       category: "",
+      taxRateId: INHERIT_TAX_CLASS,
       description: "",
     },
   });
 
+  const { data: taxData } = useQuery<TaxRatesResponse>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const watchedSizes = form.watch("size") || [];
+  const watchedColors = (form.watch("color") || "").split(',').map(c => c.trim()).filter(c => c.length > 0);
+  const hasVariants = watchedSizes.length > 0 && watchedColors.length > 0;
+  const variantTotal = watchedSizes.reduce(
+    (sum, size) => sum + watchedColors.reduce((colorSum, color) => colorSum + (variantQuantities[variantKey(size, color)] || 0), 0),
+    0
+  );
+
   const createProductMutation = useMutation({
-    mutationFn: async (data: Omit<AddProductForm, 'price' | 'color'> & { price: string; color: string[]; imageUrl?: string }) => {
+    mutationFn: async (data: Omit<AddProductForm, 'price' | 'color' | 'taxRateId'> & { price: string; color: string[]; taxRateId: string | null; imageUrl?: string; variants: { size: string; color: string; quantity: number }[] }) => {
       const response = await apiRequest("POST", "/api/products", data);
       return response.json();
     },
@@ -165,12 +190,21 @@ export default function AddProduct() {
       // Convert comma-separated color string to array
       const colorArray = data.color.split(',').map(c => c.trim()).filter(c => c.length > 0);
       
+      // One variant per size/color combination; product quantity is their sum
+      const variants = data.size.flatMap(size => colorArray.map(color => ({
+        size,
+        color,
+        quantity: variantQuantities[variantKey(size, color)] || 0,
+      })));
+      
       const productData = {
         ...data,
         color: colorArray,
         price: data.price.toString(), // Convert price to string for decimal field
-        quantity: Math.floor(data.quantity), // Ensure quantity is integer
+        taxRateId: data.taxRateId && data.taxRateId !== INHERIT_TAX_CLASS ? data.taxRateId : null,
+        quantity: variants.reduce((sum, variant) => sum + variant.quantity, 0),
         imageUrl: uploadedImageUrl,
+        variants,
       };
 
       const product = await createProductMutation.mutateAsync(productData);
@@ -358,11 +392,16 @@ export default function AddProduct() {
                           placeholder="0" 
                           min="0"
                           {...field}
+                          value={hasVariants ? variantTotal : field.value}
+                          disabled={hasVariants}
                           onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                           data-testid="input-quantity"
                           className="h-12 text-base"
                         />
                       </FormControl>
+                      {hasVariants && (
+                        <p className="text-xs text-muted-foreground mt-1">Calculated from stock per variant below</p>
+                      )}
                       <FormMessage />
                     </FormItem>
                   )}
@@ -370,6 +409,76 @@ export default function AddProduct() {
               </div>
               </div>
 
+              {/* Stock by Variant */}
+              <div className="bg-background/50 rounded-xl border p-6">
+                <h4 className="text-xl font-semibold text-foreground mb-6 flex items-center gap-3">
+                  <div className="w-8 h-8 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <i className="fas fa-th text-primary text-sm"></i>
+                  </div>
+                  Stock by Size &amp; Color
+                </h4>
+                <VariantStockGrid
+                  sizes={watchedSizes}
+                  colors={watchedColors}
+                  value={variantQuantities}
+                  onChange={setVariantQuantities}
+                />
+              </div>
+
+              {/* Reordering */}
+              <div className="bg-background/50 rounded-xl border p-6">
+                <h4 className="text-xl font-semibold text-foreground mb-6 flex items-center gap-3">
+                  <div className="w-8 h-8 bg-primary/10 rounded-lg flex items-center justify-center">
+                    <i className="fas fa-redo text-primary text-sm"></i>
+                  </div>
+                  Reordering
+                </h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="reorderPoint"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base font-medium">Reorder Point</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid="input-reorder-point"
+                            className="h-12 text-base"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground mt-1">Flagged as low stock at or below this many available units</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="reorderQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-base font-medium">Reorder Quantity</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="0"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            data-testid="input-reorder-quantity"
+                            className="h-12 text-base"
+                          />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground mt-1">Minimum units per order; leave at 0 to size orders from recent sales</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
               {/* Pricing & Category */}
               <div className="bg-background/50 rounded-xl border p-6">
                 <h4 className="text-xl font-semibold text-foreground mb-6 flex items-center gap-3">
@@ -433,7 +542,7 @@ export default function AddProduct() {
                 />
               </div>
               
-              <div className="grid grid-cols-1 gap-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <FormField
                   control={form.control}
                   name="category"
@@ -461,6 +570,35 @@ export default function AddProduct() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="taxRateId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-base font-medium flex items-center gap-2">
+                        <i className="fas fa-percent text-muted-foreground"></i>
+                        Tax Class
+                      </FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-tax-class" className="h-12 text-base">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={INHERIT_TAX_CLASS}>Category / default rate</SelectItem>
+                          {taxData?.taxRates.filter(rate => rate.isActive !== false).map((rate) => (
+                            <SelectItem key={rate.id} value={rate.id}>
+                              {rate.name} ({formatTaxRate(rate.rate)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
               </div>
 
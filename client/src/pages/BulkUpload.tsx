@@ -1,186 +1,237 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { JobProgress } from "@/components/JobProgress";
+import { BulkImageUpload } from "@/components/BulkImageUpload";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useJob } from "@/hooks/useJob";
+import { queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { toCsv } from "@shared/csv";
+import { isJobFinished } from "@shared/jobs";
+import type { JobSummary } from "@shared/schema";
+import {
+  defaultProductImportOptions,
+  productImportFields,
+  productImportFieldLabels,
+  productImportModes,
+  productImportModeLabels,
+  productImportTemplate,
+  requiredImportFields,
+  updatableImportFields,
+  type ProductImportAction,
+  type ProductImportField,
+  type ProductImportMapping,
+  type ProductImportMode,
+  type ProductImportOptions,
+  type ProductImportPreview,
+  type ProductImportResult,
+  type QuantityImportMode,
+} from "@shared/productImport";
+
+// Columns shown in the preview table; the rest are still imported
+const previewColumns: ProductImportField[] = ["productId", "productName", "color", "size", "quantity", "price", "manufacturer", "category"];
+
+const NOT_MAPPED = "none";
+
+const actionBadges: Record<ProductImportAction, { label: string; className: string }> = {
+  create: { label: "New", className: "bg-green-100 text-green-800" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800" },
+  unchanged: { label: "No change", className: "bg-muted text-muted-foreground" },
+  skip: { label: "Skipped", className: "bg-destructive text-destructive-foreground" },
+};
+
+const isSupportedFile = (name: string) => /\.(csv|xlsx)$/i.test(name);
+
+type ImportRequest = {
+  file: File;
+  options: ProductImportOptions;
+  // Sent once the user has changed them; otherwise the server picks the first sheet and matches headers
+  mapping?: ProductImportMapping;
+  sheet?: string | null;
+};
+
+// Posts the file and its settings as multipart form data
+const postImport = async (url: string, { file, options, mapping, sheet }: ImportRequest) => {
+  const formData = new FormData();
+  formData.append("file", file);
+  formData.append("mode", options.mode);
+  formData.append("overwrite", JSON.stringify(options.overwrite));
+  formData.append("quantityMode", options.quantityMode);
+  if (mapping) {
+    formData.append("mapping", JSON.stringify(mapping));
+  }
+  if (sheet) {
+    formData.append("sheet", sheet);
+  }
+  const response = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+  return response.json();
+};
 
 export default function BulkUpload() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadResults, setUploadResults] = useState<any>(null);
-  const [isProcessing, setIsProcessing] = useState(false);
-
-  const bulkUploadMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await fetch("/api/products/bulk-upload", {
-        method: "POST",
-        body: formData,
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to upload");
-      }
-      
-      return response.json();
-    },
-    onSuccess: (results) => {
-      setUploadResults(results);
-      setIsProcessing(false);
+  const [mapping, setMapping] = useState<ProductImportMapping | undefined>(undefined);
+  const [options, setOptions] = useState<ProductImportOptions>(defaultProductImportOptions);
+  const [sheet, setSheet] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ProductImportPreview | null>(null);
+  const [results, setResults] = useState<ProductImportResult | null>(null);
+  const [importJobId, setImportJobId] = useState<string | null>(null);
+  const importJob = useJob(importJobId);
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false);
+
+  const handleError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
       toast({
-        title: "Upload Complete",
-        description: `${results.imported} products imported, ${results.duplicates.length} duplicates skipped`,
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (request: ImportRequest) =>
+      postImport("/api/products/bulk-upload/preview", request) as Promise<ProductImportPreview>,
+    onSuccess: (data) => {
+      setPreview(data);
     },
     onError: (error) => {
-      setIsProcessing(false);
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+      setPreview(null);
+      handleError(error, "Failed to read the file");
+    },
+  });
+
+  // The upload only queues the import; the rows are saved by a background job followed below
+  const importMutation = useMutation({
+    mutationFn: async () =>
+      postImport("/api/products/bulk-upload", { file: selectedFile!, options, mapping, sheet }) as Promise<JobSummary>,
+    onSuccess: (job) => {
+      setImportJobId(job.id);
+    },
+    onError: (error) => handleError(error, "Failed to upload products"),
+  });
+
+  useEffect(() => {
+    if (!importJob || !isJobFinished(importJob.status)) return;
+    setImportJobId(null);
+    if (importJob.status === "failed") {
       toast({
-        title: "Error",
-        description: "Failed to upload products",
+        title: "Import Failed",
+        description: importJob.error || "Failed to upload products",
         variant: "destructive",
       });
-    },
-  });
+      return;
+    }
+
+    const data = importJob.result as ProductImportResult;
+    setResults(data);
+    setPreview(null);
+    toast({
+      title: "Upload Complete",
+      description: `${data.created} created, ${data.updated} updated${data.skipped.length > 0 ? `, ${data.skipped.length} rows skipped` : ''}`,
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+  }, [importJob]);
+
+  const isImporting = importMutation.isPending || !!importJobId;
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      setUploadResults(null);
+    event.target.value = "";
+    if (!file) return;
+    if (!isSupportedFile(file.name)) {
+      toast({
+        title: "Error",
+        description: "Please upload a CSV or Excel (.xlsx) file",
+        variant: "destructive",
+      });
+      return;
     }
+    setSelectedFile(file);
+    setMapping(undefined);
+    setSheet(null);
+    setResults(null);
+    setShowErrorsOnly(false);
+    previewMutation.mutate({ file, options });
   };
 
-  const parseCSV = (csvText: string): any[] => {
-    const lines = csvText.split('\n');
-    const headers = lines[0].split(',').map(h => h.trim());
-    const products = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (!line) continue;
-
-      const values = line.split(',').map(v => v.trim());
-      const product: any = {};
-
-      headers.forEach((header, index) => {
-        const value = values[index] || '';
-        switch (header.toLowerCase()) {
-          case 'productid':
-          case 'product_id':
-            product.productId = value;
-            break;
-          case 'productname':
-          case 'product_name':
-            product.productName = value;
-            break;
-          case 'color':
-            product.color = value;
-            break;
-          case 'price':
-            product.price = parseFloat(value) || 0;
-            break;
-          case 'quantity':
-            product.quantity = parseInt(value) || 0;
-            break;
-          case 'size':
-            product.size = value;
-            break;
-          case 'category':
-            product.category = value;
-            break;
-          case 'description':
-            product.description = value;
-            break;
-        }
-      });
-
-      if (product.productId && product.productName) {
-        products.push(product);
-      }
+  // Changing a column re-runs the preview with the full mapping as it now stands
+  const updateMapping = (field: ProductImportField, value: string) => {
+    if (!selectedFile || !preview) return;
+    const next: ProductImportMapping = { ...preview.mapping };
+    if (value === NOT_MAPPED) {
+      delete next[field];
+    } else {
+      next[field] = parseInt(value);
     }
-
-    return products;
+    setMapping(next);
+    previewMutation.mutate({ file: selectedFile, options, mapping: next, sheet });
   };
 
-  const handleUpload = async () => {
+  // Another sheet has its own headers, so its columns are matched afresh
+  const selectSheet = (name: string) => {
     if (!selectedFile) return;
+    setSheet(name);
+    setMapping(undefined);
+    previewMutation.mutate({ file: selectedFile, options, sheet: name });
+  };
 
-    setIsProcessing(true);
-    setUploadProgress(0);
-
-    try {
-      const text = await selectedFile.text();
-      let products: any[] = [];
-
-      if (selectedFile.name.endsWith('.csv')) {
-        products = parseCSV(text);
-      } else {
-        toast({
-          title: "Error",
-          description: "Please upload a CSV file",
-          variant: "destructive",
-        });
-        setIsProcessing(false);
-        return;
-      }
-
-      if (products.length === 0) {
-        toast({
-          title: "Error",
-          description: "No valid products found in the file",
-          variant: "destructive",
-        });
-        setIsProcessing(false);
-        return;
-      }
-
-      // Simulate progress
-      const interval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(interval);
-            return 90;
-          }
-          return prev + 10;
-        });
-      }, 200);
-
-      await bulkUploadMutation.mutateAsync(products);
-      setUploadProgress(100);
-      clearInterval(interval);
-
-    } catch (error) {
-      setIsProcessing(false);
-      setUploadProgress(0);
+  // Options change what each row does, so the preview is worked out again
+  const updateOptions = (changes: Partial<ProductImportOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    if (selectedFile && !results) {
+      previewMutation.mutate({ file: selectedFile, options: next, mapping, sheet });
     }
   };
 
-  const downloadTemplate = () => {
-    const csvContent = `productId,productName,color,price,quantity,size,category,description
-F00001,Sample Dress,Red,59.99,10,M,Dresses,A beautiful red dress
-F00002,Sample Top,Blue,29.99,15,L,Tops,Comfortable blue top`;
+  const toggleOverwrite = (field: ProductImportField, checked: boolean) => {
+    updateOptions({
+      overwrite: checked
+        ? updatableImportFields.filter((candidate) => candidate === field || options.overwrite.includes(candidate))
+        : options.overwrite.filter((candidate) => candidate !== field)
+    });
+  };
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
+  const reset = () => {
+    setSelectedFile(null);
+    setMapping(undefined);
+    setSheet(null);
+    setPreview(null);
+    setResults(null);
+  };
+
+  const downloadTemplate = () => {
+    const blob = new Blob([toCsv(productImportTemplate)], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -189,34 +240,43 @@ F00002,Sample Top,Blue,29.99,15,L,Tops,Comfortable blue top`;
     window.URL.revokeObjectURL(url);
   };
 
+  const visibleRows = preview
+    ? preview.rows.filter((row) => !showErrorsOnly || row.errors.length > 0)
+    : [];
+  const requiredFields: ProductImportField[] = options.mode === "update" ? ["productId"] : requiredImportFields;
+  const applicableCount = preview ? preview.createCount + preview.updateCount : 0;
+
   return (
-    <div className="max-w-4xl mx-auto">
+    <div className="max-w-6xl mx-auto space-y-6">
       <Card>
         <CardContent className="p-6">
           <h3 className="text-lg font-semibold text-foreground mb-6">Bulk Upload Products</h3>
-          
+
           {/* Upload Instructions */}
           <Alert className="mb-6">
             <i className="fas fa-info-circle"></i>
             <AlertDescription>
               <h4 className="font-medium mb-2">Upload Instructions</h4>
               <ul className="space-y-1 text-sm">
-                <li>• Upload CSV files with product data</li>
-                <li>• Required columns: productId, productName, color, price, quantity, size</li>
-                <li>• Optional columns: category, description</li>
-                <li>• Duplicate product IDs will be skipped</li>
+                <li>• Upload a CSV or Excel (.xlsx) file with one product per row; any header names can be matched to fields below</li>
+                <li>• In a workbook with several sheets, choose the sheet to import once the file is read</li>
+                <li>• Required for new products: {requiredImportFields.map((field) => productImportFieldLabels[field]).join(', ')}; updates only need the Product ID</li>
+                <li>• Colors and sizes can list several values in one cell, e.g. "Red, Blue" or "S|M|L"</li>
+                <li>• Empty cells never overwrite an existing product's values</li>
+                <li>• Every row is checked before anything is saved; rows with errors are skipped</li>
+                <li>• The import runs in the background, so it carries on if you leave this page</li>
               </ul>
             </AlertDescription>
           </Alert>
 
           {/* File Upload Area */}
-          {!isProcessing && !uploadResults && (
+          {!results && !isImporting && (
             <div className="border-2 border-dashed border-border rounded-lg p-8 text-center mb-6">
-              <input 
-                type="file" 
-                accept=".csv" 
+              <input
+                type="file"
+                accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
                 onChange={handleFileSelect}
-                className="hidden" 
+                className="hidden"
                 id="bulk-upload-file"
                 data-testid="input-file-upload"
               />
@@ -225,23 +285,25 @@ F00002,Sample Top,Blue,29.99,15,L,Tops,Comfortable blue top`;
                   <i className="fas fa-file-csv text-primary text-2xl"></i>
                 </div>
                 <p className="text-lg font-medium text-foreground">
-                  {selectedFile ? selectedFile.name : "Drop your CSV file here"}
+                  {selectedFile ? selectedFile.name : "Drop your CSV or Excel file here"}
                 </p>
                 <p className="text-sm text-muted-foreground mt-2">
-                  {selectedFile ? "File selected - click upload to proceed" : "or click to browse files"}
+                  {previewMutation.isPending
+                    ? "Checking rows..."
+                    : selectedFile ? "Click to choose a different file" : "or click to browse files"}
                 </p>
               </label>
             </div>
           )}
 
           {/* Sample Template */}
-          <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center justify-between">
             <div>
               <h4 className="text-sm font-medium text-foreground">Need a template?</h4>
               <p className="text-sm text-muted-foreground">Download our sample CSV file to get started</p>
             </div>
-            <Button 
-              variant="outline" 
+            <Button
+              variant="outline"
               onClick={downloadTemplate}
               data-testid="button-download-template"
             >
@@ -249,91 +311,286 @@ F00002,Sample Top,Blue,29.99,15,L,Tops,Comfortable blue top`;
               Download Template
             </Button>
           </div>
+        </CardContent>
+      </Card>
+
+      {/* Import Options */}
+      {!results && (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-foreground">Import Options</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Existing product IDs</Label>
+                <Select
+                  value={options.mode}
+                  onValueChange={(value) => updateOptions({ mode: value as ProductImportMode })}
+                  disabled={previewMutation.isPending}
+                >
+                  <SelectTrigger data-testid="select-import-mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {productImportModes.map((mode) => (
+                      <SelectItem key={mode} value={mode}>{productImportModeLabels[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {options.mode !== "create" && (
+                <div className="space-y-1">
+                  <Label>Quantity on existing products</Label>
+                  <Select
+                    value={options.quantityMode}
+                    onValueChange={(value) => updateOptions({ quantityMode: value as QuantityImportMode })}
+                    disabled={previewMutation.isPending}
+                  >
+                    <SelectTrigger data-testid="select-quantity-mode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="set">Set to the file's quantity</SelectItem>
+                      <SelectItem value="add">Add the file's quantity to current stock</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            {options.mode !== "create" && (
+              <div>
+                <Label>Fields to overwrite</Label>
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2 mt-2">
+                  {updatableImportFields.map((field) => (
+                    <div key={field} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`overwrite-${field}`}
+                        checked={options.overwrite.includes(field)}
+                        onCheckedChange={(checked) => toggleOverwrite(field, checked === true)}
+                        disabled={previewMutation.isPending}
+                        data-testid={`checkbox-overwrite-${field}`}
+                      />
+                      <Label htmlFor={`overwrite-${field}`} className="font-normal">{productImportFieldLabels[field]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
-          {/* Upload Progress */}
-          {isProcessing && (
-            <div className="bg-muted rounded-lg p-4 mb-6">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium text-foreground">Uploading products...</span>
-                <span className="text-sm text-muted-foreground">{uploadProgress}%</span>
+      {/* Column Mapping */}
+      {preview && (
+        <Card>
+          <CardContent className="p-6">
+            <h3 className="text-lg font-semibold text-foreground mb-1">Columns</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Matched from the file's headers; change any that were picked wrongly
+            </p>
+            {preview.sheets.length > 1 && (
+              <div className="space-y-1 mb-4 max-w-xs">
+                <Label>Sheet</Label>
+                <Select
+                  value={preview.sheet ?? undefined}
+                  onValueChange={selectSheet}
+                  disabled={previewMutation.isPending}
+                >
+                  <SelectTrigger data-testid="select-import-sheet">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {preview.sheets.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <Progress value={uploadProgress} className="mb-2" />
-              <p className="text-xs text-muted-foreground">
-                Processing {selectedFile?.name}...
+            )}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {productImportFields.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>
+                    {productImportFieldLabels[field]}
+                    {requiredFields.includes(field) && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={preview.mapping[field] !== undefined ? String(preview.mapping[field]) : NOT_MAPPED}
+                    onValueChange={(value) => updateMapping(field, value)}
+                    disabled={previewMutation.isPending}
+                  >
+                    <SelectTrigger data-testid={`select-mapping-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {preview.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {preview.unmappedFields.length > 0 && (
+              <p className="text-sm text-destructive mt-4" data-testid="text-unmapped-fields">
+                Choose a column for {preview.unmappedFields.map((field) => productImportFieldLabels[field]).join(', ')}
               </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <Card>
+          <CardContent className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-foreground">Preview</h3>
+                <p className="text-sm text-muted-foreground" data-testid="text-preview-summary">
+                  {preview.createCount} new, {preview.updateCount} to update
+                  {preview.unchangedCount > 0 && `, ${preview.unchangedCount} unchanged`}
+                  {preview.invalidCount > 0 && `, ${preview.invalidCount} will be skipped`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="show-errors-only"
+                  checked={showErrorsOnly}
+                  onCheckedChange={(checked) => setShowErrorsOnly(checked === true)}
+                  disabled={preview.invalidCount === 0}
+                />
+                <Label htmlFor="show-errors-only" className="font-normal">Only rows with errors</Label>
+              </div>
             </div>
-          )}
 
-          {/* Upload Results */}
-          {uploadResults && (
-            <div className="space-y-4 mb-6">
-              <Alert>
-                <i className="fas fa-check-circle text-accent"></i>
+            <div className="overflow-x-auto max-h-[32rem] overflow-y-auto border border-border rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Row</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase">Status</th>
+                    {previewColumns.map((field) => (
+                      <th key={field} className="px-3 py-2 text-left text-xs font-medium text-muted-foreground uppercase whitespace-nowrap">
+                        {productImportFieldLabels[field]}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {visibleRows.map((row) => (
+                    <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-destructive/10' : ''} data-testid={`row-import-preview-${row.rowNumber}`}>
+                      <td className="px-3 py-2 text-muted-foreground align-top">{row.rowNumber}</td>
+                      <td className="px-3 py-2 align-top">
+                        <div className="space-y-1">
+                          <Badge className={actionBadges[row.action].className}>{actionBadges[row.action].label}</Badge>
+                          {row.errors.map((message, index) => (
+                            <p key={index} className="text-xs text-destructive whitespace-nowrap">{message}</p>
+                          ))}
+                          {row.changes.map((change) => (
+                            <p key={change.field} className="text-xs text-foreground whitespace-nowrap">
+                              {productImportFieldLabels[change.field]}: <span className="text-muted-foreground line-through">{change.from || 'empty'}</span> → {change.to}
+                            </p>
+                          ))}
+                          {row.warnings.map((message, index) => (
+                            <p key={index} className="text-xs text-amber-700 whitespace-nowrap">{message}</p>
+                          ))}
+                        </div>
+                      </td>
+                      {previewColumns.map((field) => (
+                        <td key={field} className="px-3 py-2 text-foreground align-top max-w-[12rem] truncate" title={row.cells[field]}>
+                          {row.cells[field] || <span className="text-muted-foreground">-</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Import Progress */}
+      {importJob && (
+        <Card>
+          <CardContent className="p-6">
+            <JobProgress job={importJob} label={`Importing ${selectedFile?.name || "products"}`} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Upload Results */}
+      {results && (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <Alert>
+              <i className="fas fa-check-circle text-accent"></i>
+              <AlertDescription>
+                <span className="font-medium">Upload completed successfully!</span>
+                <p className="mt-1" data-testid="text-import-results">
+                  {results.created} created, {results.updated} updated
+                  {results.unchanged > 0 && `, ${results.unchanged} unchanged`}
+                  {results.skipped.length > 0 && `, ${results.skipped.length} rows skipped`}
+                </p>
+              </AlertDescription>
+            </Alert>
+
+            {results.skipped.length > 0 && (
+              <Alert variant="destructive">
+                <i className="fas fa-exclamation-triangle"></i>
                 <AlertDescription>
-                  <div className="flex items-center space-x-2">
-                    <span className="font-medium">Upload completed successfully!</span>
+                  <h5 className="font-medium mb-2">Skipped Rows</h5>
+                  <div className="space-y-1 text-sm max-h-48 overflow-y-auto">
+                    {results.skipped.map((row) => (
+                      <p key={row.rowNumber}>
+                        Row {row.rowNumber}{row.productId && ` (${row.productId})`}: {row.errors.join('; ')}
+                      </p>
+                    ))}
                   </div>
-                  <p className="mt-1">
-                    {uploadResults.imported} products imported
-                    {uploadResults.duplicates.length > 0 && `, ${uploadResults.duplicates.length} duplicates skipped`}
-                  </p>
                 </AlertDescription>
               </Alert>
+            )}
+          </CardContent>
+        </Card>
+      )}
 
-              {/* Error Details */}
-              {uploadResults.duplicates.length > 0 && (
-                <Alert variant="destructive">
-                  <i className="fas fa-exclamation-triangle"></i>
-                  <AlertDescription>
-                    <h5 className="font-medium mb-2">Duplicate Product IDs Skipped</h5>
-                    <div className="space-y-1 text-sm max-h-32 overflow-y-auto">
-                      {uploadResults.duplicates.map((productId: string, index: number) => (
-                        <p key={index}>Product ID: {productId}</p>
-                      ))}
-                    </div>
-                  </AlertDescription>
-                </Alert>
-              )}
-            </div>
-          )}
+      {/* Product Images */}
+      <BulkImageUpload />
 
-          {/* Action Buttons */}
-          <div className="flex items-center justify-end space-x-4">
-            <Button 
-              variant="outline"
-              onClick={() => navigate("/products")}
-              data-testid="button-back-to-products"
-            >
-              Back to Products
-            </Button>
-            
-            {!isProcessing && !uploadResults && (
-              <Button 
-                onClick={handleUpload}
-                disabled={!selectedFile || bulkUploadMutation.isPending}
-                data-testid="button-start-upload"
-              >
-                <i className="fas fa-upload mr-2"></i>
-                Start Upload
-              </Button>
-            )}
-            
-            {uploadResults && (
-              <Button 
-                onClick={() => {
-                  setSelectedFile(null);
-                  setUploadResults(null);
-                  setUploadProgress(0);
-                }}
-                data-testid="button-upload-more"
-              >
-                <i className="fas fa-plus mr-2"></i>
-                Upload More
-              </Button>
-            )}
-          </div>
-        </CardContent>
-      </Card>
+      {/* Action Buttons */}
+      <div className="flex items-center justify-end space-x-4">
+        <Button
+          variant="outline"
+          onClick={() => navigate("/products")}
+          data-testid="button-back-to-products"
+        >
+          Back to Products
+        </Button>
+
+        {preview && (
+          <Button
+            onClick={() => importMutation.mutate()}
+            disabled={applicableCount === 0 || previewMutation.isPending || isImporting}
+            data-testid="button-start-upload"
+          >
+            <i className="fas fa-upload mr-2"></i>
+            {isImporting ? "Importing..." : `Import ${applicableCount} Products`}
+          </Button>
+        )}
+
+        {results && (
+          <Button
+            onClick={reset}
+            data-testid="button-upload-more"
+          >
+            <i className="fas fa-plus mr-2"></i>
+            Upload More
+          </Button>
+        )}
+      </div>
     </div>
   );
 }
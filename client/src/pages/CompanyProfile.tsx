@@ -0,0 +1,377 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ObjectUploader } from "@/components/ObjectUploader";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { pdfTemplates, pdfTemplateLabels, pdfTemplateDescriptions } from "@shared/pdfTemplates";
+import type { CompanyProfile as CompanyProfileData } from "@shared/schema";
+
+const companyProfileFormSchema = z.object({
+  companyName: z.string().trim().min(1, "Company name is required"),
+  // One address line per row
+  address: z.string(),
+  phone: z.string(),
+  email: z.string().email("Enter a valid email").or(z.literal("")),
+  website: z.string(),
+  taxNumber: z.string(),
+  bankName: z.string(),
+  bankAccountName: z.string(),
+  bankAccountNumber: z.string(),
+  bankIban: z.string(),
+  bankSwift: z.string(),
+  invoiceTemplate: z.enum(pdfTemplates),
+  showProductImages: z.boolean(),
+  footerNote: z.string(),
+});
+
+type CompanyProfileForm = z.infer<typeof companyProfileFormSchema>;
+
+const toForm = (profile?: CompanyProfileData): CompanyProfileForm => ({
+  companyName: profile?.companyName || "",
+  address: profile?.addressLines.join("\n") || "",
+  phone: profile?.phone || "",
+  email: profile?.email || "",
+  website: profile?.website || "",
+  taxNumber: profile?.taxNumber || "",
+  bankName: profile?.bankName || "",
+  bankAccountName: profile?.bankAccountName || "",
+  bankAccountNumber: profile?.bankAccountNumber || "",
+  bankIban: profile?.bankIban || "",
+  bankSwift: profile?.bankSwift || "",
+  invoiceTemplate: profile?.invoiceTemplate || "classic",
+  showProductImages: profile?.showProductImages ?? true,
+  footerNote: profile?.footerNote || "",
+});
+
+const textFields: { name: keyof CompanyProfileForm; label: string; placeholder?: string }[][] = [
+  [
+    { name: "phone", label: "Phone" },
+    { name: "email", label: "Email" },
+  ],
+  [
+    { name: "website", label: "Website", placeholder: "www.example.com" },
+    { name: "taxNumber", label: "Tax / VAT Number" },
+  ],
+];
+
+const bankFields: { name: keyof CompanyProfileForm; label: string }[] = [
+  { name: "bankName", label: "Bank Name" },
+  { name: "bankAccountName", label: "Account Name" },
+  { name: "bankAccountNumber", label: "Account Number" },
+  { name: "bankIban", label: "IBAN" },
+  { name: "bankSwift", label: "SWIFT / BIC" },
+];
+
+export default function CompanyProfile() {
+  const { toast } = useToast();
+
+  const { data: profile, isLoading } = useQuery<CompanyProfileData>({
+    queryKey: ["/api/company-profile"],
+  });
+
+  const form = useForm<CompanyProfileForm>({
+    resolver: zodResolver(companyProfileFormSchema),
+    defaultValues: toForm(),
+  });
+
+  useEffect(() => {
+    if (profile) {
+      form.reset(toForm(profile));
+    }
+  }, [profile]);
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const saveProfileMutation = useMutation({
+    mutationFn: async (data: CompanyProfileForm) => {
+      const { address, ...rest } = data;
+      const response = await apiRequest("PUT", "/api/company-profile", {
+        ...rest,
+        addressLines: address.split("\n"),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Company profile saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/company-profile"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to save company profile"),
+  });
+
+  const setLogoMutation = useMutation({
+    mutationFn: async (logoUrl: string | null) => {
+      const response = await apiRequest("PUT", "/api/company-profile/logo", { logoUrl });
+      return response.json();
+    },
+    onSuccess: (_, logoUrl) => {
+      toast({
+        title: "Success",
+        description: logoUrl ? "Logo updated" : "Logo removed",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/company-profile"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to update logo"),
+  });
+
+  const handleGetUploadParameters = async () => {
+    const response = await apiRequest("POST", "/api/objects/upload");
+    const data = await response.json();
+    return {
+      method: "PUT" as const,
+      url: data.uploadURL,
+    };
+  };
+
+  const handleUploadComplete = (result: any) => {
+    if (result.successful && result.successful.length > 0) {
+      setLogoMutation.mutate(result.successful[0].uploadURL);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-40 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <p className="text-sm text-muted-foreground">
+        These details appear on invoices, quotations, credit notes and purchase orders
+      </p>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Logo</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row sm:items-center gap-6">
+          <div className="w-48 h-24 border border-dashed border-border rounded-md flex items-center justify-center bg-muted/30">
+            {profile?.logoPath ? (
+              <img src={profile.logoPath} alt="Company logo" className="max-w-full max-h-full object-contain" data-testid="img-company-logo" />
+            ) : (
+              <span className="text-sm text-muted-foreground">No logo</span>
+            )}
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">PNG or JPG, shown at the top of every invoice</p>
+            <div className="flex gap-2">
+              <ObjectUploader
+                maxNumberOfFiles={1}
+                maxFileSize={5242880}
+                onGetUploadParameters={handleGetUploadParameters}
+                onComplete={handleUploadComplete}
+              >
+                <i className="fas fa-upload mr-2"></i>
+                {profile?.logoPath ? "Replace Logo" : "Upload Logo"}
+              </ObjectUploader>
+              {profile?.logoPath && (
+                <Button
+                  variant="outline"
+                  onClick={() => setLogoMutation.mutate(null)}
+                  disabled={setLogoMutation.isPending}
+                  data-testid="button-remove-logo"
+                >
+                  Remove
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => saveProfileMutation.mutate(data))} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Company Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="companyName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Company Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} data-testid="input-company-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address (one line per row)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} data-testid="input-company-address" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {textFields.map((row, i) => (
+                <div key={i} className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {row.map(({ name, label, placeholder }) => (
+                    <FormField
+                      key={name}
+                      control={form.control}
+                      name={name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{label}</FormLabel>
+                          <FormControl>
+                            <Input placeholder={placeholder} {...field} value={field.value as string} data-testid={`input-company-${name}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Bank Details</CardTitle>
+              <p className="text-sm text-muted-foreground">Printed on invoices under "Payment Details"; leave empty to omit</p>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {bankFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} value={field.value as string} data-testid={`input-company-${name}`} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Invoice Template</CardTitle>
+              <p className="text-sm text-muted-foreground">The default layout; another can be picked when downloading an invoice</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="invoiceTemplate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        {pdfTemplates.map((template) => (
+                          <label
+                            key={template}
+                            className={`flex items-start gap-3 rounded-md border p-4 cursor-pointer ${field.value === template ? 'border-primary bg-accent' : 'border-border'}`}
+                          >
+                            <RadioGroupItem value={template} data-testid={`radio-template-${template}`} />
+                            <div>
+                              <div className="font-medium text-foreground">{pdfTemplateLabels[template]}</div>
+                              <div className="text-xs text-muted-foreground">{pdfTemplateDescriptions[template]}</div>
+                            </div>
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="showProductImages"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-show-product-images"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Show product thumbnails on invoice lines</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="footerNote"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Closing Note</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Thank you for your business!" {...field} data-testid="input-company-footer-note" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveProfileMutation.isPending} data-testid="button-save-company-profile">
+              {saveProfileMutation.isPending ? "Saving..." : "Save Company Profile"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
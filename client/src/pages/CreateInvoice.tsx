@@ -2,7 +2,7 @@ import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
 import { z } from "zod";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,26 +11,41 @@ import { Textarea } from "@/components/ui/textarea";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/useSettings";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { BrowserQRCodeReader, BrowserBarcodeReader } from "@zxing/library";
-import Tesseract from "tesseract.js";
+import { availableQuantity, getStockShortages, describeStockShortages } from "@/lib/stockUtils";
+import { scanProductImage } from "@/lib/productScanner";
+import { resolveTaxRate, calculateInvoiceTax } from "@shared/tax";
+import { BASE_CURRENCY, currencyCodes, fromBaseCurrency } from "@shared/currency";
+import { calculateLineTotal } from "@shared/pricing";
+import { LineDiscountInput, type LineDiscountDraft } from "@/components/LineDiscountInput";
+import { formatCurrency } from "@/lib/formatters";
+import type { Customer, CustomersResponse, TaxRatesResponse, ExchangeRatesResponse } from "@shared/schema";
 
 const createInvoiceSchema = z.object({
   customerName: z.string().min(1, "Customer name is required"),
   customerEmail: z.string().email("Valid email format").optional().or(z.literal("")),
   customerPhone: z.string().min(1, "Phone number is required"),
   customerAddress: z.string().optional(),
+  dueDate: z.string().optional(),
+  validUntil: z.string().optional(),
   notes: z.string().optional(),
+  couponCode: z.string().optional(),
 });
 
 type CreateInvoiceForm = z.infer<typeof createInvoiceSchema>;
 
 interface InvoiceItem {
   productId: string;
+  variantId?: string;
   quantity: number;
   unitPrice: number;
+  discount: LineDiscountDraft;
   totalPrice: number;
   product: {
     id: string;
@@ -38,17 +53,50 @@ interface InvoiceItem {
     size: string;
     price: string;
     quantity: number;
+    category: string | null;
+    taxRateId: string | null;
+  };
+  variant?: {
+    id: string;
+    sku: string;
+    size: string;
+    color: string;
+    quantity: number;
   };
 }
 
-export default function CreateInvoice() {
+// Lines are unique per variant, so the same product can appear once per size/color
+const lineKey = (productId: string, variantId?: string) => variantId || productId;
+
+const noDiscount: LineDiscountDraft = { discountType: null, discountValue: 0 };
+
+const withLineTotal = (item: InvoiceItem): InvoiceItem => ({
+  ...item,
+  totalPrice: calculateLineTotal(item.unitPrice, item.quantity, item.discount.discountType, item.discount.discountValue).total,
+});
+
+interface CreateInvoiceProps {
+  // Quotations share the form but are priced only: no stock checks, and a validity date instead of a due date
+  documentType?: "invoice" | "quotation";
+}
+
+export default function CreateInvoice({ documentType = "invoice" }: CreateInvoiceProps) {
+  const isQuotation = documentType === "quotation";
+  const documentLabel = isQuotation ? "quotation" : "invoice";
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [showProductDialog, setShowProductDialog] = useState(false);
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set());
   const [isScanning, setIsScanning] = useState(false);
+  const [variantPickerProduct, setVariantPickerProduct] = useState<any>(null);
   const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const presetCustomerId = new URLSearchParams(useSearch()).get("customerId");
+  const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+  const [customerSearch, setCustomerSearch] = useState("");
+  const { settings, isLoading: settingsLoading } = useSettings();
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(settings.pricesIncludeTax);
+  const [currency, setCurrency] = useState<string>(BASE_CURRENCY);
 
   const form = useForm<CreateInvoiceForm>({
     resolver: zodResolver(createInvoiceSchema),
@@ -57,10 +105,87 @@ export default function CreateInvoice() {
       customerEmail: "",
       customerPhone: "",
       customerAddress: "",
+      dueDate: "",
+      validUntil: "",
       notes: "",
+      couponCode: "",
     },
   });
 
+  // The tax toggle only shows once items are added, so until then follow the shop default
+  useEffect(() => {
+    if (!settingsLoading && invoiceItems.length === 0) {
+      setPricesIncludeTax(settings.pricesIncludeTax);
+    }
+  }, [settingsLoading, settings.pricesIncludeTax]);
+
+  const { data: customerMatches } = useQuery<CustomersResponse>({
+    queryKey: ["/api/customers", { search: customerSearch, limit: 8 }],
+    enabled: !selectedCustomer && customerSearch.trim().length >= 2,
+  });
+
+  const { data: presetCustomer } = useQuery<Customer>({
+    queryKey: [`/api/customers/${presetCustomerId}`],
+    enabled: !!presetCustomerId,
+  });
+
+  // Billing details start from the customer record but stay editable for this invoice
+  const selectCustomer = (customer: Customer) => {
+    setSelectedCustomer(customer);
+    setCustomerSearch("");
+    form.setValue("customerName", customer.name, { shouldValidate: true });
+    form.setValue("customerEmail", customer.email || "");
+    form.setValue("customerPhone", customer.phone, { shouldValidate: true });
+    form.setValue("customerAddress", customer.address || "");
+  };
+
+  const clearCustomer = () => {
+    setSelectedCustomer(null);
+    form.setValue("customerName", "");
+    form.setValue("customerEmail", "");
+    form.setValue("customerPhone", "");
+    form.setValue("customerAddress", "");
+  };
+
+  useEffect(() => {
+    if (presetCustomer && presetCustomer.isActive) {
+      selectCustomer(presetCustomer);
+    }
+  }, [presetCustomer]);
+
+  const { data: taxData } = useQuery<TaxRatesResponse>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const { data: exchangeData } = useQuery<ExchangeRatesResponse>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  // The customer's price list overrides catalogue prices; the server resolves them again on save
+  const { data: customerPrices } = useQuery<Record<string, string>>({
+    queryKey: [`/api/customers/${selectedCustomer?.id}/prices`],
+    enabled: !!selectedCustomer,
+  });
+
+  // Only currencies with a rate in force can be invoiced; the server fixes the rate on save
+  const availableCurrencies = currencyCodes.filter(code => code === BASE_CURRENCY || exchangeData?.current[code]);
+  const exchangeRate = exchangeData?.current[currency] || "1";
+  const priceOf = (product: { id: string; price: string }, rate: string = exchangeRate, prices = customerPrices || {}) =>
+    fromBaseCurrency(prices[product.id] ?? product.price, rate);
+
+  const repriceItems = (rate: string, prices: Record<string, string>) => {
+    setInvoiceItems(prev => prev.map(item => withLineTotal({ ...item, unitPrice: priceOf(item.product, rate, prices) })));
+  };
+
+  const changeCurrency = (code: string) => {
+    setCurrency(code);
+    repriceItems(exchangeData?.current[code] || "1", customerPrices || {});
+  };
+
+  useEffect(() => {
+    repriceItems(exchangeRate, customerPrices || {});
+  }, [customerPrices]);
+
   const { data: productsData } = useQuery({
     queryKey: ["/api/products", { limit: 100 }],
     enabled: showProductDialog,
@@ -68,16 +193,29 @@ export default function CreateInvoice() {
 
   const createInvoiceMutation = useMutation({
     mutationFn: async (data: { invoice: any; items: any[] }) => {
-      const response = await apiRequest("POST", "/api/invoices", data);
+      const response = isQuotation
+        ? await apiRequest("POST", "/api/quotations", { quotation: data.invoice, items: data.items })
+        : await apiRequest("POST", "/api/invoices", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (created) => {
+      if (isQuotation) {
+        toast({
+          title: "Success",
+          description: `Quotation ${created.quotationNumber} created`,
+        });
+        queryClient.invalidateQueries({ queryKey: ["/api/quotations"] });
+        navigate(`/quotations/${created.id}`);
+        return;
+      }
       toast({
         title: "Success",
         description: "Invoice created successfully",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       navigate("/invoices");
     },
     onError: (error) => {
@@ -92,63 +230,105 @@ export default function CreateInvoice() {
         }, 500);
         return;
       }
+      const shortages = getStockShortages(error);
+      if (shortages) {
+        toast({
+          title: "Insufficient Stock",
+          description: describeStockShortages(shortages),
+          variant: "destructive",
+        });
+        return;
+      }
+      // e.g. a coupon code that isn't valid
+      const message = error.message.replace(/^\d+: /, "");
+      let description = `Failed to create ${documentLabel}`;
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
       toast({
         title: "Error",
-        description: "Failed to create invoice",
+        description,
         variant: "destructive",
       });
     },
   });
 
-  const addProductToInvoice = (product: any) => {
-    if (selectedProducts.has(product.id)) {
+  const addProductToInvoice = (product: any, variant?: any) => {
+    // Products stocked per size/color need a variant before they can be added
+    if (!variant && product.variants?.length > 0) {
+      setShowProductDialog(false);
+      setVariantPickerProduct(product);
+      return;
+    }
+
+    if (selectedProducts.has(lineKey(product.id, variant?.id))) {
       toast({
         title: "Info",
-        description: "Product already added to invoice",
+        description: `Product already added to ${documentLabel}`,
         variant: "destructive",
       });
       return;
     }
 
-    if (product.quantity <= 0) {
+    // Stock held by other pending invoices is not available to this one; quotations hold no stock
+    const availableStock = availableQuantity(variant || product);
+    if (!isQuotation && availableStock <= 0) {
       toast({
         title: "Out of Stock",
-        description: `${product.productName} is out of stock and cannot be added to the invoice.`,
+        description: variant
+          ? `${product.productName} (${variant.size} / ${variant.color}) is out of stock and cannot be added to the invoice.`
+          : `${product.productName} is out of stock and cannot be added to the invoice.`,
         variant: "destructive",
       });
       return;
     }
 
-    const unitPrice = parseFloat(product.price);
+    const unitPrice = priceOf(product);
     const newItem: InvoiceItem = {
       productId: product.id,
+      variantId: variant?.id,
       quantity: 1,
       unitPrice,
+      discount: noDiscount,
       totalPrice: unitPrice,
       product: {
         id: product.id,
         productName: product.productName,
         size: product.size,
         price: product.price,
-        quantity: product.quantity,
+        quantity: availableQuantity(product),
+        category: product.category,
+        taxRateId: product.taxRateId,
       },
+      variant: variant ? {
+        id: variant.id,
+        sku: variant.sku,
+        size: variant.size,
+        color: variant.color,
+        quantity: availableStock,
+      } : undefined,
     };
 
     setInvoiceItems(prev => [...prev, newItem]);
-    setSelectedProducts(prev => new Set(Array.from(prev).concat([product.id])));
+    setSelectedProducts(prev => new Set(Array.from(prev).concat([lineKey(product.id, variant?.id)])));
     setShowProductDialog(false);
+    setVariantPickerProduct(null);
   };
 
+  const isProductSelected = (productId: string) => invoiceItems.some(item => item.productId === productId);
+
   const updateQuantity = (index: number, quantity: number) => {
     if (quantity < 1) return;
     
     const item = invoiceItems[index];
-    const availableStock = item.product.quantity;
+    const availableStock = item.variant ? item.variant.quantity : item.product.quantity;
     
-    if (quantity > availableStock) {
+    if (!isQuotation && quantity > availableStock) {
       toast({
         title: "Insufficient Stock",
-        description: `Only ${availableStock} units of ${item.product.productName} are available in stock. Cannot add ${quantity} units.`,
+        description: `Only ${availableStock} available units of ${item.product.productName}${item.variant ? ` (${item.variant.size} / ${item.variant.color})` : ''} are available in stock. Cannot add ${quantity} units.`,
         variant: "destructive",
       });
       return;
@@ -156,22 +336,22 @@ export default function CreateInvoice() {
     
     setInvoiceItems(prev => prev.map((item, i) => {
       if (i === index) {
-        return {
-          ...item,
-          quantity,
-          totalPrice: item.unitPrice * quantity,
-        };
+        return withLineTotal({ ...item, quantity });
       }
       return item;
     }));
   };
 
+  const updateDiscount = (index: number, discount: LineDiscountDraft) => {
+    setInvoiceItems(prev => prev.map((item, i) => i === index ? withLineTotal({ ...item, discount }) : item));
+  };
+
   const removeItem = (index: number) => {
     const item = invoiceItems[index];
     setInvoiceItems(prev => prev.filter((_, i) => i !== index));
     setSelectedProducts(prev => {
       const newSet = new Set(prev);
-      newSet.delete(item.productId);
+      newSet.delete(lineKey(item.productId, item.variantId));
       return newSet;
     });
   };
@@ -182,159 +362,94 @@ export default function CreateInvoice() {
 
     setIsScanning(true);
     try {
-      // Create an image element to load the file
-      const img = new Image();
-      const reader = new FileReader();
-
-      reader.onload = async (e) => {
-        img.src = e.target?.result as string;
-        img.onload = async () => {
-          try {
-            let decodedText = null;
-            let scanMethod = "";
-            
-            // Step 1: Try QR code reader first
-            try {
-              const qrCodeReader = new BrowserQRCodeReader();
-              const result = await qrCodeReader.decodeFromImageElement(img);
-              decodedText = result.getText();
-              scanMethod = "QR code scan";
-              console.log("✓ QR code successfully read:", decodedText);
-            } catch (qrError) {
-              console.log("✗ QR code not readable, trying barcode...");
-              
-              // Step 2: If QR fails, try to read the barcode itself
-              try {
-                const barcodeReader = new BrowserBarcodeReader();
-                const result = await barcodeReader.decodeFromImageElement(img);
-                decodedText = result.getText();
-                scanMethod = "barcode scan";
-                console.log("✓ Barcode successfully read:", decodedText);
-              } catch (barcodeError) {
-                console.log("✗ Barcode not readable, trying OCR for product ID text...");
-                
-                // Step 3: If barcode is not readable, use OCR to read the product ID text printed under the barcode
-                try {
-                  toast({
-                    title: "Reading product ID...",
-                    description: "Barcode not readable, scanning product ID text underneath",
-                  });
-                  
-                  const { data: { text } } = await Tesseract.recognize(
-                    img,
-                    'eng',
-                    {
-                      logger: (m) => console.log('OCR Progress:', m)
-                    }
-                  );
-                  
-                  // Extract product ID from OCR text (preserve hyphens, remove other whitespace)
-                  const cleanedText = text.trim().replace(/\s+/g, '');
-                  // Look for patterns like product IDs (alphanumeric sequences with optional hyphens)
-                  const productIdMatch = cleanedText.match(/[A-Z0-9][-A-Z0-9]{2,}/i);
-                  
-                  if (productIdMatch) {
-                    decodedText = productIdMatch[0];
-                    scanMethod = "OCR text recognition (product ID under barcode)";
-                    console.log("✓ Product ID text successfully read via OCR:", decodedText);
-                  } else {
-                    console.log("✗ No product ID found in OCR text");
-                  }
-                } catch (ocrError) {
-                  console.error("✗ OCR error:", ocrError);
-                }
-              }
-            }
-
-            if (decodedText) {
-              // Look up the product by productId
-              const response = await fetch(`/api/products/by-product-id/${decodedText}`, {
-                credentials: 'include'
-              });
-
-              if (response.ok) {
-                const product = await response.json();
-                addProductToInvoice(product);
-                toast({
-                  title: "Success",
-                  description: `Product "${product.productName}" added via ${scanMethod}`,
-                });
-              } else {
-                toast({
-                  title: "Product Not Found",
-                  description: `No product found with ID: ${decodedText}`,
-                  variant: "destructive",
-                });
-              }
-            } else {
-              toast({
-                title: "Scanning Failed",
-                description: "Could not read barcode or text from image. Please try again with a clearer image.",
-                variant: "destructive",
-              });
-            }
-          } catch (error) {
-            console.error("Scanning error:", error);
-            toast({
-              title: "Scanning Failed",
-              description: "An error occurred while processing the image.",
-              variant: "destructive",
-            });
-          } finally {
-            setIsScanning(false);
-            // Reset the file input
-            if (barcodeInputRef.current) {
-              barcodeInputRef.current.value = '';
-            }
-          }
-        };
-      };
-
-      reader.readAsDataURL(file);
+      const result = await scanProductImage(file, {
+        onOcrStart: () => toast({
+          title: "Reading product ID...",
+          description: "Barcode not readable, scanning product ID text underneath",
+        }),
+      });
+
+      if (result.status === "found") {
+        addProductToInvoice(result.product);
+        toast({
+          title: "Success",
+          description: `Product "${result.product.productName}" added via ${result.scanMethod}`,
+        });
+      } else if (result.status === "not-found") {
+        toast({
+          title: "Product Not Found",
+          description: `No product found with ID: ${result.decodedText}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Scanning Failed",
+          description: "Could not read barcode or text from image. Please try again with a clearer image.",
+          variant: "destructive",
+        });
+      }
     } catch (error) {
-      console.error("File reading error:", error);
+      console.error("Scanning error:", error);
       toast({
-        title: "Error",
-        description: "Failed to read the image file",
+        title: "Scanning Failed",
+        description: "An error occurred while processing the image.",
         variant: "destructive",
       });
+    } finally {
       setIsScanning(false);
+      // Reset the file input
+      if (barcodeInputRef.current) {
+        barcodeInputRef.current.value = '';
+      }
     }
   };
 
+  // Preview only; the server resolves each line's tax class again when the invoice is saved
   const calculateTotals = () => {
-    const subtotal = invoiceItems.reduce((sum, item) => sum + item.totalPrice, 0);
-    const total = subtotal;
-    
-    return { subtotal, total };
+    const lines = invoiceItems.map(item => {
+      const rate = taxData ? resolveTaxRate(item.product, taxData.taxRates, taxData.categoryRates) : null;
+      return { totalPrice: item.totalPrice, taxRate: rate ? parseFloat(rate.rate) : 0 };
+    });
+    return calculateInvoiceTax(lines, 0, pricesIncludeTax);
   };
 
-  const { subtotal, total } = calculateTotals();
+  const { subtotal, taxAmount, effectiveRate, total } = calculateTotals();
 
   const onSubmit = async (data: CreateInvoiceForm) => {
     if (invoiceItems.length === 0) {
       toast({
         title: "Error",
-        description: "Please add at least one product to the invoice",
+        description: `Please add at least one product to the ${documentLabel}`,
         variant: "destructive",
       });
       return;
     }
 
+    // Without a picked customer the server matches on phone number or creates a new customer
     const invoiceData = {
       ...data,
+      customerId: selectedCustomer?.id,
+      dueDate: isQuotation ? undefined : data.dueDate || undefined,
+      validUntil: isQuotation ? data.validUntil || undefined : undefined,
+      // Promotions are worked out by the server once the invoice exists
+      couponCode: isQuotation ? undefined : data.couponCode?.trim() || undefined,
       subtotal: subtotal.toFixed(2),
       discountPercentage: "0.0000",
       discountAmount: "0.00",
-      taxRate: "0.0000",
-      taxAmount: "0.00",
+      taxRate: effectiveRate.toFixed(4),
+      taxAmount: taxAmount.toFixed(2),
+      pricesIncludeTax,
+      currency,
       total: total.toFixed(2),
     };
 
     const itemsData = invoiceItems.map(item => ({
       productId: item.productId,
+      variantId: item.variantId,
       quantity: item.quantity,
       unitPrice: item.unitPrice.toFixed(2),
+      discountType: item.discount.discountType,
+      discountValue: item.discount.discountValue,
       totalPrice: item.totalPrice.toFixed(2),
     }));
 
@@ -344,24 +459,62 @@ export default function CreateInvoice() {
     });
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
-
   return (
     <div className="max-w-4xl mx-auto">
       <Card>
         <CardContent className="p-6">
-          <h3 className="text-lg font-semibold text-foreground mb-6">Create New Invoice</h3>
+          <h3 className="text-lg font-semibold text-foreground mb-6">{isQuotation ? "Create New Quotation" : "Create New Invoice"}</h3>
           
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               {/* Customer Information */}
               <div className="bg-muted rounded-lg p-4">
                 <h4 className="text-sm font-medium text-foreground mb-4">Customer Information</h4>
+                {selectedCustomer ? (
+                  <div className="flex items-center justify-between bg-card border border-border rounded-md px-3 py-2 mb-4" data-testid="selected-customer">
+                    <div className="text-sm">
+                      <i className="fas fa-address-book text-muted-foreground mr-2"></i>
+                      <span className="font-medium text-foreground">{selectedCustomer.name}</span>
+                      <span className="text-muted-foreground"> · {selectedCustomer.phone}</span>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={clearCustomer} data-testid="button-change-customer">
+                      Change
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="relative mb-4">
+                    <Input
+                      value={customerSearch}
+                      onChange={(e) => setCustomerSearch(e.target.value)}
+                      placeholder="Search existing customers by name, email or phone"
+                      data-testid="input-search-customer"
+                    />
+                    {customerSearch.trim().length >= 2 && (
+                      <div className="absolute z-10 mt-1 w-full bg-card border border-border rounded-md shadow-md max-h-60 overflow-y-auto">
+                        {customerMatches?.customers?.length ? (
+                          customerMatches.customers.map((customer) => (
+                            <button
+                              key={customer.id}
+                              type="button"
+                              className="w-full text-left px-3 py-2 text-sm hover:bg-accent/50"
+                              onClick={() => selectCustomer(customer)}
+                              data-testid={`option-customer-${customer.id}`}
+                            >
+                              <div className="font-medium text-foreground">{customer.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {customer.phone}{customer.email ? ` · ${customer.email}` : ''}
+                              </div>
+                            </button>
+                          ))
+                        ) : (
+                          <p className="px-3 py-2 text-sm text-muted-foreground">
+                            No match. Fill in the details below to add a new customer.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -442,7 +595,7 @@ export default function CreateInvoice() {
               {/* Product Selection */}
               <div>
                 <div className="flex items-center justify-between mb-4">
-                  <h4 className="text-sm font-medium text-foreground">Invoice Items</h4>
+                  <h4 className="text-sm font-medium text-foreground">{isQuotation ? "Quotation Items" : "Invoice Items"}</h4>
                   <div className="flex gap-2">
                     <input
                       ref={barcodeInputRef}
@@ -489,7 +642,7 @@ export default function CreateInvoice() {
                               <Card 
                                 key={product.id} 
                                 className={`cursor-pointer transition-colors ${
-                                  selectedProducts.has(product.id) ? 'bg-muted' : 'hover:bg-muted'
+                                  isProductSelected(product.id) ? 'bg-muted' : 'hover:bg-muted'
                                 }`}
                                 onClick={() => addProductToInvoice(product)}
                                 data-testid={`product-option-${product.id}`}
@@ -519,7 +672,7 @@ export default function CreateInvoice() {
                                             ID: {product.productId}
                                           </p>
                                         </div>
-                                        {selectedProducts.has(product.id) && (
+                                        {isProductSelected(product.id) && (
                                           <i className="fas fa-check text-accent ml-2 flex-shrink-0"></i>
                                         )}
                                       </div>
@@ -564,14 +717,14 @@ export default function CreateInvoice() {
                                         <div className="flex items-center justify-between pt-1">
                                           <div className="flex items-center gap-2">
                                             <span className="font-semibold text-foreground" data-testid={`product-price-${product.id}`}>
-                                              {formatCurrency(product.price)}
+                                              {formatCurrency(priceOf(product), currency)}
                                             </span>
                                             <Badge 
-                                              variant={product.quantity > 10 ? "secondary" : product.quantity > 0 ? "outline" : "destructive"}
+                                              variant={availableQuantity(product) > 10 ? "secondary" : availableQuantity(product) > 0 ? "outline" : "destructive"}
                                               className="text-xs"
                                               data-testid={`product-stock-${product.id}`}
                                             >
-                                              {product.quantity} in stock
+                                              {availableQuantity(product)} available
                                             </Badge>
                                           </div>
                                         </div>
@@ -591,11 +744,46 @@ export default function CreateInvoice() {
                       </div>
                     </DialogContent>
                   </Dialog>
+                  <Dialog open={!!variantPickerProduct} onOpenChange={(open) => !open && setVariantPickerProduct(null)}>
+                    <DialogContent className="sm:max-w-lg">
+                      <DialogHeader>
+                        <DialogTitle>Select Size &amp; Color</DialogTitle>
+                      </DialogHeader>
+                      {variantPickerProduct && (
+                        <div className="space-y-2">
+                          <p className="text-sm text-muted-foreground">
+                            {variantPickerProduct.productName} ({variantPickerProduct.productId})
+                          </p>
+                          <div className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto">
+                            {variantPickerProduct.variants.map((variant: any) => {
+                              const added = selectedProducts.has(lineKey(variantPickerProduct.id, variant.id));
+                              return (
+                                <Button
+                                  key={variant.id}
+                                  type="button"
+                                  variant={added ? "secondary" : "outline"}
+                                  className="justify-between h-auto py-2"
+                                  disabled={!isQuotation && availableQuantity(variant) <= 0}
+                                  onClick={() => addProductToInvoice(variantPickerProduct, variant)}
+                                  data-testid={`variant-option-${variant.id}`}
+                                >
+                                  <span className="capitalize">{variant.size} / {variant.color}</span>
+                                  <span className="text-xs text-muted-foreground">
+                                    {added ? <i className="fas fa-check text-accent"></i> : `${availableQuantity(variant)} available`}
+                                  </span>
+                                </Button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+                    </DialogContent>
+                  </Dialog>
                 </div>
               </div>
 
               {/* Invoice Items Table */}
-                <div className="bg-background border border-input rounded-lg overflow-hidden">
+                <div className="bg-background border border-input rounded-lg overflow-x-auto">
                   <table className="w-full">
                     <thead className="bg-muted">
                       <tr>
@@ -603,6 +791,7 @@ export default function CreateInvoice() {
                         <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Size</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Qty</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Price</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Discount</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Total</th>
                         <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Action</th>
                       </tr>
@@ -611,8 +800,17 @@ export default function CreateInvoice() {
                       {invoiceItems.length > 0 ? (
                         invoiceItems.map((item, index) => (
                           <tr key={index} data-testid={`invoice-item-${index}`}>
-                            <td className="px-4 py-3 text-sm text-foreground">{item.product.productName}</td>
-                            <td className="px-4 py-3 text-sm text-muted-foreground">{Array.isArray(item.product.size) ? item.product.size.join(', ') : item.product.size}</td>
+                            <td className="px-4 py-3 text-sm text-foreground">
+                              {item.product.productName}
+                              {item.variant && (
+                                <p className="text-xs text-muted-foreground">SKU: {item.variant.sku}</p>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-sm text-muted-foreground">
+                              {item.variant
+                                ? `${item.variant.size} / ${item.variant.color}`
+                                : Array.isArray(item.product.size) ? item.product.size.join(', ') : item.product.size}
+                            </td>
                             <td className="px-4 py-3">
                               <Input
                                 type="number"
@@ -623,8 +821,17 @@ export default function CreateInvoice() {
                                 data-testid={`input-quantity-${index}`}
                               />
                             </td>
-                            <td className="px-4 py-3 text-sm text-foreground">{formatCurrency(item.unitPrice)}</td>
-                            <td className="px-4 py-3 text-sm font-medium text-foreground">{formatCurrency(item.totalPrice)}</td>
+                            <td className="px-4 py-3 text-sm text-foreground">{formatCurrency(item.unitPrice, currency)}</td>
+                            <td className="px-4 py-3">
+                              <LineDiscountInput
+                                key={lineKey(item.productId, item.variantId)}
+                                value={item.discount}
+                                onChange={(discount) => updateDiscount(index, discount)}
+                                currency={currency}
+                                testIdSuffix={`-${index}`}
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-sm font-medium text-foreground">{formatCurrency(item.totalPrice, currency)}</td>
                             <td className="px-4 py-3">
                               <Button
                                 type="button"
@@ -641,7 +848,7 @@ export default function CreateInvoice() {
                         ))
                       ) : (
                         <tr>
-                          <td colSpan={6} className="px-4 py-8 text-center text-muted-foreground">
+                          <td colSpan={7} className="px-4 py-8 text-center text-muted-foreground">
                             No items added. Click "Add Product" to get started.
                           </td>
                         </tr>
@@ -653,19 +860,33 @@ export default function CreateInvoice() {
                 {/* Invoice Totals */}
                 {invoiceItems.length > 0 && (
                   <div className="bg-muted rounded-lg p-4 mt-4">
-                    <div className="flex justify-end">
+                    <div className="flex justify-between items-start gap-4">
+                      <label className="flex items-center gap-2 text-sm text-foreground">
+                        <Checkbox
+                          checked={pricesIncludeTax}
+                          onCheckedChange={(checked) => setPricesIncludeTax(checked === true)}
+                          data-testid="checkbox-prices-include-tax"
+                        />
+                        Prices include tax
+                      </label>
                       <div className="w-64 space-y-2">
                         <div className="flex justify-between text-sm">
                           <span className="text-muted-foreground">Subtotal:</span>
                           <span className="text-foreground font-medium" data-testid="text-subtotal">
-                            {formatCurrency(subtotal)}
+                            {formatCurrency(subtotal, currency)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">{pricesIncludeTax ? "Tax (included):" : "Tax:"}</span>
+                          <span className="text-foreground font-medium" data-testid="text-tax">
+                            {formatCurrency(taxAmount, currency)}
                           </span>
                         </div>
                         <div className="border-t border-border pt-2">
                           <div className="flex justify-between text-base font-semibold">
                             <span className="text-foreground">Total:</span>
                             <span className="text-foreground" data-testid="text-total">
-                              {formatCurrency(total)}
+                              {formatCurrency(total, currency)}
                             </span>
                           </div>
                         </div>
@@ -675,6 +896,81 @@ export default function CreateInvoice() {
                 )}
               </div>
 
+              {/* Payment Terms */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {isQuotation ? (
+                  <FormField
+                    control={form.control}
+                    name="validUntil"
+                    render={({ field }) => (
+                      <FormItem className="max-w-xs">
+                        <FormLabel>Valid Until (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} data-testid="input-valid-until" />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">Defaults to 30 days from today</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ) : (
+                  <FormField
+                    control={form.control}
+                    name="dueDate"
+                    render={({ field }) => (
+                      <FormItem className="max-w-xs">
+                        <FormLabel>Due Date (Optional)</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} data-testid="input-due-date" />
+                        </FormControl>
+                        <p className="text-xs text-muted-foreground">Defaults to 30 days from today</p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                <div className="space-y-2 max-w-xs">
+                  <Label>Currency</Label>
+                  <Select value={currency} onValueChange={changeCurrency}>
+                    <SelectTrigger data-testid="select-currency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableCurrencies.map(code => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {currency === BASE_CURRENCY
+                      ? "Prices are in the base currency"
+                      : `Prices converted at 1 ${currency} = ${parseFloat(exchangeRate)} ${BASE_CURRENCY}`}
+                  </p>
+                </div>
+              </div>
+
+              {!isQuotation && (
+                <FormField
+                  control={form.control}
+                  name="couponCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Coupon Code (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Running promotions apply automatically"
+                          className="uppercase"
+                          {...field}
+                          data-testid="input-coupon-code"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
               {/* Additional Notes */}
               <FormField
                 control={form.control}
@@ -701,7 +997,7 @@ export default function CreateInvoice() {
                 <Button 
                   type="button" 
                   variant="outline"
-                  onClick={() => navigate("/invoices")}
+                  onClick={() => navigate(isQuotation ? "/quotations" : "/invoices")}
                   data-testid="button-cancel"
                 >
                   Cancel
@@ -712,7 +1008,7 @@ export default function CreateInvoice() {
                   data-testid="button-create-invoice"
                 >
                   <i className="fas fa-save mr-2"></i>
-                  {createInvoiceMutation.isPending ? "Creating..." : "Create Invoice"}
+                  {createInvoiceMutation.isPending ? "Creating..." : isQuotation ? "Create Quotation" : "Create Invoice"}
                 </Button>
               </div>
             </form>
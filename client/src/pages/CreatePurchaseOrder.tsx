@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { ProductWithVariants, Supplier } from "@shared/schema";
+
+const createPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Supplier is required"),
+  expectedDeliveryDate: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type CreatePurchaseOrderForm = z.infer<typeof createPurchaseOrderSchema>;
+
+interface PurchaseOrderLine {
+  productId: string;
+  variantId: string;
+  quantityOrdered: number;
+  unitCost: number;
+}
+
+const emptyLine: PurchaseOrderLine = { productId: "", variantId: "", quantityOrdered: 1, unitCost: 0 };
+
+export default function CreatePurchaseOrder() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [lines, setLines] = useState<PurchaseOrderLine[]>([{ ...emptyLine }]);
+
+  const form = useForm<CreatePurchaseOrderForm>({
+    resolver: zodResolver(createPurchaseOrderSchema),
+    defaultValues: {
+      supplierId: "",
+      expectedDeliveryDate: "",
+      notes: "",
+    },
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const { data: productsData } = useQuery<{ products: ProductWithVariants[]; total: number }>({
+    queryKey: ["/api/products", { limit: 1000 }],
+  });
+
+  const products = productsData?.products || [];
+  const findProduct = (productId: string) => products.find(p => p.id === productId);
+
+  const createPurchaseOrderMutation = useMutation({
+    mutationFn: async (data: CreatePurchaseOrderForm) => {
+      const response = await apiRequest("POST", "/api/purchase-orders", {
+        purchaseOrder: {
+          supplierId: data.supplierId,
+          expectedDeliveryDate: data.expectedDeliveryDate || null,
+          notes: data.notes,
+        },
+        items: lines.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId || null,
+          quantityOrdered: line.quantityOrdered,
+          unitCost: line.unitCost.toFixed(2),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (purchaseOrder) => {
+      toast({
+        title: "Success",
+        description: `Purchase order ${purchaseOrder.poNumber} created successfully`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      navigate(`/purchase-orders/${purchaseOrder.id}`);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to create purchase order",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectProduct = (index: number, productId: string) => {
+    updateLine(index, { productId, variantId: "" });
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + line.unitCost * line.quantityOrdered, 0);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const onSubmit = (data: CreatePurchaseOrderForm) => {
+    const incompleteLine = lines.find(line => {
+      const product = findProduct(line.productId);
+      return !product || line.quantityOrdered < 1 || ((product.variants?.length || 0) > 0 && !line.variantId);
+    });
+
+    if (lines.length === 0 || incompleteLine) {
+      toast({
+        title: "Error",
+        description: "Every line needs a product, a size/color where applicable and a quantity of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createPurchaseOrderMutation.mutate(data);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <Card>
+        <CardContent className="p-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <FormField
+                  control={form.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Supplier</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-supplier">
+                            <SelectValue placeholder="Select supplier" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {suppliers?.map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>
+                              {supplier.name}{supplier.manufacturer ? ` (${supplier.manufacturer})` : ''}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="expectedDeliveryDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Expected Delivery Date</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-expected-delivery" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Order Lines */}
+              <div>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-foreground">Order Lines</h3>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setLines(prev => [...prev, { ...emptyLine }])}
+                    data-testid="button-add-po-line"
+                  >
+                    <i className="fas fa-plus mr-2"></i>
+                    Add Line
+                  </Button>
+                </div>
+
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead className="bg-muted">
+                      <tr>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size / Color</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Quantity</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Unit Cost</th>
+                        <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Line Total</th>
+                        <th className="px-4 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {lines.map((line, index) => {
+                        const product = findProduct(line.productId);
+                        const variants = product?.variants || [];
+                        return (
+                          <tr key={index} data-testid={`row-po-line-${index}`}>
+                            <td className="px-4 py-3 min-w-56">
+                              <Select value={line.productId} onValueChange={(value) => selectProduct(index, value)}>
+                                <SelectTrigger data-testid={`select-po-product-${index}`}>
+                                  <SelectValue placeholder="Select product" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {products.map((p) => (
+                                    <SelectItem key={p.id} value={p.id}>
+                                      {p.productName} ({p.productId})
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </td>
+                            <td className="px-4 py-3 min-w-44">
+                              {variants.length > 0 ? (
+                                <Select value={line.variantId} onValueChange={(value) => updateLine(index, { variantId: value })}>
+                                  <SelectTrigger data-testid={`select-po-variant-${index}`}>
+                                    <SelectValue placeholder="Select variant" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {variants.map((variant) => (
+                                      <SelectItem key={variant.id} value={variant.id}>
+                                        {variant.size} / {variant.color}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">-</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3">
+                              <Input
+                                type="number"
+                                min="1"
+                                value={line.quantityOrdered}
+                                onChange={(e) => updateLine(index, { quantityOrdered: Math.max(1, parseInt(e.target.value) || 1) })}
+                                className="w-24"
+                                data-testid={`input-po-quantity-${index}`}
+                              />
+                            </td>
+                            <td className="px-4 py-3">
+                              <Input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={line.unitCost}
+                                onChange={(e) => updateLine(index, { unitCost: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                className="w-28"
+                                data-testid={`input-po-unit-cost-${index}`}
+                              />
+                            </td>
+                            <td className="px-4 py-3 text-sm font-medium text-foreground">
+                              {formatCurrency(line.unitCost * line.quantityOrdered)}
+                            </td>
+                            <td className="px-4 py-3">
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeLine(index)}
+                                disabled={lines.length === 1}
+                                data-testid={`button-remove-po-line-${index}`}
+                              >
+                                <i className="fas fa-trash w-4 h-4 text-destructive"></i>
+                              </Button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex justify-end mt-4">
+                  <div className="text-lg font-semibold text-foreground" data-testid="text-po-subtotal">
+                    Total: {formatCurrency(subtotal)}
+                  </div>
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} className="resize-none" placeholder="Delivery instructions, terms..." {...field} data-testid="input-po-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end gap-4">
+                <Button type="button" variant="outline" onClick={() => navigate("/purchase-orders")}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createPurchaseOrderMutation.isPending} data-testid="button-submit-purchase-order">
+                  {createPurchaseOrderMutation.isPending ? "Creating..." : "Create Purchase Order"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
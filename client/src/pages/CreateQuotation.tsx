@@ -0,0 +1,5 @@
+import CreateInvoice from "@/pages/CreateInvoice";
+
+export default function CreateQuotation() {
+  return <CreateInvoice documentType="quotation" />;
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { downloadCreditNotePDF } from "@/lib/creditNoteUtils";
+import type { CreditNotesResponse } from "@shared/schema";
+
+export default function CreditNotes() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+
+  const { data: creditNotesData, isLoading, error } = useQuery<CreditNotesResponse>({
+    queryKey: ["/api/credit-notes", { page, limit: 20, search }],
+  });
+
+  const handleDownload = async (creditNote: { id: string; creditNoteNumber: string }) => {
+    try {
+      await downloadCreditNotePDF(creditNote);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load credit notes</p>
+      </div>
+    );
+  }
+
+  const total = creditNotesData?.total || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <Input
+          type="text"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          className="w-full sm:w-64"
+          placeholder="Search credit note, invoice or customer"
+          data-testid="input-search-credit-notes"
+        />
+        <p className="text-sm text-muted-foreground">Credit notes are issued from a processed invoice</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Credit Note</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Invoice</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Reason</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={7} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : creditNotesData?.creditNotes?.length ? (
+                  creditNotesData.creditNotes.map((creditNote) => (
+                    <tr
+                      key={creditNote.id}
+                      className="hover:bg-accent/50 cursor-pointer transition-colors"
+                      onClick={() => navigate(`/invoices/${creditNote.invoice.id}`)}
+                      data-testid={`row-credit-note-${creditNote.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{creditNote.creditNoteNumber}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{creditNote.invoice.invoiceNumber}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{creditNote.invoice.customerName}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(creditNote.createdAt!)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{creditNote.reason}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">-{formatCurrency(creditNote.total, creditNote.invoice.currency)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDownload(creditNote);
+                          }}
+                          data-testid={`button-download-credit-note-${creditNote.id}`}
+                        >
+                          <i className="fas fa-file-pdf w-4 h-4"></i>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-16 text-center">
+                      <i className="fas fa-undo text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No credit notes found</h3>
+                      <p className="text-muted-foreground">Open a processed invoice to credit returned or damaged items</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 20 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} results
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="px-3 py-2 text-sm">{page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page * 20 >= total}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
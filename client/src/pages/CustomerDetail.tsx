@@ -0,0 +1,239 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { paymentStatusStyles } from "@/lib/paymentUtils";
+import type { CustomerWithHistory } from "@shared/schema";
+
+export default function CustomerDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+
+  const { data: customer, isLoading, error } = useQuery<CustomerWithHistory>({
+    queryKey: [`/api/customers/${id}`],
+    enabled: !!id,
+  });
+
+  const deleteCustomerMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/customers/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Customer deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      navigate("/customers");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete customer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getStatusBadge = (status: string | null) => {
+    if (status === 'Processed') {
+      return <Badge className="bg-accent/10 text-accent">Processed</Badge>;
+    }
+    return <Badge className="bg-amber-100 text-amber-800">Pending</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          {[1, 2, 3, 4].map((i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load customer</p>
+        <Link href="/customers">
+          <Button variant="outline" className="mt-4">Back to Customers</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canDelete = ['Admin', 'Manager'].includes(user?.role || '') && customer.isActive;
+
+  const stats = [
+    { label: "Lifetime Revenue", value: formatCurrency(customer.lifetimeRevenue), icon: "fas fa-dollar-sign", color: "text-accent" },
+    { label: "Outstanding Balance", value: formatCurrency(customer.outstandingBalance), icon: "fas fa-hourglass-half", color: customer.outstandingBalance > 0 ? "text-amber-600" : "text-muted-foreground" },
+    { label: "Invoices", value: customer.invoiceCount.toString(), icon: "fas fa-file-invoice", color: "text-primary" },
+    { label: "Last Invoice", value: customer.lastInvoiceAt ? formatDate(customer.lastInvoiceAt) : '-', icon: "fas fa-calendar", color: "text-muted-foreground" },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h2 className="text-2xl font-bold text-foreground" data-testid="text-customer-name">{customer.name}</h2>
+                {!customer.isActive && <Badge className="bg-destructive/10 text-destructive">Inactive</Badge>}
+              </div>
+              <p className="text-sm text-foreground">{customer.phone}</p>
+              {customer.email && <p className="text-sm text-muted-foreground">{customer.email}</p>}
+              {customer.address && <p className="text-sm text-muted-foreground whitespace-pre-line">{customer.address}</p>}
+              {customer.notes && <p className="text-sm text-muted-foreground mt-2 whitespace-pre-line">{customer.notes}</p>}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Link href={`/create-invoice?customerId=${customer.id}`}>
+                <Button data-testid="button-new-invoice-for-customer">
+                  <i className="fas fa-plus mr-2"></i>
+                  New Invoice
+                </Button>
+              </Link>
+              {canDelete && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="border-destructive text-destructive hover:bg-destructive hover:text-destructive-foreground"
+                      data-testid="button-delete-customer"
+                    >
+                      <i className="fas fa-trash mr-2"></i>
+                      Delete
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete Customer</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        {customer.name} will no longer be offered when creating invoices. Their existing invoices are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteCustomerMutation.mutate()}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {stats.map((stat) => (
+          <Card key={stat.label}>
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">{stat.label}</p>
+                  <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                </div>
+                <i className={`${stat.icon} ${stat.color} text-xl`}></i>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Invoice History */}
+      <Card>
+        <div className="p-6 border-b border-border">
+          <h3 className="text-lg font-semibold text-foreground">Invoice History</h3>
+        </div>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Invoice</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Amount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Balance Due</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {customer.invoices.length ? (
+                  customer.invoices.map((invoice) => (
+                    <tr
+                      key={invoice.id}
+                      className="hover:bg-accent/50 cursor-pointer transition-colors"
+                      onClick={() => navigate(`/invoices/${invoice.id}`)}
+                      data-testid={`row-customer-invoice-${invoice.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{invoice.invoiceNumber}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(invoice.createdAt!)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{formatCurrency(invoice.total, invoice.currency)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{formatCurrency(Math.max(invoice.balanceDue, 0), invoice.currency)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap space-x-1">
+                        {getStatusBadge(invoice.status)}
+                        <Badge className={paymentStatusStyles[invoice.paymentStatus]}>{invoice.paymentStatus}</Badge>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-16 text-center">
+                      <i className="fas fa-file-invoice text-muted-foreground text-4xl mb-4"></i>
+                      <p className="text-muted-foreground">No invoices for this customer yet</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
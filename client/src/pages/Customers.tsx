@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Customer, CustomersResponse, InvoiceCustomerBackfill, PriceListSummary } from "@shared/schema";
+
+const customerFormSchema = z.object({
+  name: z.string().min(1, "Customer name is required"),
+  email: z.string().email("Valid email format").optional().or(z.literal("")),
+  phone: z.string().min(1, "Phone number is required"),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+  priceListId: z.string(),
+});
+
+type CustomerForm = z.infer<typeof customerFormSchema>;
+
+const emptyCustomerForm: CustomerForm = {
+  name: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+  priceListId: "",
+};
+
+const STANDARD_PRICES = "standard";
+
+export default function Customers() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const canManage = ['Admin', 'Manager', 'Staff'].includes(user?.role || '');
+  const canLinkInvoices = ['Admin', 'Manager'].includes(user?.role || '');
+
+  const { data: customersData, isLoading, error } = useQuery<CustomersResponse>({
+    queryKey: ["/api/customers", { page, limit: 20, search }],
+  });
+
+  const { data: priceLists } = useQuery<PriceListSummary[]>({
+    queryKey: ["/api/price-lists"],
+    enabled: isDialogOpen,
+  });
+
+  const form = useForm<CustomerForm>({
+    resolver: zodResolver(customerFormSchema),
+    defaultValues: emptyCustomerForm,
+  });
+
+  const saveCustomerMutation = useMutation({
+    mutationFn: async (data: CustomerForm) => {
+      const payload = { ...data, priceListId: data.priceListId || null };
+      const response = editingCustomer
+        ? await apiRequest("PUT", `/api/customers/${editingCustomer.id}`, payload)
+        : await apiRequest("POST", "/api/customers", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingCustomer ? "Customer updated successfully" : "Customer created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      closeDialog();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save customer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Older invoices were saved before customer records existed and aren't in any customer's history
+  const linkInvoicesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/customers/link-invoices");
+      return response.json() as Promise<InvoiceCustomerBackfill>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Invoices Linked",
+        description: result.invoiceCount > 0
+          ? `Linked ${result.invoiceCount} invoices to ${result.customerCount} customers`
+          : "Every invoice with a phone number already has a customer",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to link invoices to customers",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (customer?: Customer) => {
+    setEditingCustomer(customer || null);
+    form.reset(customer ? {
+      name: customer.name,
+      email: customer.email || "",
+      phone: customer.phone,
+      address: customer.address || "",
+      notes: customer.notes || "",
+      priceListId: customer.priceListId || "",
+    } : emptyCustomerForm);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingCustomer(null);
+    form.reset(emptyCustomerForm);
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load customers</p>
+      </div>
+    );
+  }
+
+  const total = customersData?.total || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <Input
+          type="text"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          className="w-full sm:w-64"
+          placeholder="Search name, email or phone"
+          data-testid="input-search-customers"
+        />
+        <div className="flex items-center gap-2">
+          {canLinkInvoices && (
+            <Button
+              variant="outline"
+              onClick={() => linkInvoicesMutation.mutate()}
+              disabled={linkInvoicesMutation.isPending}
+              title="Link invoices saved without a customer to customers by phone number"
+              data-testid="button-link-invoices"
+            >
+              <i className="fas fa-link mr-2"></i>
+              {linkInvoicesMutation.isPending ? "Linking..." : "Link Past Invoices"}
+            </Button>
+          )}
+          {canManage && (
+            <Button onClick={() => openDialog()} data-testid="button-add-customer">
+              <i className="fas fa-plus mr-2"></i>
+              Add Customer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Email</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Phone</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Address</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={5} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : customersData?.customers?.length ? (
+                  customersData.customers.map((customer) => (
+                    <tr
+                      key={customer.id}
+                      className="hover:bg-accent/50 cursor-pointer transition-colors"
+                      onClick={() => navigate(`/customers/${customer.id}`)}
+                      data-testid={`row-customer-${customer.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{customer.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{customer.email || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{customer.phone}</td>
+                      <td className="px-6 py-4 text-sm text-muted-foreground max-w-xs truncate">{customer.address || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openDialog(customer);
+                            }}
+                            data-testid={`button-edit-customer-${customer.id}`}
+                          >
+                            <i className="fas fa-edit w-4 h-4"></i>
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-16 text-center">
+                      <i className="fas fa-address-book text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No customers found</h3>
+                      <p className="text-muted-foreground">Customers are added here or when you create an invoice</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 20 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} results
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="px-3 py-2 text-sm">{page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page * 20 >= total}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveCustomerMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customer Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Customer name" {...field} data-testid="input-customer-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input type="tel" placeholder="+1 (555) 123-4567" {...field} data-testid="input-customer-phone" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="email" placeholder="customer@email.com" {...field} data-testid="input-customer-email" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} className="resize-none" {...field} data-testid="input-customer-address" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} className="resize-none" {...field} data-testid="input-customer-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="priceListId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Price List</FormLabel>
+                    <Select
+                      value={field.value || STANDARD_PRICES}
+                      onValueChange={(value) => field.onChange(value === STANDARD_PRICES ? "" : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-customer-price-list">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={STANDARD_PRICES}>Standard prices</SelectItem>
+                        {priceLists?.filter(list => list.isActive || list.id === field.value).map((list) => (
+                          <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveCustomerMutation.isPending} data-testid="button-save-customer">
+                  {saveCustomerMutation.isPending ? "Saving..." : "Save Customer"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import type { DashboardMetrics, ProductsResponse, ActivityLogsResponse } from "@shared/schema";
+import { availableQuantity, isLowStock } from "@/lib/stockUtils";
+import { formatMoney } from "@shared/currency";
 
 export default function Dashboard() {
   const { data: metrics, isLoading: metricsLoading } = useQuery<DashboardMetrics>({
@@ -16,12 +18,8 @@ export default function Dashboard() {
     queryKey: ["/api/activity-logs", { limit: 5 }],
   });
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
-  };
+  // Revenue arrives already converted to the base currency
+  const formatCurrency = (amount: number) => formatMoney(amount, metrics?.baseCurrency);
 
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString);
@@ -34,8 +32,11 @@ export default function Dashboard() {
     return `${Math.floor(diffInMinutes / 1440)} day${Math.floor(diffInMinutes / 1440) === 1 ? '' : 's'} ago`;
   };
 
-  const getStockStatusColor = (quantity: number) => {
-    if (quantity <= 5) return "text-destructive bg-destructive/10";
+  const isProductLowStock = (product: { quantity: number; reservedQuantity: number; reorderPoint: number }) =>
+    isLowStock(availableQuantity(product), product.reorderPoint, metrics?.lowStockThreshold);
+
+  const getStockStatusColor = (lowStock: boolean) => {
+    if (lowStock) return "text-destructive bg-destructive/10";
     return "text-accent bg-accent/10";
   };
 
@@ -125,6 +126,11 @@ export default function Dashboard() {
                     {formatCurrency(metrics?.monthlyRevenue || 0)}
                   </p>
                 )}
+                {!metricsLoading && (metrics?.monthlyCredits || 0) > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-monthly-credits">
+                    after {formatCurrency(metrics?.monthlyCredits || 0)} credited
+                  </p>
+                )}
               </div>
               <div className="w-12 h-12 bg-accent/10 rounded-lg flex items-center justify-center">
                 <i className="fas fa-dollar-sign text-accent w-6 h-6"></i>
@@ -134,6 +140,67 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {/* Stock Position */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card data-testid="card-on-hand-units">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">On Hand Units</p>
+                {metricsLoading ? (
+                  <Skeleton className="h-8 w-16 mt-2" />
+                ) : (
+                  <p className="text-2xl font-bold text-foreground" data-testid="text-on-hand-units">
+                    {metrics?.onHandUnits?.toLocaleString() || 0}
+                  </p>
+                )}
+              </div>
+              <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+                <i className="fas fa-warehouse text-primary w-6 h-6"></i>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card data-testid="card-reserved-units">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Reserved Units</p>
+                {metricsLoading ? (
+                  <Skeleton className="h-8 w-16 mt-2" />
+                ) : (
+                  <p className="text-2xl font-bold text-accent" data-testid="text-reserved-units">
+                    {metrics?.reservedUnits?.toLocaleString() || 0}
+                  </p>
+                )}
+              </div>
+              <div className="w-12 h-12 bg-accent/10 rounded-lg flex items-center justify-center">
+                <i className="fas fa-lock text-accent w-6 h-6"></i>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card data-testid="card-available-units">
+          <CardContent className="p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-muted-foreground">Available Units</p>
+                {metricsLoading ? (
+                  <Skeleton className="h-8 w-16 mt-2" />
+                ) : (
+                  <p className="text-2xl font-bold text-foreground" data-testid="text-available-units">
+                    {metrics?.availableUnits?.toLocaleString() || 0}
+                  </p>
+                )}
+              </div>
+              <div className="w-12 h-12 bg-primary/10 rounded-lg flex items-center justify-center">
+                <i className="fas fa-check-circle text-primary w-6 h-6"></i>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Recent Activity and Quick Actions */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Recent Products */}
@@ -170,8 +237,8 @@ export default function Dashboard() {
                       <p className="text-sm font-medium text-foreground">{product.productName}</p>
                       <p className="text-xs text-muted-foreground">{product.productId}</p>
                     </div>
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStockStatusColor(product.quantity)}`}>
-                      {product.quantity <= 5 ? 'Low Stock' : 'In Stock'}
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStockStatusColor(isProductLowStock(product))}`}>
+                      {isProductLowStock(product) ? 'Low Stock' : 'In Stock'}
                     </span>
                   </div>
                 ))}
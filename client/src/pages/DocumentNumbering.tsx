@@ -0,0 +1,155 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { numberingSeries, numberingSeriesLabels, formatDocumentNumber, validateNumberFormat } from "@shared/numbering";
+import type { NumberSequence } from "@shared/schema";
+
+export default function DocumentNumbering() {
+  const { data: sequences, isLoading } = useQuery<NumberSequence[]>({
+    queryKey: ["/api/number-sequences"],
+  });
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        Use {"{YYYY}"}, {"{YY}"} and {"{MM}"} for the date and {"{seq}"} or {"{seq:4}"} for the running number. Numbers are never reused or skipped.
+      </p>
+
+      {isLoading ? (
+        Array.from({ length: numberingSeries.length }).map((_, i) => <Skeleton key={i} className="h-40 w-full" />)
+      ) : (
+        sequences?.map((sequence) => <NumberSequenceCard key={sequence.series} sequence={sequence} />)
+      )}
+    </div>
+  );
+}
+
+// Settings for one series with a live preview of the next number
+function NumberSequenceCard({ sequence }: { sequence: NumberSequence }) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState(sequence.format);
+  const [resetYearly, setResetYearly] = useState(sequence.resetYearly);
+  const [nextValue, setNextValue] = useState("");
+
+  useEffect(() => {
+    setFormat(sequence.format);
+    setResetYearly(sequence.resetYearly);
+    setNextValue("");
+  }, [sequence]);
+
+  const now = new Date();
+  const continuesCount = !resetYearly || sequence.period === now.getFullYear();
+  const previewValue = nextValue ? parseInt(nextValue) : continuesCount ? sequence.lastValue + 1 : 1;
+  const formatError = validateNumberFormat(format, resetYearly);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/number-sequences/${sequence.series}`, {
+        format,
+        resetYearly,
+        nextValue: nextValue ? parseInt(nextValue) : undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: `${numberingSeriesLabels[sequence.series]} numbering updated`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/number-sequences"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // e.g. moving the counter below a number already issued
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to update numbering";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid={`card-sequence-${sequence.series}`}>
+      <CardHeader>
+        <CardTitle>{numberingSeriesLabels[sequence.series]}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor={`format-${sequence.series}`}>Format</Label>
+            <Input
+              id={`format-${sequence.series}`}
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              data-testid={`input-format-${sequence.series}`}
+            />
+            {formatError && <p className="text-xs text-destructive">{formatError}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`next-${sequence.series}`}>Next Number</Label>
+            <Input
+              id={`next-${sequence.series}`}
+              type="number"
+              min={sequence.lastValue + 1}
+              value={nextValue}
+              onChange={(e) => setNextValue(e.target.value)}
+              placeholder={String(continuesCount ? sequence.lastValue + 1 : 1)}
+              data-testid={`input-next-${sequence.series}`}
+            />
+            <p className="text-xs text-muted-foreground">Last issued: {sequence.lastValue || "none"}</p>
+          </div>
+          <div className="space-y-2">
+            <Label>Next Document</Label>
+            <p className="h-10 flex items-center font-mono text-sm text-foreground" data-testid={`text-preview-${sequence.series}`}>
+              {formatError ? "-" : formatDocumentNumber(format, previewValue, now)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <Checkbox
+              checked={resetYearly}
+              onCheckedChange={(checked) => setResetYearly(checked === true)}
+              data-testid={`checkbox-reset-${sequence.series}`}
+            />
+            Restart at 1 each year
+          </label>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!!formatError || saveMutation.isPending}
+            data-testid={`button-save-${sequence.series}`}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatDate } from "@/lib/formatters";
+import { BASE_CURRENCY, currencyCodes } from "@shared/currency";
+import type { ExchangeRatesResponse } from "@shared/schema";
+
+const exchangeRateFormSchema = z.object({
+  currency: z.string().min(1, "Currency is required"),
+  rate: z.coerce.number().positive("Rate must be greater than 0"),
+  effectiveFrom: z.string().min(1, "Effective date is required"),
+});
+
+type ExchangeRateForm = z.infer<typeof exchangeRateFormSchema>;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function ExchangeRates() {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const foreignCurrencies = currencyCodes.filter(code => code !== BASE_CURRENCY);
+
+  const { data: exchangeData, isLoading } = useQuery<ExchangeRatesResponse>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const form = useForm<ExchangeRateForm>({
+    resolver: zodResolver(exchangeRateFormSchema),
+    defaultValues: { currency: foreignCurrencies[0], rate: 1, effectiveFrom: today() },
+  });
+
+  const createRateMutation = useMutation({
+    mutationFn: async (data: ExchangeRateForm) => {
+      const response = await apiRequest("POST", "/api/exchange-rates", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Exchange rate saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      setIsDialogOpen(false);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (currency?: string) => {
+    form.reset({
+      currency: currency || foreignCurrencies[0],
+      rate: currency && exchangeData?.current[currency] ? parseFloat(exchangeData.current[currency]) : 1,
+      effectiveFrom: today(),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Rates are the {BASE_CURRENCY} value of one unit of each currency. Invoices keep the rate in force when they were created.
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-add-exchange-rate">
+          <i className="fas fa-plus mr-2"></i>
+          Add Rate
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+              {foreignCurrencies.map((code) => (
+                <button
+                  key={code}
+                  type="button"
+                  onClick={() => openDialog(code)}
+                  className="text-left p-3 rounded-lg border border-border hover:bg-accent/50 transition-colors"
+                  data-testid={`card-current-rate-${code}`}
+                >
+                  <p className="text-sm font-medium text-foreground">{code}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {exchangeData?.current[code]
+                      ? `${parseFloat(exchangeData.current[code])} ${BASE_CURRENCY}`
+                      : "No rate yet"}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Currency</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Effective From</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={4} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : exchangeData?.rates.length ? (
+                  exchangeData.rates.map((rate) => {
+                    // Newest first, so the first rate already in effect is the current one
+                    const isCurrent = exchangeData.rates
+                      .find(other => other.currency === rate.currency && new Date(other.effectiveFrom) <= now)?.id === rate.id;
+                    const isScheduled = new Date(rate.effectiveFrom) > now;
+                    return (
+                      <tr key={rate.id} data-testid={`row-exchange-rate-${rate.id}`}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{rate.currency}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                          {parseFloat(rate.rate)} {BASE_CURRENCY}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(rate.effectiveFrom)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {isCurrent ? (
+                            <Badge>Current</Badge>
+                          ) : isScheduled ? (
+                            <Badge variant="secondary">Scheduled</Badge>
+                          ) : (
+                            <Badge variant="outline">Superseded</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-16 text-center">
+                      <i className="fas fa-exchange-alt text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No exchange rates yet</h3>
+                      <p className="text-muted-foreground">Add a rate before invoicing in another currency</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Add Exchange Rate</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createRateMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-exchange-currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {foreignCurrencies.map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Value of 1 {form.watch("currency")} in {BASE_CURRENCY}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.00000001" {...field} data-testid="input-exchange-rate" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="effectiveFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Effective From</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} data-testid="input-exchange-effective-from" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createRateMutation.isPending} data-testid="button-save-exchange-rate">
+                  {createRateMutation.isPending ? "Saving..." : "Save Rate"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
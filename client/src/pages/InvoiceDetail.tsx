@@ -9,12 +9,23 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { availableQuantity, getStockShortages, describeStockShortages } from "@/lib/stockUtils";
 import { useAuth } from "@/hooks/useAuth";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useState, useEffect } from "react";
-import { type Invoice, type InvoiceItem, type Product } from "@shared/schema";
+import { BASE_CURRENCY, fromBaseCurrency, toBaseCurrency } from "@shared/currency";
+import { calculateLineTotal, describeLineDiscount } from "@shared/pricing";
+import { pdfTemplates, pdfTemplateLabels, type PdfTemplate } from "@shared/pdfTemplates";
+import { type InvoiceWithPaymentState, type InvoiceItem, type InvoicePromotion, type Product, type ProductVariant, type ProductWithVariants } from "@shared/schema";
+import { InvoicePayments } from "@/components/InvoicePayments";
+import { InvoiceCreditNotes } from "@/components/InvoiceCreditNotes";
+import { InvoiceVersionHistory } from "@/components/InvoiceVersionHistory";
+import { InvoiceSends } from "@/components/InvoiceSends";
+import { LineDiscountInput, type LineDiscountDraft } from "@/components/LineDiscountInput";
+import { formatTaxRate } from "@/lib/taxUtils";
+import { formatCurrency } from "@/lib/formatters";
 import {
   Dialog,
   DialogContent,
@@ -55,17 +66,28 @@ export default function InvoiceDetail() {
   const [isEditingDiscount, setIsEditingDiscount] = useState(false);
   const [isAddingProduct, setIsAddingProduct] = useState(false);
   const [editingQuantities, setEditingQuantities] = useState<Record<string, number>>({});
+  const [discountingItem, setDiscountingItem] = useState<InvoiceItem | null>(null);
+  const [lineDiscount, setLineDiscount] = useState<LineDiscountDraft>({ discountType: null, discountValue: 0 });
+  const [couponCode, setCouponCode] = useState("");
+  // "default" leaves the choice to the company profile
+  const [pdfTemplate, setPdfTemplate] = useState<PdfTemplate | "default">("default");
 
-  const { data: invoice, isLoading, error } = useQuery<Invoice & { items: (InvoiceItem & { product: Product })[] }>({
+  const { data: invoice, isLoading, error } = useQuery<InvoiceWithPaymentState & { items: (InvoiceItem & { product: Product; variant: ProductVariant | null })[]; promotions: InvoicePromotion[] }>({
     queryKey: [`/api/invoices/${id}`],
     enabled: !!id,
   });
 
-  const { data: productsData } = useQuery<{ products: Product[]; total: number }>({
+  const { data: productsData } = useQuery<{ products: ProductWithVariants[]; total: number }>({
     queryKey: ["/api/products", { limit: 1000 }],
     enabled: isAddingProduct,
   });
 
+  // Price list prices for this customer, so the add dialog previews what the server will charge
+  const { data: customerPrices } = useQuery<Record<string, string>>({
+    queryKey: [`/api/customers/${invoice?.customerId}/prices`],
+    enabled: isAddingProduct && !!invoice?.customerId,
+  });
+
   const discountForm = useForm<DiscountForm>({
     resolver: zodResolver(discountSchema),
     defaultValues: {
@@ -94,8 +116,10 @@ export default function InvoiceDetail() {
         description: "Invoice status updated successfully",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -109,6 +133,15 @@ export default function InvoiceDetail() {
         }, 500);
         return;
       }
+      const shortages = getStockShortages(error);
+      if (shortages) {
+        toast({
+          title: "Insufficient Stock",
+          description: describeStockShortages(shortages),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update invoice status",
@@ -147,6 +180,7 @@ export default function InvoiceDetail() {
       });
       setIsEditingDiscount(false);
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
     },
@@ -191,8 +225,8 @@ export default function InvoiceDetail() {
   });
 
   const addItemMutation = useMutation({
-    mutationFn: async ({ productId, quantity, unitPrice }: { productId: string; quantity: number; unitPrice: number }) => {
-      const response = await apiRequest("POST", `/api/invoices/${id}/items`, { productId, quantity, unitPrice });
+    mutationFn: async ({ productId, quantity, variantId, discount }: { productId: string; quantity: number; variantId?: string; discount: LineDiscountDraft }) => {
+      const response = await apiRequest("POST", `/api/invoices/${id}/items`, { productId, quantity, variantId, ...discount });
       return response.json();
     },
     onSuccess: () => {
@@ -202,6 +236,7 @@ export default function InvoiceDetail() {
       });
       setIsAddingProduct(false);
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
     },
     onError: (error: any) => {
       if (isUnauthorizedError(error)) {
@@ -215,6 +250,15 @@ export default function InvoiceDetail() {
         }, 500);
         return;
       }
+      const shortages = getStockShortages(error);
+      if (shortages) {
+        toast({
+          title: "Insufficient Stock",
+          description: describeStockShortages(shortages),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: error.response?.message || "Failed to add product",
@@ -234,6 +278,7 @@ export default function InvoiceDetail() {
         description: "Quantity updated successfully",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
     },
     onError: (error: any) => {
       if (isUnauthorizedError(error)) {
@@ -247,6 +292,15 @@ export default function InvoiceDetail() {
         }, 500);
         return;
       }
+      const shortages = getStockShortages(error);
+      if (shortages) {
+        toast({
+          title: "Insufficient Stock",
+          description: describeStockShortages(shortages),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: error.response?.message || "Failed to update quantity",
@@ -255,6 +309,98 @@ export default function InvoiceDetail() {
     },
   });
 
+  const updateItemDiscountMutation = useMutation({
+    mutationFn: async ({ itemId, discount }: { itemId: string; discount: LineDiscountDraft }) => {
+      const response = await apiRequest("PUT", `/api/invoices/${id}/items/${itemId}/discount`, discount);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Line discount updated",
+      });
+      setDiscountingItem(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // e.g. a percentage over 100
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to update line discount";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const couponMutation = useMutation({
+    mutationFn: async (code: string | null) => {
+      const response = await apiRequest("PUT", `/api/invoices/${id}/coupon`, { code });
+      return response.json();
+    },
+    onSuccess: (_, code) => {
+      toast({
+        title: "Success",
+        description: code ? `Coupon ${code.toUpperCase()} applied` : "Coupon removed",
+      });
+      setCouponCode("");
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      // e.g. an unknown or expired coupon code
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to apply coupon";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const lineDiscountLabel = (item: InvoiceItem) =>
+    describeLineDiscount(item.discountType, item.discountValue, (amount) => formatCurrency(amount, invoice?.currency));
+
+  const openLineDiscount = (item: InvoiceItem) => {
+    setLineDiscount({ discountType: item.discountType, discountValue: parseFloat(item.discountValue) });
+    setDiscountingItem(item);
+  };
+
   const deleteItemMutation = useMutation({
     mutationFn: async (itemId: string) => {
       const response = await apiRequest("DELETE", `/api/invoices/${id}/items/${itemId}`);
@@ -266,6 +412,7 @@ export default function InvoiceDetail() {
         description: "Item removed from invoice",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
     },
     onError: (error: any) => {
       if (isUnauthorizedError(error)) {
@@ -299,8 +446,10 @@ export default function InvoiceDetail() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
       // Refresh current invoice to show deleted status
       queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/versions`] });
     },
     onError: (error: any) => {
       if (isUnauthorizedError(error)) {
@@ -363,7 +512,7 @@ export default function InvoiceDetail() {
 
   const downloadPDF = async (invoiceId: string, invoiceNumber: string) => {
     try {
-      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/pdf`);
+      const response = await apiRequest("POST", `/api/invoices/${invoiceId}/pdf`, pdfTemplate === "default" ? {} : { template: pdfTemplate });
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -407,13 +556,6 @@ export default function InvoiceDetail() {
     });
   };
 
-  const formatCurrency = (amount: string | number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
-  };
-
   const getStatusBadge = (status: string) => {
     if (status === 'Processed') {
       return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Processed</Badge>;
@@ -498,6 +640,17 @@ export default function InvoiceDetail() {
             <i className="fas fa-print w-4 h-4 mr-2"></i>
             Print
           </Button>
+          <Select value={pdfTemplate} onValueChange={(value) => setPdfTemplate(value as PdfTemplate | "default")}>
+            <SelectTrigger className="w-40" data-testid="select-pdf-template">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default template</SelectItem>
+              {pdfTemplates.map((template) => (
+                <SelectItem key={template} value={template}>{pdfTemplateLabels[template]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button
             variant="outline"
             onClick={() => downloadPDF(invoice.id, invoice.invoiceNumber)}
@@ -559,7 +712,13 @@ export default function InvoiceDetail() {
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
               <p className="text-sm text-muted-foreground">Customer Name</p>
-              <p className="font-medium text-foreground">{invoice.customerName}</p>
+              {invoice.customerId ? (
+                <Link href={`/customers/${invoice.customerId}`}>
+                  <span className="font-medium text-primary hover:underline cursor-pointer" data-testid="link-invoice-customer">{invoice.customerName}</span>
+                </Link>
+              ) : (
+                <p className="font-medium text-foreground">{invoice.customerName}</p>
+              )}
             </div>
             <div>
               <p className="text-sm text-muted-foreground">Phone</p>
@@ -609,6 +768,7 @@ export default function InvoiceDetail() {
                   <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Category</th>
                   <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Qty</th>
                   <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Unit Price</th>
+                  <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Tax</th>
                   <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Total</th>
                   {invoice.status === 'Pending' && canProcessInvoice() && (
                     <th className="px-3 py-3 text-left text-xs font-medium text-muted-foreground uppercase">Actions</th>
@@ -621,7 +781,7 @@ export default function InvoiceDetail() {
                     <td className="px-3 py-3 min-w-[180px]">
                       <div>
                         <p className="text-sm font-medium text-foreground">{item.product?.productName || 'Unknown Product'}</p>
-                        <p className="text-xs text-muted-foreground">{item.product?.productId}</p>
+                        <p className="text-xs text-muted-foreground">{item.variant?.sku || item.product?.productId}</p>
                         {item.product?.description && (
                           <p className="text-xs text-muted-foreground mt-1 max-w-[160px] line-clamp-2" title={item.product.description}>
                             {item.product.description}
@@ -631,12 +791,16 @@ export default function InvoiceDetail() {
                     </td>
                     <td className="px-3 py-3">
                       <span className="text-sm text-foreground">
-                        {Array.isArray(item.product?.color) ? item.product.color.join(', ') : (item.product?.color || '-')}
+                        {item.variant
+                          ? item.variant.color
+                          : Array.isArray(item.product?.color) ? item.product.color.join(', ') : (item.product?.color || '-')}
                       </span>
                     </td>
                     <td className="px-3 py-3">
                       <span className="text-sm text-foreground">
-                        {Array.isArray(item.product?.size) ? item.product.size.join(', ') : (item.product?.size || '-')}
+                        {item.variant
+                          ? item.variant.size
+                          : Array.isArray(item.product?.size) ? item.product.size.join(', ') : (item.product?.size || '-')}
                       </span>
                     </td>
                     <td className="px-3 py-3">
@@ -682,10 +846,31 @@ export default function InvoiceDetail() {
                         <span className="text-sm text-foreground font-medium">{item.quantity}</span>
                       )}
                     </td>
-                    <td className="px-3 py-3 text-sm text-foreground">{formatCurrency(item.unitPrice)}</td>
-                    <td className="px-3 py-3 text-sm font-medium text-foreground">{formatCurrency(item.totalPrice)}</td>
+                    <td className="px-3 py-3 text-sm text-foreground">
+                      {formatCurrency(item.unitPrice, invoice.currency)}
+                      {lineDiscountLabel(item) && (
+                        <div className="text-xs text-muted-foreground" data-testid={`text-item-discount-${index}`}>
+                          less {lineDiscountLabel(item)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 text-sm text-foreground" data-testid={`text-item-tax-${index}`}>
+                      {formatCurrency(item.taxAmount, invoice.currency)}
+                      <div className="text-xs text-muted-foreground">{formatTaxRate(item.taxRate)}</div>
+                    </td>
+                    <td className="px-3 py-3 text-sm font-medium text-foreground">{formatCurrency(item.totalPrice, invoice.currency)}</td>
                     {invoice.status === 'Pending' && canProcessInvoice() && (
-                      <td className="px-3 py-3">
+                      <td className="px-3 py-3 whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openLineDiscount(item)}
+                          className="h-8 px-2"
+                          title="Line discount"
+                          data-testid={`button-discount-item-${index}`}
+                        >
+                          <i className="fas fa-tag w-3 h-3"></i>
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -704,7 +889,7 @@ export default function InvoiceDetail() {
                   </tr>
                 )) || (
                   <tr>
-                    <td colSpan={invoice.status === 'Pending' && canProcessInvoice() ? 9 : 8} className="px-4 py-8 text-center text-muted-foreground">
+                    <td colSpan={invoice.status === 'Pending' && canProcessInvoice() ? 10 : 9} className="px-4 py-8 text-center text-muted-foreground">
                       No items found
                     </td>
                   </tr>
@@ -735,8 +920,69 @@ export default function InvoiceDetail() {
           <div className="max-w-md ml-auto space-y-3">
             <div className="flex justify-between">
               <span className="text-muted-foreground">Subtotal:</span>
-              <span className="font-medium text-foreground">{formatCurrency(invoice.subtotal || 0)}</span>
+              <span className="font-medium text-foreground">{formatCurrency(invoice.subtotal || 0, invoice.currency)}</span>
             </div>
+
+            {invoice.promotions.map((promotion) => (
+              <div key={promotion.id} className="flex justify-between" data-testid={`text-promotion-${promotion.promotionId}`}>
+                <span className="text-muted-foreground">
+                  <i className="fas fa-gift mr-2"></i>
+                  {promotion.promotionName}:
+                </span>
+                <span className="font-medium text-foreground">-{formatCurrency(promotion.discountAmount, invoice.currency)}</span>
+              </div>
+            ))}
+
+            {invoice.couponCode ? (
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">Coupon:</span>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="font-mono" data-testid="text-coupon-code">{invoice.couponCode}</Badge>
+                  {invoice.status === 'Pending' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 px-2"
+                      onClick={() => couponMutation.mutate(null)}
+                      disabled={couponMutation.isPending}
+                      data-testid="button-remove-coupon"
+                    >
+                      <i className="fas fa-times w-3 h-3"></i>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : invoice.status === 'Pending' && (
+              <form
+                className="flex items-center space-x-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  if (couponCode.trim()) couponMutation.mutate(couponCode.trim());
+                }}
+              >
+                <Label htmlFor="coupon-code" className="text-sm text-muted-foreground min-w-fit">
+                  Coupon:
+                </Label>
+                <Input
+                  id="coupon-code"
+                  className="h-8 text-sm uppercase"
+                  value={couponCode}
+                  onChange={(e) => setCouponCode(e.target.value)}
+                  placeholder="Enter code"
+                  data-testid="input-coupon-code"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="sm"
+                  className="h-8"
+                  disabled={!couponCode.trim() || couponMutation.isPending}
+                  data-testid="button-apply-coupon"
+                >
+                  Apply
+                </Button>
+              </form>
+            )}
             
             {/* Discount Section - Enhanced with editing capability */}
             {invoice.status === 'Pending' && isEditingDiscount ? (
@@ -792,15 +1038,29 @@ export default function InvoiceDetail() {
                   <span className="text-muted-foreground">
                     Discount:
                   </span>
-                  <span className="font-medium text-foreground">-{formatCurrency(invoice.discountAmount || 0)}</span>
+                  <span className="font-medium text-foreground">-{formatCurrency(invoice.discountAmount || 0, invoice.currency)}</span>
                 </div>
               )
             )}
             
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">
+                {invoice.pricesIncludeTax ? "Tax (included):" : "Tax:"}
+              </span>
+              <span className="font-medium text-foreground" data-testid="text-tax-amount">{formatCurrency(invoice.taxAmount || 0, invoice.currency)}</span>
+            </div>
+            
             <div className="flex justify-between text-lg font-bold text-foreground border-t border-border pt-3">
               <span>Total:</span>
-              <span>{formatCurrency(invoice.total || 0)}</span>
+              <span>{formatCurrency(invoice.total || 0, invoice.currency)}</span>
             </div>
+
+            {invoice.currency !== BASE_CURRENCY && (
+              <div className="flex justify-between text-sm text-muted-foreground" data-testid="text-exchange-rate">
+                <span>1 {invoice.currency} = {parseFloat(invoice.exchangeRate)} {BASE_CURRENCY}</span>
+                <span>{formatCurrency(toBaseCurrency(invoice.total || 0, invoice.exchangeRate))}</span>
+              </div>
+            )}
           </div>
           
           {invoice.notes && (
@@ -812,6 +1072,14 @@ export default function InvoiceDetail() {
         </CardContent>
       </Card>
 
+      <InvoiceSends invoice={invoice} />
+
+      <InvoicePayments invoice={invoice} />
+
+      <InvoiceCreditNotes invoice={invoice} />
+
+      <InvoiceVersionHistory invoiceId={invoice.id} currency={invoice.currency} />
+
       {/* Add Product Dialog */}
       <Dialog open={isAddingProduct} onOpenChange={setIsAddingProduct}>
         <DialogContent className="sm:max-w-[600px]">
@@ -823,13 +1091,59 @@ export default function InvoiceDetail() {
           </DialogHeader>
           <AddProductForm 
             products={productsData?.products || []}
-            onAdd={(productId, quantity, unitPrice) => {
-              addItemMutation.mutate({ productId, quantity, unitPrice });
+            currency={invoice.currency}
+            exchangeRate={invoice.exchangeRate}
+            customerPrices={customerPrices || {}}
+            onAdd={(productId, quantity, discount, variantId) => {
+              addItemMutation.mutate({ productId, quantity, variantId, discount });
             }}
             isLoading={addItemMutation.isPending}
           />
         </DialogContent>
       </Dialog>
+
+      {/* Line Discount Dialog */}
+      <Dialog open={!!discountingItem} onOpenChange={(open) => !open && setDiscountingItem(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Line Discount</DialogTitle>
+            <DialogDescription>
+              Amount discounts come off the whole line; percentages follow the quantity.
+            </DialogDescription>
+          </DialogHeader>
+          {discountingItem && (
+            <div className="space-y-4">
+              <LineDiscountInput
+                key={discountingItem.id}
+                value={lineDiscount}
+                onChange={setLineDiscount}
+                currency={invoice.currency}
+              />
+              <div className="flex justify-between items-center p-3 bg-primary/5 rounded-lg">
+                <span className="font-medium">Line total:</span>
+                <span className="text-lg font-bold">
+                  {formatCurrency(
+                    calculateLineTotal(discountingItem.unitPrice, discountingItem.quantity, lineDiscount.discountType, lineDiscount.discountValue).total,
+                    invoice.currency
+                  )}
+                </span>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setDiscountingItem(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => updateItemDiscountMutation.mutate({ itemId: discountingItem.id, discount: lineDiscount })}
+                  disabled={updateItemDiscountMutation.isPending}
+                  data-testid="button-save-line-discount"
+                >
+                  {updateItemDiscountMutation.isPending ? "Saving..." : "Save Discount"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -837,21 +1151,41 @@ export default function InvoiceDetail() {
 // Add Product Form Component
 function AddProductForm({ 
   products, 
+  currency,
+  exchangeRate,
+  customerPrices,
   onAdd, 
   isLoading 
 }: { 
-  products: Product[]; 
-  onAdd: (productId: string, quantity: number, unitPrice: number) => void;
+  products: ProductWithVariants[]; 
+  currency: string;
+  exchangeRate: string;
+  customerPrices: Record<string, string>;
+  onAdd: (productId: string, quantity: number, discount: LineDiscountDraft, variantId?: string) => void;
   isLoading: boolean;
 }) {
   const [selectedProductId, setSelectedProductId] = useState<string>("");
+  const [selectedVariantId, setSelectedVariantId] = useState<string>("");
   const [quantity, setQuantity] = useState<number>(1);
+  const [discount, setDiscount] = useState<LineDiscountDraft>({ discountType: null, discountValue: 0 });
   const selectedProduct = products.find(p => p.id === selectedProductId);
+  const hasVariants = (selectedProduct?.variants?.length || 0) > 0;
+  const selectedVariant = selectedProduct?.variants?.find(v => v.id === selectedVariantId);
+  const stockRow = hasVariants ? selectedVariant : selectedProduct;
+  const availableStock = stockRow ? availableQuantity(stockRow) : undefined;
+  // Catalogue and price list prices are in the base currency; lines are priced in the invoice's currency
+  const priceOf = (product: Product) => fromBaseCurrency(customerPrices[product.id] ?? product.price, exchangeRate);
+  const hasListPrice = (product: Product) => customerPrices[product.id] !== undefined;
+
+  const handleProductChange = (productId: string) => {
+    setSelectedProductId(productId);
+    setSelectedVariantId("");
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (selectedProduct) {
-      onAdd(selectedProduct.id, quantity, parseFloat(selectedProduct.price));
+    if (selectedProduct && (!hasVariants || selectedVariant)) {
+      onAdd(selectedProduct.id, quantity, discount, selectedVariant?.id);
     }
   };
 
@@ -859,30 +1193,49 @@ function AddProductForm({
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
         <Label htmlFor="product">Product</Label>
-        <Select value={selectedProductId} onValueChange={setSelectedProductId}>
+        <Select value={selectedProductId} onValueChange={handleProductChange}>
           <SelectTrigger id="product" data-testid="select-product">
             <SelectValue placeholder="Select a product" />
           </SelectTrigger>
           <SelectContent>
             {products.map((product) => (
               <SelectItem key={product.id} value={product.id}>
-                {product.productName} - {product.productId} (${parseFloat(product.price).toFixed(2)}) - Stock: {product.quantity}
+                {product.productName} - {product.productId} ({formatCurrency(priceOf(product), currency)}) - Available: {availableQuantity(product)}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
       </div>
       
+      {hasVariants && (
+        <div className="space-y-2">
+          <Label htmlFor="variant">Size &amp; Color</Label>
+          <Select value={selectedVariantId} onValueChange={setSelectedVariantId}>
+            <SelectTrigger id="variant" data-testid="select-variant">
+              <SelectValue placeholder="Select a size and color" />
+            </SelectTrigger>
+            <SelectContent>
+              {selectedProduct?.variants.map((variant) => (
+                <SelectItem key={variant.id} value={variant.id} disabled={availableQuantity(variant) <= 0}>
+                  {variant.size} / {variant.color} - Available: {availableQuantity(variant)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      
       {selectedProduct && (
         <div className="p-4 bg-muted rounded-lg space-y-2">
           <div className="grid grid-cols-2 gap-2 text-sm">
             <div>
               <span className="text-muted-foreground">Price:</span> 
-              <span className="ml-2 font-medium">${parseFloat(selectedProduct.price).toFixed(2)}</span>
+              <span className="ml-2 font-medium">{formatCurrency(priceOf(selectedProduct), currency)}</span>
+              {hasListPrice(selectedProduct) && <span className="ml-1 text-xs text-muted-foreground">(price list)</span>}
             </div>
             <div>
-              <span className="text-muted-foreground">Stock:</span>
-              <span className="ml-2 font-medium">{selectedProduct.quantity}</span>
+              <span className="text-muted-foreground">Available:</span>
+              <span className="ml-2 font-medium">{availableStock ?? '-'}</span>
             </div>
             <div>
               <span className="text-muted-foreground">Colors:</span>
@@ -902,18 +1255,23 @@ function AddProductForm({
           id="quantity"
           type="number"
           min="1"
-          max={selectedProduct?.quantity || 1}
+          max={availableStock || 1}
           value={quantity}
           onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
           data-testid="input-add-quantity"
         />
       </div>
 
+      <div className="space-y-2">
+        <Label>Line Discount</Label>
+        <LineDiscountInput value={discount} onChange={setDiscount} currency={currency} />
+      </div>
+
       {selectedProduct && (
         <div className="flex justify-between items-center p-3 bg-primary/5 rounded-lg">
           <span className="font-medium">Total:</span>
           <span className="text-lg font-bold">
-            ${(parseFloat(selectedProduct.price) * quantity).toFixed(2)}
+            {formatCurrency(calculateLineTotal(priceOf(selectedProduct), quantity, discount.discountType, discount.discountValue).total, currency)}
           </span>
         </div>
       )}
@@ -922,14 +1280,14 @@ function AddProductForm({
         <Button
           type="button"
           variant="outline"
-          onClick={() => setSelectedProductId("")}
+          onClick={() => handleProductChange("")}
           disabled={isLoading}
         >
           Cancel
         </Button>
         <Button
           type="submit"
-          disabled={!selectedProductId || isLoading}
+          disabled={!selectedProductId || (hasVariants && !selectedVariant) || isLoading}
           data-testid="button-confirm-add-product"
         >
           {isLoading ? "Adding..." : "Add to Invoice"}
@@ -8,9 +8,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { ExportMenu } from "@/components/ExportMenu";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { getStockShortages, describeStockShortages } from "@/lib/stockUtils";
+import { paymentStatusStyles } from "@/lib/paymentUtils";
+import { formatCurrency } from "@/lib/formatters";
+import { paymentStatuses, type PaymentStatus } from "@shared/schema";
 import { useAuth } from "@/hooks/useAuth";
 
 export default function Invoices() {
@@ -19,6 +24,7 @@ export default function Invoices() {
   const [page, setPage] = useState(1);
   const [filters, setFilters] = useState({
     status: "",
+    paymentStatus: "",
     startDate: "",
     endDate: "",
     customerName: ""
@@ -40,6 +46,7 @@ export default function Invoices() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -53,6 +60,15 @@ export default function Invoices() {
         }, 500);
         return;
       }
+      const shortages = getStockShortages(error);
+      if (shortages) {
+        toast({
+          title: "Insufficient Stock",
+          description: describeStockShortages(shortages),
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to update invoice status",
@@ -66,11 +82,13 @@ export default function Invoices() {
       const response = await apiRequest("POST", `/api/invoices/${id}/email`);
       return response.json();
     },
-    onSuccess: () => {
+    // Sent in the background; the invoice page shows how the send is going
+    onSuccess: (_job, id) => {
       toast({
-        title: "Success",
-        description: "Invoice sent via email successfully",
+        title: "Sending",
+        description: "Invoice queued for email. Open the invoice to follow the send.",
       });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/jobs`] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -97,11 +115,12 @@ export default function Invoices() {
       const response = await apiRequest("POST", `/api/invoices/${id}/whatsapp`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_job, id) => {
       toast({
-        title: "Success",
-        description: "Invoice sent via WhatsApp successfully",
+        title: "Sending",
+        description: "Invoice queued for WhatsApp. Open the invoice to follow the send.",
       });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${id}/jobs`] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -135,6 +154,7 @@ export default function Invoices() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
     },
     onError: (error) => {
       if (isUnauthorizedError(error)) {
@@ -165,13 +185,6 @@ export default function Invoices() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const formatCurrency = (amount: string | number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
-  };
-
   const getStatusBadge = (status: string) => {
     if (status === 'Processed') {
       return <Badge className="bg-accent/10 text-accent">Processed</Badge>;
@@ -237,6 +250,18 @@ export default function Invoices() {
             </SelectContent>
           </Select>
           
+          <Select value={filters.paymentStatus} onValueChange={(value) => handleFilterChange("paymentStatus", value)}>
+            <SelectTrigger className="w-full sm:w-44" data-testid="select-payment-status">
+              <SelectValue placeholder="All Payments" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Payments</SelectItem>
+              {paymentStatuses.map((paymentStatus) => (
+                <SelectItem key={paymentStatus} value={paymentStatus}>{paymentStatus}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          
           <Input
             type="date"
             value={filters.startDate}
@@ -265,12 +290,15 @@ export default function Invoices() {
           />
         </div>
 
-        <Link href="/create-invoice">
-          <Button data-testid="button-create-invoice">
-            <i className="fas fa-plus mr-2"></i>
-            Create Invoice
-          </Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <ExportMenu url="/api/invoices/export" params={filters} testId="button-export-invoices" />
+          <Link href="/create-invoice">
+            <Button data-testid="button-create-invoice">
+              <i className="fas fa-plus mr-2"></i>
+              Create Invoice
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Invoices Table */}
@@ -284,6 +312,7 @@ export default function Invoices() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Customer</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Date</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Balance Due</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
                 </tr>
@@ -304,6 +333,9 @@ export default function Invoices() {
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Skeleton className="h-4 w-16" />
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Skeleton className="h-4 w-16" />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Skeleton className="h-6 w-20 rounded-full" />
                       </td>
@@ -333,10 +365,18 @@ export default function Invoices() {
                         {formatDate(invoice.createdAt)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
-                        {formatCurrency(invoice.total)}
+                        {formatCurrency(invoice.total, invoice.currency)}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {formatCurrency(Math.max(invoice.balanceDue, 0), invoice.currency)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap space-x-1">
                         {getStatusBadge(invoice.status)}
+                        {invoice.status !== 'Deleted' && (
+                          <Badge className={paymentStatusStyles[invoice.paymentStatus as PaymentStatus]} data-testid={`badge-payment-${invoice.id}`}>
+                            {invoice.paymentStatus}
+                          </Badge>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
                         <Link href={`/invoices/${invoice.id}`}>
@@ -433,7 +473,7 @@ export default function Invoices() {
                   ))
                 ) : (
                   <tr>
-                    <td colSpan={6} className="px-6 py-16 text-center">
+                    <td colSpan={7} className="px-6 py-16 text-center">
                       <div className="space-y-4">
                         <i className="fas fa-file-invoice text-muted-foreground text-4xl"></i>
                         <div>
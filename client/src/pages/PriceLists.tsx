@@ -0,0 +1,436 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/lib/formatters";
+import { BASE_CURRENCY } from "@shared/currency";
+import type { PriceList, PriceListSummary, PriceListWithItems, ProductsResponse } from "@shared/schema";
+
+const priceListFormSchema = z.object({
+  name: z.string().trim().min(1, "Price list name is required"),
+  description: z.string().optional(),
+  isActive: z.boolean(),
+});
+
+type PriceListForm = z.infer<typeof priceListFormSchema>;
+
+const emptyPriceListForm: PriceListForm = {
+  name: "",
+  description: "",
+  isActive: true,
+};
+
+export default function PriceLists() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingPriceList, setEditingPriceList] = useState<PriceList | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: priceLists, isLoading } = useQuery<PriceListSummary[]>({
+    queryKey: ["/api/price-lists"],
+  });
+
+  const form = useForm<PriceListForm>({
+    resolver: zodResolver(priceListFormSchema),
+    defaultValues: emptyPriceListForm,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // e.g. a name that is already taken
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const savePriceListMutation = useMutation({
+    mutationFn: async (data: PriceListForm) => {
+      const response = editingPriceList
+        ? await apiRequest("PUT", `/api/price-lists/${editingPriceList.id}`, data)
+        : await apiRequest("POST", "/api/price-lists", data);
+      return response.json() as Promise<PriceList>;
+    },
+    onSuccess: (priceList) => {
+      toast({
+        title: "Success",
+        description: editingPriceList ? "Price list updated successfully" : "Price list created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/price-lists"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/price-lists/${priceList.id}`] });
+      setSelectedId(priceList.id);
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error, "Failed to save price list"),
+  });
+
+  const openDialog = (priceList?: PriceList) => {
+    setEditingPriceList(priceList || null);
+    form.reset(priceList ? {
+      name: priceList.name,
+      description: priceList.description || "",
+      isActive: priceList.isActive,
+    } : emptyPriceListForm);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingPriceList(null);
+    form.reset(emptyPriceListForm);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Customers on a list are charged its price for listed products and the normal price for everything else
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-add-price-list">
+          <i className="fas fa-plus mr-2"></i>
+          Add Price List
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Products</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Customers</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={5} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : priceLists?.length ? (
+                  priceLists.map((priceList) => (
+                    <tr
+                      key={priceList.id}
+                      className={`cursor-pointer transition-colors ${selectedId === priceList.id ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                      onClick={() => setSelectedId(priceList.id)}
+                      data-testid={`row-price-list-${priceList.id}`}
+                    >
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-foreground">{priceList.name}</div>
+                        {priceList.description && <div className="text-xs text-muted-foreground">{priceList.description}</div>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{priceList.productCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{priceList.customerCount}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Badge variant={priceList.isActive ? "default" : "outline"}>
+                          {priceList.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openDialog(priceList);
+                          }}
+                          data-testid={`button-edit-price-list-${priceList.id}`}
+                        >
+                          <i className="fas fa-edit w-4 h-4"></i>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={5} className="px-6 py-16 text-center">
+                      <i className="fas fa-tags text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No price lists yet</h3>
+                      <p className="text-muted-foreground">Create lists such as Wholesale or VIP and assign customers to them</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedId && <PriceListPrices priceListId={selectedId} onError={handleMutationError} />}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingPriceList ? "Edit Price List" : "Add Price List"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePriceListMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Wholesale" {...field} data-testid="input-price-list-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} data-testid="input-price-list-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-price-list-active"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Active (inactive lists fall back to normal prices)</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePriceListMutation.isPending} data-testid="button-save-price-list">
+                  {savePriceListMutation.isPending ? "Saving..." : "Save Price List"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Per-product prices on one list, with a product search to add more
+function PriceListPrices({ priceListId, onError }: { priceListId: string; onError: (error: Error, fallback: string) => void }) {
+  const { toast } = useToast();
+  const [productSearch, setProductSearch] = useState("");
+  const [prices, setPrices] = useState<Record<string, string>>({});
+
+  const { data: priceList, isLoading } = useQuery<PriceListWithItems>({
+    queryKey: [`/api/price-lists/${priceListId}`],
+  });
+
+  const { data: productMatches } = useQuery<ProductsResponse>({
+    queryKey: ["/api/products", { search: productSearch, limit: 8 }],
+    enabled: productSearch.trim().length >= 2,
+  });
+
+  const refreshPriceList = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/price-lists/${priceListId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/price-lists"] });
+  };
+
+  const setPriceMutation = useMutation({
+    mutationFn: async ({ productId, price }: { productId: string; price: string }) => {
+      const response = await apiRequest("PUT", `/api/price-lists/${priceListId}/prices/${productId}`, { price });
+      return response.json();
+    },
+    onSuccess: (_, { productId }) => {
+      toast({
+        title: "Success",
+        description: "Price saved",
+      });
+      setPrices(({ [productId]: _saved, ...rest }) => rest);
+      setProductSearch("");
+      refreshPriceList();
+    },
+    onError: (error) => onError(error, "Failed to save price"),
+  });
+
+  const removePriceMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      await apiRequest("DELETE", `/api/price-lists/${priceListId}/prices/${productId}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Product removed from price list",
+      });
+      refreshPriceList();
+    },
+    onError: (error) => onError(error, "Failed to remove price"),
+  });
+
+  const savePrice = (productId: string) => {
+    const price = prices[productId];
+    if (!price || parseFloat(price) <= 0) return;
+    setPriceMutation.mutate({ productId, price });
+  };
+
+  const listedIds = new Set(priceList?.items.map(item => item.productId));
+  const unlisted = productMatches?.products.filter(product => !listedIds.has(product.id)) || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{priceList ? `${priceList.name} Prices` : "Prices"}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Input
+            value={productSearch}
+            onChange={(e) => setProductSearch(e.target.value)}
+            placeholder="Search products to add to this list"
+            data-testid="input-price-list-product-search"
+          />
+          {unlisted.length > 0 && (
+            <div className="mt-2 border border-border rounded-md divide-y divide-border">
+              {unlisted.map((product) => (
+                <div key={product.id} className="flex items-center justify-between gap-4 px-4 py-2" data-testid={`row-price-list-match-${product.id}`}>
+                  <div className="text-sm">
+                    <div className="font-medium text-foreground">{product.productName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {product.productId} · {formatCurrency(product.price, BASE_CURRENCY)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      className="w-28"
+                      value={prices[product.id] ?? ""}
+                      onChange={(e) => setPrices(current => ({ ...current, [product.id]: e.target.value }))}
+                      placeholder={product.price}
+                      data-testid={`input-price-list-new-price-${product.id}`}
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => savePrice(product.id)}
+                      disabled={setPriceMutation.isPending || !prices[product.id]}
+                      data-testid={`button-add-price-${product.id}`}
+                    >
+                      Add
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Normal Price</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">List Price</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-card divide-y divide-border">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-4">
+                    <Skeleton className="h-4 w-full" />
+                  </td>
+                </tr>
+              ) : priceList?.items.length ? (
+                priceList.items.map((item) => (
+                  <tr key={item.id} data-testid={`row-price-list-item-${item.productId}`}>
+                    <td className="px-4 py-3 text-sm">
+                      <div className="font-medium text-foreground">{item.product.productName}</div>
+                      <div className="text-xs text-muted-foreground">{item.product.productId}</div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-muted-foreground">{formatCurrency(item.product.price, BASE_CURRENCY)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      <Input
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        className="w-28"
+                        value={prices[item.productId] ?? item.price}
+                        onChange={(e) => setPrices(current => ({ ...current, [item.productId]: e.target.value }))}
+                        onBlur={() => prices[item.productId] !== undefined && prices[item.productId] !== item.price && savePrice(item.productId)}
+                        data-testid={`input-price-list-price-${item.productId}`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removePriceMutation.mutate(item.productId)}
+                        disabled={removePriceMutation.isPending}
+                        data-testid={`button-remove-price-${item.productId}`}
+                      >
+                        <i className="fas fa-trash w-4 h-4 text-destructive"></i>
+                      </Button>
+                    </td>
+                  </tr>
+                ))
+              ) : (
+                <tr>
+                  <td colSpan={4} className="px-4 py-8 text-center text-sm text-muted-foreground">
+                    No products on this list yet; customers assigned to it pay normal prices
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,11 +4,23 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import type { Product } from "@shared/schema";
+import type { Product, StockMovementReason, StockMovementsResponse } from "@shared/schema";
+import { formatDate } from "@/lib/formatters";
+import { availableQuantity, isLowStock } from "@/lib/stockUtils";
+import { useSettings } from "@/hooks/useSettings";
+
+const movementReasonStyles: Record<StockMovementReason, { label: string; icon: string }> = {
+  sale: { label: "Sale", icon: "fa-shopping-cart" },
+  return: { label: "Return", icon: "fa-undo" },
+  adjustment: { label: "Adjustment", icon: "fa-sliders-h" },
+  receipt: { label: "Receipt", icon: "fa-truck-loading" },
+  import: { label: "Import", icon: "fa-file-import" },
+};
 
 export default function ProductDetail() {
   const [match, params] = useRoute("/products/:id");
   const productId = params?.id;
+  const { settings } = useSettings();
 
   const { data: product, isLoading, error } = useQuery<Product>({
     queryKey: [`/api/products/${productId}`],
@@ -22,11 +34,11 @@ export default function ProductDetail() {
     }).format(typeof price === 'string' ? parseFloat(price) : price);
   };
 
-  const getStockBadge = (quantity: number) => {
-    if (quantity === 0) {
+  const getStockBadge = (quantity: number, reorderPoint: number) => {
+    if (quantity <= 0) {
       return <Badge variant="destructive">Out of Stock</Badge>;
     }
-    if (quantity <= 5) {
+    if (isLowStock(quantity, reorderPoint, settings.lowStockThreshold)) {
       return <Badge variant="destructive">{quantity} Low Stock</Badge>;
     }
     return <Badge variant="secondary">{quantity} In Stock</Badge>;
@@ -125,7 +137,7 @@ export default function ProductDetail() {
                 <span className="text-2xl font-bold text-foreground">
                   {formatPrice(product.price)}
                 </span>
-                {getStockBadge(product.quantity)}
+                {getStockBadge(availableQuantity(product), product.reorderPoint)}
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -155,7 +167,14 @@ export default function ProductDetail() {
 
               <div>
                 <h3 className="text-sm font-medium text-muted-foreground">Stock Level</h3>
-                <p className="text-lg text-foreground">{product.quantity} units available</p>
+                <p className="text-lg text-foreground">{availableQuantity(product)} units available</p>
+                <p className="text-sm text-muted-foreground">
+                  {product.quantity} on hand, {product.reservedQuantity} reserved by pending invoices
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Reorder at {product.reorderPoint} units
+                  {product.reorderQuantity > 0 && `, ordering ${product.reorderQuantity} at a time`}
+                </p>
               </div>
             </div>
 
@@ -179,6 +198,78 @@ export default function ProductDetail() {
           </div>
         </div>
       </Card>
+
+      <StockHistory productId={product.id} />
     </div>
   );
+}
+
+// Timeline of stock movements for reconciling counts against the ledger
+function StockHistory({ productId }: { productId: string }) {
+  const { data, isLoading } = useQuery<StockMovementsResponse>({
+    queryKey: [`/api/products/${productId}/movements`],
+  });
+
+  return (
+    <Card className="mt-6" data-testid="card-stock-history">
+      <div className="p-6 border-b border-border">
+        <h3 className="text-lg font-semibold text-foreground">Stock History</h3>
+      </div>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : data?.movements?.length ? (
+          <ol className="relative border-l border-border ml-3 space-y-6">
+            {data.movements.map((movement) => {
+              const style = movementReasonStyles[movement.reason];
+              return (
+                <li key={movement.id} className="ml-6" data-testid={`stock-movement-${movement.id}`}>
+                  <span className="absolute -left-3 flex items-center justify-center w-6 h-6 rounded-full bg-muted">
+                    <i className={`fas ${style.icon} text-muted-foreground text-xs`}></i>
+                  </span>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-foreground">
+                        {style.label}
+                        {movement.variant && (
+                          <span className="text-muted-foreground font-normal"> · {movement.variant.size} / {movement.variant.color}</span>
+                        )}
+                        {(movement.creditNoteNumber || movement.invoiceNumber || movement.poNumber || movement.stockTakeReference) && (
+                          <span className="text-muted-foreground font-normal"> · {movement.creditNoteNumber || movement.invoiceNumber || movement.poNumber || movement.stockTakeReference}</span>
+                        )}
+                      </p>
+                      {movement.note && (
+                        <p className="text-xs text-muted-foreground">{movement.note}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {movement.createdAt ? formatDate(movement.createdAt, 'long') : ''}
+                        {movement.user && ` · by ${movement.user.firstName && movement.user.lastName
+                          ? `${movement.user.firstName} ${movement.user.lastName}`
+                          : movement.user.username}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className={`text-sm font-semibold ${movement.quantity < 0 ? 'text-destructive' : 'text-accent'}`}>
+                        {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                      </p>
+                      <p className="text-xs text-muted-foreground">Balance {movement.balanceAfter}</p>
+                    </div>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <div className="text-center py-8">
+            <i className="fas fa-history text-muted-foreground text-3xl mb-4"></i>
+            <p className="text-sm text-muted-foreground">No stock movements recorded yet</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
\ No newline at end of file
@@ -19,11 +19,19 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import type { ProductsResponse, Product } from "@shared/schema";
+import type { ProductsResponse, ProductWithVariants, TaxRatesResponse } from "@shared/schema";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { ExportMenu } from "@/components/ExportMenu";
+import { VariantStockGrid, variantKey } from "@/components/VariantStockGrid";
+import { availableQuantity, isLowStock } from "@/lib/stockUtils";
+import { useSettings } from "@/hooks/useSettings";
+import { formatTaxRate } from "@/lib/taxUtils";
+import { toCsv } from "@shared/csv";
+import { productImportTemplate } from "@shared/productImport";
 
 export default function Products() {
   const { toast } = useToast();
+  const { settings } = useSettings();
   const [page, setPage] = useState(1);
   const [filters, setFilters] = useState({
     search: "",
@@ -31,18 +39,21 @@ export default function Products() {
     size: "",
     stockLevel: ""
   });
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [bulkUploadFile, setBulkUploadFile] = useState<File | null>(null);
+  const [selectedProduct, setSelectedProduct] = useState<ProductWithVariants | null>(null);
   const [editImageUrl, setEditImageUrl] = useState<string>("");
+  const [editVariantQuantities, setEditVariantQuantities] = useState<Record<string, number>>({});
 
   const editProductSchema = z.object({
     productName: z.string().min(1, "Product name is required"),
     color: z.string().min(1, "At least one color is required"),
     size: z.array(z.string()).min(1, "At least one size is required"),
     quantity: z.number().min(0, "Quantity must be 0 or greater"),
+    reorderPoint: z.number().int().min(0, "Reorder point must be 0 or greater"),
+    reorderQuantity: z.number().int().min(0, "Reorder quantity must be 0 or greater"),
     price: z.number().min(0, "Price must be 0 or greater"),
     manufacturer: z.string().optional(),
     category: z.string().optional(),
+    taxRateId: z.string().optional(),
     description: z.string().optional(),
   });
 
@@ -55,13 +66,20 @@ export default function Products() {
       color: "",
       size: [],
       quantity: 0,
+      reorderPoint: 5,
+      reorderQuantity: 0,
       price: 0,
       manufacturer: "",
       category: "",
+      taxRateId: "inherit",
       description: "",
     },
   });
 
+  const editSizes = editForm.watch("size") || [];
+  const editColors = (editForm.watch("color") || "").split(',').map(c => c.trim()).filter(c => c.length > 0);
+  const editHasVariants = editSizes.length > 0 && editColors.length > 0;
+
   const updateProductMutation = useMutation({
     mutationFn: async (data: EditProductForm & { id: string; imageUrl?: string }) => {
       // Convert comma-separated color string to array
@@ -70,10 +88,20 @@ export default function Products() {
       // Prepare update payload without imageUrl (handled separately)
       const { imageUrl, id, ...updateData } = data;
       
+      // Stock is tracked per size/color; the server derives the product quantity from these
+      const variants = data.size.flatMap(size => colorArray.map(color => ({
+        size,
+        color,
+        quantity: editVariantQuantities[variantKey(size, color)] || 0,
+      })));
+      
       const response = await apiRequest("PUT", `/api/products/${data.id}`, {
         ...updateData,
         color: colorArray,
         price: data.price.toString(),
+        // "inherit" clears the product's own class so category/default rates apply
+        taxRateId: data.taxRateId && data.taxRateId !== "inherit" ? data.taxRateId : null,
+        variants,
       });
       const product = await response.json();
       
@@ -93,6 +121,7 @@ export default function Products() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
       setSelectedProduct(null);
       setEditImageUrl("");
+      setEditVariantQuantities({});
       editForm.reset();
     },
     onError: (error) => {
@@ -107,14 +136,26 @@ export default function Products() {
         }, 500);
         return;
       }
+      // Variant changes that would drop stock reserved by pending invoices are refused with a reason
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to update product";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
       toast({
         title: "Error",
-        description: "Failed to update product",
+        description,
         variant: "destructive",
       });
     },
   });
 
+  const { data: taxData } = useQuery<TaxRatesResponse>({
+    queryKey: ["/api/tax-rates"],
+  });
+
   const { data: productsData, isLoading, error } = useQuery<ProductsResponse>({
     queryKey: ["/api/products", { page, limit: 12, ...filters }],
   });
@@ -156,11 +197,11 @@ export default function Products() {
     setPage(1);
   };
 
-  const getStockBadge = (quantity: number) => {
-    if (quantity === 0) {
+  const getStockBadge = (quantity: number, reorderPoint: number) => {
+    if (quantity <= 0) {
       return <Badge variant="destructive">Out of Stock</Badge>;
     }
-    if (quantity <= 5) {
+    if (isLowStock(quantity, reorderPoint, settings.lowStockThreshold)) {
       return <Badge variant="destructive">{quantity} Low Stock</Badge>;
     }
     return <Badge variant="secondary">{quantity} In Stock</Badge>;
@@ -210,39 +251,8 @@ export default function Products() {
 
   const downloadTemplate = () => {
     try {
-      // Create CSV headers with sample row
-      const headers = [
-        'Product ID',
-        'Product Name', 
-        'Colors (comma-separated)',
-        'Sizes (comma-separated: XS,S,M,L,XL,XXL)',
-        'Quantity',
-        'Price',
-        'Category',
-        'Manufacturer',
-        'Description'
-      ];
-
-      const sampleRow = [
-        'PROD-12345-ABC',
-        'Sample T-Shirt',
-        'red, blue, green',
-        'S, M, L, XL',
-        '100',
-        '29.99',
-        'Clothing',
-        'FashionCo',
-        'High quality cotton t-shirt'
-      ];
-
-      const csvRows = [
-        headers.join(','),
-        sampleRow.map(value => `"${value}"`).join(',')
-      ];
-
       // Create and download CSV file
-      const csvContent = csvRows.join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+      const blob = new Blob([toCsv(productImportTemplate)], { type: 'text/csv;charset=utf-8;' });
       const link = document.createElement('a');
       
       const url = URL.createObjectURL(blob);
@@ -269,125 +279,6 @@ export default function Products() {
     }
   };
 
-  const exportToCSV = async () => {
-    try {
-      // Fetch all products without pagination for export
-      const response = await fetch('/api/products?limit=1000');
-      const data: ProductsResponse = await response.json();
-      
-      if (!data.products || data.products.length === 0) {
-        toast({
-          title: "No Data",
-          description: "No products found to export",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Create CSV headers
-      const headers = [
-        'Product ID',
-        'Product Name', 
-        'Color',
-        'Size',
-        'Quantity',
-        'Price',
-        'Category',
-        'Description',
-        'QR Code URL',
-        'Created Date'
-      ];
-
-      // Convert products to CSV rows
-      const csvRows = [
-        headers.join(','),
-        ...data.products.map(product => [
-          `"${product.productId}"`,
-          `"${product.productName}"`,
-          `"${Array.isArray(product.color) ? product.color.join(', ') : product.color}"`,
-          `"${Array.isArray(product.size) ? product.size.join(', ') : product.size}"`,
-          product.quantity,
-          product.price,
-          `"${product.category || ''}"`,
-          `"${product.description || ''}"`,
-          `"${product.qrCodeUrl || ''}"`,
-          `"${new Date(product.createdAt || '').toLocaleDateString()}"`
-        ].join(','))
-      ];
-
-      // Create and download CSV file
-      const csvContent = csvRows.join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `products_export_${new Date().toISOString().split('T')[0]}.csv`);
-      link.style.visibility = 'hidden';
-      
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      toast({
-        title: "Export Successful",
-        description: `Exported ${data.products.length} products to CSV`,
-      });
-
-    } catch (error) {
-      console.error('Export error:', error);
-      toast({
-        title: "Export Failed", 
-        description: "Failed to export products. Please try again.",
-        variant: "destructive",
-      });
-    }
-  };
-
-  const bulkUploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      const formData = new FormData();
-      formData.append('csvFile', file);
-      const response = await fetch('/api/products/bulk-upload', {
-        method: 'POST',
-        body: formData,
-      });
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(error);
-      }
-      return response.json();
-    },
-    onSuccess: (data) => {
-      toast({
-        title: "Bulk Upload Successful",
-        description: `Successfully uploaded ${data.successCount} products. ${data.errorCount > 0 ? `${data.errorCount} errors occurred.` : ''}`,
-      });
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
-      setBulkUploadFile(null);
-    },
-    onError: (error) => {
-      toast({
-        title: "Bulk Upload Failed",
-        description: error.message || "Failed to upload products",
-        variant: "destructive",
-      });
-    },
-  });
-
-  const handleBulkUpload = () => {
-    if (!bulkUploadFile) {
-      toast({
-        title: "No File Selected",
-        description: "Please select a CSV file to upload",
-        variant: "destructive",
-      });
-      return;
-    }
-    bulkUploadMutation.mutate(bulkUploadFile);
-  };
-
   if (error) {
     return (
       <div className="text-center py-8">
@@ -461,42 +352,14 @@ export default function Products() {
             Download Template
           </Button>
           
-          <Button 
-            variant="outline" 
-            onClick={exportToCSV}
-            data-testid="button-export-csv"
-          >
-            <i className="fas fa-download mr-2"></i>
-            Export CSV
-          </Button>
+          <ExportMenu url="/api/products/export" params={filters} testId="button-export-products" />
           
-          <div className="relative">
-            <input
-              type="file"
-              accept=".csv"
-              onChange={(e) => setBulkUploadFile(e.target.files?.[0] || null)}
-              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-              data-testid="input-bulk-upload-file"
-            />
-            <Button 
-              variant="outline" 
-              data-testid="button-select-bulk-upload"
-            >
+          <Link href="/bulk-upload">
+            <Button variant="outline" data-testid="button-bulk-upload">
               <i className="fas fa-upload mr-2"></i>
-              {bulkUploadFile ? bulkUploadFile.name.substring(0, 15) + '...' : 'Select CSV'}
+              Bulk Upload
             </Button>
-          </div>
-          
-          {bulkUploadFile && (
-            <Button 
-              onClick={handleBulkUpload}
-              disabled={bulkUploadMutation.isPending}
-              data-testid="button-bulk-upload"
-            >
-              <i className="fas fa-cloud-upload-alt mr-2"></i>
-              {bulkUploadMutation.isPending ? "Uploading..." : "Bulk Upload"}
-            </Button>
-          )}
+          </Link>
           
           <Link href="/add-product">
             <Button data-testid="button-add-product">
@@ -528,7 +391,7 @@ export default function Products() {
       ) : (
         <>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {productsData?.products?.map((product: any) => (
+            {productsData?.products?.map((product) => (
               <Card key={product.id} className="overflow-hidden hover:shadow-lg transition-shadow" data-testid={`card-product-${product.id}`}>
                 <div className="relative">
                   {product.imageUrl ? (
@@ -564,14 +427,45 @@ export default function Products() {
                   
                   <div className="flex items-center justify-between mb-4">
                     <span className="text-sm text-muted-foreground">Size: {Array.isArray(product.size) ? product.size.join(', ') : product.size}</span>
-                    {getStockBadge(product.quantity)}
+                    {getStockBadge(availableQuantity(product), product.reorderPoint)}
                   </div>
                   
+                  <div className="grid grid-cols-3 gap-2 mb-4 text-center" data-testid={`stock-breakdown-${product.id}`}>
+                    <div className="bg-muted rounded-md py-1">
+                      <p className="text-xs text-muted-foreground">On hand</p>
+                      <p className="text-sm font-medium text-foreground">{product.quantity}</p>
+                    </div>
+                    <div className="bg-muted rounded-md py-1">
+                      <p className="text-xs text-muted-foreground">Reserved</p>
+                      <p className="text-sm font-medium text-foreground">{product.reservedQuantity}</p>
+                    </div>
+                    <div className="bg-muted rounded-md py-1">
+                      <p className="text-xs text-muted-foreground">Available</p>
+                      <p className="text-sm font-medium text-foreground">{availableQuantity(product)}</p>
+                    </div>
+                  </div>
+                  
+                  {product.variants?.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mb-4" data-testid={`variants-${product.id}`}>
+                      {product.variants.map((variant) => (
+                        <Badge
+                          key={variant.id}
+                          variant={availableQuantity(variant) === 0 ? "destructive" : "outline"}
+                          className="text-xs font-normal"
+                          title={`${variant.sku} - on hand ${variant.quantity}, reserved ${variant.reservedQuantity}`}
+                        >
+                          {variant.size} / {variant.color}: {availableQuantity(variant)}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  
                   <div className="flex items-center gap-2">
                     <Dialog open={selectedProduct?.id === product.id} onOpenChange={(open) => {
                       if (!open) {
                         setSelectedProduct(null);
                         setEditImageUrl("");
+                        setEditVariantQuantities({});
                         editForm.reset();
                       }
                     }}>
@@ -582,14 +476,20 @@ export default function Products() {
                           className="flex-1"
                           onClick={() => {
                             setSelectedProduct(product);
+                            setEditVariantQuantities(Object.fromEntries(
+                              (product.variants || []).map((variant) => [variantKey(variant.size, variant.color), variant.quantity])
+                            ));
                             editForm.reset({
                               productName: product.productName,
                               color: Array.isArray(product.color) ? product.color.join(', ') : product.color,
                               size: Array.isArray(product.size) ? product.size : [product.size],
                               quantity: Number(product.quantity),
+                              reorderPoint: product.reorderPoint,
+                              reorderQuantity: product.reorderQuantity,
                               price: Number(product.price),
                               manufacturer: product.manufacturer || "",
                               category: product.category || "none",
+                              taxRateId: product.taxRateId || "inherit",
                               description: product.description || "",
                             });
                           }}
@@ -684,6 +584,7 @@ export default function Products() {
                                           type="number" 
                                           min="0"
                                           {...field}
+                                          disabled={editHasVariants}
                                           onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                                         />
                                       </FormControl>
@@ -713,6 +614,60 @@ export default function Products() {
                                 />
                               </div>
                               
+                              <div className="grid grid-cols-2 gap-2">
+                                <FormField
+                                  control={editForm.control}
+                                  name="reorderPoint"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Reorder Point</FormLabel>
+                                      <FormControl>
+                                        <Input 
+                                          type="number" 
+                                          min="0"
+                                          {...field}
+                                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                          data-testid="input-edit-reorder-point"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                                
+                                <FormField
+                                  control={editForm.control}
+                                  name="reorderQuantity"
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Reorder Quantity</FormLabel>
+                                      <FormControl>
+                                        <Input 
+                                          type="number" 
+                                          min="0"
+                                          {...field}
+                                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                          data-testid="input-edit-reorder-quantity"
+                                        />
+                                      </FormControl>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              </div>
+                              
+                              {editHasVariants && (
+                                <div className="space-y-2">
+                                  <Label>Stock by Size &amp; Color</Label>
+                                  <VariantStockGrid
+                                    sizes={editSizes}
+                                    colors={editColors}
+                                    value={editVariantQuantities}
+                                    onChange={setEditVariantQuantities}
+                                  />
+                                </div>
+                              )}
+                              
                               <FormField
                                 control={editForm.control}
                                 name="category"
@@ -738,6 +693,32 @@ export default function Products() {
                                   </FormItem>
                                 )}
                               />
+
+                              <FormField
+                                control={editForm.control}
+                                name="taxRateId"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>Tax Class</FormLabel>
+                                    <Select onValueChange={field.onChange} value={field.value}>
+                                      <FormControl>
+                                        <SelectTrigger data-testid="select-edit-tax-class">
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="inherit">Category / default rate</SelectItem>
+                                        {taxData?.taxRates.filter(rate => rate.isActive !== false || rate.id === field.value).map((rate) => (
+                                          <SelectItem key={rate.id} value={rate.id}>
+                                            {rate.name} ({formatTaxRate(rate.rate)})
+                                          </SelectItem>
+                                        ))}
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
                               
                               <FormField
                                 control={editForm.control}
@@ -806,6 +787,7 @@ export default function Products() {
                                 onClick={() => {
                                   setSelectedProduct(null);
                                   setEditImageUrl("");
+                                  setEditVariantQuantities({});
                                   editForm.reset();
                                 }}
                               >
@@ -0,0 +1,527 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { BASE_CURRENCY } from "@shared/currency";
+import { promotionTypes, promotionTypeLabels, promotionScopes, promotionScopeLabels, type PromotionScope } from "@shared/promotions";
+import type { Promotion } from "@shared/schema";
+
+const promotionFormSchema = z.object({
+  name: z.string().trim().min(1, "Promotion name is required"),
+  description: z.string().optional(),
+  code: z.string().optional(),
+  type: z.enum(promotionTypes),
+  scope: z.enum(promotionScopes),
+  scopeValue: z.string().optional(),
+  // Percentages are entered as 0-100 and stored as a fraction
+  value: z.coerce.number().min(0, "Value cannot be negative"),
+  buyQuantity: z.coerce.number().int().min(0),
+  getQuantity: z.coerce.number().int().min(0),
+  minSubtotal: z.coerce.number().min(0, "Minimum spend cannot be negative"),
+  startsAt: z.string().min(1, "Start date is required"),
+  endsAt: z.string().optional(),
+  stackable: z.boolean(),
+  isActive: z.boolean(),
+}).refine(data => data.scope === 'all' || !!data.scopeValue?.trim(), {
+  message: "Choose what the promotion applies to", path: ["scopeValue"],
+}).refine(data => data.type !== 'percentage' || data.value <= 100, {
+  message: "A percentage cannot exceed 100%", path: ["value"],
+}).refine(data => data.type !== 'buy_x_get_y' || (data.buyQuantity >= 1 && data.getQuantity >= 1), {
+  message: "Buy and get quantities are required", path: ["buyQuantity"],
+});
+
+type PromotionForm = z.infer<typeof promotionFormSchema>;
+
+const toDateInput = (date: Date | string) => new Date(date).toISOString().split('T')[0];
+
+const emptyPromotionForm = (): PromotionForm => ({
+  name: "",
+  description: "",
+  code: "",
+  type: "percentage",
+  scope: "all",
+  scopeValue: "",
+  value: 0,
+  buyQuantity: 0,
+  getQuantity: 0,
+  minSubtotal: 0,
+  startsAt: toDateInput(new Date()),
+  endsAt: "",
+  stackable: false,
+  isActive: true,
+});
+
+const scopeValuePlaceholders: Record<Exclude<PromotionScope, 'all'>, string> = {
+  category: "e.g. Dresses",
+  manufacturer: "Manufacturer name",
+  product: "Product ID, e.g. F00001",
+};
+
+const describeValue = (promotion: Promotion) => {
+  if (promotion.type === 'percentage') return `${parseFloat((parseFloat(promotion.value) * 100).toFixed(2))}% off`;
+  if (promotion.type === 'fixed_amount') return `${formatCurrency(promotion.value)} off`;
+  return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+};
+
+const describeWindow = (promotion: Promotion) =>
+  promotion.endsAt
+    ? `${formatDate(promotion.startsAt)} – ${formatDate(promotion.endsAt)}`
+    : `From ${formatDate(promotion.startsAt)}`;
+
+export default function Promotions() {
+  const { toast } = useToast();
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: promotions, isLoading } = useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+  });
+
+  const form = useForm<PromotionForm>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyPromotionForm(),
+  });
+  const type = form.watch("type");
+  const scope = form.watch("scope");
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // e.g. a coupon code another promotion already uses
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const savePromotionMutation = useMutation({
+    mutationFn: async (data: PromotionForm) => {
+      const payload = {
+        name: data.name,
+        description: data.description || null,
+        code: data.code || null,
+        type: data.type,
+        scope: data.scope,
+        scopeValue: data.scope === 'all' ? null : data.scopeValue?.trim(),
+        value: data.type === 'percentage' ? data.value / 100 : data.type === 'fixed_amount' ? data.value : 0,
+        buyQuantity: data.type === 'buy_x_get_y' ? data.buyQuantity : null,
+        getQuantity: data.type === 'buy_x_get_y' ? data.getQuantity : null,
+        minSubtotal: data.minSubtotal > 0 ? data.minSubtotal : null,
+        startsAt: data.startsAt,
+        // The end date is inclusive
+        endsAt: data.endsAt ? `${data.endsAt}T23:59:59` : null,
+        stackable: data.stackable,
+        isActive: data.isActive,
+      };
+      const response = editingPromotion
+        ? await apiRequest("PUT", `/api/promotions/${editingPromotion.id}`, payload)
+        : await apiRequest("POST", "/api/promotions", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingPromotion ? "Promotion updated successfully" : "Promotion created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error, "Failed to save promotion"),
+  });
+
+  const openDialog = (promotion?: Promotion) => {
+    setEditingPromotion(promotion || null);
+    form.reset(promotion ? {
+      name: promotion.name,
+      description: promotion.description || "",
+      code: promotion.code || "",
+      type: promotion.type,
+      scope: promotion.scope,
+      scopeValue: promotion.scopeValue || "",
+      value: promotion.type === 'percentage'
+        ? parseFloat((parseFloat(promotion.value) * 100).toFixed(2))
+        : parseFloat(promotion.value),
+      buyQuantity: promotion.buyQuantity || 0,
+      getQuantity: promotion.getQuantity || 0,
+      minSubtotal: parseFloat(promotion.minSubtotal || "0"),
+      startsAt: toDateInput(promotion.startsAt),
+      endsAt: promotion.endsAt ? toDateInput(promotion.endsAt) : "",
+      stackable: promotion.stackable,
+      isActive: promotion.isActive,
+    } : emptyPromotionForm());
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingPromotion(null);
+    form.reset(emptyPromotionForm());
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Running promotions apply to pending invoices automatically; coded ones only once the coupon is entered
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-add-promotion">
+          <i className="fas fa-plus mr-2"></i>
+          Add Promotion
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Offer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Dates</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Coupon</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={7} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : promotions?.length ? (
+                  promotions.map((promotion) => (
+                    <tr key={promotion.id} className="hover:bg-accent/50 transition-colors" data-testid={`row-promotion-${promotion.id}`}>
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-foreground">{promotion.name}</div>
+                        {promotion.description && <div className="text-xs text-muted-foreground">{promotion.description}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-foreground">
+                        <div>{describeValue(promotion)}</div>
+                        {promotion.minSubtotal && parseFloat(promotion.minSubtotal) > 0 && (
+                          <div className="text-xs text-muted-foreground">Min. spend {formatCurrency(promotion.minSubtotal)}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {promotion.scope === 'all'
+                          ? promotionScopeLabels.all
+                          : `${promotionScopeLabels[promotion.scope]}: ${promotion.scopeValue}`}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{describeWindow(promotion)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-foreground">{promotion.code || "—"}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex gap-1">
+                          <Badge variant={promotion.isActive ? "default" : "outline"}>
+                            {promotion.isActive ? "Active" : "Inactive"}
+                          </Badge>
+                          {promotion.stackable && <Badge variant="secondary">Stackable</Badge>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(promotion)}
+                          data-testid={`button-edit-promotion-${promotion.id}`}
+                        >
+                          <i className="fas fa-edit w-4 h-4"></i>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-16 text-center">
+                      <i className="fas fa-gift text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No promotions yet</h3>
+                      <p className="text-muted-foreground">Create seasonal sales, category discounts or coupon offers</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingPromotion ? "Edit Promotion" : "Add Promotion"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => savePromotionMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Summer Sale" {...field} data-testid="input-promotion-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} data-testid="input-promotion-description" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-promotion-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {promotionTypes.map((promotionType) => (
+                            <SelectItem key={promotionType} value={promotionType}>{promotionTypeLabels[promotionType]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scope"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Applies To</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-promotion-scope">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {promotionScopes.map((promotionScope) => (
+                            <SelectItem key={promotionScope} value={promotionScope}>{promotionScopeLabels[promotionScope]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {scope !== 'all' && (
+                <FormField
+                  control={form.control}
+                  name="scopeValue"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{promotionScopeLabels[scope]}</FormLabel>
+                      <FormControl>
+                        <Input placeholder={scopeValuePlaceholders[scope]} {...field} data-testid="input-promotion-scope-value" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              {type === 'buy_x_get_y' ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="buyQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Buy</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" {...field} data-testid="input-promotion-buy-quantity" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="getQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Get Free</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" step="1" {...field} data-testid="input-promotion-get-quantity" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ) : (
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{type === 'percentage' ? "Discount (%)" : `Discount (${BASE_CURRENCY})`}</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" max={type === 'percentage' ? 100 : undefined} step="0.01" {...field} data-testid="input-promotion-value" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <FormField
+                control={form.control}
+                name="minSubtotal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Spend ({BASE_CURRENCY}, on matching items)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} data-testid="input-promotion-min-subtotal" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-promotion-starts-at" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends (optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-promotion-ends-at" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Coupon Code (optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Leave empty to apply automatically"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                        data-testid="input-promotion-code"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stackable"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-promotion-stackable"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Stackable (combines with other stackable promotions)</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-promotion-active"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={savePromotionMutation.isPending} data-testid="button-save-promotion">
+                  {savePromotionMutation.isPending ? "Saving..." : "Save Promotion"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
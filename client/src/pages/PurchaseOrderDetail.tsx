@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { purchaseOrderStatusStyles, isPurchaseOrderOverdue } from "@/lib/purchaseOrderUtils";
+import type { PurchaseOrderWithItems } from "@shared/schema";
+
+export default function PurchaseOrderDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { id } = useParams();
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [receiptQuantities, setReceiptQuantities] = useState<Record<string, number>>({});
+
+  const { data: purchaseOrder, isLoading, error } = useQuery<PurchaseOrderWithItems>({
+    queryKey: [`/api/purchase-orders/${id}`],
+    enabled: !!id,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async (status: 'Ordered' | 'Cancelled') => {
+      const response = await apiRequest("PUT", `/api/purchase-orders/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: (_, status) => {
+      toast({
+        title: "Success",
+        description: status === 'Ordered' ? "Purchase order marked as ordered" : "Purchase order cancelled",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/purchase-orders/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to update purchase order status"),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async (receipts: { itemId: string; quantity: number }[]) => {
+      const response = await apiRequest("POST", `/api/purchase-orders/${id}/receive`, { receipts });
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Success",
+        description: `Goods received. Purchase order is now ${updated.status}`,
+      });
+      setIsReceiving(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/purchase-orders/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to receive goods"),
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+  };
+
+  const downloadPDF = async () => {
+    if (!purchaseOrder) return;
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrder.id}/pdf`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `purchase-order-${purchaseOrder.poNumber}.pdf`;
+        a.click();
+        window.URL.revokeObjectURL(url);
+      } else {
+        throw new Error('Failed to download PDF');
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const outstanding = (item: PurchaseOrderWithItems["items"][number]) =>
+    Math.max(item.quantityOrdered - item.quantityReceived, 0);
+
+  const openReceiveDialog = () => {
+    if (!purchaseOrder) return;
+    setReceiptQuantities(Object.fromEntries(purchaseOrder.items.map(item => [item.id, outstanding(item)])));
+    setIsReceiving(true);
+  };
+
+  const submitReceipt = () => {
+    const receipts = Object.entries(receiptQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([itemId, quantity]) => ({ itemId, quantity }));
+
+    if (receipts.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a received quantity for at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    receiveMutation.mutate(receipts);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !purchaseOrder) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load purchase order</p>
+        <Link href="/purchase-orders">
+          <Button variant="outline" className="mt-4">Back to Purchase Orders</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canManage = ['Admin', 'Manager'].includes(user?.role || '');
+  const canReceive = canManage && ['Ordered', 'Partially Received'].includes(purchaseOrder.status || '');
+  const overdue = isPurchaseOrderOverdue(purchaseOrder);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h2 className="text-2xl font-bold text-foreground" data-testid="text-po-number">{purchaseOrder.poNumber}</h2>
+                <Badge className={purchaseOrderStatusStyles[purchaseOrder.status || 'Draft']}>{purchaseOrder.status}</Badge>
+                {overdue && <Badge className="bg-destructive/10 text-destructive">Overdue</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground">Created {formatDate(purchaseOrder.createdAt!)}</p>
+              {purchaseOrder.expectedDeliveryDate && (
+                <p className={`text-sm ${overdue ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                  Expected delivery {formatDate(purchaseOrder.expectedDeliveryDate)}
+                </p>
+              )}
+              {purchaseOrder.receivedAt && (
+                <p className="text-sm text-muted-foreground">Last received {formatDate(purchaseOrder.receivedAt)}</p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {canManage && purchaseOrder.status === 'Draft' && (
+                <Button
+                  onClick={() => updateStatusMutation.mutate('Ordered')}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid="button-mark-ordered"
+                >
+                  <i className="fas fa-paper-plane mr-2"></i>
+                  Mark as Ordered
+                </Button>
+              )}
+              {canReceive && (
+                <Button onClick={openReceiveDialog} data-testid="button-receive-goods">
+                  <i className="fas fa-dolly mr-2"></i>
+                  Receive Goods
+                </Button>
+              )}
+              {canManage && ['Draft', 'Ordered'].includes(purchaseOrder.status || '') && (
+                <Button
+                  variant="outline"
+                  onClick={() => updateStatusMutation.mutate('Cancelled')}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid="button-cancel-po"
+                >
+                  <i className="fas fa-ban mr-2"></i>
+                  Cancel Order
+                </Button>
+              )}
+              <Button variant="outline" onClick={downloadPDF} data-testid="button-download-po-pdf">
+                <i className="fas fa-download mr-2"></i>
+                Download PDF
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Supplier</h3>
+              <p className="font-medium text-foreground">{purchaseOrder.supplier.name}</p>
+              {purchaseOrder.supplier.contactName && <p className="text-sm text-foreground">{purchaseOrder.supplier.contactName}</p>}
+              {purchaseOrder.supplier.email && <p className="text-sm text-muted-foreground">{purchaseOrder.supplier.email}</p>}
+              {purchaseOrder.supplier.phone && <p className="text-sm text-muted-foreground">{purchaseOrder.supplier.phone}</p>}
+            </div>
+            {purchaseOrder.notes && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Notes</h3>
+                <p className="text-sm text-foreground whitespace-pre-line">{purchaseOrder.notes}</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Items */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size / Color</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Ordered</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Received</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Outstanding</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Unit Cost</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {purchaseOrder.items.map((item) => (
+                  <tr key={item.id} data-testid={`row-po-item-${item.id}`}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-foreground">{item.product.productName}</div>
+                      <div className="text-xs text-muted-foreground">{item.variant?.sku || item.product.productId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {item.variant ? `${item.variant.size} / ${item.variant.color}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{item.quantityOrdered}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{item.quantityReceived}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={outstanding(item) > 0 ? "text-amber-600 font-medium" : "text-accent"}>
+                        {outstanding(item)}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{formatCurrency(item.unitCost)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{formatCurrency(item.totalCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end p-6 border-t border-border">
+            <div className="text-lg font-semibold text-foreground" data-testid="text-po-total">
+              Total: {formatCurrency(purchaseOrder.subtotal)}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Receive Dialog */}
+      <Dialog open={isReceiving} onOpenChange={setIsReceiving}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive Goods</DialogTitle>
+            <DialogDescription>
+              Enter the quantities delivered. Received stock is added to inventory straight away.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {purchaseOrder.items.filter(item => outstanding(item) > 0).map((item) => (
+              <div key={item.id} className="flex items-center justify-between gap-4">
+                <div className="text-sm">
+                  <div className="font-medium text-foreground">{item.product.productName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {item.variant ? `${item.variant.size} / ${item.variant.color} · ` : ''}{outstanding(item)} outstanding
+                  </div>
+                </div>
+                <Input
+                  type="number"
+                  min="0"
+                  max={outstanding(item)}
+                  value={receiptQuantities[item.id] ?? 0}
+                  onChange={(e) => setReceiptQuantities(prev => ({
+                    ...prev,
+                    [item.id]: Math.min(outstanding(item), Math.max(0, parseInt(e.target.value) || 0))
+                  }))}
+                  className="w-24"
+                  data-testid={`input-receive-${item.id}`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsReceiving(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submitReceipt} disabled={receiveMutation.isPending} data-testid="button-confirm-receive">
+              {receiveMutation.isPending ? "Receiving..." : "Confirm Receipt"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
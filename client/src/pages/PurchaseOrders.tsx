@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { purchaseOrderStatusStyles, isPurchaseOrderOverdue } from "@/lib/purchaseOrderUtils";
+import type { PurchaseOrdersResponse, Supplier } from "@shared/schema";
+
+export default function PurchaseOrders() {
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState({
+    status: "",
+    supplierId: ""
+  });
+
+  const { data: purchaseOrdersData, isLoading, error } = useQuery<PurchaseOrdersResponse>({
+    queryKey: ["/api/purchase-orders", {
+      page,
+      limit: 20,
+      status: filters.status === "all" ? "" : filters.status,
+      supplierId: filters.supplierId === "all" ? "" : filters.supplierId
+    }],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const handleFilterChange = (key: string, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  const formatCurrency = (amount: string | number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(typeof amount === 'string' ? parseFloat(amount) : amount);
+  };
+
+  const downloadPDF = async (purchaseOrderId: string, poNumber: string) => {
+    try {
+      const response = await fetch(`/api/purchase-orders/${purchaseOrderId}/pdf`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+
+      if (response.ok) {
+        const blob = await response.blob();
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `purchase-order-${poNumber}.pdf`;
+        a.click();
+        window.URL.revokeObjectURL(url);
+      } else {
+        throw new Error('Failed to download PDF');
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load purchase orders</p>
+      </div>
+    );
+  }
+
+  const total = purchaseOrdersData?.total || 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Purchase Order Filters */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex flex-col sm:flex-row flex-wrap items-start sm:items-center gap-4">
+          <Select value={filters.status} onValueChange={(value) => handleFilterChange("status", value)}>
+            <SelectTrigger className="w-full sm:w-48" data-testid="select-po-status">
+              <SelectValue placeholder="All Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {Object.keys(purchaseOrderStatusStyles).map((status) => (
+                <SelectItem key={status} value={status}>{status}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.supplierId} onValueChange={(value) => handleFilterChange("supplierId", value)}>
+            <SelectTrigger className="w-full sm:w-56" data-testid="select-po-supplier">
+              <SelectValue placeholder="All Suppliers" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Suppliers</SelectItem>
+              {suppliers?.map((supplier) => (
+                <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Link href="/create-purchase-order">
+          <Button data-testid="button-create-purchase-order">
+            <i className="fas fa-plus mr-2"></i>
+            Create Purchase Order
+          </Button>
+        </Link>
+      </div>
+
+      {/* Purchase Orders Table */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">PO Number</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Created</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Expected Delivery</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={7} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : purchaseOrdersData?.purchaseOrders?.length ? (
+                  purchaseOrdersData.purchaseOrders.map((purchaseOrder) => (
+                    <tr
+                      key={purchaseOrder.id}
+                      className="hover:bg-accent/50 cursor-pointer transition-colors"
+                      onClick={() => window.location.href = `/purchase-orders/${purchaseOrder.id}`}
+                      data-testid={`row-purchase-order-${purchaseOrder.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {purchaseOrder.poNumber}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {purchaseOrder.supplier.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                        {formatDate(purchaseOrder.createdAt!)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {purchaseOrder.expectedDeliveryDate ? (
+                          <span className={isPurchaseOrderOverdue(purchaseOrder) ? "text-destructive font-medium" : "text-muted-foreground"}>
+                            {formatDate(purchaseOrder.expectedDeliveryDate)}
+                            {isPurchaseOrderOverdue(purchaseOrder) && " (overdue)"}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {formatCurrency(purchaseOrder.subtotal)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={purchaseOrderStatusStyles[purchaseOrder.status || 'Draft']}>{purchaseOrder.status}</Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm space-x-2">
+                        <Link href={`/purchase-orders/${purchaseOrder.id}`}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => e.stopPropagation()}
+                            data-testid={`button-view-po-${purchaseOrder.id}`}
+                          >
+                            <i className="fas fa-eye w-4 h-4"></i>
+                          </Button>
+                        </Link>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => { e.stopPropagation(); downloadPDF(purchaseOrder.id, purchaseOrder.poNumber); }}
+                          title="Download PDF"
+                          data-testid={`button-download-po-${purchaseOrder.id}`}
+                        >
+                          <i className="fas fa-download w-4 h-4"></i>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-16 text-center">
+                      <div className="space-y-4">
+                        <i className="fas fa-truck-loading text-muted-foreground text-4xl"></i>
+                        <div>
+                          <h3 className="text-lg font-semibold text-foreground mb-2">No purchase orders found</h3>
+                          <p className="text-muted-foreground mb-6">Order stock from your suppliers to get started</p>
+                          <Link href="/create-purchase-order">
+                            <Button data-testid="button-create-first-purchase-order">
+                              <i className="fas fa-plus mr-2"></i>
+                              Create Purchase Order
+                            </Button>
+                          </Link>
+                        </div>
+                      </div>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 20 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} results
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="px-3 py-2 text-sm">{page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page * 20 >= total}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { getStockShortages, describeStockShortages } from "@/lib/stockUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { formatTaxRate } from "@/lib/taxUtils";
+import { describeLineDiscount } from "@shared/pricing";
+import { quotationStatusStyles, quotationDisplayStatus, isQuotationExpired, downloadQuotationPDF } from "@/lib/quotationUtils";
+import type { Invoice, QuotationWithItems } from "@shared/schema";
+
+export default function QuotationDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { id } = useParams();
+  const [, navigate] = useLocation();
+
+  const { data: quotation, isLoading, error } = useQuery<QuotationWithItems>({
+    queryKey: [`/api/quotations/${id}`],
+    enabled: !!id,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const shortages = getStockShortages(error);
+    if (shortages) {
+      toast({
+        title: "Insufficient Stock",
+        description: describeStockShortages(shortages),
+        variant: "destructive",
+      });
+      return;
+    }
+    // e.g. converting a quotation that has expired
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || description;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshQuotation = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/quotations/${id}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/quotations"] });
+  };
+
+  const emailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotations/${id}/email`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Quotation sent via email",
+      });
+      refreshQuotation();
+    },
+    onError: (error) => handleMutationError(error, "Failed to send email"),
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotations/${id}/convert`);
+      return response.json() as Promise<{ invoice: Invoice }>;
+    },
+    onSuccess: ({ invoice }) => {
+      toast({
+        title: "Success",
+        description: `Invoice ${invoice.invoiceNumber} created from quotation`,
+      });
+      refreshQuotation();
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+      navigate(`/invoices/${invoice.id}`);
+    },
+    onError: (error) => handleMutationError(error, "Failed to convert quotation"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/quotations/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Quotation cancelled",
+      });
+      refreshQuotation();
+    },
+    onError: (error) => handleMutationError(error, "Failed to cancel quotation"),
+  });
+
+  const handleDownload = async () => {
+    if (!quotation) return;
+    try {
+      await downloadQuotationPDF(quotation);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !quotation) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load quotation</p>
+        <Link href="/quotations">
+          <Button variant="outline" className="mt-4">Back to Quotations</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const canEdit = ['Admin', 'Manager', 'Staff'].includes(user?.role || '');
+  const isOpen = ['Open', 'Sent'].includes(quotation.status);
+  const expired = isQuotationExpired(quotation);
+  const displayStatus = quotationDisplayStatus(quotation);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h2 className="text-2xl font-bold text-foreground" data-testid="text-quotation-number">{quotation.quotationNumber}</h2>
+                <Badge className={quotationStatusStyles[displayStatus]}>{displayStatus}</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">Created {formatDate(quotation.createdAt!)}</p>
+              <p className={`text-sm ${expired ? 'text-destructive font-medium' : 'text-muted-foreground'}`}>
+                Valid until {formatDate(quotation.validUntil)}
+              </p>
+              {quotation.invoice && (
+                <p className="text-sm text-muted-foreground">
+                  Converted to{" "}
+                  <Link href={`/invoices/${quotation.invoice.id}`} className="text-primary hover:underline" data-testid="link-converted-invoice">
+                    {quotation.invoice.invoiceNumber}
+                  </Link>
+                  {quotation.convertedAt && ` on ${formatDate(quotation.convertedAt)}`}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {canEdit && isOpen && (
+                <Button
+                  onClick={() => convertMutation.mutate()}
+                  disabled={expired || convertMutation.isPending}
+                  title={expired ? "Expired quotations cannot be converted" : undefined}
+                  data-testid="button-convert-quotation"
+                >
+                  <i className="fas fa-file-invoice mr-2"></i>
+                  {convertMutation.isPending ? "Converting..." : "Convert to Invoice"}
+                </Button>
+              )}
+              {canEdit && isOpen && quotation.customerEmail && (
+                <Button
+                  variant="outline"
+                  onClick={() => emailMutation.mutate()}
+                  disabled={emailMutation.isPending}
+                  data-testid="button-email-quotation"
+                >
+                  <i className="fas fa-envelope mr-2"></i>
+                  {emailMutation.isPending ? "Sending..." : "Email"}
+                </Button>
+              )}
+              {canEdit && isOpen && (
+                <Button
+                  variant="outline"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-quotation"
+                >
+                  <i className="fas fa-ban mr-2"></i>
+                  Cancel Quotation
+                </Button>
+              )}
+              <Button variant="outline" onClick={handleDownload} data-testid="button-download-quotation-pdf">
+                <i className="fas fa-download mr-2"></i>
+                Download PDF
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-2">Prepared For</h3>
+              <p className="font-medium text-foreground">{quotation.customerName}</p>
+              {quotation.customerEmail && <p className="text-sm text-muted-foreground">{quotation.customerEmail}</p>}
+              <p className="text-sm text-muted-foreground">{quotation.customerPhone}</p>
+              {quotation.customerAddress && <p className="text-sm text-muted-foreground">{quotation.customerAddress}</p>}
+            </div>
+            {quotation.notes && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Notes</h3>
+                <p className="text-sm text-foreground whitespace-pre-line">{quotation.notes}</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Items */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size / Color</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Qty</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Price</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Tax</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {quotation.items.map((item) => (
+                  <tr key={item.id} data-testid={`row-quotation-item-${item.id}`}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-foreground">{item.product.productName}</div>
+                      <div className="text-xs text-muted-foreground">{item.variant?.sku || item.product.productId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {item.variant ? `${item.variant.size} / ${item.variant.color}` : item.product.size.join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{item.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {formatCurrency(item.unitPrice, quotation.currency)}
+                      {item.discountType && parseFloat(item.discountValue) > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          less {describeLineDiscount(item.discountType, item.discountValue, (amount) => formatCurrency(amount, quotation.currency))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                      {formatTaxRate(item.taxRate)} · {formatCurrency(item.taxAmount, quotation.currency)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{formatCurrency(item.totalPrice, quotation.currency)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end p-6 border-t border-border">
+            <div className="w-64 space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Subtotal:</span>
+                <span className="text-foreground font-medium">{formatCurrency(quotation.subtotal, quotation.currency)}</span>
+              </div>
+              {parseFloat(quotation.discountAmount) > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Discount:</span>
+                  <span className="text-foreground font-medium">-{formatCurrency(quotation.discountAmount, quotation.currency)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{quotation.pricesIncludeTax ? "Tax (included):" : "Tax:"}</span>
+                <span className="text-foreground font-medium">{formatCurrency(quotation.taxAmount, quotation.currency)}</span>
+              </div>
+              <div className="border-t border-border pt-2 flex justify-between text-base font-semibold">
+                <span className="text-foreground">Total:</span>
+                <span className="text-foreground" data-testid="text-quotation-total">{formatCurrency(quotation.total, quotation.currency)}</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isOpen && (
+        <p className="text-xs text-muted-foreground">
+          Stock is not held for quotations. Converting creates a pending invoice, which reserves the items until it is processed.
+        </p>
+      )}
+    </div>
+  );
+}
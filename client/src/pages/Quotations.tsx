@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { quotationStatusStyles, quotationDisplayStatus, downloadQuotationPDF } from "@/lib/quotationUtils";
+import type { QuotationsResponse } from "@shared/schema";
+
+const quotationStatuses = ["Open", "Sent", "Converted", "Cancelled"];
+
+export default function Quotations() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const { data: quotationsData, isLoading, error } = useQuery<QuotationsResponse>({
+    queryKey: ["/api/quotations", { page, limit: 20, search, status: status === "all" ? "" : status }],
+  });
+
+  const handleDownload = async (quotation: { id: string; quotationNumber: string }) => {
+    try {
+      await downloadQuotationPDF(quotation);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to download PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load quotations</p>
+      </div>
+    );
+  }
+
+  const total = quotationsData?.total || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
+          <Input
+            type="text"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+            className="w-full sm:w-64"
+            placeholder="Search quotation or customer"
+            data-testid="input-search-quotations"
+          />
+          <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+            <SelectTrigger className="w-full sm:w-48" data-testid="select-quotation-status">
+              <SelectValue placeholder="All Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Status</SelectItem>
+              {quotationStatuses.map((value) => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Link href="/create-quotation">
+          <Button data-testid="button-create-quotation">
+            <i className="fas fa-plus mr-2"></i>
+            Create Quotation
+          </Button>
+        </Link>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Quotation</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Valid Until</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={7} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : quotationsData?.quotations?.length ? (
+                  quotationsData.quotations.map((quotation) => {
+                    const displayStatus = quotationDisplayStatus(quotation);
+                    return (
+                      <tr
+                        key={quotation.id}
+                        className="hover:bg-accent/50 cursor-pointer transition-colors"
+                        onClick={() => navigate(`/quotations/${quotation.id}`)}
+                        data-testid={`row-quotation-${quotation.id}`}
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{quotation.quotationNumber}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{quotation.customerName}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(quotation.createdAt!)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(quotation.validUntil)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{formatCurrency(quotation.total, quotation.currency)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <Badge className={quotationStatusStyles[displayStatus]}>{displayStatus}</Badge>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDownload(quotation);
+                            }}
+                            data-testid={`button-download-quotation-${quotation.id}`}
+                          >
+                            <i className="fas fa-file-pdf w-4 h-4"></i>
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })
+                ) : (
+                  <tr>
+                    <td colSpan={7} className="px-6 py-16 text-center">
+                      <i className="fas fa-file-alt text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No quotations found</h3>
+                      <p className="text-muted-foreground">Quote prices to a customer before committing any stock</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 20 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} results
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="px-3 py-2 text-sm">{page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page * 20 >= total}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
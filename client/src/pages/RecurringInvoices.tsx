@@ -0,0 +1,755 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useLocation } from "wouter";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/useSettings";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency, formatDate } from "@/lib/formatters";
+import { BASE_CURRENCY, currencyCodes } from "@shared/currency";
+import { recurringIntervals, recurringIntervalLabels, describeRecurringInterval, upcomingRunDates } from "@shared/recurring";
+import type {
+  CustomersResponse,
+  ExchangeRatesResponse,
+  ProductsResponse,
+  RecurringInvoice,
+  RecurringInvoiceSummary,
+  RecurringInvoiceWithDetails,
+} from "@shared/schema";
+
+const scheduleFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  customerId: z.string().min(1, "Customer is required"),
+  interval: z.enum(recurringIntervals),
+  intervalCount: z.number({ invalid_type_error: "Enter a number" }).int().min(1, "At least 1").max(52),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string(),
+  currency: z.string(),
+  pricesIncludeTax: z.boolean(),
+  autoEmail: z.boolean(),
+  notes: z.string(),
+}).refine(
+  schedule => !schedule.endDate || schedule.endDate >= schedule.startDate,
+  { message: "The end date must be after the start date", path: ["endDate"] }
+);
+
+type ScheduleForm = z.infer<typeof scheduleFormSchema>;
+
+interface ScheduleLine {
+  productId: string;
+  variantId: string;
+  quantity: number;
+}
+
+const emptyLine: ScheduleLine = { productId: "", variantId: "", quantity: 1 };
+
+const toDateInput = (date: Date | string | null) => date ? new Date(date).toISOString().slice(0, 10) : "";
+
+export default function RecurringInvoices() {
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [lines, setLines] = useState<ScheduleLine[]>([{ ...emptyLine }]);
+
+  const { data: schedules, isLoading } = useQuery<RecurringInvoiceSummary[]>({
+    queryKey: ["/api/recurring-invoices"],
+  });
+
+  const { data: customersData } = useQuery<CustomersResponse>({
+    queryKey: ["/api/customers", { limit: 1000 }],
+    enabled: isDialogOpen,
+  });
+
+  const { data: productsData } = useQuery<ProductsResponse>({
+    queryKey: ["/api/products", { limit: 1000 }],
+    enabled: isDialogOpen,
+  });
+
+  const { data: exchangeData } = useQuery<ExchangeRatesResponse>({
+    queryKey: ["/api/exchange-rates"],
+    enabled: isDialogOpen,
+  });
+
+  const products = productsData?.products || [];
+  const findProduct = (productId: string) => products.find(p => p.id === productId);
+  const availableCurrencies = currencyCodes.filter(code => code === BASE_CURRENCY || exchangeData?.current[code]);
+
+  const emptyScheduleForm = (): ScheduleForm => ({
+    name: "",
+    customerId: "",
+    interval: "monthly",
+    intervalCount: 1,
+    startDate: toDateInput(new Date()),
+    endDate: "",
+    currency: BASE_CURRENCY,
+    pricesIncludeTax: settings.pricesIncludeTax,
+    autoEmail: false,
+    notes: "",
+  });
+
+  const form = useForm<ScheduleForm>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: emptyScheduleForm(),
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const refreshSchedules = (id?: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recurring-invoices"] });
+    if (id) {
+      queryClient.invalidateQueries({ queryKey: [`/api/recurring-invoices/${id}`] });
+    }
+  };
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async (data: ScheduleForm) => {
+      const body = {
+        schedule: {
+          ...data,
+          endDate: data.endDate || null,
+          notes: data.notes || null,
+        },
+        items: lines.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId || null,
+          quantity: line.quantity,
+        })),
+      };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/recurring-invoices/${editingId}`, body)
+        : await apiRequest("POST", "/api/recurring-invoices", body);
+      return response.json() as Promise<RecurringInvoice>;
+    },
+    onSuccess: (schedule) => {
+      toast({
+        title: "Success",
+        description: editingId ? "Recurring invoice updated" : "Recurring invoice created",
+      });
+      refreshSchedules(schedule.id);
+      setSelectedId(schedule.id);
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error, "Failed to save recurring invoice"),
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/recurring-invoices/${id}/active`, { isActive });
+      return response.json() as Promise<RecurringInvoice>;
+    },
+    onSuccess: (schedule) => {
+      toast({
+        title: "Success",
+        description: schedule.isActive ? "Schedule resumed" : "Schedule paused",
+      });
+      refreshSchedules(schedule.id);
+    },
+    onError: (error) => handleMutationError(error, "Failed to update recurring invoice"),
+  });
+
+  const openDialog = async (id?: string) => {
+    setEditingId(id || null);
+    if (id) {
+      const response = await apiRequest("GET", `/api/recurring-invoices/${id}`);
+      const schedule: RecurringInvoiceWithDetails = await response.json();
+      form.reset({
+        name: schedule.name,
+        customerId: schedule.customerId,
+        interval: schedule.interval,
+        intervalCount: schedule.intervalCount,
+        startDate: toDateInput(schedule.startDate),
+        endDate: toDateInput(schedule.endDate),
+        currency: schedule.currency,
+        pricesIncludeTax: schedule.pricesIncludeTax,
+        autoEmail: schedule.autoEmail,
+        notes: schedule.notes || "",
+      });
+      setLines(schedule.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId || "",
+        quantity: item.quantity,
+      })));
+    } else {
+      form.reset(emptyScheduleForm());
+      setLines([{ ...emptyLine }]);
+    }
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingId(null);
+  };
+
+  const updateLine = (index: number, changes: Partial<ScheduleLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const onSubmit = (data: ScheduleForm) => {
+    const incompleteLine = lines.find(line => {
+      const product = findProduct(line.productId);
+      return !product || line.quantity < 1 || ((product.variants?.length || 0) > 0 && !line.variantId);
+    });
+
+    if (lines.length === 0 || incompleteLine) {
+      toast({
+        title: "Error",
+        description: "Every line needs a product, a size/color where applicable and a quantity of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveScheduleMutation.mutate(data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Each run raises a Pending invoice at the customer's current prices, reserving its stock like any other invoice
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-add-recurring-invoice">
+          <i className="fas fa-plus mr-2"></i>
+          New Schedule
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Schedule</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Frequency</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Next Run</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Last Run</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={6} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : schedules?.length ? (
+                  schedules.map((schedule) => (
+                    <tr
+                      key={schedule.id}
+                      className={`cursor-pointer transition-colors ${selectedId === schedule.id ? 'bg-accent' : 'hover:bg-accent/50'}`}
+                      onClick={() => setSelectedId(schedule.id)}
+                      data-testid={`row-recurring-invoice-${schedule.id}`}
+                    >
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-foreground">{schedule.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {schedule.customer.name} · {schedule.itemCount} item{schedule.itemCount === 1 ? '' : 's'}
+                          {schedule.autoEmail && <> · <i className="fas fa-envelope"></i> emailed</>}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {describeRecurringInterval(schedule.interval, schedule.intervalCount)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {schedule.isActive && schedule.nextRunAt ? formatDate(schedule.nextRunAt) : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {schedule.lastRun ? (
+                          <span className={schedule.lastRun.status === 'Failed' ? 'text-destructive' : 'text-foreground'}>
+                            {formatDate(schedule.lastRun.scheduledFor)} · {schedule.lastRun.status}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">Not run yet</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Badge variant={schedule.isActive && schedule.nextRunAt ? "default" : "outline"}>
+                          {!schedule.isActive ? "Paused" : schedule.nextRunAt ? "Active" : "Ended"}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openDialog(schedule.id);
+                            }}
+                            data-testid={`button-edit-recurring-invoice-${schedule.id}`}
+                          >
+                            <i className="fas fa-edit w-4 h-4"></i>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setActiveMutation.mutate({ id: schedule.id, isActive: !schedule.isActive });
+                            }}
+                            disabled={setActiveMutation.isPending}
+                            title={schedule.isActive ? "Pause" : "Resume"}
+                            data-testid={`button-toggle-recurring-invoice-${schedule.id}`}
+                          >
+                            <i className={`fas ${schedule.isActive ? 'fa-pause' : 'fa-play'} w-4 h-4`}></i>
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-16 text-center">
+                      <i className="fas fa-redo text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No recurring invoices yet</h3>
+                      <p className="text-muted-foreground">Set up standing orders for customers who reorder the same assortment</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selectedId && <RecurringInvoiceDetails scheduleId={selectedId} />}
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? "Edit Recurring Invoice" : "New Recurring Invoice"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Monthly boutique restock" {...field} data-testid="input-recurring-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="customerId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurring-customer">
+                            <SelectValue placeholder="Select customer" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {customersData?.customers.map((customer) => (
+                            <SelectItem key={customer.id} value={customer.id}>
+                              {customer.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <FormField
+                  control={form.control}
+                  name="intervalCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Every</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          {...field}
+                          onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                          data-testid="input-recurring-interval-count"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="interval"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Interval</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurring-interval">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {recurringIntervals.map((interval) => (
+                            <SelectItem key={interval} value={interval}>
+                              {recurringIntervalLabels[interval]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>First Run</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-recurring-start" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>End (Optional)</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} data-testid="input-recurring-end" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-recurring-currency">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {availableCurrencies.map((code) => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="pricesIncludeTax"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-recurring-prices-include-tax"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Prices include tax</FormLabel>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="autoEmail"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center gap-2 space-y-0 pb-2">
+                      <FormControl>
+                        <Checkbox
+                          checked={field.value}
+                          onCheckedChange={(checked) => field.onChange(checked === true)}
+                          data-testid="checkbox-recurring-auto-email"
+                        />
+                      </FormControl>
+                      <FormLabel className="font-normal">Email each invoice to the customer</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Template Lines */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-semibold text-foreground">Items</h3>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLines(prev => [...prev, { ...emptyLine }])}
+                    data-testid="button-add-recurring-line"
+                  >
+                    <i className="fas fa-plus mr-2"></i>
+                    Add Line
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  {lines.map((line, index) => {
+                    const variants = findProduct(line.productId)?.variants || [];
+                    return (
+                      <div key={index} className="flex flex-col sm:flex-row gap-2" data-testid={`row-recurring-line-${index}`}>
+                        <Select value={line.productId} onValueChange={(value) => updateLine(index, { productId: value, variantId: "" })}>
+                          <SelectTrigger className="sm:flex-1" data-testid={`select-recurring-product-${index}`}>
+                            <SelectValue placeholder="Select product" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.map((p) => (
+                              <SelectItem key={p.id} value={p.id}>
+                                {p.productName} ({p.productId})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {variants.length > 0 && (
+                          <Select value={line.variantId} onValueChange={(value) => updateLine(index, { variantId: value })}>
+                            <SelectTrigger className="sm:w-44" data-testid={`select-recurring-variant-${index}`}>
+                              <SelectValue placeholder="Size / color" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {variants.map((variant) => (
+                                <SelectItem key={variant.id} value={variant.id}>
+                                  {variant.size} / {variant.color}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="sm:w-24"
+                          data-testid={`input-recurring-quantity-${index}`}
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                          disabled={lines.length === 1}
+                          data-testid={`button-remove-recurring-line-${index}`}
+                        >
+                          <i className="fas fa-trash w-4 h-4 text-destructive"></i>
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Invoice Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} className="resize-none" {...field} data-testid="input-recurring-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveScheduleMutation.isPending} data-testid="button-save-recurring-invoice">
+                  {saveScheduleMutation.isPending ? "Saving..." : "Save Schedule"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+// Template lines, the next few runs and every run so far for one schedule
+function RecurringInvoiceDetails({ scheduleId }: { scheduleId: string }) {
+  const [, navigate] = useLocation();
+
+  const { data: schedule, isLoading } = useQuery<RecurringInvoiceWithDetails>({
+    queryKey: [`/api/recurring-invoices/${scheduleId}`],
+  });
+
+  if (isLoading || !schedule) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const upcoming = schedule.isActive && schedule.nextRunAt
+    ? upcomingRunDates(schedule, new Date(schedule.nextRunAt), 5)
+    : [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle>{schedule.name}</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {schedule.customer.name}
+            {!schedule.customer.isActive && <span className="text-destructive"> (inactive customer; runs will fail)</span>}
+            {schedule.autoEmail && !schedule.customer.email && <span className="text-destructive"> · no email address on file</span>}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <table className="w-full">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size / Color</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-muted-foreground uppercase tracking-wider">Quantity</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {schedule.items.map((item) => (
+                <tr key={item.id} data-testid={`row-recurring-item-${item.id}`}>
+                  <td className="px-4 py-2 text-sm">
+                    <div className="font-medium text-foreground">{item.product.productName}</div>
+                    <div className="text-xs text-muted-foreground">{item.product.productId}</div>
+                  </td>
+                  <td className="px-4 py-2 text-sm text-foreground">{item.variant ? `${item.variant.size} / ${item.variant.color}` : '-'}</td>
+                  <td className="px-4 py-2 text-sm text-right text-foreground">{item.quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <h3 className="text-sm font-semibold text-foreground mb-2">History</h3>
+            {schedule.runs.length ? (
+              <table className="w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Run</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Invoice</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Email</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {schedule.runs.map((run) => (
+                    <tr key={run.id} data-testid={`row-recurring-run-${run.id}`}>
+                      <td className="px-4 py-2 text-sm text-foreground whitespace-nowrap">{formatDate(run.scheduledFor)}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {run.invoice ? (
+                          <button
+                            type="button"
+                            className="text-primary hover:underline"
+                            onClick={() => navigate(`/invoices/${run.invoice!.id}`)}
+                          >
+                            {run.invoice.invoiceNumber} · {formatCurrency(run.invoice.total, run.invoice.currency)} · {run.invoice.status}
+                          </button>
+                        ) : (
+                          <span className="text-destructive">Failed: {run.error}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {run.emailStatus === 'Sent' && <Badge variant="secondary">Sent</Badge>}
+                        {run.emailStatus === 'Failed' && <Badge variant="destructive" title={run.error || undefined}>Failed</Badge>}
+                        {!run.emailStatus && <span className="text-muted-foreground">-</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No invoices have been raised yet</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {upcoming.length ? (
+            <ul className="space-y-2" data-testid="list-upcoming-runs">
+              {upcoming.map((date) => (
+                <li key={date.toISOString()} className="flex items-center gap-2 text-sm text-foreground">
+                  <i className="fas fa-calendar-alt text-muted-foreground"></i>
+                  {formatDate(date, 'full')}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {schedule.isActive ? "The schedule has reached its end date" : "Paused; missed runs are skipped when it resumes"}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
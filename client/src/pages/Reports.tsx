@@ -1,9 +1,13 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { ExportMenu } from "@/components/ExportMenu";
+import { formatCurrency } from "@/lib/formatters";
+import { BASE_CURRENCY, toBaseCurrency } from "@shared/currency";
+import type { PromotionUptake, ReorderSuggestionsResponse } from "@shared/schema";
 
 type DashboardData = {
   totalProducts: number;
@@ -17,6 +21,8 @@ type Invoice = {
   invoiceNumber: string;
   status: string;
   total: string;
+  creditedAmount: string;
+  exchangeRate: string;
   customerName: string;
   createdAt: string;
 };
@@ -38,6 +44,8 @@ export default function Reports() {
   const [dateRange, setDateRange] = useState<string>("month");
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
+  const [lookbackDays, setLookbackDays] = useState<string>("30");
+  const [coverDays, setCoverDays] = useState<string>("30");
 
   const { data: dashboardData, isLoading: isDashboardLoading } = useQuery<DashboardData>({
     queryKey: ["/api/dashboard/metrics"],
@@ -56,21 +64,33 @@ export default function Reports() {
     enabled: reportType === "manufacturers",
   });
 
-  const formatCurrency = (amount: number | string) => {
-    const num = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return `$${num.toFixed(2)}`;
-  };
+  const { data: promotionUptake, isLoading: isPromotionLoading } = useQuery<PromotionUptake[]>({
+    queryKey: ["/api/reports/promotions", {
+      startDate: dateRange === "custom" ? startDate : undefined,
+      endDate: dateRange === "custom" ? endDate : undefined,
+      range: dateRange !== "custom" ? dateRange : undefined
+    }],
+    enabled: reportType === "promotions",
+  });
+
+  const { data: reorderData, isLoading: isReorderLoading } = useQuery<ReorderSuggestionsResponse>({
+    queryKey: ["/api/reports/reorder-suggestions", { lookbackDays, coverDays }],
+    enabled: reportType === "reorder",
+  });
 
   const calculateSalesReport = () => {
     if (!invoicesData?.invoices) return null;
     
     const processedInvoices = invoicesData.invoices.filter((inv: any) => inv.status === 'Processed');
-    const totalRevenue = processedInvoices.reduce((sum: number, inv: any) => sum + parseFloat(inv.total), 0);
+    // Revenue is reported net of credit notes issued against the invoices, in the base currency
+    const totalCredited = processedInvoices.reduce((sum: number, inv: any) => sum + toBaseCurrency(inv.creditedAmount || "0", inv.exchangeRate), 0);
+    const totalRevenue = processedInvoices.reduce((sum: number, inv: any) => sum + toBaseCurrency(inv.total, inv.exchangeRate), 0) - totalCredited;
     const avgOrderValue = processedInvoices.length > 0 ? totalRevenue / processedInvoices.length : 0;
 
     return {
       totalInvoices: processedInvoices.length,
       totalRevenue,
+      totalCredited,
       avgOrderValue,
       pendingInvoices: invoicesData.invoices.filter((inv: any) => inv.status === 'Pending').length,
     };
@@ -86,41 +106,13 @@ export default function Reports() {
   const salesReport = calculateSalesReport();
   const inventoryReport = calculateInventoryReport();
 
-  const downloadReport = () => {
-    let csvContent = "";
-    
-    if (reportType === "sales" && salesReport) {
-      csvContent = "Sales Report\n\n";
-      csvContent += "Metric,Value\n";
-      csvContent += `Total Processed Invoices,${salesReport.totalInvoices}\n`;
-      csvContent += `Total Revenue,${formatCurrency(salesReport.totalRevenue)}\n`;
-      csvContent += `Average Order Value,${formatCurrency(salesReport.avgOrderValue)}\n`;
-      csvContent += `Pending Invoices,${salesReport.pendingInvoices}\n`;
-    } else if (reportType === "inventory") {
-      csvContent = "Inventory Report\n\n";
-      csvContent += "Metric,Value\n";
-      csvContent += `Total Products,${inventoryReport.totalProducts}\n`;
-      csvContent += `Low Stock Items,${inventoryReport.lowStockItems}\n`;
-    } else if (reportType === "manufacturers" && manufacturerStats) {
-      csvContent = "Manufacturer Report\n\n";
-      csvContent += "Manufacturer,Total Quantity Sold,Total Revenue,Product Count\n";
-      manufacturerStats.forEach(stat => {
-        csvContent += `${stat.manufacturer},${stat.totalQuantitySold},${stat.totalRevenue},${stat.productCount}\n`;
-      });
-      csvContent += "\nTotals,";
-      csvContent += `${manufacturerStats.reduce((sum, stat) => sum + stat.totalQuantitySold, 0)},`;
-      csvContent += `${manufacturerStats.reduce((sum, stat) => sum + stat.totalRevenue, 0)},`;
-      csvContent += `${manufacturerStats.reduce((sum, stat) => sum + stat.productCount, 0)}\n`;
-    }
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${reportType}-report-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+  // Same window and parameters as the report on screen
+  const reportWindow = {
+    startDate: dateRange === "custom" ? startDate : undefined,
+    endDate: dateRange === "custom" ? endDate : undefined,
+    range: dateRange !== "custom" ? dateRange : undefined,
   };
+  const exportParams = reportType === "reorder" ? { lookbackDays, coverDays } : reportWindow;
 
   return (
     <div className="space-y-6">
@@ -144,43 +136,81 @@ export default function Reports() {
                     <SelectItem value="sales">Sales Report</SelectItem>
                     <SelectItem value="inventory">Inventory Report</SelectItem>
                     <SelectItem value="manufacturers">Manufacturer Report</SelectItem>
+                    <SelectItem value="promotions">Promotion Uptake</SelectItem>
+                    <SelectItem value="reorder">Reorder Suggestions</SelectItem>
                     <SelectItem value="invoices">Invoice Summary</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
-              <div className="flex-1">
-                <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                  Date Range
-                </label>
-                <Select value={dateRange} onValueChange={setDateRange}>
-                  <SelectTrigger data-testid="select-date-range">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="week">Last 7 Days</SelectItem>
-                    <SelectItem value="month">Last 30 Days</SelectItem>
-                    <SelectItem value="quarter">Last 3 Months</SelectItem>
-                    <SelectItem value="year">Last Year</SelectItem>
-                    <SelectItem value="all">All Time</SelectItem>
-                    <SelectItem value="custom">Custom Duration</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {reportType === "reorder" ? (
+                <>
+                  <div className="flex-1">
+                    <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                      Sales History
+                    </label>
+                    <Select value={lookbackDays} onValueChange={setLookbackDays}>
+                      <SelectTrigger data-testid="select-lookback-days">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="14">Last 14 Days</SelectItem>
+                        <SelectItem value="30">Last 30 Days</SelectItem>
+                        <SelectItem value="90">Last 90 Days</SelectItem>
+                        <SelectItem value="180">Last 180 Days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="flex-1">
+                    <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                      Stock to Cover
+                    </label>
+                    <Select value={coverDays} onValueChange={setCoverDays}>
+                      <SelectTrigger data-testid="select-cover-days">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="14">14 Days</SelectItem>
+                        <SelectItem value="30">30 Days</SelectItem>
+                        <SelectItem value="60">60 Days</SelectItem>
+                        <SelectItem value="90">90 Days</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              ) : (
+                <div className="flex-1">
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Date Range
+                  </label>
+                  <Select value={dateRange} onValueChange={setDateRange}>
+                    <SelectTrigger data-testid="select-date-range">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="week">Last 7 Days</SelectItem>
+                      <SelectItem value="month">Last 30 Days</SelectItem>
+                      <SelectItem value="quarter">Last 3 Months</SelectItem>
+                      <SelectItem value="year">Last Year</SelectItem>
+                      <SelectItem value="all">All Time</SelectItem>
+                      <SelectItem value="custom">Custom Duration</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
 
               <div className="flex items-end">
-                <Button 
-                  onClick={downloadReport}
-                  className="w-full md:w-auto"
-                  data-testid="button-download-report"
-                >
-                  <i className="fas fa-download mr-2"></i>
-                  Download CSV
-                </Button>
+                <ExportMenu
+                  url={`/api/reports/${reportType}/export`}
+                  params={exportParams}
+                  label="Download"
+                  testId="button-download-report"
+                />
               </div>
             </div>
 
-            {dateRange === "custom" && (
+            {dateRange === "custom" && reportType !== "reorder" && (
               <div className="flex flex-col md:flex-row gap-4">
                 <div className="flex-1">
                   <label className="text-sm font-medium text-muted-foreground mb-2 block">
@@ -248,7 +278,11 @@ export default function Reports() {
                 </CardHeader>
                 <CardContent>
                   <div className="text-2xl font-bold">{formatCurrency(salesReport.totalRevenue)}</div>
-                  <p className="text-xs text-muted-foreground mt-1">From all sales</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {salesReport.totalCredited > 0
+                      ? `Net of ${formatCurrency(salesReport.totalCredited)} in credit notes`
+                      : "From all sales"}
+                  </p>
                 </CardContent>
               </Card>
 
@@ -329,6 +363,7 @@ export default function Reports() {
         <Card>
           <CardHeader>
             <CardTitle>Manufacturer Report</CardTitle>
+            <p className="text-sm text-muted-foreground">Sales less units and revenue credited in the same period; revenue in {BASE_CURRENCY}</p>
           </CardHeader>
           <CardContent>
             {isManufacturerLoading ? (
@@ -343,8 +378,8 @@ export default function Reports() {
                   <thead className="bg-muted">
                     <tr>
                       <th className="px-4 py-3 text-left text-sm font-medium">Manufacturer</th>
-                      <th className="px-4 py-3 text-right text-sm font-medium">Products Sold (Qty)</th>
-                      <th className="px-4 py-3 text-right text-sm font-medium">Total Revenue</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Net Sold (Qty)</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Net Revenue</th>
                       <th className="px-4 py-3 text-right text-sm font-medium">Unique Products</th>
                     </tr>
                   </thead>
@@ -391,6 +426,143 @@ export default function Reports() {
         </Card>
       )}
 
+      {/* Promotion Uptake */}
+      {reportType === "promotions" && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Promotion Uptake</CardTitle>
+            <p className="text-sm text-muted-foreground">Processed invoices that received each promotion; amounts in {BASE_CURRENCY}, revenue net of credit notes</p>
+          </CardHeader>
+          <CardContent>
+            {isPromotionLoading ? (
+              <div className="space-y-4">
+                {Array.from({ length: 5 }).map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : promotionUptake && promotionUptake.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-muted">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Promotion</th>
+                      <th className="px-4 py-3 text-left text-sm font-medium">Coupon</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Invoices</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Discount Given</th>
+                      <th className="px-4 py-3 text-right text-sm font-medium">Invoice Revenue</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {promotionUptake.map((row) => (
+                      <tr key={row.promotionId} className="hover:bg-muted/50" data-testid={`row-promotion-uptake-${row.promotionId}`}>
+                        <td className="px-4 py-3 font-medium">{row.name}</td>
+                        <td className="px-4 py-3 font-mono text-sm">{row.code || "—"}</td>
+                        <td className="px-4 py-3 text-right font-semibold">{row.invoiceCount.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-right text-red-600 font-semibold">-{formatCurrency(row.discountTotal)}</td>
+                        <td className="px-4 py-3 text-right text-green-600 font-semibold">{formatCurrency(row.invoiceRevenue)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="bg-muted font-bold">
+                    <tr>
+                      <td className="px-4 py-3" colSpan={3}>Total</td>
+                      <td className="px-4 py-3 text-right text-red-600">
+                        -{formatCurrency(promotionUptake.reduce((sum, row) => sum + row.discountTotal, 0))}
+                      </td>
+                      <td className="px-4 py-3 text-right"></td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            ) : (
+              <p className="text-center text-muted-foreground py-8">
+                No promotions were applied to processed invoices in this period.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Reorder Suggestions */}
+      {reportType === "reorder" && (
+        <div className="space-y-6">
+          {isReorderLoading ? (
+            Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-48 w-full" />
+            ))
+          ) : reorderData?.groups.length ? (
+            reorderData.groups.map((group) => (
+              <Card key={group.manufacturer} data-testid={`card-reorder-${group.manufacturer}`}>
+                <CardHeader>
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                    <CardTitle>{group.manufacturer}</CardTitle>
+                    <div className="flex items-center gap-2 text-sm">
+                      {group.supplier ? (
+                        <span className="text-muted-foreground">Supplier: <span className="text-foreground font-medium">{group.supplier.name}</span></span>
+                      ) : (
+                        <span className="text-muted-foreground">No supplier on file</span>
+                      )}
+                      <Badge variant="secondary">{group.totalUnits.toLocaleString()} units to order</Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto">
+                    <table className="w-full">
+                      <thead className="bg-muted">
+                        <tr>
+                          <th className="px-4 py-3 text-left text-sm font-medium">Product</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">Available</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">On Order</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">Reorder Point</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">Sold / Day</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">Days of Cover</th>
+                          <th className="px-4 py-3 text-right text-sm font-medium">Suggested Order</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {group.items.map((item) => (
+                          <tr key={item.productId} className="hover:bg-muted/50">
+                            <td className="px-4 py-3">
+                              <div className="font-medium">{item.productName}</div>
+                              <div className="text-xs text-muted-foreground">{item.productCode}</div>
+                            </td>
+                            <td className={`px-4 py-3 text-right ${item.available <= 0 ? 'text-destructive font-semibold' : ''}`}>
+                              {item.available}
+                            </td>
+                            <td className="px-4 py-3 text-right">{item.onOrder}</td>
+                            <td className="px-4 py-3 text-right">{item.reorderPoint}</td>
+                            <td className="px-4 py-3 text-right">{item.dailyVelocity}</td>
+                            <td className="px-4 py-3 text-right">
+                              {item.daysOfCover === null ? (
+                                <span className="text-muted-foreground">No sales</span>
+                              ) : (
+                                <span className={item.daysOfCover < reorderData.coverDays ? 'text-destructive font-semibold' : ''}>
+                                  {item.daysOfCover}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-4 py-3 text-right font-semibold">{item.suggestedQuantity}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <Card>
+              <CardContent className="py-8">
+                <p className="text-center text-muted-foreground">
+                  Nothing to reorder. Every product has enough stock for the next {coverDays} days.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      )}
+
       {/* Invoice Summary */}
       {reportType === "invoices" && (
         <Card>
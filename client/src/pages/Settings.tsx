@@ -0,0 +1,208 @@
+import { useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/useSettings";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { settingLabels, type AppSettings } from "@shared/settings";
+
+const settingsFormSchema = z.object({
+  emailFromName: z.string().max(100),
+  emailFromAddress: z.string().email("Enter a valid sender address").or(z.literal("")),
+  emailSignature: z.string().max(200),
+  publicBaseUrl: z.string().url("Enter a full URL, e.g. https://shop.example.com").or(z.literal("")),
+  lowStockThreshold: z.number({ invalid_type_error: "Enter a number" }).int().min(0, "Threshold must be 0 or greater"),
+  pricesIncludeTax: z.boolean(),
+});
+
+type SettingsForm = z.infer<typeof settingsFormSchema>;
+
+const emailFields: { name: "emailFromName" | "emailFromAddress" | "emailSignature"; description: string }[] = [
+  { name: "emailFromName", description: "Leave empty to use the company name" },
+  { name: "emailFromAddress", description: "Leave empty to send from the configured mail account" },
+  { name: "emailSignature", description: "Shown after \"Best regards,\"; leave empty for \"<company name> Team\"" },
+];
+
+export default function Settings() {
+  const { toast } = useToast();
+  const { settings, isLoading } = useSettings();
+
+  const form = useForm<SettingsForm>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: settings,
+  });
+
+  useEffect(() => {
+    if (!isLoading) {
+      form.reset(settings);
+    }
+  }, [isLoading, settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: SettingsForm) => {
+      const response = await apiRequest("PUT", "/api/settings", data);
+      return response.json() as Promise<AppSettings>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Settings saved",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      const message = error.message.replace(/^\d+: /, "");
+      let description = "Failed to save settings";
+      try {
+        description = JSON.parse(message).message || description;
+      } catch {
+        // Not a JSON body; keep the fallback
+      }
+      toast({
+        title: "Error",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <p className="text-sm text-muted-foreground">
+        Company name, address and bank details are edited under Company Profile
+      </p>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => saveSettingsMutation.mutate(data))} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Emails</CardTitle>
+              <p className="text-sm text-muted-foreground">Used for invoices, quotations and password resets</p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {emailFields.map(({ name, description }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{settingLabels[name]}</FormLabel>
+                      <FormControl>
+                        <Input {...field} data-testid={`input-setting-${name}`} />
+                      </FormControl>
+                      <FormDescription>{description}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Links</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="publicBaseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{settingLabels.publicBaseUrl}</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://shop.example.com" {...field} data-testid="input-setting-publicBaseUrl" />
+                    </FormControl>
+                    <FormDescription>Product QR codes and WhatsApp invoice links point here. Existing QR codes change when their product image is next updated.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Stock & Invoicing</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="lowStockThreshold"
+                render={({ field }) => (
+                  <FormItem className="max-w-xs">
+                    <FormLabel>{settingLabels.lowStockThreshold}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                        data-testid="input-setting-lowStockThreshold"
+                      />
+                    </FormControl>
+                    <FormDescription>Products are flagged at their own reorder point or at this level, whichever is higher</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pricesIncludeTax"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-setting-pricesIncludeTax"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">{settingLabels.pricesIncludeTax} on new invoices and quotations</FormLabel>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saveSettingsMutation.isPending} data-testid="button-save-settings">
+              {saveSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,442 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { scanProductImage } from "@/lib/productScanner";
+import { stockTakeStatusStyles } from "@/lib/stockTakeUtils";
+import type { StockTakeLineWithStock, StockTakeWithLines } from "@shared/schema";
+
+export default function StockTakeDetail() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { id } = useParams();
+  const [draftCounts, setDraftCounts] = useState<Record<string, string>>({});
+  const [isScanning, setIsScanning] = useState(false);
+  const [variantChoices, setVariantChoices] = useState<StockTakeLineWithStock[]>([]);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: stockTake, isLoading, error } = useQuery<StockTakeWithLines>({
+    queryKey: [`/api/stock-takes/${id}`],
+    enabled: !!id,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  const recordCountMutation = useMutation({
+    mutationFn: async ({ lineId, countedQuantity }: { lineId: string; countedQuantity: number }) => {
+      const response = await apiRequest("PUT", `/api/stock-takes/${id}/lines/${lineId}`, { countedQuantity });
+      return response.json();
+    },
+    onSuccess: (updated: StockTakeWithLines, { lineId }) => {
+      queryClient.setQueryData([`/api/stock-takes/${id}`], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      setDraftCounts(prev => {
+        const { [lineId]: _, ...rest } = prev;
+        return rest;
+      });
+    },
+    onError: (error) => handleMutationError(error, "Failed to record count"),
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-takes/${id}/approve`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Stock take approved and variances booked to inventory",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-takes/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/metrics"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to approve stock take"),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/stock-takes/${id}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Stock take cancelled",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/stock-takes/${id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to cancel stock take"),
+  });
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  const formatUser = (person: StockTakeWithLines["createdByUser"]) => {
+    if (!person) return 'Unknown';
+    return person.firstName && person.lastName ? `${person.firstName} ${person.lastName}` : person.username;
+  };
+
+  const incrementCount = (line: StockTakeLineWithStock) => {
+    recordCountMutation.mutate({ lineId: line.id, countedQuantity: (line.countedQuantity ?? 0) + 1 });
+    toast({
+      title: "Counted",
+      description: `${line.product.productName}${line.variant ? ` (${line.variant.size} / ${line.variant.color})` : ''} now at ${(line.countedQuantity ?? 0) + 1}`,
+    });
+  };
+
+  const saveDraftCount = (line: StockTakeLineWithStock) => {
+    const draft = draftCounts[line.id];
+    if (draft === undefined) return;
+
+    const countedQuantity = parseInt(draft);
+    if (isNaN(countedQuantity) || countedQuantity < 0) {
+      toast({
+        title: "Error",
+        description: "Counted quantity must be zero or more",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (countedQuantity === line.countedQuantity) {
+      setDraftCounts(prev => {
+        const { [line.id]: _, ...rest } = prev;
+        return rest;
+      });
+      return;
+    }
+
+    recordCountMutation.mutate({ lineId: line.id, countedQuantity });
+  };
+
+  const handleScanUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file || !stockTake) return;
+
+    setIsScanning(true);
+    try {
+      const result = await scanProductImage(file, {
+        onOcrStart: () => toast({
+          title: "Reading product ID...",
+          description: "Barcode not readable, scanning product ID text underneath",
+        }),
+      });
+
+      if (result.status === "found") {
+        const matchingLines = stockTake.lines.filter(line => line.productId === result.product.id);
+        if (matchingLines.length === 0) {
+          toast({
+            title: "Not in This Count",
+            description: `${result.product.productName} is outside the scope of ${stockTake.reference}`,
+            variant: "destructive",
+          });
+        } else if (matchingLines.length === 1) {
+          incrementCount(matchingLines[0]);
+        } else {
+          // A product label doesn't identify the size and colour, so ask which variant was counted
+          setVariantChoices(matchingLines);
+        }
+      } else if (result.status === "not-found") {
+        toast({
+          title: "Product Not Found",
+          description: `No product found with ID: ${result.decodedText}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Scanning Failed",
+          description: "Could not read barcode or text from image. Please try again with a clearer image.",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error("Scanning error:", error);
+      toast({
+        title: "Scanning Failed",
+        description: "An error occurred while processing the image.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsScanning(false);
+      if (scanInputRef.current) {
+        scanInputRef.current.value = '';
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !stockTake) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load stock take</p>
+        <Link href="/stock-takes">
+          <Button variant="outline" className="mt-4">Back to Stock Takes</Button>
+        </Link>
+      </div>
+    );
+  }
+
+  const isOpen = stockTake.status === 'In Progress';
+  const canCount = isOpen && ['Admin', 'Manager', 'Staff'].includes(user?.role || '');
+  const canApprove = isOpen && ['Admin', 'Manager'].includes(user?.role || '');
+  const countedLines = stockTake.lines.filter(line => line.countedQuantity !== null);
+  const netVariance = countedLines.reduce((sum, line) => sum + (line.variance ?? 0), 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <h2 className="text-2xl font-bold text-foreground" data-testid="text-stock-take-reference">{stockTake.reference}</h2>
+                <Badge className={stockTakeStatusStyles[stockTake.status || 'In Progress']}>{stockTake.status}</Badge>
+              </div>
+              <p className="text-sm text-foreground">
+                <span className="text-muted-foreground capitalize">{stockTake.scopeType}:</span> {stockTake.scopeValue}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Started {formatDate(stockTake.createdAt!)} by {formatUser(stockTake.createdByUser)}
+              </p>
+              {stockTake.approvedAt && (
+                <p className="text-sm text-muted-foreground">
+                  Approved {formatDate(stockTake.approvedAt)} by {formatUser(stockTake.approvedByUser)}
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {canCount && (
+                <>
+                  <input
+                    ref={scanInputRef}
+                    type="file"
+                    accept="image/*"
+                    onChange={handleScanUpload}
+                    className="hidden"
+                    data-testid="input-stock-take-scan-file"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => scanInputRef.current?.click()}
+                    disabled={isScanning}
+                    data-testid="button-scan-count"
+                  >
+                    {isScanning ? (
+                      <>
+                        <i className="fas fa-spinner fa-spin mr-2"></i>
+                        Scanning...
+                      </>
+                    ) : (
+                      <>
+                        <i className="fas fa-barcode mr-2"></i>
+                        Scan to Count
+                      </>
+                    )}
+                  </Button>
+                </>
+              )}
+              {canApprove && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button disabled={countedLines.length === 0 || approveMutation.isPending} data-testid="button-approve-stock-take">
+                      <i className="fas fa-check mr-2"></i>
+                      Approve Variances
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Approve Stock Take</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Stock levels for the {countedLines.length} counted line(s) will be set to the counted quantities and each difference recorded as an adjustment. Uncounted lines are left unchanged. This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => approveMutation.mutate()}>
+                        Approve
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+              {canApprove && (
+                <Button
+                  variant="outline"
+                  onClick={() => cancelMutation.mutate()}
+                  disabled={cancelMutation.isPending}
+                  data-testid="button-cancel-stock-take"
+                >
+                  <i className="fas fa-ban mr-2"></i>
+                  Cancel Count
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-1">Lines Counted</h3>
+              <p className="text-lg font-semibold text-foreground" data-testid="text-stock-take-progress">
+                {countedLines.length} / {stockTake.lines.length}
+              </p>
+            </div>
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground mb-1">Net Variance</h3>
+              <p className={`text-lg font-semibold ${netVariance < 0 ? 'text-destructive' : netVariance > 0 ? 'text-accent' : 'text-foreground'}`}>
+                {netVariance > 0 ? `+${netVariance}` : netVariance} units
+              </p>
+            </div>
+            {stockTake.notes && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-1">Notes</h3>
+                <p className="text-sm text-foreground whitespace-pre-line">{stockTake.notes}</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Count Sheet */}
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Product</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Size / Color</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">System</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {stockTake.lines.map((line) => (
+                  <tr key={line.id} data-testid={`row-stock-take-line-${line.id}`}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-foreground">{line.product.productName}</div>
+                      <div className="text-xs text-muted-foreground">{line.variant?.sku || line.product.productId}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {line.variant ? `${line.variant.size} / ${line.variant.color}` : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{line.systemQuantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                      {canCount ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="-"
+                          value={draftCounts[line.id] ?? (line.countedQuantity === null ? '' : String(line.countedQuantity))}
+                          onChange={(e) => setDraftCounts(prev => ({ ...prev, [line.id]: e.target.value }))}
+                          onBlur={() => saveDraftCount(line)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.currentTarget.blur();
+                            }
+                          }}
+                          className="w-24"
+                          data-testid={`input-count-${line.id}`}
+                        />
+                      ) : (
+                        line.countedQuantity ?? '-'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      {line.variance === null ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <span className={line.variance < 0 ? 'text-destructive' : line.variance > 0 ? 'text-accent' : 'text-muted-foreground'}>
+                          {line.variance > 0 ? `+${line.variance}` : line.variance}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Variant Picker */}
+      <Dialog open={variantChoices.length > 0} onOpenChange={(open) => !open && setVariantChoices([])}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Which variant did you count?</DialogTitle>
+            <DialogDescription>
+              {variantChoices[0]?.product.productName} is counted per size and colour.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-2">
+            {variantChoices.map((line) => (
+              <Button
+                key={line.id}
+                variant="outline"
+                onClick={() => {
+                  incrementCount(line);
+                  setVariantChoices([]);
+                }}
+                data-testid={`button-pick-variant-${line.id}`}
+              >
+                {line.variant ? `${line.variant.size} / ${line.variant.color}` : line.product.productName}
+              </Button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,284 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { stockTakeStatusStyles } from "@/lib/stockTakeUtils";
+import type { StockTakesResponse } from "@shared/schema";
+
+export default function StockTakes() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [page, setPage] = useState(1);
+  const [status, setStatus] = useState("");
+  const [isStarting, setIsStarting] = useState(false);
+  const [scopeType, setScopeType] = useState<"category" | "manufacturer">("category");
+  const [scopeValue, setScopeValue] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const canCount = ['Admin', 'Manager', 'Staff'].includes(user?.role || '');
+
+  const { data: stockTakesData, isLoading, error } = useQuery<StockTakesResponse>({
+    queryKey: ["/api/stock-takes", { page, limit: 20, status: status === "all" ? "" : status }],
+  });
+
+  const { data: scopes } = useQuery<{ categories: string[]; manufacturers: string[] }>({
+    queryKey: ["/api/stock-takes/scopes"],
+    enabled: isStarting,
+  });
+
+  const scopeOptions = scopeType === "category" ? scopes?.categories : scopes?.manufacturers;
+
+  const startStockTakeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/stock-takes", { scopeType, scopeValue, notes });
+      return response.json();
+    },
+    onSuccess: (stockTake) => {
+      toast({
+        title: "Success",
+        description: `Stock take ${stockTake.reference} started`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/stock-takes"] });
+      setIsStarting(false);
+      navigate(`/stock-takes/${stockTake.id}`);
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to start stock take",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openStartDialog = () => {
+    setScopeType("category");
+    setScopeValue("");
+    setNotes("");
+    setIsStarting(true);
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  if (error) {
+    return (
+      <div className="text-center py-8">
+        <i className="fas fa-exclamation-circle text-destructive text-4xl mb-4"></i>
+        <p className="text-sm text-muted-foreground">Failed to load stock takes</p>
+      </div>
+    );
+  }
+
+  const total = stockTakesData?.total || 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+          <SelectTrigger className="w-full sm:w-48" data-testid="select-stock-take-status">
+            <SelectValue placeholder="All Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Status</SelectItem>
+            {Object.keys(stockTakeStatusStyles).map((value) => (
+              <SelectItem key={value} value={value}>{value}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {canCount && (
+          <Button onClick={openStartDialog} data-testid="button-start-stock-take">
+            <i className="fas fa-clipboard-check mr-2"></i>
+            Start Stock Take
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Reference</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Scope</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Started</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Counted</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 5 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={6} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : stockTakesData?.stockTakes?.length ? (
+                  stockTakesData.stockTakes.map((stockTake) => (
+                    <tr
+                      key={stockTake.id}
+                      className="hover:bg-accent/50 cursor-pointer transition-colors"
+                      onClick={() => navigate(`/stock-takes/${stockTake.id}`)}
+                      data-testid={`row-stock-take-${stockTake.id}`}
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{stockTake.reference}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        <span className="text-muted-foreground capitalize">{stockTake.scopeType}:</span> {stockTake.scopeValue}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{formatDate(stockTake.createdAt!)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">
+                        {stockTake.countedCount} / {stockTake.lineCount}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge className={stockTakeStatusStyles[stockTake.status || 'In Progress']}>{stockTake.status}</Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Link href={`/stock-takes/${stockTake.id}`}>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={(e) => e.stopPropagation()}
+                            data-testid={`button-view-stock-take-${stockTake.id}`}
+                          >
+                            <i className="fas fa-eye w-4 h-4"></i>
+                          </Button>
+                        </Link>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-16 text-center">
+                      <i className="fas fa-clipboard-check text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No stock takes found</h3>
+                      <p className="text-muted-foreground">Start a count for a category or manufacturer to reconcile stock</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {total > 20 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">
+            Showing {((page - 1) * 20) + 1} to {Math.min(page * 20, total)} of {total} results
+          </p>
+          <div className="flex items-center space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              data-testid="button-previous-page"
+            >
+              Previous
+            </Button>
+            <span className="px-3 py-2 text-sm">{page}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(p => p + 1)}
+              disabled={page * 20 >= total}
+              data-testid="button-next-page"
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={isStarting} onOpenChange={setIsStarting}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Start Stock Take</DialogTitle>
+            <DialogDescription>
+              Every active product in the chosen category or manufacturer is added to the count sheet.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Count By</Label>
+              <Select value={scopeType} onValueChange={(value) => { setScopeType(value as "category" | "manufacturer"); setScopeValue(""); }}>
+                <SelectTrigger data-testid="select-scope-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="category">Category</SelectItem>
+                  <SelectItem value="manufacturer">Manufacturer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{scopeType === "category" ? "Category" : "Manufacturer"}</Label>
+              <Select value={scopeValue} onValueChange={setScopeValue}>
+                <SelectTrigger data-testid="select-scope-value">
+                  <SelectValue placeholder={`Select ${scopeType}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {scopeOptions?.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Notes (Optional)</Label>
+              <Textarea
+                rows={2}
+                className="resize-none"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-stock-take-notes"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={() => setIsStarting(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => startStockTakeMutation.mutate()}
+              disabled={!scopeValue || startStockTakeMutation.isPending}
+              data-testid="button-confirm-start-stock-take"
+            >
+              {startStockTakeMutation.isPending ? "Starting..." : "Start Count"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import type { Supplier } from "@shared/schema";
+
+const supplierFormSchema = z.object({
+  name: z.string().min(1, "Supplier name is required"),
+  manufacturer: z.string().optional(),
+  contactName: z.string().optional(),
+  email: z.string().email("Valid email format").optional().or(z.literal("")),
+  phone: z.string().optional(),
+  address: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+type SupplierForm = z.infer<typeof supplierFormSchema>;
+
+const emptySupplierForm: SupplierForm = {
+  name: "",
+  manufacturer: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  address: "",
+  notes: "",
+};
+
+export default function Suppliers() {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [search, setSearch] = useState("");
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const canManage = ['Admin', 'Manager'].includes(user?.role || '');
+
+  const { data: suppliers, isLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers", { search }],
+  });
+
+  const form = useForm<SupplierForm>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: emptySupplierForm,
+  });
+
+  const saveSupplierMutation = useMutation({
+    mutationFn: async (data: SupplierForm) => {
+      const response = editingSupplier
+        ? await apiRequest("PUT", `/api/suppliers/${editingSupplier.id}`, data)
+        : await apiRequest("POST", "/api/suppliers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingSupplier ? "Supplier updated successfully" : "Supplier created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      closeDialog();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save supplier",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (supplier?: Supplier) => {
+    setEditingSupplier(supplier || null);
+    form.reset(supplier ? {
+      name: supplier.name,
+      manufacturer: supplier.manufacturer || "",
+      contactName: supplier.contactName || "",
+      email: supplier.email || "",
+      phone: supplier.phone || "",
+      address: supplier.address || "",
+      notes: supplier.notes || "",
+    } : emptySupplierForm);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingSupplier(null);
+    form.reset(emptySupplierForm);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <Input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full sm:w-64"
+          placeholder="Search suppliers"
+          data-testid="input-search-suppliers"
+        />
+        {canManage && (
+          <Button onClick={() => openDialog()} data-testid="button-add-supplier">
+            <i className="fas fa-plus mr-2"></i>
+            Add Supplier
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Supplier</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Manufacturer</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Contact</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Email</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Phone</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={6} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : suppliers?.length ? (
+                  suppliers.map((supplier) => (
+                    <tr key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">{supplier.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">{supplier.manufacturer || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{supplier.contactName || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{supplier.email || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{supplier.phone || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        {canManage && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog(supplier)}
+                            data-testid={`button-edit-supplier-${supplier.id}`}
+                          >
+                            <i className="fas fa-edit w-4 h-4"></i>
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={6} className="px-6 py-16 text-center">
+                      <i className="fas fa-truck text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No suppliers found</h3>
+                      <p className="text-muted-foreground">Add the manufacturers you order stock from</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "Add Supplier"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveSupplierMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Supplier name" {...field} data-testid="input-supplier-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="manufacturer"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Manufacturer (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Manufacturer on products" {...field} data-testid="input-supplier-manufacturer" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="contactName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Contact Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Contact person" {...field} data-testid="input-supplier-contact" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input type="tel" placeholder="Phone number" {...field} data-testid="input-supplier-phone" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="orders@supplier.com" {...field} data-testid="input-supplier-email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} className="resize-none" {...field} data-testid="input-supplier-address" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} className="resize-none" {...field} data-testid="input-supplier-notes" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveSupplierMutation.isPending} data-testid="button-save-supplier">
+                  {saveSupplierMutation.isPending ? "Saving..." : "Save Supplier"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
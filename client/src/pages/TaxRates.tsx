@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatTaxRate } from "@/lib/taxUtils";
+import type { TaxRate, TaxRatesResponse } from "@shared/schema";
+
+const taxRateFormSchema = z.object({
+  name: z.string().trim().min(1, "Tax rate name is required"),
+  // Entered as a percentage, stored as a decimal
+  percentage: z.coerce.number().min(0, "Rate cannot be negative").max(100, "Rate cannot exceed 100%"),
+  isDefault: z.boolean(),
+  isActive: z.boolean(),
+});
+
+type TaxRateForm = z.infer<typeof taxRateFormSchema>;
+
+const emptyTaxRateForm: TaxRateForm = {
+  name: "",
+  percentage: 0,
+  isDefault: false,
+  isActive: true,
+};
+
+const DEFAULT_CLASS = "default";
+
+export default function TaxRates() {
+  const { toast } = useToast();
+  const [editingTaxRate, setEditingTaxRate] = useState<TaxRate | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: taxData, isLoading } = useQuery<TaxRatesResponse>({
+    queryKey: ["/api/tax-rates"],
+  });
+
+  const form = useForm<TaxRateForm>({
+    resolver: zodResolver(taxRateFormSchema),
+    defaultValues: emptyTaxRateForm,
+  });
+
+  const handleMutationError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    // e.g. refusing to deactivate the default rate
+    const message = error.message.replace(/^\d+: /, "");
+    let description = fallback;
+    try {
+      description = JSON.parse(message).message || fallback;
+    } catch {
+      // Not a JSON body; keep the fallback
+    }
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const saveTaxRateMutation = useMutation({
+    mutationFn: async (data: TaxRateForm) => {
+      const payload = {
+        name: data.name,
+        rate: data.percentage / 100,
+        isDefault: data.isDefault,
+        isActive: data.isActive,
+      };
+      const response = editingTaxRate
+        ? await apiRequest("PUT", `/api/tax-rates/${editingTaxRate.id}`, payload)
+        : await apiRequest("POST", "/api/tax-rates", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: editingTaxRate ? "Tax rate updated successfully" : "Tax rate created successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+      closeDialog();
+    },
+    onError: (error) => handleMutationError(error, "Failed to save tax rate"),
+  });
+
+  const setCategoryRateMutation = useMutation({
+    mutationFn: async ({ category, taxRateId }: { category: string; taxRateId: string | null }) => {
+      const response = await apiRequest("PUT", `/api/tax-rates/categories/${encodeURIComponent(category)}`, { taxRateId });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Category tax class updated",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/tax-rates"] });
+    },
+    onError: (error) => handleMutationError(error, "Failed to update category tax class"),
+  });
+
+  const openDialog = (taxRate?: TaxRate) => {
+    setEditingTaxRate(taxRate || null);
+    form.reset(taxRate ? {
+      name: taxRate.name,
+      percentage: parseFloat((parseFloat(taxRate.rate) * 100).toFixed(2)),
+      isDefault: taxRate.isDefault,
+      isActive: taxRate.isActive !== false,
+    } : emptyTaxRateForm);
+    setIsDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setEditingTaxRate(null);
+    form.reset(emptyTaxRateForm);
+  };
+
+  const taxRates = taxData?.taxRates || [];
+  const activeRates = taxRates.filter(rate => rate.isActive !== false);
+  const defaultRate = taxRates.find(rate => rate.isDefault && rate.isActive !== false);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Products use their own tax class, then their category's, then the default rate
+        </p>
+        <Button onClick={() => openDialog()} data-testid="button-add-tax-rate">
+          <i className="fas fa-plus mr-2"></i>
+          Add Tax Rate
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Name</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Rate</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-card divide-y divide-border">
+                {isLoading ? (
+                  Array.from({ length: 3 }).map((_, i) => (
+                    <tr key={i}>
+                      <td colSpan={4} className="px-6 py-4">
+                        <Skeleton className="h-4 w-full" />
+                      </td>
+                    </tr>
+                  ))
+                ) : taxRates.length ? (
+                  taxRates.map((taxRate) => (
+                    <tr key={taxRate.id} data-testid={`row-tax-rate-${taxRate.id}`}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-foreground">
+                        {taxRate.name}
+                        {taxRate.isDefault && <Badge variant="secondary" className="ml-2">Default</Badge>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-foreground">{formatTaxRate(taxRate.rate)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Badge variant={taxRate.isActive !== false ? "default" : "outline"}>
+                          {taxRate.isActive !== false ? "Active" : "Inactive"}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(taxRate)}
+                          data-testid={`button-edit-tax-rate-${taxRate.id}`}
+                        >
+                          <i className="fas fa-edit w-4 h-4"></i>
+                        </Button>
+                      </td>
+                    </tr>
+                  ))
+                ) : (
+                  <tr>
+                    <td colSpan={4} className="px-6 py-16 text-center">
+                      <i className="fas fa-percent text-muted-foreground text-4xl mb-4"></i>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No tax rates configured</h3>
+                      <p className="text-muted-foreground">Invoices are issued without tax until a rate is added</p>
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Category Tax Classes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : taxData?.categories.length ? (
+            <div className="space-y-3">
+              {taxData.categories.map((category) => {
+                const assigned = taxData.categoryRates.find(entry => entry.category === category)?.taxRateId;
+                return (
+                  <div key={category} className="flex items-center justify-between gap-4" data-testid={`row-category-tax-${category}`}>
+                    <span className="text-sm font-medium text-foreground">{category}</span>
+                    <Select
+                      value={assigned || DEFAULT_CLASS}
+                      onValueChange={(value) => setCategoryRateMutation.mutate({
+                        category,
+                        taxRateId: value === DEFAULT_CLASS ? null : value,
+                      })}
+                      disabled={setCategoryRateMutation.isPending}
+                    >
+                      <SelectTrigger className="w-56" data-testid={`select-category-tax-${category}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_CLASS}>
+                          Default{defaultRate ? ` (${formatTaxRate(defaultRate.rate)})` : ""}
+                        </SelectItem>
+                        {activeRates.map((rate) => (
+                          <SelectItem key={rate.id} value={rate.id}>
+                            {rate.name} ({formatTaxRate(rate.rate)})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">Categories appear here once products are assigned to them</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingTaxRate ? "Edit Tax Rate" : "Add Tax Rate"}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveTaxRateMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Standard VAT" {...field} data-testid="input-tax-rate-name" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="percentage"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="100" step="0.01" {...field} data-testid="input-tax-rate-percentage" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isDefault"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-tax-rate-default"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Default rate for products without a tax class</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isActive"
+                render={({ field }) => (
+                  <FormItem className="flex items-center gap-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                        data-testid="checkbox-tax-rate-active"
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveTaxRateMutation.isPending} data-testid="button-save-tax-rate">
+                  {saveTaxRateMutation.isPending ? "Saving..." : "Save Tax Rate"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
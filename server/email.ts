@@ -0,0 +1,42 @@
+import nodemailer from "nodemailer";
+import { formatMoney } from "@shared/currency";
+import { settingsService } from "./settings";
+import type { InvoiceDocument } from "./pdf";
+
+// Email configuration
+export const createEmailTransporter = () => {
+  return nodemailer.createTransport({
+    service: 'gmail',
+    auth: {
+      user: process.env.EMAIL_USER || process.env.GMAIL_USER || 'default@gmail.com',
+      pass: process.env.EMAIL_PASS || process.env.GMAIL_PASS || 'defaultpass'
+    }
+  });
+};
+
+// Sends an invoice to its customer with the rendered PDF attached; the caller checks there is an address
+export const sendInvoiceEmail = async (invoice: InvoiceDocument, pdfBuffer: Buffer): Promise<void> => {
+  const transporter = createEmailTransporter();
+  const { from, companyName, signature } = await settingsService.emailIdentity();
+
+  await transporter.sendMail({
+    from,
+    to: invoice.customerEmail || undefined,
+    subject: `Invoice ${invoice.invoiceNumber} - ${companyName}`,
+    html: `
+      <h2>Your Invoice is Ready</h2>
+      <p>Dear ${invoice.customerName},</p>
+      <p>Please find your invoice ${invoice.invoiceNumber} attached.</p>
+      <p>Total Amount: ${formatMoney(invoice.total, invoice.currency)}</p>
+      <p>Thank you for your business!</p>
+      <p>Best regards,<br>${signature}</p>
+    `,
+    attachments: [
+      {
+        filename: `invoice-${invoice.invoiceNumber}.pdf`,
+        content: pdfBuffer,
+        contentType: 'application/pdf'
+      }
+    ]
+  });
+};
@@ -0,0 +1,283 @@
+import { BASE_CURRENCY, toBaseCurrency } from "@shared/currency";
+import type {
+  DashboardMetrics,
+  InvoiceWithPaymentState,
+  Product,
+  ProductWithVariants,
+  PromotionUptake,
+  ReorderSuggestionsResponse,
+} from "@shared/schema";
+import type { ExportSheet } from "./spreadsheet";
+
+// Sheet layouts for the downloadable lists and reports. Money columns are numbers so they can be
+// summed in Excel; amounts in the invoice's own currency sit next to their base currency value.
+
+type ManufacturerStat = { manufacturer: string; totalQuantitySold: number; totalRevenue: number; productCount: number };
+
+const rangeLabels: Record<string, string> = {
+  week: "Last 7 days",
+  month: "Last 30 days",
+  quarter: "Last 3 months",
+  year: "Last year",
+};
+
+// Describes the report window the same way the Reports page offers it
+export const describeReportWindow = (window: { startDate?: string; endDate?: string; range?: string }): string => {
+  if (window.startDate && window.endDate) return `${window.startDate} to ${window.endDate}`;
+  return (window.range && rangeLabels[window.range]) || "All time";
+};
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const toDate = (value: Date | string | null) => value ? new Date(value) : null;
+
+// Column headers match the import's field names, so an edited export can be uploaded again to update products
+export const productCatalogSheets = (productList: ProductWithVariants[]): ExportSheet[] => {
+  const sheets: ExportSheet[] = [{
+    name: "Products",
+    columns: [
+      { header: "Product ID", width: 18 },
+      { header: "Product Name", width: 28 },
+      { header: "Colors", width: 20 },
+      { header: "Sizes", width: 16 },
+      { header: "Quantity", format: "integer" },
+      { header: "Reserved", format: "integer" },
+      { header: "Available", format: "integer" },
+      { header: "Reorder Point", format: "integer" },
+      { header: "Reorder Quantity", format: "integer" },
+      { header: "Price", format: "money" },
+      { header: "Manufacturer", width: 18 },
+      { header: "Category", width: 16 },
+      { header: "Description", width: 40 },
+      { header: "Created", format: "date" },
+    ],
+    rows: productList.map(product => [
+      product.productId,
+      product.productName,
+      product.color.join(", "),
+      product.size.join(", "),
+      product.quantity,
+      product.reservedQuantity,
+      product.quantity - product.reservedQuantity,
+      product.reorderPoint,
+      product.reorderQuantity,
+      parseFloat(product.price),
+      product.manufacturer,
+      product.category,
+      product.description,
+      toDate(product.createdAt),
+    ]),
+  }];
+
+  const variantRows = productList.flatMap(product => product.variants.map(variant => [
+    product.productId,
+    product.productName,
+    variant.sku,
+    variant.color,
+    variant.size,
+    variant.quantity,
+    variant.reservedQuantity,
+    variant.quantity - variant.reservedQuantity,
+  ]));
+  if (variantRows.length > 0) {
+    sheets.push({
+      name: "Variants",
+      columns: [
+        { header: "Product ID", width: 18 },
+        { header: "Product Name", width: 28 },
+        { header: "SKU", width: 24 },
+        { header: "Color" },
+        { header: "Size" },
+        { header: "Quantity", format: "integer" },
+        { header: "Reserved", format: "integer" },
+        { header: "Available", format: "integer" },
+      ],
+      rows: variantRows,
+    });
+  }
+  return sheets;
+};
+
+export const invoiceListSheet = (invoiceList: InvoiceWithPaymentState[], name = "Invoices"): ExportSheet => {
+  const baseTotals = invoiceList.map(invoice => toBaseCurrency(invoice.total, invoice.exchangeRate));
+  const baseCredits = invoiceList.map(invoice => toBaseCurrency(invoice.creditedAmount || "0", invoice.exchangeRate));
+  return {
+    name,
+    columns: [
+      { header: "Invoice Number", width: 18 },
+      { header: "Date", format: "date" },
+      { header: "Customer", width: 24 },
+      { header: "Status" },
+      { header: "Payment Status", width: 16 },
+      { header: "Currency" },
+      { header: "Subtotal", format: "money" },
+      { header: "Discount", format: "money" },
+      { header: "Tax", format: "money" },
+      { header: "Total", format: "money" },
+      { header: "Paid", format: "money" },
+      { header: "Credited", format: "money" },
+      { header: "Balance Due", format: "money" },
+      { header: "Due Date", format: "date" },
+      { header: "Exchange Rate", format: "decimal" },
+      { header: `Total (${BASE_CURRENCY})`, format: "money" },
+      { header: `Credited (${BASE_CURRENCY})`, format: "money" },
+    ],
+    rows: invoiceList.map((invoice, index) => [
+      invoice.invoiceNumber,
+      toDate(invoice.createdAt),
+      invoice.customerName,
+      invoice.status,
+      invoice.paymentStatus,
+      invoice.currency,
+      parseFloat(invoice.subtotal),
+      parseFloat(invoice.discountAmount || "0") + parseFloat(invoice.promotionDiscount || "0"),
+      parseFloat(invoice.taxAmount || "0"),
+      parseFloat(invoice.total),
+      parseFloat(invoice.amountPaid || "0"),
+      parseFloat(invoice.creditedAmount || "0"),
+      invoice.balanceDue,
+      toDate(invoice.dueDate),
+      parseFloat(invoice.exchangeRate),
+      baseTotals[index],
+      baseCredits[index],
+    ]),
+    totals: invoiceList.length > 0
+      ? ["Totals", null, null, null, null, null, null, null, null, null, null, null, null, null, null, sum(baseTotals), sum(baseCredits)]
+      : undefined,
+  };
+};
+
+// Figures as on the Reports page: processed invoices, net of credit notes, in the base currency
+export const salesReportSheets = (invoiceList: InvoiceWithPaymentState[]): ExportSheet[] => {
+  const processed = invoiceList.filter(invoice => invoice.status === "Processed");
+  const totalCredited = sum(processed.map(invoice => toBaseCurrency(invoice.creditedAmount || "0", invoice.exchangeRate)));
+  const totalRevenue = sum(processed.map(invoice => toBaseCurrency(invoice.total, invoice.exchangeRate))) - totalCredited;
+  return [
+    {
+      name: "Summary",
+      title: "Sales Report",
+      columns: [{ header: "Metric", width: 32 }, { header: "Value", format: "decimal", width: 16 }],
+      rows: [
+        ["Total Processed Invoices", processed.length],
+        [`Total Revenue (${BASE_CURRENCY})`, totalRevenue],
+        [`Total Credited (${BASE_CURRENCY})`, totalCredited],
+        [`Average Order Value (${BASE_CURRENCY})`, processed.length > 0 ? totalRevenue / processed.length : 0],
+        ["Pending Invoices", invoiceList.filter(invoice => invoice.status === "Pending").length],
+      ],
+    },
+    invoiceListSheet(processed, "Processed Invoices"),
+  ];
+};
+
+export const invoiceSummarySheets = (invoiceList: InvoiceWithPaymentState[]): ExportSheet[] => {
+  const statuses = Array.from(new Set(invoiceList.map(invoice => invoice.status || "Unknown")));
+  return [
+    {
+      name: "Summary",
+      title: "Invoice Summary",
+      columns: [{ header: "Status", width: 16 }, { header: "Count", format: "integer" }, { header: "Percentage", format: "decimal" }],
+      rows: statuses.map(status => {
+        const count = invoiceList.filter(invoice => (invoice.status || "Unknown") === status).length;
+        return [status, count, Math.round((count / invoiceList.length) * 10000) / 100];
+      }),
+      totals: ["Total", invoiceList.length, invoiceList.length > 0 ? 100 : 0],
+    },
+    invoiceListSheet(invoiceList),
+  ];
+};
+
+export const inventoryReportSheets = (metrics: DashboardMetrics, lowStock: Product[]): ExportSheet[] => [
+  {
+    name: "Summary",
+    title: "Inventory Report",
+    columns: [{ header: "Metric", width: 24 }, { header: "Value", format: "integer" }],
+    rows: [
+      ["Total Products", metrics.totalProducts],
+      ["Low Stock Items", metrics.lowStockItems],
+      ["Units On Hand", metrics.onHandUnits],
+      ["Units Reserved", metrics.reservedUnits],
+      ["Units Available", metrics.availableUnits],
+    ],
+  },
+  {
+    name: "Low Stock",
+    columns: [
+      { header: "Product ID", width: 18 },
+      { header: "Product Name", width: 28 },
+      { header: "Manufacturer", width: 18 },
+      { header: "Available", format: "integer" },
+      { header: "Reorder Point", format: "integer" },
+      { header: "Reorder Quantity", format: "integer" },
+    ],
+    rows: lowStock.map(product => [
+      product.productId,
+      product.productName,
+      product.manufacturer,
+      product.quantity - product.reservedQuantity,
+      product.reorderPoint,
+      product.reorderQuantity,
+    ]),
+  },
+];
+
+export const manufacturerReportSheet = (stats: ManufacturerStat[], period: string): ExportSheet => ({
+  name: "Manufacturers",
+  title: `Manufacturer Report (${period})`,
+  columns: [
+    { header: "Manufacturer", width: 24 },
+    { header: "Net Quantity Sold", format: "integer" },
+    { header: `Net Revenue (${BASE_CURRENCY})`, format: "money" },
+    { header: "Product Count", format: "integer" },
+  ],
+  rows: stats.map(stat => [stat.manufacturer, stat.totalQuantitySold, stat.totalRevenue, stat.productCount]),
+  totals: [
+    "Totals",
+    sum(stats.map(stat => stat.totalQuantitySold)),
+    sum(stats.map(stat => stat.totalRevenue)),
+    sum(stats.map(stat => stat.productCount)),
+  ],
+});
+
+export const promotionUptakeSheet = (uptake: PromotionUptake[], period: string): ExportSheet => ({
+  name: "Promotions",
+  title: `Promotion Uptake (${period})`,
+  columns: [
+    { header: "Promotion", width: 28 },
+    { header: "Coupon Code", width: 16 },
+    { header: "Invoices", format: "integer" },
+    { header: `Discount Given (${BASE_CURRENCY})`, format: "money" },
+    { header: `Invoice Revenue (${BASE_CURRENCY})`, format: "money" },
+  ],
+  rows: uptake.map(row => [row.name, row.code, row.invoiceCount, row.discountTotal, row.invoiceRevenue]),
+});
+
+export const reorderSuggestionsSheet = (suggestions: ReorderSuggestionsResponse): ExportSheet => ({
+  name: "Reorder Suggestions",
+  title: `Reorder Suggestions (last ${suggestions.lookbackDays} days of sales, ${suggestions.coverDays} days of cover)`,
+  columns: [
+    { header: "Manufacturer", width: 20 },
+    { header: "Supplier", width: 20 },
+    { header: "Product ID", width: 18 },
+    { header: "Product Name", width: 28 },
+    { header: "Available", format: "integer" },
+    { header: "On Order", format: "integer" },
+    { header: "Reorder Point", format: "integer" },
+    { header: "Units Sold", format: "integer" },
+    { header: "Daily Velocity", format: "decimal" },
+    { header: "Days of Cover", format: "decimal" },
+    { header: "Suggested Quantity", format: "integer" },
+  ],
+  rows: suggestions.groups.flatMap(group => group.items.map(item => [
+    group.manufacturer,
+    group.supplier?.name || null,
+    item.productCode,
+    item.productName,
+    item.available,
+    item.onOrder,
+    item.reorderPoint,
+    item.unitsSold,
+    item.dailyVelocity,
+    item.daysOfCover,
+    item.suggestedQuantity,
+  ])),
+});
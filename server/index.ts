@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startRecurringInvoiceScheduler } from "./recurringInvoices";
+import { startJobWorkers } from "./jobs";
 
 const app = express();
 app.use(express.json());
@@ -66,5 +68,7 @@ app.use((req, res, next) => {
     host: "localhost",
   }, () => {
     log(`serving on port ${port}`);
+    startRecurringInvoiceScheduler();
+    startJobWorkers();
   });
 })();
@@ -0,0 +1,260 @@
+import { storage } from "./storage";
+import { renderInvoicePdf } from "./pdf";
+import { sendInvoiceEmail } from "./email";
+import { sendWhatsAppMessage } from "./whatsapp";
+import { ObjectStorageService } from "./objectStorage";
+import { planProductImport, commitProductImport, logProductImport, ProductImportError } from "./productImport";
+import type { SheetTable } from "./spreadsheet";
+import { jobTypeLabels, type JobType } from "@shared/jobs";
+import type { ProductImportMapping, ProductImportOptions } from "@shared/productImport";
+import type { Job, JobSummary } from "@shared/schema";
+
+const POLL_INTERVAL_MS = 2000;
+const WORKER_COUNT = Math.max(1, parseInt(process.env.JOB_WORKERS || "2") || 1);
+// A running job whose lock hasn't been renewed for this long lost its worker, e.g. to a restart
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Retries wait 30s, 1m, 2m, ... up to 30 minutes between attempts
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+// Stored invoice PDFs are private; customers get a signed link that works for a week
+const PDF_LINK_TTL_SEC = 7 * 24 * 60 * 60;
+// Handlers may report every item; the job row is written at most this often
+const PROGRESS_INTERVAL_MS = 1000;
+
+// Imports are all-or-nothing, so there is little to gain from retrying one that failed;
+// sends usually fail on a mail or messaging service that is briefly unavailable
+const maxAttempts: Record<JobType, number> = {
+  product_import: 2,
+  invoice_email: 5,
+  invoice_whatsapp: 5,
+};
+
+// A failure that retrying won't fix, such as an invoice that can no longer be sent
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+// Everything a product import needs once the request is gone; the file is read before queueing
+export type ProductImportJobPayload = {
+  filename: string;
+  table: SheetTable;
+  sheets: string[];
+  mapping?: ProductImportMapping;
+  options: ProductImportOptions;
+};
+
+export type InvoiceSendJobPayload = { invoiceId: string };
+
+type JobPayloads = {
+  product_import: ProductImportJobPayload;
+  invoice_email: InvoiceSendJobPayload;
+  invoice_whatsapp: InvoiceSendJobPayload;
+};
+
+type JobContext = {
+  job: Job;
+  reportProgress: (progress: number, total?: number) => Promise<void>;
+};
+
+// Returns the job's result; throwing fails the attempt
+type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+
+// The payload is a snapshot, so the invoice is checked again when the send runs
+const loadSendableInvoice = async (invoiceId: string) => {
+  const invoice = await storage.getInvoiceWithItems(invoiceId);
+  if (!invoice) {
+    throw new PermanentJobError('Invoice not found');
+  }
+  if (invoice.status !== 'Processed') {
+    throw new PermanentJobError('Only processed invoices can be sent');
+  }
+  return invoice;
+};
+
+// Once the message is out, a missing log entry must not fail the job and send it again
+const logSend = async (job: Job, action: string, invoice: { id: string; invoiceNumber: string }) => {
+  try {
+    await storage.createActivityLog({
+      userId: job.createdBy,
+      action,
+      module: 'Invoices',
+      targetId: invoice.id,
+      targetName: invoice.invoiceNumber
+    });
+  } catch (error) {
+    console.error('Failed to log activity:', error);
+  }
+};
+
+const runProductImport: JobHandler<'product_import'> = async (payload, { job, reportProgress }) => {
+  if (!job.createdBy) {
+    throw new PermanentJobError('The user who started the import no longer exists');
+  }
+
+  let plan;
+  try {
+    plan = await planProductImport(payload.table, payload.sheets, payload.mapping, payload.options);
+  } catch (error) {
+    if (error instanceof ProductImportError) {
+      throw new PermanentJobError(error.message);
+    }
+    throw error;
+  }
+  const { createCount, updateCount, unchangedCount } = plan.preview;
+  if (createCount + updateCount + unchangedCount === 0) {
+    throw new PermanentJobError('None of the rows can be imported; check the preview for errors');
+  }
+
+  await reportProgress(0, createCount + updateCount);
+  const result = await commitProductImport(plan, job.createdBy, done => reportProgress(done));
+  await logProductImport({ userId: job.createdBy }, plan, result, `from ${payload.filename}`);
+  return result;
+};
+
+// Two steps: render the PDF, then hand it to the mail server
+const sendEmail: JobHandler<'invoice_email'> = async ({ invoiceId }, { job, reportProgress }) => {
+  const invoice = await loadSendableInvoice(invoiceId);
+  if (!invoice.customerEmail) {
+    throw new PermanentJobError('Customer email is required to send invoice');
+  }
+
+  await reportProgress(0, 2);
+  const { pdfBuffer } = await renderInvoicePdf(invoice, job.createdBy || '');
+  await reportProgress(1);
+  await sendInvoiceEmail(invoice, pdfBuffer);
+
+  await logSend(job, `Sent invoice ${invoice.invoiceNumber} via email to ${invoice.customerEmail}`, invoice);
+  return { to: invoice.customerEmail };
+};
+
+const sendWhatsApp: JobHandler<'invoice_whatsapp'> = async ({ invoiceId }, { job, reportProgress }) => {
+  const invoice = await loadSendableInvoice(invoiceId);
+  if (!invoice.customerPhone) {
+    throw new PermanentJobError('Customer phone number is required for WhatsApp');
+  }
+
+  await reportProgress(0, 2);
+  // Link to the stored copy of the PDF, regenerated so it reflects the latest payments
+  const { pdfPath } = await renderInvoicePdf(invoice, job.createdBy || '');
+  if (!pdfPath) {
+    throw new Error('Invoice PDF could not be stored for sharing');
+  }
+  await reportProgress(1);
+  const pdfUrl = await new ObjectStorageService().getObjectEntityDownloadURL(pdfPath, PDF_LINK_TTL_SEC);
+  await sendWhatsAppMessage(invoice.customerPhone, pdfUrl);
+
+  await logSend(job, `Sent invoice ${invoice.invoiceNumber} via WhatsApp to ${invoice.customerPhone}`, invoice);
+  return { to: invoice.customerPhone };
+};
+
+const handlers: { [T in JobType]: JobHandler<T> } = {
+  product_import: runProductImport,
+  invoice_email: sendEmail,
+  invoice_whatsapp: sendWhatsApp,
+};
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const runJob = async (job: Job) => {
+  // Taken back from a worker that died during its last attempt
+  if (job.attempts > job.maxAttempts) {
+    await storage.failJob(job.id, job.error || 'The job stopped before it finished', null);
+    return;
+  }
+
+  let total = job.total;
+  let lastReport = 0;
+  const reportProgress = async (progress: number, newTotal?: number) => {
+    const now = Date.now();
+    if (newTotal === undefined && progress !== total && now - lastReport < PROGRESS_INTERVAL_MS) return;
+    if (newTotal !== undefined) total = newTotal;
+    lastReport = now;
+    await storage.updateJobProgress(job.id, progress, newTotal);
+  };
+
+  const handler = handlers[job.type] as JobHandler<JobType>;
+  try {
+    const result = await handler(job.payload as JobPayloads[JobType], { job, reportProgress });
+    await storage.completeJob(job.id, result ?? null);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const retry = !(error instanceof PermanentJobError) && job.attempts < job.maxAttempts;
+    console.error(`${jobTypeLabels[job.type]} job ${job.id} failed on attempt ${job.attempts}:`, message);
+    await storage.failJob(job.id, message, retry ? new Date(Date.now() + retryDelay(job.attempts)) : null);
+    if (!retry) {
+      await storage.createActivityLog({
+        userId: job.createdBy,
+        action: `${jobTypeLabels[job.type]} failed: ${message}`,
+        module: job.type === 'product_import' ? 'Products' : 'Invoices',
+        targetId: job.targetId,
+        details: { jobId: job.id, attempts: job.attempts }
+      });
+    }
+  }
+};
+
+// Workers with nothing to do wait here until the next poll, or until a job is queued
+let idleWorkers: (() => void)[] = [];
+
+const waitForWork = () => new Promise<void>(resolve => {
+  const wake = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    idleWorkers = idleWorkers.filter(worker => worker !== wake);
+    resolve();
+  }, POLL_INTERVAL_MS);
+  idleWorkers.push(wake);
+});
+
+const workLoop = async () => {
+  while (true) {
+    let job: Job | undefined;
+    try {
+      const now = new Date();
+      job = await storage.claimNextJob(now, new Date(now.getTime() - STALE_LOCK_MS));
+    } catch (error) {
+      console.error("Error claiming job:", error);
+    }
+
+    if (!job) {
+      await waitForWork();
+      continue;
+    }
+    try {
+      await runJob(job);
+    } catch (error) {
+      console.error(`Error running job ${job.id}:`, error);
+    }
+  }
+};
+
+export const enqueueJob = async <T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: { createdBy: string; targetId?: string }
+): Promise<Job> => {
+  const job = await storage.createJob({
+    type,
+    payload,
+    createdBy: options.createdBy,
+    targetId: options.targetId,
+    maxAttempts: maxAttempts[type],
+  });
+  idleWorkers.shift()?.();
+  return job;
+};
+
+// What the status endpoints return; the payload can be a whole spreadsheet
+export const toJobSummary = ({ payload, lockedAt, ...summary }: Job): JobSummary => summary;
+
+// Every server runs its own workers; jobs are claimed with row locks, so they never run twice at once
+export const startJobWorkers = () => {
+  for (let index = 0; index < WORKER_COUNT; index++) {
+    workLoop();
+  }
+};
@@ -154,6 +154,35 @@ export class ObjectStorageService {
     });
   }
 
+  // Gets a time-limited download URL for an object entity, for sharing a private object with
+  // someone who can't sign in, such as a customer.
+  async getObjectEntityDownloadURL(objectPath: string, ttlSec: number): Promise<string> {
+    const objectFile = await this.getObjectEntityFile(objectPath);
+    return signObjectURL({
+      bucketName: objectFile.bucket.name,
+      objectName: objectFile.name,
+      method: "GET",
+      ttlSec,
+    });
+  }
+
+  // Saves a file generated on the server (e.g. an invoice PDF) as an object entity
+  // and returns its /objects/ path. An existing entity with the same id is replaced.
+  async uploadObjectEntity(
+    entityId: string,
+    contents: Buffer,
+    contentType: string
+  ): Promise<string> {
+    let entityDir = this.getPrivateObjectDir();
+    if (!entityDir.endsWith("/")) {
+      entityDir = `${entityDir}/`;
+    }
+    const { bucketName, objectName } = parseObjectPath(`${entityDir}${entityId}`);
+    const file = objectStorageClient.bucket(bucketName).file(objectName);
+    await file.save(contents, { metadata: { contentType } });
+    return `/objects/${entityId}`;
+  }
+
   // Gets the object entity file from the object path.
   async getObjectEntityFile(objectPath: string): Promise<File> {
     if (!objectPath.startsWith("/objects/")) {
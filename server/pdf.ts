@@ -0,0 +1,371 @@
+import PDFDocument from "pdfkit";
+import { ObjectStorageService } from "./objectStorage";
+import { storage } from "./storage";
+import { settingsService } from "./settings";
+import { formatMoney } from "@shared/currency";
+import { describeLineDiscount } from "@shared/pricing";
+import type { PdfTemplate } from "@shared/pdfTemplates";
+import type {
+  CompanyProfile,
+  InvoiceWithPaymentState,
+  InvoiceItem,
+  InvoicePromotion,
+  Product,
+  ProductVariant,
+} from "@shared/schema";
+
+export type InvoiceDocument = InvoiceWithPaymentState & {
+  items: (InvoiceItem & { product: Product; variant: ProductVariant | null })[];
+  promotions: InvoicePromotion[];
+};
+
+type TemplateStyle = {
+  // Title, rules and table header colour
+  accent: string;
+  // Fills the top of the first page with the accent colour behind the title
+  headerBand: boolean;
+  fontSize: number;
+  rowPadding: number;
+  // 0 leaves product images out
+  thumbnailSize: number;
+};
+
+const templateStyles: Record<PdfTemplate, TemplateStyle> = {
+  classic: { accent: '#000000', headerBand: false, fontSize: 10, rowPadding: 6, thumbnailSize: 28 },
+  modern: { accent: '#1e40af', headerBand: true, fontSize: 10, rowPadding: 8, thumbnailSize: 40 },
+  compact: { accent: '#374151', headerBand: false, fontSize: 8, rowPadding: 3, thumbnailSize: 0 },
+};
+
+const PAGE_LEFT = 50;
+const CONTENT_WIDTH = 500;
+
+// "20%" style label for a stored decimal rate such as "0.2000"
+export const formatTaxRate = (rate: string) => `${parseFloat((parseFloat(rate) * 100).toFixed(2))}%`;
+
+// pdfkit can only embed PNG and JPEG
+const isEmbeddableImage = (data: Buffer) =>
+  (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e && data[3] === 0x47) ||
+  (data[0] === 0xff && data[1] === 0xd8);
+
+// Logos and product photos that are missing or in another format are left out rather than failing the document
+export const loadPdfImage = async (objectPath: string | null | undefined): Promise<Buffer | null> => {
+  if (!objectPath || !objectPath.startsWith('/')) return null;
+  try {
+    const objectStorageService = new ObjectStorageService();
+    const file = objectPath.startsWith('/public-objects/')
+      ? await objectStorageService.searchPublicObject(objectPath.slice('/public-objects/'.length))
+      : await objectStorageService.getObjectEntityFile(objectPath);
+    if (!file) return null;
+    const [contents] = await file.download();
+    return isEmbeddableImage(contents) ? contents : null;
+  } catch (error) {
+    console.error(`Error loading PDF image ${objectPath}:`, error);
+    return null;
+  }
+};
+
+// Company details printed at the bottom of generated documents; returns where it finished
+export const drawCompanyFooter = (doc: PDFKit.PDFDocument, yPosition: number, profile: CompanyProfile): number => {
+  yPosition += 20;
+
+  doc.moveTo(PAGE_LEFT, yPosition).lineTo(PAGE_LEFT + CONTENT_WIDTH, yPosition).stroke();
+  yPosition += 15;
+
+  doc.fontSize(12).text(profile.companyName, PAGE_LEFT, yPosition, { align: 'left' });
+  yPosition += 20;
+
+  doc.fontSize(9);
+  const address = profile.addressLines;
+  const contact = [
+    profile.phone && `Tel: ${profile.phone}`,
+    profile.email && `Email: ${profile.email}`,
+    profile.website,
+    profile.taxNumber && `Tax No: ${profile.taxNumber}`,
+  ].filter((line): line is string => !!line);
+
+  if (address.length > 0) {
+    doc.text('Address:', PAGE_LEFT, yPosition);
+    address.forEach((line, i) => doc.text(line, PAGE_LEFT, yPosition + 12 * (i + 1), { width: 240 }));
+  }
+  if (contact.length > 0) {
+    doc.text('Contact:', 300, yPosition);
+    contact.forEach((line, i) => doc.text(line, 300, yPosition + 12 * (i + 1), { width: 250 }));
+  }
+
+  return yPosition + 12 * (Math.max(address.length, contact.length) + 1);
+};
+
+type Column = { header: string; width: number; align: 'left' | 'right' };
+
+const tableColumns = (style: TemplateStyle, showThumbnails: boolean): Column[] => {
+  const fixed: Column[] = [
+    { header: 'Size', width: 80, align: 'left' },
+    { header: 'Qty', width: 35, align: 'right' },
+    { header: 'Price', width: 70, align: 'right' },
+    { header: 'Tax', width: 75, align: 'right' },
+    { header: 'Total', width: 75, align: 'right' },
+  ];
+  const thumbnailWidth = showThumbnails ? style.thumbnailSize + 8 : 0;
+  const productWidth = CONTENT_WIDTH - thumbnailWidth - fixed.reduce((sum, column) => sum + column.width, 0);
+  return [
+    ...(showThumbnails ? [{ header: '', width: thumbnailWidth, align: 'left' as const }] : []),
+    { header: 'Product', width: productWidth, align: 'left' },
+    ...fixed,
+  ];
+};
+
+/**
+ * Invoice PDF in the chosen template. The item table continues over as many pages as
+ * it needs, repeating its header on each, and every page is numbered.
+ */
+export const generateInvoicePDF = async (invoice: InvoiceDocument, profile: CompanyProfile, template: PdfTemplate): Promise<Buffer> => {
+  const style = templateStyles[template];
+  const showThumbnails = profile.showProductImages && style.thumbnailSize > 0;
+
+  const imagePaths = showThumbnails
+    ? Array.from(new Set(invoice.items.map(item => item.product.imageUrl).filter((path): path is string => !!path)))
+    : [];
+  const [logo, ...thumbnails] = await Promise.all([
+    loadPdfImage(profile.logoPath),
+    ...imagePaths.map(path => loadPdfImage(path)),
+  ]);
+  const thumbnailsByPath = new Map(imagePaths.map((path, i) => [path, thumbnails[i]]));
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: PAGE_LEFT, bufferPages: true });
+    const buffers: Buffer[] = [];
+
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => resolve(Buffer.concat(buffers)));
+    doc.on('error', reject);
+
+    const money = (amount: string | number) => formatMoney(amount, invoice.currency);
+    // Leave room for the page number
+    const pageBottom = () => doc.page.height - doc.page.margins.bottom - 15;
+    let yPosition = 0;
+
+    const ensureSpace = (height: number): boolean => {
+      if (yPosition + height <= pageBottom()) return false;
+      doc.addPage();
+      yPosition = doc.page.margins.top;
+      return true;
+    };
+
+    // Header
+    if (style.headerBand) {
+      doc.rect(0, 0, doc.page.width, 115).fill(style.accent);
+    }
+    if (logo) {
+      doc.image(logo, PAGE_LEFT, 35, { fit: [150, 60] });
+    } else {
+      doc.fillColor(style.headerBand ? '#ffffff' : style.accent).fontSize(14).text(profile.companyName, PAGE_LEFT, 50, { width: 250 });
+    }
+    doc.fillColor(style.headerBand ? '#ffffff' : style.accent).fontSize(22).text('INVOICE', 300, 40, { width: 250, align: 'right' });
+    doc.fontSize(style.fontSize + 1)
+      .text(`# ${invoice.invoiceNumber}`, 300, 70, { width: 250, align: 'right' });
+    doc.fillColor('#000000');
+
+    // Customer and invoice details
+    yPosition = 135;
+    doc.fontSize(style.fontSize + 1);
+    doc.font('Helvetica-Bold').text('Bill To:', PAGE_LEFT, yPosition);
+    doc.font('Helvetica');
+    let customerY = yPosition + 15;
+    [invoice.customerName, invoice.customerEmail, invoice.customerPhone, invoice.customerAddress].forEach(line => {
+      if (line) {
+        doc.text(line, PAGE_LEFT, customerY, { width: 240 });
+        customerY = doc.y + 2;
+      }
+    });
+
+    let detailsY = yPosition;
+    const details: [string, string][] = [
+      ['Date:', invoice.createdAt ? new Date(invoice.createdAt).toLocaleDateString() : ''],
+      ...(invoice.dueDate ? [['Due Date:', new Date(invoice.dueDate).toLocaleDateString()] as [string, string]] : []),
+      ['Currency:', invoice.currency],
+    ];
+    details.forEach(([label, value]) => {
+      doc.text(label, 330, detailsY, { width: 100 });
+      doc.text(value, 430, detailsY, { width: 120, align: 'right' });
+      detailsY += 15;
+    });
+    yPosition = Math.max(customerY, detailsY) + 20;
+
+    // Items table
+    const columns = tableColumns(style, showThumbnails);
+    const drawTableHeader = () => {
+      const height = style.fontSize + style.rowPadding * 2;
+      doc.rect(PAGE_LEFT, yPosition, CONTENT_WIDTH, height).fill(style.accent);
+      doc.fillColor('#ffffff').font('Helvetica-Bold').fontSize(style.fontSize);
+      let x = PAGE_LEFT;
+      columns.forEach(column => {
+        doc.text(column.header, x + 4, yPosition + style.rowPadding, { width: column.width - 8, align: column.align, lineBreak: false });
+        x += column.width;
+      });
+      doc.fillColor('#000000').font('Helvetica');
+      yPosition += height;
+    };
+    drawTableHeader();
+
+    invoice.items.forEach((item, index) => {
+      const lineDiscount = describeLineDiscount(item.discountType, item.discountValue, money);
+      const cells = [
+        ...(showThumbnails ? [''] : []),
+        lineDiscount ? `${item.product.productName}\nless ${lineDiscount}` : item.product.productName,
+        item.variant ? `${item.variant.size} / ${item.variant.color}` : item.product.size.join(', '),
+        item.quantity.toString(),
+        money(item.unitPrice),
+        `${formatTaxRate(item.taxRate)} ${money(item.taxAmount)}`,
+        money(item.totalPrice),
+      ];
+
+      doc.fontSize(style.fontSize);
+      const textHeight = Math.max(...cells.map((cell, i) => cell ? doc.heightOfString(cell, { width: columns[i].width - 8 }) : 0));
+      const rowHeight = Math.max(textHeight, showThumbnails ? style.thumbnailSize : 0) + style.rowPadding * 2;
+
+      if (ensureSpace(rowHeight)) {
+        doc.fontSize(style.fontSize - 1).fillColor('#6b7280')
+          .text(`Invoice ${invoice.invoiceNumber} (continued)`, PAGE_LEFT, yPosition);
+        doc.fillColor('#000000');
+        yPosition += style.fontSize + 6;
+        drawTableHeader();
+        doc.fontSize(style.fontSize);
+      }
+
+      if (index % 2 === 1) {
+        doc.rect(PAGE_LEFT, yPosition, CONTENT_WIDTH, rowHeight).fill('#f3f4f6');
+        doc.fillColor('#000000');
+      }
+
+      let x = PAGE_LEFT;
+      cells.forEach((cell, i) => {
+        const column = columns[i];
+        if (showThumbnails && i === 0) {
+          const thumbnail = item.product.imageUrl ? thumbnailsByPath.get(item.product.imageUrl) : null;
+          if (thumbnail) {
+            doc.image(thumbnail, x + 4, yPosition + style.rowPadding, { fit: [style.thumbnailSize, style.thumbnailSize] });
+          }
+        } else {
+          doc.text(cell, x + 4, yPosition + style.rowPadding, { width: column.width - 8, align: column.align });
+        }
+        x += column.width;
+      });
+      yPosition += rowHeight;
+    });
+
+    doc.moveTo(PAGE_LEFT, yPosition).lineTo(PAGE_LEFT + CONTENT_WIDTH, yPosition).strokeColor(style.accent).stroke();
+    doc.strokeColor('#000000');
+
+    // Totals
+    const totals: [string, string][] = [['Subtotal:', money(invoice.subtotal)]];
+    invoice.promotions.forEach(promotion => totals.push([`${promotion.promotionName}:`, `-${money(promotion.discountAmount)}`]));
+    if (parseFloat(invoice.discountAmount || "0") > 0) {
+      totals.push(['Discount:', `-${money(invoice.discountAmount!)}`]);
+    }
+    totals.push([invoice.pricesIncludeTax ? 'Tax (included):' : 'Tax:', money(invoice.taxAmount)]);
+
+    const settlements: [string, string][] = [];
+    if (parseFloat(invoice.creditedAmount) > 0) settlements.push(['Credited:', `-${money(invoice.creditedAmount)}`]);
+    if (parseFloat(invoice.amountPaid) > 0) settlements.push(['Paid:', `-${money(invoice.amountPaid)}`]);
+
+    yPosition += 15;
+    ensureSpace((totals.length + settlements.length) * 15 + 50);
+    doc.fontSize(style.fontSize + 1);
+    totals.forEach(([label, value]) => {
+      doc.text(label, 330, yPosition, { width: 120 });
+      doc.text(value, 450, yPosition, { width: 100, align: 'right' });
+      yPosition += 15;
+    });
+    doc.font('Helvetica-Bold').fontSize(style.fontSize + 3).fillColor(style.accent);
+    doc.text('Total:', 330, yPosition + 3, { width: 120 });
+    doc.text(money(invoice.total), 430, yPosition + 3, { width: 120, align: 'right' });
+    doc.font('Helvetica').fillColor('#000000');
+    yPosition += 25;
+    if (settlements.length > 0) {
+      doc.fontSize(style.fontSize + 1);
+      settlements.forEach(([label, value]) => {
+        doc.text(label, 330, yPosition, { width: 120 });
+        doc.text(value, 450, yPosition, { width: 100, align: 'right' });
+        yPosition += 15;
+      });
+      doc.font('Helvetica-Bold').fontSize(style.fontSize + 2);
+      doc.text('Balance Due:', 330, yPosition, { width: 120 });
+      doc.text(money(Math.max(invoice.balanceDue, 0)), 430, yPosition, { width: 120, align: 'right' });
+      doc.font('Helvetica');
+      yPosition += 20;
+    }
+
+    // Bank details for paying by transfer
+    const bankLines = [
+      profile.bankName && `Bank: ${profile.bankName}`,
+      profile.bankAccountName && `Account Name: ${profile.bankAccountName}`,
+      profile.bankAccountNumber && `Account No: ${profile.bankAccountNumber}`,
+      profile.bankIban && `IBAN: ${profile.bankIban}`,
+      profile.bankSwift && `SWIFT/BIC: ${profile.bankSwift}`,
+    ].filter((line): line is string => !!line);
+    if (bankLines.length > 0) {
+      yPosition += 10;
+      ensureSpace(bankLines.length * 12 + 20);
+      doc.font('Helvetica-Bold').fontSize(style.fontSize).text('Payment Details', PAGE_LEFT, yPosition);
+      doc.font('Helvetica');
+      yPosition += 15;
+      bankLines.forEach(line => {
+        doc.text(line, PAGE_LEFT, yPosition, { width: 280 });
+        yPosition += 12;
+      });
+    }
+
+    if (invoice.notes) {
+      yPosition += 15;
+      doc.fontSize(style.fontSize + 1);
+      ensureSpace(doc.heightOfString(invoice.notes, { width: CONTENT_WIDTH }) + 20);
+      doc.font('Helvetica-Bold').text('Notes:', PAGE_LEFT, yPosition);
+      doc.font('Helvetica').text(invoice.notes, PAGE_LEFT, yPosition + 15, { width: CONTENT_WIDTH });
+      yPosition = doc.y;
+    }
+
+    yPosition += 10;
+    ensureSpace(140);
+    yPosition = drawCompanyFooter(doc, yPosition, profile);
+    doc.fontSize(10).text(profile.footerNote || 'Thank you for your business!', PAGE_LEFT, yPosition + 15, { align: 'center', width: CONTENT_WIDTH });
+
+    // Page numbers go in the bottom margin, so it is lifted while they are written
+    const pages = doc.bufferedPageRange();
+    for (let i = pages.start; i < pages.start + pages.count; i++) {
+      doc.switchToPage(i);
+      const bottomMargin = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      doc.fontSize(8).fillColor('#6b7280').text(
+        `${invoice.invoiceNumber} · Page ${i - pages.start + 1} of ${pages.count}`,
+        PAGE_LEFT,
+        doc.page.height - bottomMargin + 10,
+        { width: CONTENT_WIDTH, align: 'center', lineBreak: false }
+      );
+      doc.page.margins.bottom = bottomMargin;
+    }
+    doc.fillColor('#000000');
+
+    doc.end();
+  });
+};
+
+// Renders an invoice with the company profile and keeps the latest copy in object storage
+// as the invoice's pdfPath. The stored copy is private; staff read it through GET /api/invoices/:id/pdf.
+// A storage failure is logged and the PDF is still returned.
+export const renderInvoicePdf = async (invoice: InvoiceDocument, userId: string, template?: PdfTemplate): Promise<{ pdfBuffer: Buffer; pdfPath: string | null }> => {
+  const profile = await settingsService.getCompanyProfile();
+  const pdfBuffer = await generateInvoicePDF(invoice, profile, template || profile.invoiceTemplate);
+  try {
+    const objectStorageService = new ObjectStorageService();
+    const objectPath = await objectStorageService.uploadObjectEntity(`invoices/${invoice.id}.pdf`, pdfBuffer, 'application/pdf');
+    await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+      owner: invoice.createdBy || userId,
+      visibility: 'private'
+    });
+    await storage.updateInvoicePdfPath(invoice.id, objectPath);
+    return { pdfBuffer, pdfPath: objectPath };
+  } catch (error) {
+    console.error("Error storing invoice PDF:", error);
+    return { pdfBuffer, pdfPath: invoice.pdfPath };
+  }
+};
@@ -0,0 +1,255 @@
+import JSZip from "jszip";
+import path from "path";
+import type { Readable } from "stream";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { ObjectStorageService } from "./objectStorage";
+import type { Product } from "@shared/schema";
+import {
+  productImageExtensions,
+  type ProductImageImportResult,
+  type ProductImageMatch,
+  type ProductImageSkip,
+} from "@shared/productImages";
+
+// The request as a whole, and the files it may carry, archives counted as one each
+export const MAX_IMAGE_UPLOAD_BYTES = 200 * 1024 * 1024;
+export const MAX_IMAGE_UPLOAD_FILES = 500;
+// Files in the upload once archives are unpacked, images or not
+const MAX_IMAGES = 1000;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Unpacked images are held in memory until they are stored
+const MAX_TOTAL_IMAGE_BYTES = 500 * 1024 * 1024;
+// Images are sent to object storage a few at a time rather than all at once
+const UPLOAD_CONCURRENCY = 4;
+
+const contentTypes: Record<(typeof productImageExtensions)[number], string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+};
+
+// Problems with the upload as a whole, reported back as a 400
+export class ProductImageImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductImageImportError';
+  }
+}
+
+type ImageFile = { filename: string; buffer: Buffer; contentType: string };
+
+const isZip = (filename: string) => filename.toLowerCase().endsWith('.zip');
+
+const contentTypeFor = (filename: string): string | undefined =>
+  contentTypes[path.extname(filename).toLowerCase() as keyof typeof contentTypes];
+
+// Folders, hidden files and the __MACOSX copies that Finder adds to archives
+const isArchiveClutter = (name: string) =>
+  name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('.');
+
+const tooLarge = `Larger than ${MAX_IMAGE_BYTES / (1024 * 1024)}MB`;
+
+// Inflates an archive entry, stopping as soon as it passes `limit` bytes. The sizes an archive
+// declares can't be trusted, so the bytes are counted as they come out; null means too large.
+const readEntry = (entry: JSZip.JSZipObject, limit: number): Promise<Buffer | null> =>
+  new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer') as Readable;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+
+// Unpacks ZIP archives alongside the loose files; anything that isn't an image is reported back
+// without being unpacked
+const readImageFiles = async (uploads: { originalname: string; buffer: Buffer }[]) => {
+  const images: ImageFile[] = [];
+  const skipped: ProductImageSkip[] = [];
+  let fileCount = 0;
+  let totalBytes = 0;
+
+  const countFiles = (count: number) => {
+    fileCount += count;
+    if (fileCount > MAX_IMAGES) {
+      throw new ProductImageImportError(`The upload has more than ${MAX_IMAGES} files; import at most ${MAX_IMAGES} at a time`);
+    }
+  };
+
+  const addImage = (filename: string, buffer: Buffer, contentType: string) => {
+    totalBytes += buffer.length;
+    if (totalBytes > MAX_TOTAL_IMAGE_BYTES) {
+      throw new ProductImageImportError(`The images come to more than ${MAX_TOTAL_IMAGE_BYTES / (1024 * 1024)}MB; upload them in smaller batches`);
+    }
+    images.push({ filename, buffer, contentType });
+  };
+
+  const skipNonImage = (filename: string) =>
+    skipped.push({ filename, reason: `Not an image; use ${productImageExtensions.join(', ')}` });
+
+  for (const upload of uploads) {
+    if (!isZip(upload.originalname)) {
+      countFiles(1);
+      const contentType = contentTypeFor(upload.originalname);
+      if (!contentType) {
+        skipNonImage(upload.originalname);
+      } else if (upload.buffer.length > MAX_IMAGE_BYTES) {
+        skipped.push({ filename: upload.originalname, reason: tooLarge });
+      } else {
+        addImage(upload.originalname, upload.buffer, contentType);
+      }
+      continue;
+    }
+
+    // Only the archive's directory is read here; entries are inflated one at a time below
+    let archive: JSZip;
+    try {
+      archive = await JSZip.loadAsync(upload.buffer);
+    } catch {
+      throw new ProductImageImportError(`${upload.originalname} is not a valid ZIP archive`);
+    }
+    const entries = Object.values(archive.files).filter(entry => !entry.dir && !isArchiveClutter(entry.name));
+    countFiles(entries.length);
+
+    for (const entry of entries) {
+      const contentType = contentTypeFor(entry.name);
+      if (!contentType) {
+        skipNonImage(entry.name);
+        continue;
+      }
+      let buffer: Buffer | null;
+      try {
+        buffer = await readEntry(entry, MAX_IMAGE_BYTES);
+      } catch {
+        throw new ProductImageImportError(`${upload.originalname} could not be unpacked`);
+      }
+      if (buffer) {
+        addImage(entry.name, buffer, contentType);
+      } else {
+        skipped.push({ filename: entry.name, reason: tooLarge });
+      }
+    }
+  }
+
+  return { images, skipped };
+};
+
+// Product IDs the file name could stand for, longest first: the whole name, then each part before
+// a space, "-", "_", "." or "(". IDs may contain those characters themselves, so "AB-12-front.jpg"
+// tries "AB-12-front", "AB-12" and "AB" in turn.
+const candidateProductIds = (filename: string): string[] => {
+  const base = path.posix.basename(filename.replace(/\\/g, '/'), path.extname(filename)).trim();
+  const candidates = [base];
+  for (let index = base.length - 1; index > 0; index--) {
+    if (/[\s\-_.(]/.test(base[index])) {
+      candidates.push(base.slice(0, index).trim());
+    }
+  }
+  return Array.from(new Set(candidates.filter(Boolean)));
+};
+
+type PlannedImage = ImageFile & { product: Product; exact: boolean };
+
+// Matches every image to a product. A product gets one image: a file named exactly after it wins,
+// otherwise the first by name, and the rest are reported as unmatched.
+const matchImages = async (images: ImageFile[]) => {
+  const candidatesByFile = images.map(image => candidateProductIds(image.filename));
+  const productList = await storage.findProductsByProductIdsIgnoringCase(Array.from(new Set(candidatesByFile.flat())));
+  const productsById = new Map(productList.map(product => [product.productId.toLowerCase(), product]));
+
+  const unmatched: ProductImageSkip[] = [];
+  const byProduct = new Map<string, PlannedImage[]>();
+  images.forEach((image, index) => {
+    const candidates = candidatesByFile[index];
+    const matchIndex = candidates.findIndex(candidate => productsById.has(candidate.toLowerCase()));
+    if (matchIndex === -1) {
+      unmatched.push({ filename: image.filename, reason: 'No product ID in the file name matches a product' });
+      return;
+    }
+    const product = productsById.get(candidates[matchIndex].toLowerCase())!;
+    // Matched to the deactivated product rather than a shorter ID that happens to be a prefix of it
+    if (!product.isActive) {
+      unmatched.push({ filename: image.filename, reason: `${product.productId} is deactivated` });
+      return;
+    }
+    byProduct.set(product.id, [...(byProduct.get(product.id) || []), { ...image, product, exact: matchIndex === 0 }]);
+  });
+
+  const planned: PlannedImage[] = [];
+  Array.from(byProduct.values()).forEach(files => {
+    const [chosen, ...others] = files.sort((a, b) => Number(b.exact) - Number(a.exact) || a.filename.localeCompare(b.filename));
+    planned.push(chosen);
+    others.forEach(other => unmatched.push({
+      filename: other.filename,
+      reason: `${chosen.filename} is used for ${chosen.product.productId}`
+    }));
+  });
+  return { planned, unmatched };
+};
+
+// Product images appear on the public product page that product QR codes link to
+const storeImage = async (image: PlannedImage, userId: string): Promise<ProductImageMatch> => {
+  const objectStorageService = new ObjectStorageService();
+  const objectPath = await objectStorageService.uploadObjectEntity(`uploads/${randomUUID()}`, image.buffer, image.contentType);
+  const imageUrl = await objectStorageService.trySetObjectEntityAclPolicy(objectPath, {
+    owner: userId,
+    visibility: 'public'
+  });
+  await storage.updateProduct(image.product.id, { imageUrl }, userId);
+  return { filename: image.filename, productId: image.product.productId, productName: image.product.productName, imageUrl };
+};
+
+/**
+ * Reads the uploaded images and ZIP archives, matches each image to a product by the product ID in
+ * its file name and stores it as that product's image. Products that already have an image keep it
+ * unless `replaceExisting` is set.
+ */
+export const importProductImages = async (
+  uploads: { originalname: string; buffer: Buffer }[],
+  userId: string,
+  replaceExisting: boolean
+): Promise<ProductImageImportResult> => {
+  const { images, skipped } = await readImageFiles(uploads);
+  if (images.length === 0) {
+    throw new ProductImageImportError('The upload has no images');
+  }
+
+  const { planned, unmatched } = await matchImages(images);
+  const toStore = planned.filter(image => {
+    if (replaceExisting || !image.product.imageUrl) return true;
+    unmatched.push({ filename: image.filename, reason: `${image.product.productId} already has an image` });
+    return false;
+  });
+
+  const matched: ProductImageMatch[] = [];
+  const failed: ProductImageSkip[] = [];
+  for (let start = 0; start < toStore.length; start += UPLOAD_CONCURRENCY) {
+    const batch = toStore.slice(start, start + UPLOAD_CONCURRENCY);
+    const outcomes = await Promise.allSettled(batch.map(image => storeImage(image, userId)));
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        matched.push(outcome.value);
+      } else {
+        console.error(`Error storing product image ${batch[index].filename}:`, outcome.reason);
+        failed.push({ filename: batch[index].filename, reason: 'The image could not be stored' });
+      }
+    });
+  }
+
+  return {
+    matched,
+    unmatched: [...skipped, ...unmatched].sort((a, b) => a.filename.localeCompare(b.filename)),
+    failed
+  };
+};
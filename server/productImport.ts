@@ -0,0 +1,444 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { readWorkbook, SpreadsheetError, type SheetTable } from "./spreadsheet";
+import { parseCsv, CsvParseError } from "@shared/csv";
+import { insertProductSchema, type InsertProduct, type ProductImportUpdate, type ProductWithVariants } from "@shared/schema";
+import {
+  defaultProductImportOptions,
+  detectImportMapping,
+  productImportFields,
+  productImportFieldLabels,
+  productImportModes,
+  quantityImportModes,
+  requiredImportFields,
+  splitListCell,
+  type ProductImportChange,
+  type ProductImportMapping,
+  type ProductImportOptions,
+  type ProductImportPreview,
+  type ProductImportResult,
+  type ProductImportRow,
+  type ProductImportValues,
+} from "@shared/productImport";
+
+const MAX_IMPORT_ROWS = 5000;
+
+// Problems with the file as a whole, reported back as a 400
+export class ProductImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductImportError';
+  }
+}
+
+const importMappingSchema = z.record(z.enum(productImportFields), z.number().int().min(0));
+
+// The mapping arrives as a JSON string alongside the uploaded file
+export const parseImportMapping = (raw: unknown): ProductImportMapping | undefined => {
+  if (typeof raw !== 'string' || !raw) return undefined;
+  try {
+    return importMappingSchema.parse(JSON.parse(raw));
+  } catch {
+    throw new ProductImportError('Invalid column mapping');
+  }
+};
+
+const importOptionsSchema = z.object({
+  mode: z.enum(productImportModes).default(defaultProductImportOptions.mode),
+  overwrite: z.array(z.enum(productImportFields)).default(defaultProductImportOptions.overwrite),
+  quantityMode: z.enum(quantityImportModes).default(defaultProductImportOptions.quantityMode),
+});
+
+// Options come as form fields with an upload (overwrite as a JSON string) or as plain JSON values
+export const parseImportOptions = (body: { mode?: unknown; overwrite?: unknown; quantityMode?: unknown }): ProductImportOptions => {
+  try {
+    return importOptionsSchema.parse({
+      mode: body.mode || undefined,
+      overwrite: typeof body.overwrite === 'string' ? JSON.parse(body.overwrite) : body.overwrite,
+      quantityMode: body.quantityMode || undefined,
+    });
+  } catch {
+    throw new ProductImportError('Invalid import options');
+  }
+};
+
+const WHOLE_NUMBER = /^\d+$/;
+const PRICE = /^\d+(\.\d{1,2})?$/;
+
+type ReadRow = {
+  rowNumber: number;
+  cells: ProductImportRow['cells'];
+  // Only the non-empty cells, converted to product values
+  values: Partial<ProductImportValues>;
+  errors: string[];
+};
+
+const readRow = (record: string[], rowNumber: number, mapping: ProductImportMapping): ReadRow => {
+  const cells: ProductImportRow['cells'] = {};
+  for (const field of productImportFields) {
+    const column = mapping[field];
+    if (column !== undefined) {
+      cells[field] = (record[column] ?? '').trim();
+    }
+  }
+
+  const values: Partial<ProductImportValues> = {};
+  const errors: string[] = [];
+  const text = (field: 'productId' | 'productName' | 'manufacturer' | 'category' | 'description') => {
+    if (cells[field]) values[field] = cells[field];
+  };
+  text('productId');
+  text('productName');
+  text('manufacturer');
+  text('category');
+  text('description');
+
+  const colors = splitListCell(cells.color || '');
+  if (colors.length > 0) values.color = colors;
+  const sizes = splitListCell(cells.size || '');
+  if (sizes.length > 0) values.size = sizes;
+
+  // Spreadsheets often export prices as "1,299.00" or "$29.99"
+  const price = (cells.price || '').replace(/[\s,$€£]/g, '');
+  if (price && !PRICE.test(price)) {
+    errors.push(`Price "${cells.price}" is not a valid amount`);
+  } else if (price) {
+    values.price = price;
+  }
+
+  const wholeNumber = (field: 'quantity' | 'reorderPoint' | 'reorderQuantity') => {
+    const value = cells[field];
+    if (!value) return;
+    if (!WHOLE_NUMBER.test(value)) {
+      errors.push(`${productImportFieldLabels[field]} "${value}" must be a whole number of 0 or more`);
+      return;
+    }
+    values[field] = parseInt(value);
+  };
+  wholeNumber('quantity');
+  wholeNumber('reorderPoint');
+  wholeNumber('reorderQuantity');
+
+  return { rowNumber, cells, values, errors };
+};
+
+const schemaErrors = (error: z.ZodError) =>
+  error.errors.map(issue => `${issue.path.join('.') || 'Row'}: ${issue.message}`);
+
+const skipRow = (row: ReadRow, errors: string[]): ProductImportRow => ({
+  rowNumber: row.rowNumber,
+  cells: row.cells,
+  action: 'skip',
+  product: null,
+  changes: [],
+  warnings: [],
+  errors,
+});
+
+const planCreate = (row: ReadRow): ProductImportRow => {
+  const { values } = row;
+  const errors = [...row.errors];
+  for (const field of requiredImportFields) {
+    if (values[field] === undefined) {
+      errors.push(`${productImportFieldLabels[field]} is required`);
+    }
+  }
+  if (errors.length > 0) {
+    return skipRow(row, errors);
+  }
+
+  const product: ProductImportValues = {
+    productId: values.productId!,
+    productName: values.productName!,
+    color: values.color!,
+    size: values.size!,
+    quantity: values.quantity ?? 0,
+    price: values.price!,
+    manufacturer: values.manufacturer ?? null,
+    category: values.category ?? null,
+    description: values.description ?? null,
+    reorderPoint: values.reorderPoint,
+    reorderQuantity: values.reorderQuantity,
+  };
+  // Catches anything the column checks above don't, such as over-long values
+  const validated = insertProductSchema.safeParse(product);
+  if (!validated.success) {
+    return skipRow(row, schemaErrors(validated.error));
+  }
+  return { rowNumber: row.rowNumber, cells: row.cells, action: 'create', product, changes: [], warnings: [], errors: [] };
+};
+
+const displayValue = (value: string | string[] | number | null | undefined): string =>
+  Array.isArray(value) ? value.join(', ') : value == null ? '' : String(value);
+
+// Compares the row against the existing product, keeping only the selected fields that differ
+const planUpdate = (row: ReadRow, existing: ProductWithVariants, options: ProductImportOptions): { row: ProductImportRow; update: ProductImportUpdate | null } => {
+  if (row.errors.length > 0) {
+    return { row: skipRow(row, row.errors), update: null };
+  }
+
+  const fields: ProductImportUpdate['fields'] = {};
+  const changes: ProductImportChange[] = [];
+  const warnings: string[] = [];
+  let quantity: ProductImportUpdate['quantity'];
+
+  for (const field of options.overwrite) {
+    const value = row.values[field];
+    if (field === 'productId' || value === undefined) continue;
+
+    if (field === 'quantity') {
+      if (existing.variants.length > 0) {
+        warnings.push('Quantity was not changed; stock for this product is kept per size/color');
+        continue;
+      }
+      const target = options.quantityMode === 'add' ? existing.quantity + (value as number) : value as number;
+      if (target !== existing.quantity) {
+        changes.push({ field, from: String(existing.quantity), to: String(target) });
+        quantity = { mode: options.quantityMode, value: value as number };
+      }
+      continue;
+    }
+
+    const from = displayValue(existing[field]);
+    const to = displayValue(value);
+    const same = field === 'price' ? parseFloat(existing.price) === parseFloat(to) : from === to;
+    if (!same) {
+      changes.push({ field, from, to });
+      Object.assign(fields, { [field]: value });
+    }
+  }
+
+  const validated = insertProductSchema.partial().safeParse(fields);
+  if (!validated.success) {
+    return { row: skipRow(row, schemaErrors(validated.error)), update: null };
+  }
+
+  const action = changes.length > 0 ? 'update' : 'unchanged';
+  return {
+    row: { rowNumber: row.rowNumber, cells: row.cells, action, product: null, changes, warnings, errors: [] },
+    update: action === 'update' ? { id: existing.id, fields, quantity } : null
+  };
+};
+
+export type ProductImportPlan = {
+  preview: ProductImportPreview;
+  // Updates in row order, with the product they change for logging
+  updates: { rowNumber: number; productName: string; update: ProductImportUpdate }[];
+};
+
+// Decides what each row does under the chosen mode without writing anything. Rows fail on their own
+// problems, on repeating an earlier row's product ID, or on a product ID the mode can't use.
+export const planProductImport = async (
+  table: SheetTable,
+  sheets: string[],
+  requestedMapping: ProductImportMapping | undefined,
+  options: ProductImportOptions
+): Promise<ProductImportPlan> => {
+  if (table.rows.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`The file has ${table.rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+  }
+
+  const { headers } = table;
+  const mapping: ProductImportMapping = requestedMapping
+    ? Object.fromEntries(Object.entries(requestedMapping).filter(([, column]) => column < headers.length))
+    : detectImportMapping(headers);
+  const readRows = table.rows.map(({ rowNumber, record }) => readRow(record, rowNumber, mapping));
+
+  const firstRowById = new Map<string, number>();
+  for (const row of readRows) {
+    const productId = row.values.productId;
+    if (row.errors.length > 0 || !productId) continue;
+    const firstRow = firstRowById.get(productId);
+    if (firstRow !== undefined) {
+      row.errors.push(`Product ID ${productId} also appears on row ${firstRow}`);
+    } else {
+      firstRowById.set(productId, row.rowNumber);
+    }
+  }
+
+  const existing = await storage.getProductsByProductIds(Array.from(firstRowById.keys()));
+  const existingById = new Map(existing.map(product => [product.productId, product]));
+
+  const rows: ProductImportRow[] = [];
+  const updates: ProductImportPlan['updates'] = [];
+  for (const row of readRows) {
+    const productId = row.values.productId;
+    const current = productId ? existingById.get(productId) : undefined;
+
+    if (!productId || !current) {
+      rows.push(productId && options.mode === 'update'
+        ? skipRow(row, [...row.errors, `Product ID ${productId} does not exist`])
+        : planCreate(row));
+    } else if (options.mode === 'create') {
+      rows.push(skipRow(row, [...row.errors, `Product ID ${productId} already exists`]));
+    } else if (!current.isActive) {
+      rows.push(skipRow(row, [...row.errors, `Product ID ${productId} belongs to a deleted product`]));
+    } else {
+      const planned = planUpdate(row, current, options);
+      rows.push(planned.row);
+      if (planned.update) {
+        updates.push({ rowNumber: row.rowNumber, productName: current.productName, update: planned.update });
+      }
+    }
+  }
+
+  const count = (action: ProductImportRow['action']) => rows.filter(row => row.action === action).length;
+  return {
+    preview: {
+      sheets,
+      sheet: sheets.length > 0 ? table.name : null,
+      headers,
+      mapping,
+      options,
+      // Updates find products by ID alone; creating needs every required field
+      unmappedFields: (options.mode === 'update' ? ['productId' as const] : requiredImportFields).filter(field => mapping[field] === undefined),
+      rows,
+      createCount: count('create'),
+      updateCount: count('update'),
+      unchangedCount: count('unchanged'),
+      invalidCount: count('skip'),
+    },
+    updates
+  };
+};
+
+const isWorkbook = (filename: string) => filename.toLowerCase().endsWith('.xlsx');
+
+// Reads an uploaded CSV or Excel file as a table; a workbook may hold several sheets, the first with data
+// is used unless another is named. Also returns the workbook's sheet names to choose from.
+export const readImportTable = async (
+  file: { buffer: Buffer; originalname: string },
+  sheetName?: string
+): Promise<{ table: SheetTable; sheets: string[] }> => {
+  if (isWorkbook(file.originalname)) {
+    let tables: SheetTable[];
+    try {
+      tables = await readWorkbook(file.buffer);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) {
+        throw new ProductImportError(error.message);
+      }
+      throw error;
+    }
+    const table = sheetName
+      ? tables.find(candidate => candidate.name === sheetName)
+      : tables.find(candidate => candidate.rows.length > 0) || tables[0];
+    if (!table) {
+      throw new ProductImportError(sheetName ? `The workbook has no sheet named "${sheetName}"` : 'The workbook has no sheets with data');
+    }
+    return { table, sheets: tables.map(candidate => candidate.name) };
+  }
+
+  let records: string[][];
+  try {
+    records = parseCsv(file.buffer.toString('utf8'));
+  } catch (error) {
+    if (error instanceof CsvParseError) {
+      throw new ProductImportError(`The file is not valid CSV: ${error.message}`);
+    }
+    throw error;
+  }
+  if (records.length < 2) {
+    throw new ProductImportError('The file must contain a header row and at least one product row');
+  }
+
+  return {
+    table: {
+      name: file.originalname,
+      headers: records[0].map(header => header.trim()),
+      rows: records.slice(1).map((record, index) => ({ rowNumber: index + 2, record }))
+    },
+    sheets: []
+  };
+};
+
+export const previewProductImport = async (
+  file: { buffer: Buffer; originalname: string },
+  requestedMapping?: ProductImportMapping,
+  options: ProductImportOptions = defaultProductImportOptions,
+  sheetName?: string
+): Promise<ProductImportPlan> => {
+  const { table, sheets } = await readImportTable(file, sheetName);
+  return await planProductImport(table, sheets, requestedMapping, options);
+};
+
+// Plans JSON product objects the same way as file rows, reading each field as a cell
+export const previewProductRecords = async (
+  productData: Record<string, unknown>[],
+  options: ProductImportOptions = defaultProductImportOptions
+): Promise<ProductImportPlan> => {
+  const headers = [...productImportFields];
+  const table: SheetTable = {
+    name: 'products',
+    headers,
+    rows: productData.map((product, index) => ({
+      rowNumber: index + 1,
+      record: headers.map(field => {
+        const value = product[field];
+        return Array.isArray(value) ? value.join('|') : value == null ? '' : String(value);
+      })
+    }))
+  };
+  const mapping = Object.fromEntries(headers.map((field, index) => [field, index])) as ProductImportMapping;
+  return await planProductImport(table, [], mapping, options);
+};
+
+// Applies the planned creates and updates in one transaction; the rest are reported back
+export const commitProductImport = async (
+  plan: ProductImportPlan,
+  userId: string,
+  onProgress?: (done: number) => Promise<void>
+): Promise<ProductImportResult> => {
+  const { preview, updates } = plan;
+  const creates: InsertProduct[] = preview.rows
+    .filter(row => row.action === 'create')
+    .map(row => insertProductSchema.parse({ ...row.product, createdBy: userId }));
+
+  const { created, updated } = await storage.applyProductImport(creates, updates.map(entry => entry.update), userId, onProgress);
+
+  return {
+    created: created.length,
+    updated: updated.length,
+    unchanged: preview.unchangedCount,
+    skipped: preview.rows
+      .filter(row => row.action === 'skip')
+      .map(row => ({ rowNumber: row.rowNumber, productId: row.cells.productId || null, errors: row.errors }))
+  };
+};
+
+// Who ran an import, for its activity log entries
+export type ImportActor = { userId: string | null; ipAddress?: string; userAgent?: string };
+
+// One entry per updated product with its field changes, then a summary of the whole import.
+// The products are already saved, so a log that can't be written is reported and skipped.
+export const logProductImport = async (actor: ImportActor, plan: ProductImportPlan, result: ProductImportResult, source?: string) => {
+  try {
+    const changesByRow = new Map(plan.preview.rows.map(row => [row.rowNumber, row.changes]));
+    for (const { rowNumber, productName, update } of plan.updates) {
+      await storage.createActivityLog({
+        ...actor,
+        action: `Updated product "${productName}" by bulk import`,
+        module: 'Products',
+        targetId: update.id,
+        targetName: productName,
+        details: { rowNumber, changes: changesByRow.get(rowNumber) || [] }
+      });
+    }
+
+    await storage.createActivityLog({
+      ...actor,
+      action: `Bulk import${source ? ` ${source}` : ''} created ${result.created} and updated ${result.updated} products`,
+      module: 'Products',
+      details: {
+        mode: plan.preview.options.mode,
+        quantityMode: plan.preview.options.quantityMode,
+        created: result.created,
+        updated: result.updated,
+        unchanged: result.unchanged,
+        skipped: result.skipped.length
+      }
+    });
+  } catch (error) {
+    console.error('Failed to log product import:', error);
+  }
+};
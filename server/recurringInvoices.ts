@@ -0,0 +1,153 @@
+import { storage, InsufficientStockError } from "./storage";
+import { renderInvoicePdf } from "./pdf";
+import { sendInvoiceEmail } from "./email";
+import { describeRecurringInterval } from "@shared/recurring";
+import type { InsertInvoice, RecurringInvoice, RecurringInvoiceItem } from "@shared/schema";
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+const describeRunError = (error: unknown): string => {
+  if (error instanceof InsufficientStockError) {
+    return `Insufficient stock: ${error.shortages
+      .map(shortage => `${shortage.productName}${shortage.sku ? ` (${shortage.sku})` : ''} requested ${shortage.requested}, available ${shortage.available}`)
+      .join('; ')}`;
+  }
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+// Raises one Pending invoice for a claimed run, billed to the customer's current details
+// and priced at the customer's current prices
+const raiseInvoice = async (schedule: RecurringInvoice, items: RecurringInvoiceItem[]) => {
+  const customer = await storage.getCustomer(schedule.customerId);
+  if (!customer || !customer.isActive) {
+    throw new Error('Customer is no longer active');
+  }
+  if (items.length === 0) {
+    throw new Error('Schedule has no items');
+  }
+
+  const invoice: InsertInvoice = {
+    customerId: customer.id,
+    customerName: customer.name,
+    customerEmail: customer.email,
+    customerPhone: customer.phone,
+    customerAddress: customer.address,
+    status: 'Pending',
+    // Totals and unit prices are worked out by createInvoice
+    subtotal: '0',
+    taxAmount: '0',
+    total: '0',
+    currency: schedule.currency as InsertInvoice['currency'],
+    pricesIncludeTax: schedule.pricesIncludeTax,
+    notes: schedule.notes,
+    createdBy: schedule.createdBy
+  };
+
+  return await storage.createInvoice(invoice, items.map(item => ({
+    productId: item.productId,
+    variantId: item.variantId,
+    quantity: item.quantity,
+    unitPrice: '0',
+    discountType: item.discountType,
+    discountValue: item.discountValue,
+    totalPrice: '0'
+  })));
+};
+
+const runSchedule = async (id: string, now: Date) => {
+  const claimed = await storage.claimRecurringInvoiceRun(id, now);
+  if (!claimed) return;
+  const { schedule, items, scheduledFor } = claimed;
+
+  let invoice;
+  try {
+    invoice = await raiseInvoice(schedule, items);
+  } catch (error) {
+    const message = describeRunError(error);
+    console.error(`Recurring invoice "${schedule.name}" failed:`, message);
+    await storage.recordRecurringInvoiceRun({
+      recurringInvoiceId: schedule.id,
+      scheduledFor,
+      status: 'Failed',
+      invoiceId: null,
+      error: message,
+      emailStatus: null
+    });
+    await storage.createActivityLog({
+      userId: schedule.createdBy,
+      action: `Recurring invoice "${schedule.name}" could not create an invoice: ${message}`,
+      module: 'Invoices',
+      targetId: schedule.id,
+      targetName: schedule.name
+    });
+    return;
+  }
+
+  let emailStatus: 'Sent' | 'Failed' | null = null;
+  let emailError: string | null = null;
+  if (schedule.autoEmail && invoice.customerEmail) {
+    try {
+      const document = await storage.getInvoiceWithItems(invoice.id);
+      if (!document) {
+        throw new Error('Invoice not found');
+      }
+      const { pdfBuffer } = await renderInvoicePdf(document, schedule.createdBy || '');
+      await sendInvoiceEmail(document, pdfBuffer);
+      emailStatus = 'Sent';
+    } catch (error) {
+      console.error(`Error emailing recurring invoice ${invoice.invoiceNumber}:`, error);
+      emailStatus = 'Failed';
+      emailError = describeRunError(error);
+    }
+  }
+
+  await storage.recordRecurringInvoiceRun({
+    recurringInvoiceId: schedule.id,
+    scheduledFor,
+    status: 'Created',
+    invoiceId: invoice.id,
+    error: emailError,
+    emailStatus
+  });
+  await storage.createActivityLog({
+    userId: schedule.createdBy,
+    action: `Created invoice ${invoice.invoiceNumber} from recurring invoice "${schedule.name}"${emailStatus === 'Sent' ? ` and emailed it to ${invoice.customerEmail}` : ''}`,
+    module: 'Invoices',
+    targetId: invoice.id,
+    targetName: invoice.invoiceNumber,
+    details: {
+      recurringInvoiceId: schedule.id,
+      interval: describeRecurringInterval(schedule.interval, schedule.intervalCount),
+      scheduledFor,
+      emailStatus
+    }
+  });
+};
+
+let isChecking = false;
+
+// Takes at most one run per schedule per check, so a server that was down for a while
+// catches up over the following checks instead of raising a burst of invoices at once
+export const runDueRecurringInvoices = async (now: Date = new Date()): Promise<void> => {
+  if (isChecking) return;
+  isChecking = true;
+  try {
+    const dueIds = await storage.getDueRecurringInvoiceIds(now);
+    for (const id of dueIds) {
+      try {
+        await runSchedule(id, now);
+      } catch (error) {
+        console.error(`Error running recurring invoice ${id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error checking recurring invoices:", error);
+  } finally {
+    isChecking = false;
+  }
+};
+
+export const startRecurringInvoiceScheduler = () => {
+  runDueRecurringInvoices();
+  setInterval(() => runDueRecurringInvoices(), CHECK_INTERVAL_MS);
+};
@@ -1,15 +1,38 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InsufficientStockError, MissingExchangeRateError, InvalidCouponError, InvoiceHasCreditNotesError, ReservedStockError } from "./storage";
+import { settingsService } from "./settings";
 import { setupCustomAuth, isAuthenticated, hashPassword } from "./customAuth";
 import passport from "passport";
 import { ObjectStorageService, ObjectNotFoundError, objectStorageClient } from "./objectStorage";
-import { ObjectPermission } from "./objectAcl";
-import { insertProductSchema, insertInvoiceSchema, insertInvoiceItemSchema, insertActivityLogSchema } from "@shared/schema";
+import { ObjectPermission, getObjectAclPolicy } from "./objectAcl";
+import { insertProductSchema, insertProductVariantSchema, insertInvoiceSchema, insertInvoiceItemSchema, invoiceItemRequestSchema, lineDiscountSchema, insertPriceListSchema, priceListPriceSchema, createPromotionSchema, updatePromotionSchema, invoiceCouponSchema, insertQuotationSchema, insertQuotationItemSchema, insertRecurringInvoiceSchema, insertRecurringInvoiceItemSchema, insertActivityLogSchema, insertCustomerSchema, insertPaymentSchema, insertCreditNoteSchema, creditNoteLineSchema, insertTaxRateSchema, insertExchangeRateSchema, numberSequenceSettingsSchema, insertSupplierSchema, insertPurchaseOrderSchema, insertPurchaseOrderItemSchema, insertStockTakeSchema, companyProfileSchema, updateSettingsSchema, paymentStatuses, type PaymentStatus, type CompanyProfile } from "@shared/schema";
+import { formatMoney } from "@shared/currency";
+import { describeLineDiscount } from "@shared/pricing";
+import { pdfTemplates } from "@shared/pdfTemplates";
+import { renderInvoicePdf, drawCompanyFooter, formatTaxRate } from "./pdf";
+import { createEmailTransporter } from "./email";
+import { previewProductImport, previewProductRecords, readImportTable, commitProductImport, logProductImport, parseImportMapping, parseImportOptions, ProductImportError } from "./productImport";
+import { enqueueJob, toJobSummary } from "./jobs";
+import { importProductImages, ProductImageImportError, MAX_IMAGE_UPLOAD_BYTES, MAX_IMAGE_UPLOAD_FILES } from "./productImages";
+import { numberingSeries, numberingSeriesLabels } from "@shared/numbering";
+import { describeRecurringInterval } from "@shared/recurring";
+import { exportFormats, reportExports } from "@shared/exports";
+import { sendSpreadsheet, type ExportSheet } from "./spreadsheet";
+import {
+  describeReportWindow,
+  inventoryReportSheets,
+  invoiceListSheet,
+  invoiceSummarySheets,
+  manufacturerReportSheet,
+  productCatalogSheets,
+  promotionUptakeSheet,
+  reorderSuggestionsSheet,
+  salesReportSheets,
+} from "./exports";
 import { z } from "zod";
 import QRCode from "qrcode";
 import { randomUUID, randomBytes, createHash } from "crypto";
-import nodemailer from "nodemailer";
 import PDFDocument from "pdfkit";
 import multer from "multer";
 
@@ -65,36 +88,18 @@ const parseObjectPath = (path: string): { bucketName: string; objectName: string
   };
 };
 
-// Email configuration
-const createEmailTransporter = () => {
-  return nodemailer.createTransport({
-    service: 'gmail',
-    auth: {
-      user: process.env.EMAIL_USER || process.env.GMAIL_USER || 'default@gmail.com',
-      pass: process.env.EMAIL_PASS || process.env.GMAIL_PASS || 'defaultpass'
-    }
-  });
-};
+const invoicePdfRequestSchema = z.object({
+  template: z.enum(pdfTemplates).optional(),
+});
 
-// WhatsApp integration (using Twilio)
-const sendWhatsAppMessage = async (to: string, pdfUrl: string) => {
-  const accountSid = process.env.TWILIO_ACCOUNT_SID || process.env.TWILIO_SID || 'default_sid';
-  const authToken = process.env.TWILIO_AUTH_TOKEN || process.env.TWILIO_TOKEN || 'default_token';
-  const twilioNumber = process.env.TWILIO_WHATSAPP_NUMBER || 'whatsapp:+14155238886';
-  
-  const client = require('twilio')(accountSid, authToken);
-  
-  try {
-    await client.messages.create({
-      body: `Your invoice is ready! Download it here: ${pdfUrl}`,
-      from: twilioNumber,
-      to: `whatsapp:${to}`
-    });
-  } catch (error) {
-    console.error('WhatsApp send error:', error);
-    throw new Error('Failed to send WhatsApp message');
-  }
-};
+const exportRequestSchema = z.object({
+  format: z.enum(exportFormats).default('xlsx'),
+});
+
+// Exports read the whole filtered list in one query
+const MAX_EXPORT_ROWS = 10000;
+
+const exportDate = () => new Date().toISOString().split('T')[0];
 
 // Activity logging helper
 const logActivity = async (req: any, action: string, module: string, targetId?: string, targetName?: string, details?: any) => {
@@ -115,8 +120,44 @@ const logActivity = async (req: any, action: string, module: string, targetId?:
   }
 };
 
+// Invoice lines for products with variants must name the exact size/color being sold
+const validateItemVariant = async (productId: string, variantId?: string | null): Promise<string | null> => {
+  if (variantId) {
+    const variant = await storage.getProductVariant(variantId);
+    if (!variant || variant.productId !== productId || !variant.isActive) {
+      return "Selected variant does not belong to this product";
+    }
+    return null;
+  }
+  
+  const variants = await storage.getProductVariants(productId);
+  if (variants.length > 0) {
+    return "Please select a size and color for this product";
+  }
+  return null;
+};
+
+// Shared by create and update; returns the reason the schedule can't be saved, if any
+const validateRecurringInvoice = async (customerId: string, items: { productId: string; variantId?: string | null }[]): Promise<string | null> => {
+  const customer = await storage.getCustomer(customerId);
+  if (!customer || !customer.isActive) {
+    return "Customer not found";
+  }
+  if (items.length === 0) {
+    return "Add at least one item to the schedule";
+  }
+  for (const item of items) {
+    const variantError = await validateItemVariant(item.productId, item.variantId);
+    if (variantError) {
+      return variantError;
+    }
+  }
+  return null;
+};
+
 // PDF generation
-const generateInvoicePDF = async (invoice: any, items: any[]): Promise<Buffer> => {
+// Quotation PDF, laid out like the invoice with the validity date in place of the due date
+const generateQuotationPDF = async (quotation: any, items: any[], profile: CompanyProfile): Promise<Buffer> => {
   return new Promise((resolve, reject) => {
     const doc = new PDFDocument();
     const buffers: Buffer[] = [];
@@ -128,83 +169,228 @@ const generateInvoicePDF = async (invoice: any, items: any[]): Promise<Buffer> =
     });
     
     // Header
-    doc.fontSize(20).text('INVOICE', 50, 50);
-    doc.fontSize(12).text(`Invoice #: ${invoice.invoiceNumber}`, 50, 80);
-    doc.text(`Date: ${new Date(invoice.createdAt).toLocaleDateString()}`, 50, 95);
+    doc.fontSize(20).text('QUOTATION', 50, 50);
+    doc.fontSize(12).text(`Quotation #: ${quotation.quotationNumber}`, 50, 80);
+    doc.text(`Date: ${new Date(quotation.createdAt).toLocaleDateString()}`, 50, 95);
+    doc.text(`Valid Until: ${new Date(quotation.validUntil).toLocaleDateString()}`, 300, 95);
     
     // Customer info
-    doc.text('Bill To:', 50, 130);
-    doc.text(invoice.customerName, 50, 145);
-    doc.text(invoice.customerEmail, 50, 160);
-    if (invoice.customerPhone) doc.text(invoice.customerPhone, 50, 175);
-    if (invoice.customerAddress) doc.text(invoice.customerAddress, 50, 190);
+    doc.text('Prepared For:', 50, 130);
+    doc.text(quotation.customerName, 50, 145);
+    let customerY = 160;
+    for (const line of [quotation.customerEmail, quotation.customerPhone, quotation.customerAddress]) {
+      if (line) {
+        doc.text(line, 50, customerY);
+        customerY += 15;
+      }
+    }
     
     // Items table header
-    const tableTop = 230;
+    const tableTop = Math.max(230, customerY + 20);
     doc.text('Product', 50, tableTop);
     doc.text('Size', 200, tableTop);
-    doc.text('Qty', 300, tableTop);
-    doc.text('Price', 400, tableTop);
+    doc.text('Qty', 290, tableTop);
+    doc.text('Price', 330, tableTop);
+    doc.text('Tax', 400, tableTop);
     doc.text('Total', 480, tableTop);
     
     // Items
     let yPosition = tableTop + 20;
     items.forEach((item) => {
-      doc.text(item.product.productName, 50, yPosition);
-      doc.text(item.product.size, 200, yPosition);
-      doc.text(item.quantity.toString(), 300, yPosition);
-      doc.text(`$${parseFloat(item.unitPrice).toFixed(2)}`, 400, yPosition);
-      doc.text(`$${parseFloat(item.totalPrice).toFixed(2)}`, 480, yPosition);
+      doc.text(item.product.productName, 50, yPosition, { width: 145 });
+      doc.text(item.variant ? `${item.variant.size} / ${item.variant.color}` : item.product.size.join(', '), 200, yPosition, { width: 85 });
+      doc.text(item.quantity.toString(), 290, yPosition);
+      doc.text(`${formatMoney(item.unitPrice, quotation.currency)}`, 330, yPosition);
+      doc.text(`${formatTaxRate(item.taxRate)} ${formatMoney(item.taxAmount, quotation.currency)}`, 400, yPosition);
+      doc.text(`${formatMoney(item.totalPrice, quotation.currency)}`, 480, yPosition);
+      const lineDiscount = describeLineDiscount(item.discountType, item.discountValue, (amount) => formatMoney(amount, quotation.currency));
+      if (lineDiscount) {
+        doc.fontSize(9).text(`less ${lineDiscount}`, 330, yPosition + 14);
+        doc.fontSize(12);
+        yPosition += 10;
+      }
       yPosition += 20;
     });
     
     // Totals
     yPosition += 20;
-    doc.text(`Subtotal: $${parseFloat(invoice.subtotal).toFixed(2)}`, 400, yPosition);
+    doc.text(`Subtotal: ${formatMoney(quotation.subtotal, quotation.currency)}`, 400, yPosition);
     
-    // Add discount if present
-    if (invoice.discountAmount && parseFloat(invoice.discountAmount) > 0) {
+    if (parseFloat(quotation.discountAmount) > 0) {
       yPosition += 15;
-      doc.text(`Discount: -$${parseFloat(invoice.discountAmount).toFixed(2)}`, 400, yPosition);
+      doc.text(`Discount: -${formatMoney(quotation.discountAmount, quotation.currency)}`, 400, yPosition);
     }
     
     yPosition += 15;
-    doc.fontSize(14).text(`Total: $${parseFloat(invoice.total).toFixed(2)}`, 400, yPosition);
+    doc.text(quotation.pricesIncludeTax
+      ? `Tax (included): ${formatMoney(quotation.taxAmount, quotation.currency)}`
+      : `Tax: ${formatMoney(quotation.taxAmount, quotation.currency)}`, 400, yPosition);
     
-    if (invoice.notes) {
+    yPosition += 15;
+    doc.fontSize(14).text(`Total: ${formatMoney(quotation.total, quotation.currency)}`, 400, yPosition);
+    
+    if (quotation.notes) {
       yPosition += 40;
       doc.fontSize(12).text('Notes:', 50, yPosition);
-      doc.text(invoice.notes, 50, yPosition + 15);
+      doc.text(quotation.notes, 50, yPosition + 15);
       yPosition += 50;
     } else {
       yPosition += 40;
     }
     
-    // Enhanced Company footer with better formatting
+    const footerEnd = drawCompanyFooter(doc, yPosition, profile);
+    
+    doc.fontSize(10).text('Prices are subject to stock availability when the order is confirmed.', 50, footerEnd + 15, { align: 'center', width: 500 });
+    
+    doc.end();
+  });
+};
+
+// Purchase order PDF, laid out like the invoice so suppliers get a familiar document
+const generatePurchaseOrderPDF = async (purchaseOrder: any, supplier: any, items: any[], profile: CompanyProfile): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument();
+    const buffers: Buffer[] = [];
+    
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => {
+      const pdfData = Buffer.concat(buffers);
+      resolve(pdfData);
+    });
+    
+    // Header
+    doc.fontSize(20).text('PURCHASE ORDER', 50, 50);
+    doc.fontSize(12).text(`PO #: ${purchaseOrder.poNumber}`, 50, 80);
+    doc.text(`Date: ${new Date(purchaseOrder.orderedAt || purchaseOrder.createdAt).toLocaleDateString()}`, 50, 95);
+    if (purchaseOrder.expectedDeliveryDate) {
+      doc.text(`Expected Delivery: ${new Date(purchaseOrder.expectedDeliveryDate).toLocaleDateString()}`, 50, 110);
+    }
+    
+    // Supplier info
+    doc.text('Supplier:', 50, 140);
+    doc.text(supplier.name, 50, 155);
+    let supplierY = 170;
+    for (const line of [supplier.contactName, supplier.email, supplier.phone, supplier.address]) {
+      if (line) {
+        doc.text(line, 50, supplierY);
+        supplierY += 15;
+      }
+    }
+    
+    // Items table header
+    const tableTop = Math.max(240, supplierY + 20);
+    doc.text('Product', 50, tableTop);
+    doc.text('Size', 200, tableTop);
+    doc.text('Qty', 300, tableTop);
+    doc.text('Unit Cost', 380, tableTop);
+    doc.text('Total', 480, tableTop);
+    
+    // Items
+    let yPosition = tableTop + 20;
+    items.forEach((item) => {
+      doc.text(`${item.product.productName} (${item.product.productId})`, 50, yPosition, { width: 145 });
+      doc.text(item.variant ? `${item.variant.size} / ${item.variant.color}` : item.product.size.join(', '), 200, yPosition, { width: 95 });
+      doc.text(item.quantityOrdered.toString(), 300, yPosition);
+      doc.text(`${formatMoney(item.unitCost)}`, 380, yPosition);
+      doc.text(`${formatMoney(item.totalCost)}`, 480, yPosition);
+      yPosition += 20;
+    });
+    
+    // Totals
     yPosition += 20;
+    doc.fontSize(14).text(`Total: ${formatMoney(purchaseOrder.subtotal)}`, 400, yPosition);
     
-    // Add a separator line
-    doc.moveTo(50, yPosition).lineTo(550, yPosition).stroke();
-    yPosition += 15;
+    if (purchaseOrder.notes) {
+      yPosition += 40;
+      doc.fontSize(12).text('Notes:', 50, yPosition);
+      doc.text(purchaseOrder.notes, 50, yPosition + 15);
+      yPosition += 50;
+    } else {
+      yPosition += 40;
+    }
+    
+    drawCompanyFooter(doc, yPosition, profile);
+    
+    doc.end();
+  });
+};
+
+// Credit note PDF: references the original invoice and lists only the credited lines
+const generateCreditNotePDF = async (creditNote: any, invoice: any, items: any[], profile: CompanyProfile): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument();
+    const buffers: Buffer[] = [];
+    
+    doc.on('data', buffers.push.bind(buffers));
+    doc.on('end', () => {
+      const pdfData = Buffer.concat(buffers);
+      resolve(pdfData);
+    });
+    
+    // Header
+    doc.fontSize(20).text('CREDIT NOTE', 50, 50);
+    doc.fontSize(12).text(`Credit Note #: ${creditNote.creditNoteNumber}`, 50, 80);
+    doc.text(`Date: ${new Date(creditNote.createdAt).toLocaleDateString()}`, 50, 95);
+    doc.text(`Original Invoice: ${invoice.invoiceNumber} (${new Date(invoice.createdAt).toLocaleDateString()})`, 50, 110);
+    doc.text(`Reason: ${creditNote.reason}`, 300, 80);
+    
+    // Customer info
+    doc.text('Credit To:', 50, 140);
+    doc.text(invoice.customerName, 50, 155);
+    let customerY = 170;
+    for (const line of [invoice.customerEmail, invoice.customerPhone, invoice.customerAddress]) {
+      if (line) {
+        doc.text(line, 50, customerY);
+        customerY += 15;
+      }
+    }
+    
+    // Items table header
+    const tableTop = Math.max(240, customerY + 20);
+    doc.text('Product', 50, tableTop);
+    doc.text('Size', 200, tableTop);
+    doc.text('Qty', 300, tableTop);
+    doc.text('Price', 400, tableTop);
+    doc.text('Total', 480, tableTop);
     
-    // Company name - larger and bold
-    doc.fontSize(12).text('Volume Fashion Collection', 50, yPosition, { align: 'left' });
+    // Items
+    let yPosition = tableTop + 20;
+    items.forEach((item) => {
+      doc.text(item.product.productName, 50, yPosition, { width: 145 });
+      doc.text(item.variant ? `${item.variant.size} / ${item.variant.color}` : item.product.size.join(', '), 200, yPosition, { width: 95 });
+      doc.text(item.quantity.toString(), 300, yPosition);
+      doc.text(`${formatMoney(item.unitPrice, invoice.currency)}`, 400, yPosition);
+      doc.text(`${formatMoney(item.totalPrice, invoice.currency)}`, 480, yPosition);
+      yPosition += 20;
+    });
+    
+    // Totals
     yPosition += 20;
+    doc.text(`Subtotal: ${formatMoney(creditNote.subtotal, invoice.currency)}`, 400, yPosition);
     
-    // Address with better formatting
-    doc.fontSize(9);
-    doc.text('Address:', 50, yPosition);
-    doc.text('4006-4008 Room, 5th Floor, Changjiang International Garment Building', 50, yPosition + 12);
-    doc.text('No.931, Renmingbei Road, Yuexiu District, Guangzhou, China', 50, yPosition + 24);
+    if (parseFloat(creditNote.discountAmount) > 0) {
+      yPosition += 15;
+      doc.text(`Discount: -${formatMoney(creditNote.discountAmount, invoice.currency)}`, 400, yPosition);
+    }
+    
+    if (parseFloat(creditNote.taxAmount) > 0) {
+      yPosition += 15;
+      doc.text(`Tax: ${formatMoney(creditNote.taxAmount, invoice.currency)}`, 400, yPosition);
+    }
+    
+    yPosition += 15;
+    doc.fontSize(14).text(`Total Credit: ${formatMoney(creditNote.total, invoice.currency)}`, 400, yPosition);
     
-    // Contact info
-    doc.text('Contact:', 300, yPosition);
-    doc.text('Tel: +86 132 8868 9165', 300, yPosition + 12);
-    doc.text('Email: info@volumefashion.com', 300, yPosition + 24);
+    if (creditNote.notes) {
+      yPosition += 40;
+      doc.fontSize(12).text('Notes:', 50, yPosition);
+      doc.text(creditNote.notes, 50, yPosition + 15);
+      yPosition += 50;
+    } else {
+      yPosition += 40;
+    }
     
-    // Thank you message
-    yPosition += 50;
-    doc.fontSize(10).text('Thank you for your business!', 50, yPosition, { align: 'center', width: 500 });
+    drawCompanyFooter(doc, yPosition, profile);
     
     doc.end();
   });
@@ -215,14 +401,34 @@ const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
   fileFilter: (req, file, cb) => {
-    if (file.mimetype === 'text/csv' || file.originalname.endsWith('.csv')) {
+    const filename = file.originalname.toLowerCase();
+    if (file.mimetype === 'text/csv' || filename.endsWith('.csv') || filename.endsWith('.xlsx')) {
       cb(null, true);
     } else {
-      cb(new Error('Only CSV files are allowed'));
+      cb(new Error('Only CSV and Excel (.xlsx) files are allowed'));
     }
   }
 });
 
+// Product photos, loose or in ZIP archives; files that aren't images are reported back rather than refused
+const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_UPLOAD_BYTES, files: MAX_IMAGE_UPLOAD_FILES },
+});
+
+// multer's limits apply per file, and memory storage holds the whole upload, so the request's
+// total size is checked before any of it is read
+const limitUploadSize = (maxBytes: number): RequestHandler => (req, res, next) => {
+  const length = parseInt(req.headers['content-length'] || '', 10);
+  if (!Number.isFinite(length)) {
+    return res.status(411).json({ message: "The upload must state its size" });
+  }
+  if (length > maxBytes) {
+    return res.status(413).json({ message: `Uploads are limited to ${maxBytes / (1024 * 1024)}MB in total` });
+  }
+  next();
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupCustomAuth(app);
@@ -299,18 +505,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const transporter = createEmailTransporter();
         const resetLink = `${req.protocol}://${req.get('host')}/reset-password?token=${token}`;
         
+        const { from, companyName, signature } = await settingsService.emailIdentity();
         await transporter.sendMail({
-          from: process.env.EMAIL_USER || 'noreply@volumefashion.com',
+          from,
           to: email,
-          subject: 'Volume Fashion - Password Reset Request',
+          subject: `${companyName} - Password Reset Request`,
           html: `
             <h2>Password Reset Request</h2>
-            <p>You requested a password reset for your Volume Fashion account.</p>
+            <p>You requested a password reset for your ${companyName} account.</p>
             <p>Click the link below to reset your password:</p>
             <p><a href="${resetLink}" style="color: #007bff; text-decoration: none;">Reset Password</a></p>
             <p>This link will expire in 1 hour.</p>
             <p>If you didn't request this, please ignore this email.</p>
-            <p>Best regards,<br>Volume Fashion Team</p>
+            <p>Best regards,<br>${signature}</p>
           `
         });
       }
@@ -386,11 +593,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(req.user);
   });
 
-  // Object storage routes for product images
-  app.get("/objects/:objectPath(*)", async (req, res) => {
+  // Object storage routes for product images and invoice PDFs
+  app.get("/objects/:objectPath(*)", async (req: any, res) => {
     const objectStorageService = new ObjectStorageService();
     try {
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      // Images uploaded before product images were given an ACL policy have none, and stay readable
+      if (await getObjectAclPolicy(objectFile)) {
+        const canAccess = await objectStorageService.canAccessObjectEntity({
+          userId: req.user?.id,
+          objectFile,
+          requestedPermission: ObjectPermission.READ,
+        });
+        if (!canAccess) {
+          return res.sendStatus(req.user ? 403 : 401);
+        }
+      }
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       console.error("Error serving object:", error);
@@ -415,7 +633,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Dashboard metrics
   app.get("/api/dashboard/metrics", isAuthenticated, async (req, res) => {
     try {
-      const metrics = await storage.getDashboardMetrics();
+      const { lowStockThreshold } = await settingsService.getSettings();
+      const metrics = await storage.getDashboardMetrics(lowStockThreshold);
       res.json(metrics);
     } catch (error) {
       console.error("Error fetching dashboard metrics:", error);
@@ -439,11 +658,98 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Promotion uptake on processed invoices
+  app.get("/api/reports/promotions", isAuthenticated, async (req, res) => {
+    try {
+      const { startDate, endDate, range } = req.query;
+      const uptake = await storage.getPromotionUptake({
+        startDate: startDate as string,
+        endDate: endDate as string,
+        range: range as string
+      });
+      res.json(uptake);
+    } catch (error) {
+      console.error("Error fetching promotion uptake:", error);
+      res.status(500).json({ message: "Failed to fetch promotion uptake" });
+    }
+  });
+
+  // Reorder suggestions from processed-invoice sales velocity
+  app.get("/api/reports/reorder-suggestions", isAuthenticated, async (req, res) => {
+    try {
+      const { lookbackDays, coverDays } = z.object({
+        lookbackDays: z.coerce.number().int().min(1).max(365).default(30),
+        coverDays: z.coerce.number().int().min(1).max(365).default(30)
+      }).parse(req.query);
+      
+      const suggestions = await storage.getReorderSuggestions({ lookbackDays, coverDays });
+      res.json(suggestions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report parameters", errors: error.errors });
+      }
+      console.error("Error fetching reorder suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch reorder suggestions" });
+    }
+  });
+
+  // Any report on the Reports page as a download, with the same window and parameters as its view
+  app.get("/api/reports/:report/export", isAuthenticated, async (req, res) => {
+    try {
+      const report = z.enum(reportExports).parse(req.params.report);
+      const { format, startDate, endDate, range, lookbackDays, coverDays } = exportRequestSchema.extend({
+        startDate: z.string().optional(),
+        endDate: z.string().optional(),
+        range: z.string().optional(),
+        lookbackDays: z.coerce.number().int().min(1).max(365).default(30),
+        coverDays: z.coerce.number().int().min(1).max(365).default(30)
+      }).parse(req.query);
+      const window = { startDate, endDate, range };
+
+      let sheets: ExportSheet[];
+      switch (report) {
+        case 'sales':
+          sheets = salesReportSheets((await storage.getAllInvoices({ limit: MAX_EXPORT_ROWS })).invoices);
+          break;
+        case 'invoices':
+          sheets = invoiceSummarySheets((await storage.getAllInvoices({ limit: MAX_EXPORT_ROWS })).invoices);
+          break;
+        case 'inventory': {
+          const { lowStockThreshold } = await settingsService.getSettings();
+          const [metrics, lowStock] = await Promise.all([
+            storage.getDashboardMetrics(lowStockThreshold),
+            storage.getLowStockProducts(lowStockThreshold)
+          ]);
+          sheets = inventoryReportSheets(metrics, lowStock);
+          break;
+        }
+        case 'manufacturers':
+          sheets = [manufacturerReportSheet(await storage.getManufacturerStats(window), describeReportWindow(window))];
+          break;
+        case 'promotions':
+          sheets = [promotionUptakeSheet(await storage.getPromotionUptake(window), describeReportWindow(window))];
+          break;
+        case 'reorder':
+          sheets = [reorderSuggestionsSheet(await storage.getReorderSuggestions({ lookbackDays, coverDays }))];
+          break;
+      }
+
+      await sendSpreadsheet(res, format, `${report}-report-${exportDate()}`, sheets);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid report parameters", errors: error.errors });
+      }
+      console.error("Error exporting report:", error);
+      res.status(500).json({ message: "Failed to export report" });
+    }
+  });
+
   // Product routes
   app.get("/api/products", isAuthenticated, async (req, res) => {
     try {
       const { page = "1", limit = "20", search, category, size, stockLevel } = req.query;
       const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+      const { lowStockThreshold } = await settingsService.getSettings();
       
       const result = await storage.getAllProducts({
         limit: parseInt(limit as string),
@@ -451,7 +757,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         search: search as string,
         category: category as string,
         size: size as string,
-        stockLevel: stockLevel as string
+        stockLevel: stockLevel as string,
+        lowStockThreshold
       });
       
       res.json(result);
@@ -462,13 +769,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // More specific routes must come before generic ones
+  app.get("/api/products/export", isAuthenticated, async (req, res) => {
+    try {
+      const { format } = exportRequestSchema.parse(req.query);
+      const { search, category, size, stockLevel } = req.query;
+      const { lowStockThreshold } = await settingsService.getSettings();
+
+      const { products: productList } = await storage.getAllProducts({
+        limit: MAX_EXPORT_ROWS,
+        search: search as string,
+        category: category as string,
+        size: size as string,
+        stockLevel: stockLevel as string,
+        lowStockThreshold
+      });
+
+      await sendSpreadsheet(res, format, `products-${exportDate()}`, productCatalogSheets(productList));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Unknown export format", errors: error.errors });
+      }
+      console.error("Error exporting products:", error);
+      res.status(500).json({ message: "Failed to export products" });
+    }
+  });
+
   app.get("/api/products/by-product-id/:productId", isAuthenticated, async (req, res) => {
     try {
       const product = await storage.getProductByProductId(req.params.productId);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
-      res.json(product);
+      const variants = await storage.getProductVariants(product.id);
+      res.json({ ...product, variants });
     } catch (error) {
       console.error("Error fetching product by productId:", error);
       res.status(500).json({ message: "Failed to fetch product" });
@@ -477,7 +810,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/products/:id", isAuthenticated, async (req, res) => {
     try {
-      const product = await storage.getProduct(req.params.id);
+      const product = await storage.getProductWithVariants(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
@@ -490,10 +823,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/products", isAuthenticated, async (req: any, res) => {
     try {
+      const { variants: variantsData, ...productData } = req.body;
       const validatedProduct = insertProductSchema.parse({
-        ...req.body,
+        ...productData,
         createdBy: req.user.id
       });
+      const validatedVariants = z.array(insertProductVariantSchema).parse(variantsData || []);
       
       // Check for duplicate product ID
       const existingProduct = await storage.getProductByProductId(validatedProduct.productId);
@@ -501,11 +836,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Product ID already exists" });
       }
       
-      const product = await storage.createProduct(validatedProduct);
+      const product = await storage.createProduct(validatedProduct, validatedVariants);
       
       // Generate QR code for all products and store as image file
       try {
-        const qrCodeData = `${process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000'}/products/${product.id}`;
+        const qrCodeData = await settingsService.publicUrl(`/products/${product.id}`);
         const qrCodeBuffer = await QRCode.toBuffer(qrCodeData, {
           type: 'png',
           width: 300,
@@ -531,137 +866,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Bulk upload products from CSV
-  app.post("/api/products/bulk-upload", isAuthenticated, upload.single('csvFile'), async (req: any, res) => {
+  // Bulk upload products from CSV or Excel in two steps: the preview works out what every row would do under
+  // the chosen mode without writing anything, then the upload re-reads the same file, sheet, mapping
+  // and options and queues a job that applies the rows that passed
+  app.post("/api/products/bulk-upload/preview", isAuthenticated, upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
-        return res.status(400).json({ message: "No CSV file provided" });
-      }
-
-      const csvData = req.file.buffer.toString('utf8');
-      const lines = csvData.split('\n').filter((line: string) => line.trim());
-      
-      if (lines.length < 2) {
-        return res.status(400).json({ message: "CSV file must contain header and at least one product row" });
-      }
-
-      // Parse CSV headers
-      const headers = lines[0].split(',').map((h: string) => h.trim().replace(/"/g, ''));
-      const expectedHeaders = ['Product ID', 'Product Name', 'Color', 'Size', 'Quantity', 'Price', 'Category', 'Description'];
-      
-      // Check if required headers exist
-      const requiredHeaders = ['Product ID', 'Product Name', 'Color', 'Size', 'Quantity', 'Price'];
-      const missingHeaders = requiredHeaders.filter(header => !headers.includes(header));
-      
-      if (missingHeaders.length > 0) {
-        return res.status(400).json({ 
-          message: `Missing required headers: ${missingHeaders.join(', ')}` 
-        });
+        return res.status(400).json({ message: "No file provided" });
       }
-
-      let successCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
-
-      // Process each product row
-      for (let i = 1; i < lines.length; i++) {
-        try {
-          const values = lines[i].split(',').map((v: string) => v.trim().replace(/"/g, ''));
-          
-          if (values.length < headers.length) {
-            errors.push(`Row ${i}: Insufficient columns`);
-            errorCount++;
-            continue;
-          }
-
-          const productData: any = {};
-          headers.forEach((header: string, index: number) => {
-            const value = values[index] || '';
-            switch (header) {
-              case 'Product ID':
-                productData.productId = value;
-                break;
-              case 'Product Name':
-                productData.productName = value;
-                break;
-              case 'Color':
-                productData.color = value;
-                break;
-              case 'Size':
-                productData.size = value;
-                break;
-              case 'Quantity':
-                productData.quantity = parseInt(value) || 0;
-                break;
-              case 'Price':
-                productData.price = value; // Keep as string for decimal type
-                break;
-              case 'Category':
-                productData.category = value || null;
-                break;
-              case 'Description':
-                productData.description = value || null;
-                break;
-            }
-          });
-
-          // Validate required fields
-          if (!productData.productId || !productData.productName || !productData.color || !productData.size || !productData.price) {
-            errors.push(`Row ${i}: Missing required fields`);
-            errorCount++;
-            continue;
-          }
-
-          // Validate price is a valid number
-          if (isNaN(parseFloat(productData.price))) {
-            errors.push(`Row ${i}: Invalid price value`);
-            errorCount++;
-            continue;
-          }
-
-          // Check if product ID already exists
-          const existingProduct = await storage.getProductByProductId(productData.productId);
-          if (existingProduct) {
-            errors.push(`Row ${i}: Product ID ${productData.productId} already exists`);
-            errorCount++;
-            continue;
-          }
-
-          // Validate with schema
-          const validatedProduct = insertProductSchema.parse(productData);
-          
-          // Create product
-          const product = await storage.createProduct({
-            ...validatedProduct,
-            imageUrl: null, // No image for bulk upload initially
-          });
-
-          await storage.createActivityLog({
-            userId: req.user.id,
-            action: 'create',
-            module: 'product',
-            targetId: product.id,
-            targetName: product.productName,
-            details: { message: `Bulk uploaded product: ${product.productName}` },
-          });
-
-          successCount++;
-
-        } catch (error) {
-          console.error(`Error processing row ${i}:`, error);
-          errors.push(`Row ${i}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-          errorCount++;
-        }
+      const plan = await previewProductImport(req.file, parseImportMapping(req.body.mapping), parseImportOptions(req.body), req.body.sheet || undefined);
+      res.json(plan.preview);
+    } catch (error) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
       }
+      console.error("Error previewing bulk upload:", error);
+      res.status(500).json({ message: "Failed to read the uploaded file" });
+    }
+  });
 
-      res.json({
-        message: `Bulk upload completed`,
-        successCount,
-        errorCount,
-        errors: errors.slice(0, 10) // Return first 10 errors only
-      });
-
+  app.post("/api/products/bulk-upload", isAuthenticated, upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file provided" });
+      }
+      const { table, sheets } = await readImportTable(req.file, req.body.sheet || undefined);
+      const job = await enqueueJob('product_import', {
+        filename: req.file.originalname,
+        table,
+        sheets,
+        mapping: parseImportMapping(req.body.mapping),
+        options: parseImportOptions(req.body)
+      }, { createdBy: req.user.id });
+
+      res.status(202).json(toJobSummary(job));
     } catch (error) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error in bulk upload:", error);
       res.status(500).json({ message: "Failed to process bulk upload" });
     }
@@ -670,9 +912,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/products/:id", isAuthenticated, async (req: any, res) => {
     try {
       const productId = req.params.id;
-      const updates = insertProductSchema.partial().parse(req.body);
+      const { variants: variantsData, ...productData } = req.body;
+      const updates = insertProductSchema.partial().parse(productData);
+      const validatedVariants = Array.isArray(variantsData)
+        ? z.array(insertProductVariantSchema).parse(variantsData)
+        : undefined;
       
-      const product = await storage.updateProduct(productId, updates);
+      const product = await storage.updateProduct(productId, updates, req.user.id, validatedVariants);
       
       await logActivity(req, `Updated product "${product.productName}"`, 'Products', product.id, product.productName);
       
@@ -681,107 +927,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid product data", errors: error.errors });
       }
+      if (error instanceof ReservedStockError) {
+        return res.status(409).json({ message: error.message, skus: error.skus });
+      }
       console.error("Error updating product:", error);
       res.status(500).json({ message: "Failed to update product" });
     }
   });
 
-  app.delete("/api/products/:id", isAuthenticated, async (req: any, res) => {
+  app.get("/api/products/:id/variants", isAuthenticated, async (req, res) => {
     try {
       const product = await storage.getProduct(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
       
-      await storage.deleteProduct(req.params.id);
-      
-      await logActivity(req, `Deleted product "${product.productName}"`, 'Products', product.id, product.productName);
-      
-      res.status(204).send();
+      const variants = await storage.getProductVariants(req.params.id);
+      res.json(variants);
     } catch (error) {
-      console.error("Error deleting product:", error);
-      res.status(500).json({ message: "Failed to delete product" });
+      console.error("Error fetching product variants:", error);
+      res.status(500).json({ message: "Failed to fetch product variants" });
     }
   });
 
-  app.post("/api/products/bulk", isAuthenticated, async (req: any, res) => {
+  app.put("/api/products/:id/variants", isAuthenticated, async (req: any, res) => {
     try {
-      const { products: productData } = req.body;
-      
-      if (!Array.isArray(productData) || productData.length === 0) {
-        return res.status(400).json({ message: "Invalid product data" });
-      }
-      
-      const validatedProducts = productData.map(p => 
-        insertProductSchema.parse({ ...p, createdBy: req.user.id })
-      );
-      
-      // Check for duplicate product IDs
-      const duplicates = [];
-      const uniqueProducts = [];
-      
-      for (const product of validatedProducts) {
-        const existing = await storage.getProductByProductId(product.productId);
-        if (existing) {
-          duplicates.push(product.productId);
-        } else {
-          uniqueProducts.push(product);
-        }
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
       
-      const createdProducts = uniqueProducts.length > 0 
-        ? await storage.createBulkProducts(uniqueProducts)
-        : [];
+      const validatedVariants = z.array(insertProductVariantSchema).parse(req.body.variants);
+      const variants = await storage.setProductVariants(req.params.id, validatedVariants, req.user.id);
       
-      await logActivity(req, `Bulk imported ${createdProducts.length} products`, 'Products', undefined, undefined, {
-        imported: createdProducts.length,
-        duplicates: duplicates.length
+      await logActivity(req, `Updated variants for product "${product.productName}"`, 'Products', product.id, product.productName, {
+        variants: variants.map(v => ({ sku: v.sku, quantity: v.quantity }))
       });
       
-      res.json({
-        imported: createdProducts.length,
-        duplicates,
-        products: createdProducts
-      });
+      res.json(variants);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid product data", errors: error.errors });
+        return res.status(400).json({ message: "Invalid variant data", errors: error.errors });
       }
-      console.error("Error bulk importing products:", error);
-      res.status(500).json({ message: "Failed to import products" });
+      if (error instanceof ReservedStockError) {
+        return res.status(409).json({ message: error.message, skus: error.skus });
+      }
+      console.error("Error updating product variants:", error);
+      res.status(500).json({ message: "Failed to update product variants" });
     }
   });
 
-  app.put("/api/products/:id/image", isAuthenticated, async (req: any, res) => {
+  app.get("/api/products/:id/movements", isAuthenticated, async (req, res) => {
     try {
-      const productId = req.params.id;
-      const { imageUrl } = req.body;
-      
-      if (!imageUrl) {
-        return res.status(400).json({ message: "Image URL is required" });
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
       
-      const objectStorageService = new ObjectStorageService();
-      const normalizedPath = objectStorageService.normalizeObjectEntityPath(imageUrl);
-      
-      await storage.updateProduct(productId, { imageUrl: normalizedPath });
+      const { page = "1", limit = "50" } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      // Generate QR code and store as image file
-      const qrCodeData = `${process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000'}/products/${productId}`;
-      const qrCodeBuffer = await QRCode.toBuffer(qrCodeData, {
-        type: 'png',
-        width: 300,
-        margin: 2,
+      const result = await storage.getStockMovements(req.params.id, {
+        limit: parseInt(limit as string),
+        offset
       });
       
-      // Upload QR code to object storage
-      const qrCodeUrl = await uploadQRCodeToStorage(productId, qrCodeBuffer);
-      const updatedProduct = await storage.updateProductQRCode(productId, qrCodeUrl);
-      
-      await logActivity(req, `Updated image for product "${updatedProduct.productName}"`, 'Products', productId, updatedProduct.productName);
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.delete("/api/products/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      
+      await storage.deleteProduct(req.params.id);
+      
+      await logActivity(req, `Deleted product "${product.productName}"`, 'Products', product.id, product.productName);
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting product:", error);
+      res.status(500).json({ message: "Failed to delete product" });
+    }
+  });
+
+  // JSON counterpart of the file upload: takes { products, mode, overwrite, quantityMode } and
+  // applies the rows that pass, reporting the rest as skipped
+  app.post("/api/products/bulk", isAuthenticated, async (req: any, res) => {
+    try {
+      const { products: productData } = req.body;
+      
+      if (!Array.isArray(productData) || productData.length === 0) {
+        return res.status(400).json({ message: "Invalid product data" });
+      }
+      
+      const plan = await previewProductRecords(productData, parseImportOptions(req.body));
+      const result = await commitProductImport(plan, req.user.id);
+      await logProductImport({ userId: req.user.id, ipAddress: req.ip, userAgent: req.get('User-Agent') }, plan, result);
+      
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ProductImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error bulk importing products:", error);
+      res.status(500).json({ message: "Failed to import products" });
+    }
+  });
+
+  // Matches each uploaded image to a product by the product ID in its file name and stores it as
+  // the product's image; takes { files, replaceExisting } as multipart form data
+  app.post("/api/products/images/bulk", isAuthenticated, limitUploadSize(MAX_IMAGE_UPLOAD_BYTES), imageUpload.array('files'), async (req: any, res) => {
+    try {
+      const files: { originalname: string; buffer: Buffer }[] = req.files || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No files provided" });
+      }
+
+      const result = await importProductImages(files, req.user.id, req.body.replaceExisting === 'true');
+      await logActivity(req, `Bulk image upload set images for ${result.matched.length} products`, 'Products', undefined, undefined, {
+        files: files.map(file => file.originalname),
+        matched: result.matched.map(match => ({ filename: match.filename, productId: match.productId })),
+        unmatched: result.unmatched.length,
+        failed: result.failed.length
+      });
+
+      res.json(result);
+    } catch (error) {
+      if (error instanceof ProductImageImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error in bulk image upload:", error);
+      res.status(500).json({ message: "Failed to upload product images" });
+    }
+  });
+
+  app.put("/api/products/:id/image", isAuthenticated, async (req: any, res) => {
+    try {
+      const productId = req.params.id;
+      const { imageUrl } = req.body;
+      
+      if (!imageUrl) {
+        return res.status(400).json({ message: "Image URL is required" });
+      }
+      
+      // Product images appear on the public product page that product QR codes link to
+      const objectStorageService = new ObjectStorageService();
+      const normalizedPath = await objectStorageService.trySetObjectEntityAclPolicy(imageUrl, {
+        owner: req.user.id,
+        visibility: 'public'
+      });
+      
+      await storage.updateProduct(productId, { imageUrl: normalizedPath });
+      
+      // Generate QR code and store as image file
+      const qrCodeData = await settingsService.publicUrl(`/products/${productId}`);
+      const qrCodeBuffer = await QRCode.toBuffer(qrCodeData, {
+        type: 'png',
+        width: 300,
+        margin: 2,
+      });
+      
+      // Upload QR code to object storage
+      const qrCodeUrl = await uploadQRCodeToStorage(productId, qrCodeBuffer);
+      const updatedProduct = await storage.updateProductQRCode(productId, qrCodeUrl);
+      
+      await logActivity(req, `Updated image for product "${updatedProduct.productName}"`, 'Products', productId, updatedProduct.productName);
       
       res.json({ product: updatedProduct });
     } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded image not found" });
+      }
       console.error("Error updating product image:", error);
       res.status(500).json({ message: "Failed to update product image" });
     }
@@ -790,16 +1113,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Invoice routes
   app.get("/api/invoices", isAuthenticated, async (req, res) => {
     try {
-      const { page = "1", limit = "20", status, startDate, endDate, customerName } = req.query;
+      const { page = "1", limit = "20", status, paymentStatus, startDate, endDate, customerName, customerId } = req.query;
       const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
       
       const result = await storage.getAllInvoices({
         limit: parseInt(limit as string),
         offset,
         status: status as string,
+        paymentStatus: paymentStatuses.includes(paymentStatus as PaymentStatus) ? paymentStatus as PaymentStatus : undefined,
         startDate: startDate as string,
         endDate: endDate as string,
-        customerName: customerName as string
+        customerName: customerName as string,
+        customerId: customerId as string
       });
       
       res.json(result);
@@ -809,6 +1134,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/invoices/export", isAuthenticated, async (req, res) => {
+    try {
+      const { format } = exportRequestSchema.parse(req.query);
+      const { status, paymentStatus, startDate, endDate, customerName, customerId } = req.query;
+
+      const { invoices: invoiceList } = await storage.getAllInvoices({
+        limit: MAX_EXPORT_ROWS,
+        status: status as string,
+        paymentStatus: paymentStatuses.includes(paymentStatus as PaymentStatus) ? paymentStatus as PaymentStatus : undefined,
+        startDate: startDate as string,
+        endDate: endDate as string,
+        customerName: customerName as string,
+        customerId: customerId as string
+      });
+
+      await sendSpreadsheet(res, format, `invoices-${exportDate()}`, [invoiceListSheet(invoiceList)]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Unknown export format", errors: error.errors });
+      }
+      console.error("Error exporting invoices:", error);
+      res.status(500).json({ message: "Failed to export invoices" });
+    }
+  });
+
   app.get("/api/invoices/:id", isAuthenticated, async (req, res) => {
     try {
       const invoice = await storage.getInvoiceWithItems(req.params.id);
@@ -822,6 +1172,220 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/invoices/:id/versions", isAuthenticated, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(await storage.getInvoiceVersions(invoice.id));
+    } catch (error) {
+      console.error("Error fetching invoice versions:", error);
+      res.status(500).json({ message: "Failed to fetch invoice versions" });
+    }
+  });
+
+  app.get("/api/invoices/:id/versions/:version", isAuthenticated, async (req, res) => {
+    try {
+      const version = parseInt(req.params.version);
+      if (!Number.isInteger(version) || version < 1) {
+        return res.status(400).json({ message: "Invalid version number" });
+      }
+      const invoiceVersion = await storage.getInvoiceVersion(req.params.id, version);
+      if (!invoiceVersion) {
+        return res.status(404).json({ message: "Invoice version not found" });
+      }
+      res.json(invoiceVersion);
+    } catch (error) {
+      console.error("Error fetching invoice version:", error);
+      res.status(500).json({ message: "Failed to fetch invoice version" });
+    }
+  });
+
+  // Recent email and WhatsApp sends, so the invoice page can show ones still in progress
+  app.get("/api/invoices/:id/jobs", isAuthenticated, async (req, res) => {
+    try {
+      const jobList = await storage.getJobsForTarget(req.params.id, ['invoice_email', 'invoice_whatsapp']);
+      res.json(jobList.map(toJobSummary));
+    } catch (error) {
+      console.error("Error fetching invoice jobs:", error);
+      res.status(500).json({ message: "Failed to fetch invoice sends" });
+    }
+  });
+
+  app.get("/api/invoices/:id/payments", isAuthenticated, async (req, res) => {
+    try {
+      const payments = await storage.getInvoicePayments(req.params.id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/invoices/:id/payments", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager', 'Staff'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to record payments" });
+      }
+      
+      const validatedPayment = insertPaymentSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      
+      const { payment, invoice } = await storage.recordPayment(req.params.id, validatedPayment);
+      
+      await logActivity(req, `Recorded ${payment.method} payment of ${formatMoney(payment.amount, invoice.currency)} on invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber, {
+        paymentId: payment.id,
+        amount: payment.amount,
+        method: payment.method,
+        reference: payment.reference,
+        balanceDue: invoice.balanceDue
+      });
+      
+      res.status(201).json({ payment, invoice });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      console.error("Error recording payment:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to record payment" });
+    }
+  });
+
+  app.post("/api/invoices/:id/payments/:paymentId/void", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to void payments" });
+      }
+      
+      const existing = await storage.getPayment(req.params.paymentId);
+      if (!existing || existing.invoiceId !== req.params.id) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      const { reason } = z.object({ reason: z.string().trim().optional() }).parse(req.body);
+      const { payment, invoice } = await storage.voidPayment(req.params.paymentId, req.user.id, reason);
+      
+      await logActivity(req, `Voided payment of ${formatMoney(payment.amount, invoice.currency)} on invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber, {
+        paymentId: payment.id,
+        amount: payment.amount,
+        reason: payment.voidReason,
+        balanceDue: invoice.balanceDue
+      });
+      
+      res.json({ payment, invoice });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid void request", errors: error.errors });
+      }
+      console.error("Error voiding payment:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to void payment" });
+    }
+  });
+
+  // Credit note routes
+  app.get("/api/invoices/:id/credit-notes", isAuthenticated, async (req, res) => {
+    try {
+      const creditNotes = await storage.getInvoiceCreditNotes(req.params.id);
+      res.json(creditNotes);
+    } catch (error) {
+      console.error("Error fetching invoice credit notes:", error);
+      res.status(500).json({ message: "Failed to fetch credit notes" });
+    }
+  });
+
+  app.post("/api/invoices/:id/credit-notes", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to issue credit notes" });
+      }
+      
+      const { creditNote: creditNoteData, items: itemsData } = req.body;
+      const validatedCreditNote = insertCreditNoteSchema.parse({
+        ...creditNoteData,
+        createdBy: req.user.id
+      });
+      const validatedLines = z.array(creditNoteLineSchema).min(1).parse(itemsData);
+      
+      const { stockDeltas, ...creditNote } = await storage.createCreditNote(req.params.id, validatedCreditNote, validatedLines);
+      const invoice = await storage.getInvoice(creditNote.invoiceId);
+      
+      await logActivity(req, `Issued credit note ${creditNote.creditNoteNumber} for ${formatMoney(creditNote.total, invoice?.currency)} against invoice ${invoice?.invoiceNumber}`, 'Invoices', creditNote.invoiceId, invoice?.invoiceNumber, {
+        creditNoteId: creditNote.id,
+        creditNoteNumber: creditNote.creditNoteNumber,
+        reason: creditNote.reason,
+        total: creditNote.total,
+        stockDeltas
+      });
+      
+      res.status(201).json(creditNote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid credit note data", errors: error.errors });
+      }
+      console.error("Error creating credit note:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create credit note" });
+    }
+  });
+
+  app.get("/api/credit-notes", isAuthenticated, async (req, res) => {
+    try {
+      const { page = "1", limit = "20", search } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const result = await storage.getAllCreditNotes({
+        limit: parseInt(limit as string),
+        offset,
+        search: search as string
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching credit notes:", error);
+      res.status(500).json({ message: "Failed to fetch credit notes" });
+    }
+  });
+
+  app.get("/api/credit-notes/:id", isAuthenticated, async (req, res) => {
+    try {
+      const creditNote = await storage.getCreditNoteWithItems(req.params.id);
+      if (!creditNote) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+      res.json(creditNote);
+    } catch (error) {
+      console.error("Error fetching credit note:", error);
+      res.status(500).json({ message: "Failed to fetch credit note" });
+    }
+  });
+
+  app.post("/api/credit-notes/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const creditNote = await storage.getCreditNoteWithItems(req.params.id);
+      if (!creditNote) {
+        return res.status(404).json({ message: "Credit note not found" });
+      }
+      
+      const pdfBuffer = await generateCreditNotePDF(creditNote, creditNote.invoice, creditNote.items, await settingsService.getCompanyProfile());
+      
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="credit-note-${creditNote.creditNoteNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length,
+      });
+      
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating credit note PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
   app.post("/api/invoices", isAuthenticated, async (req: any, res) => {
     try {
       const { invoice: invoiceData, items: itemsData } = req.body;
@@ -835,6 +1399,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         insertInvoiceItemSchema.parse(item)
       );
       
+      if (validatedInvoice.customerId) {
+        const customer = await storage.getCustomer(validatedInvoice.customerId);
+        if (!customer || !customer.isActive) {
+          return res.status(400).json({ message: "Customer not found" });
+        }
+      }
+      
+      for (const item of validatedItems) {
+        const variantError = await validateItemVariant(item.productId, item.variantId);
+        if (variantError) {
+          return res.status(400).json({ message: variantError });
+        }
+      }
+      
       const invoice = await storage.createInvoice(validatedInvoice, validatedItems);
       
       await logActivity(req, `Created invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
@@ -844,6 +1422,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
       }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Insufficient stock for one or more items", shortages: error.shortages });
+      }
+      if (error instanceof MissingExchangeRateError || error instanceof InvalidCouponError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating invoice:", error);
       res.status(500).json({ message: "Failed to create invoice" });
     }
@@ -880,12 +1464,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Use the properly capitalized status for storage
       const capitalizedStatus = normalizedStatus === 'pending' ? 'Pending' : 'Processed';
-      const updatedInvoice = await storage.updateInvoiceStatus(req.params.id, capitalizedStatus, userId);
       
-      await logActivity(req, `Updated invoice ${updatedInvoice.invoiceNumber} status to ${capitalizedStatus}`, 'Invoices', updatedInvoice.id, updatedInvoice.invoiceNumber);
+      const { previousStatus, stockDeltas, ...updatedInvoice } = await storage.updateInvoiceStatus(req.params.id, capitalizedStatus, userId);
+      
+      // Reverting a processed invoice puts its stock back, so record what moved
+      const action = previousStatus === 'Processed' && capitalizedStatus === 'Pending'
+        ? `Reverted invoice ${updatedInvoice.invoiceNumber} to Pending and restocked ${stockDeltas.length} item(s)`
+        : `Updated invoice ${updatedInvoice.invoiceNumber} status to ${capitalizedStatus}`;
+      await logActivity(req, action, 'Invoices', updatedInvoice.id, updatedInvoice.invoiceNumber, stockDeltas.length > 0 ? {
+        previousStatus,
+        newStatus: capitalizedStatus,
+        stockDeltas
+      } : undefined);
       
       res.json(updatedInvoice);
     } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Insufficient stock to process invoice", shortages: error.shortages });
+      }
+      if (error instanceof InvoiceHasCreditNotesError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error updating invoice status:", error);
       res.status(500).json({ message: "Failed to update invoice status" });
     }
@@ -911,13 +1510,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(409).json({ message: "Invoice is already deleted" });
       }
       
-      // Mark invoice as deleted
-      const deletedInvoice = await storage.updateInvoiceStatus(req.params.id, 'Deleted', userId);
+      // Mark invoice as deleted; processed invoices are restocked in the same transaction
+      const { previousStatus, stockDeltas, ...deletedInvoice } = await storage.updateInvoiceStatus(req.params.id, 'Deleted', userId);
       
-      await logActivity(req, `Deleted invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
+      await logActivity(
+        req,
+        stockDeltas.length > 0
+          ? `Deleted invoice ${invoice.invoiceNumber} and restocked ${stockDeltas.length} item(s)`
+          : `Deleted invoice ${invoice.invoiceNumber}`,
+        'Invoices',
+        invoice.id,
+        invoice.invoiceNumber,
+        stockDeltas.length > 0 ? { previousStatus, newStatus: 'Deleted', stockDeltas } : undefined
+      );
       
       res.json({ message: "Invoice marked as deleted", invoice: deletedInvoice });
     } catch (error) {
+      if (error instanceof InvoiceHasCreditNotesError) {
+        return res.status(409).json({ message: error.message });
+      }
       console.error("Error deleting invoice:", error);
       res.status(500).json({ message: "Failed to delete invoice" });
     }
@@ -943,9 +1554,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { discountAmount: validatedDiscount } = discountSchema.parse({ discountAmount });
       
-      const updatedInvoice = await storage.updateInvoiceDiscount(req.params.id, validatedDiscount);
+      const updatedInvoice = await storage.updateInvoiceDiscount(req.params.id, validatedDiscount, req.user.id);
       
-      await logActivity(req, `Updated invoice ${updatedInvoice.invoiceNumber} discount to $${validatedDiscount.toFixed(2)}`, 'Invoices', updatedInvoice.id, updatedInvoice.invoiceNumber);
+      await logActivity(req, `Updated invoice ${updatedInvoice.invoiceNumber} discount to ${formatMoney(validatedDiscount, updatedInvoice.currency)}`, 'Invoices', updatedInvoice.id, updatedInvoice.invoiceNumber);
       
       res.json(updatedInvoice);
     } catch (error) {
@@ -957,6 +1568,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.put("/api/invoices/:id/coupon", isAuthenticated, async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status !== 'Pending') {
+        return res.status(403).json({ message: "Coupons can only be applied to pending invoices" });
+      }
+
+      const { code } = invoiceCouponSchema.parse(req.body);
+      const updatedInvoice = await storage.setInvoiceCoupon(invoice.id, code, req.user.id);
+
+      const action = code
+        ? `Applied coupon ${code} to invoice ${updatedInvoice.invoiceNumber}`
+        : `Removed coupon ${invoice.couponCode} from invoice ${updatedInvoice.invoiceNumber}`;
+      await logActivity(req, action, 'Invoices', updatedInvoice.id, updatedInvoice.invoiceNumber, {
+        previousCode: invoice.couponCode,
+        code,
+        promotionDiscount: updatedInvoice.promotionDiscount
+      });
+
+      res.json(updatedInvoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid coupon code", errors: error.errors });
+      }
+      if (error instanceof InvalidCouponError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error applying coupon:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to apply coupon" });
+    }
+  });
+
   app.post("/api/invoices/:id/items", isAuthenticated, async (req: any, res) => {
     try {
       // Check that invoice exists and is pending (not processed or deleted)
@@ -971,23 +1617,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Can only add items to pending invoices" });
       }
 
-      const { productId, quantity, unitPrice } = req.body;
+      // The unit price comes from the customer's price list (or the product), never from the client
+      const validatedItem = invoiceItemRequestSchema.parse(req.body);
       
-      const itemSchema = z.object({
-        productId: z.string(),
-        quantity: z.number().min(1),
-        unitPrice: z.number().min(0)
-      });
-      
-      const validatedItem = itemSchema.parse({ productId, quantity, unitPrice });
-      const totalPrice = validatedItem.unitPrice * validatedItem.quantity;
+      const variantError = await validateItemVariant(validatedItem.productId, validatedItem.variantId);
+      if (variantError) {
+        return res.status(400).json({ message: variantError });
+      }
       
       const newItem = await storage.addInvoiceItem(req.params.id, {
-        productId: validatedItem.productId,
-        quantity: validatedItem.quantity,
-        unitPrice: validatedItem.unitPrice.toFixed(2),
-        totalPrice: totalPrice.toFixed(2)
-      });
+        ...validatedItem,
+        variantId: validatedItem.variantId || null
+      }, req.user.id);
       
       await logActivity(req, `Added item to invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
       
@@ -996,6 +1637,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid item data", errors: error.errors });
       }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Insufficient stock for this item", shortages: error.shortages });
+      }
       console.error("Error adding invoice item:", error);
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to add invoice item" });
     }
@@ -1018,12 +1662,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { quantity } = req.body;
       
       const quantitySchema = z.object({
-        quantity: z.number().min(1)
+        quantity: z.number().int().min(1)
       });
       
       const { quantity: validatedQuantity } = quantitySchema.parse({ quantity });
       
-      const updatedItem = await storage.updateInvoiceItemQuantity(req.params.itemId, validatedQuantity);
+      const updatedItem = await storage.updateInvoiceItemQuantity(req.params.itemId, validatedQuantity, req.user.id);
       
       await logActivity(req, `Updated item quantity in invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
       
@@ -1032,14 +1676,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid quantity", errors: error.errors });
       }
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Insufficient stock for this item", shortages: error.shortages });
+      }
       console.error("Error updating invoice item:", error);
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update invoice item" });
     }
   });
 
-  app.delete("/api/invoices/:invoiceId/items/:itemId", isAuthenticated, async (req: any, res) => {
+  app.put("/api/invoices/:invoiceId/items/:itemId/discount", isAuthenticated, async (req: any, res) => {
     try {
-      // Check that invoice exists and is pending (not processed or deleted)
       const invoice = await storage.getInvoice(req.params.invoiceId);
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
@@ -1048,133 +1694,1504 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Cannot modify deleted invoices" });
       }
       if (invoice.status?.toLowerCase() !== 'pending') {
-        return res.status(403).json({ message: "Can only delete items from pending invoices" });
+        return res.status(403).json({ message: "Can only discount items in pending invoices" });
       }
 
-      await storage.deleteInvoiceItem(req.params.itemId);
-      
-      await logActivity(req, `Deleted item from invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
-      
-      res.json({ message: "Item deleted successfully" });
+      const discount = lineDiscountSchema.parse(req.body);
+      const updatedItem = await storage.updateInvoiceItemDiscount(req.params.itemId, discount, req.user.id);
+
+      await logActivity(req, `Updated item discount in invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber, {
+        discountType: updatedItem.discountType,
+        discountValue: updatedItem.discountValue,
+        discountAmount: updatedItem.discountAmount
+      });
+
+      res.json(updatedItem);
     } catch (error) {
-      console.error("Error deleting invoice item:", error);
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete invoice item" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid discount", errors: error.errors });
+      }
+      console.error("Error updating item discount:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update item discount" });
     }
   });
 
-  app.post("/api/invoices/:id/pdf", isAuthenticated, async (req: any, res) => {
+  app.delete("/api/invoices/:invoiceId/items/:itemId", isAuthenticated, async (req: any, res) => {
     try {
-      const invoice = await storage.getInvoiceWithItems(req.params.id);
+      // Check that invoice exists and is pending (not processed or deleted)
+      const invoice = await storage.getInvoice(req.params.invoiceId);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (invoice.status?.toLowerCase() === 'deleted') {
+        return res.status(403).json({ message: "Cannot modify deleted invoices" });
+      }
+      if (invoice.status?.toLowerCase() !== 'pending') {
+        return res.status(403).json({ message: "Can only delete items from pending invoices" });
+      }
+
+      await storage.deleteInvoiceItem(req.params.itemId, req.user.id);
+      
+      await logActivity(req, `Deleted item from invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber);
+      
+      res.json({ message: "Item deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting invoice item:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete invoice item" });
+    }
+  });
+
+  app.post("/api/invoices/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoiceWithItems(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (invoice.status?.toLowerCase() === 'deleted') {
+        return res.status(403).json({ message: "Cannot generate PDF for deleted invoices" });
+      }
+      
+      if (invoice.status !== 'Processed') {
+        return res.status(400).json({ message: "Can only generate PDF for processed invoices" });
+      }
+      
+      const { template } = invoicePdfRequestSchema.parse(req.body || {});
+      const { pdfBuffer } = await renderInvoicePdf(invoice, req.user.id, template);
+      
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="invoice-${invoice.invoiceNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length,
+      });
+      
+      res.send(pdfBuffer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Unknown PDF template", errors: error.errors });
+      }
+      console.error("Error generating PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  // The copy last stored in object storage. It is private to its owner there, so staff read it through
+  // this route rather than its /objects path.
+  app.get("/api/invoices/:id/pdf", isAuthenticated, async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice || invoice.status?.toLowerCase() === 'deleted') {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      if (!invoice.pdfPath) {
+        return res.status(404).json({ message: "No PDF has been stored for this invoice" });
+      }
+      
+      const objectStorageService = new ObjectStorageService();
+      const objectFile = await objectStorageService.getObjectEntityFile(invoice.pdfPath);
+      res.set('Content-Disposition', `inline; filename="invoice-${invoice.invoiceNumber}.pdf"`);
+      objectStorageService.downloadObject(objectFile, res, 0);
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "No PDF has been stored for this invoice" });
+      }
+      console.error("Error fetching stored invoice PDF:", error);
+      res.status(500).json({ message: "Failed to fetch invoice PDF" });
+    }
+  });
+
+  app.post("/api/invoices/:id/email", isAuthenticated, async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoiceWithItems(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (invoice.status?.toLowerCase() === 'deleted') {
+        return res.status(403).json({ message: "Cannot email deleted invoices" });
+      }
+      
+      if (invoice.status !== 'Processed') {
+        return res.status(400).json({ message: "Can only email processed invoices" });
+      }
+      
+      if (!invoice.customerEmail) {
+        return res.status(400).json({ message: "Customer email is required to send invoice" });
+      }
+      
+      // Rendered and sent by a job worker; the page follows the job for the outcome
+      const job = await enqueueJob('invoice_email', { invoiceId: invoice.id }, { createdBy: req.user.id, targetId: invoice.id });
+      
+      res.status(202).json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error queueing email:", error);
+      res.status(500).json({ message: "Failed to send email" });
+    }
+  });
+
+  app.post("/api/invoices/:id/whatsapp", isAuthenticated, async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoiceWithItems(req.params.id);
       if (!invoice) {
         return res.status(404).json({ message: "Invoice not found" });
       }
       
-      if (invoice.status?.toLowerCase() === 'deleted') {
-        return res.status(403).json({ message: "Cannot generate PDF for deleted invoices" });
+      if (invoice.status?.toLowerCase() === 'deleted') {
+        return res.status(403).json({ message: "Cannot send deleted invoices via WhatsApp" });
+      }
+      
+      if (invoice.status !== 'Processed') {
+        return res.status(400).json({ message: "Can only send processed invoices via WhatsApp" });
+      }
+      
+      if (!invoice.customerPhone) {
+        return res.status(400).json({ message: "Customer phone number is required for WhatsApp" });
+      }
+      
+      const job = await enqueueJob('invoice_whatsapp', { invoiceId: invoice.id }, { createdBy: req.user.id, targetId: invoice.id });
+      
+      res.status(202).json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error queueing WhatsApp message:", error);
+      res.status(500).json({ message: "Failed to send WhatsApp message" });
+    }
+  });
+
+  // Quotation routes
+  app.get("/api/quotations", isAuthenticated, async (req, res) => {
+    try {
+      const { page = "1", limit = "20", search, status } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const result = await storage.getAllQuotations({
+        limit: parseInt(limit as string),
+        offset,
+        search: search as string,
+        status: status as string
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching quotations:", error);
+      res.status(500).json({ message: "Failed to fetch quotations" });
+    }
+  });
+
+  app.get("/api/quotations/:id", isAuthenticated, async (req, res) => {
+    try {
+      const quotation = await storage.getQuotationWithItems(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Quotation not found" });
+      }
+      res.json(quotation);
+    } catch (error) {
+      console.error("Error fetching quotation:", error);
+      res.status(500).json({ message: "Failed to fetch quotation" });
+    }
+  });
+
+  app.post("/api/quotations", isAuthenticated, async (req: any, res) => {
+    try {
+      const { quotation: quotationData, items: itemsData } = req.body;
+      
+      const validatedQuotation = insertQuotationSchema.parse({
+        ...quotationData,
+        createdBy: req.user.id
+      });
+      
+      const validatedItems = z.array(insertQuotationItemSchema).min(1, "Add at least one item").parse(itemsData);
+      
+      if (validatedQuotation.customerId) {
+        const customer = await storage.getCustomer(validatedQuotation.customerId);
+        if (!customer || !customer.isActive) {
+          return res.status(400).json({ message: "Customer not found" });
+        }
+      }
+      
+      for (const item of validatedItems) {
+        const variantError = await validateItemVariant(item.productId, item.variantId);
+        if (variantError) {
+          return res.status(400).json({ message: variantError });
+        }
+      }
+      
+      const quotation = await storage.createQuotation(validatedQuotation, validatedItems);
+      
+      await logActivity(req, `Created quotation ${quotation.quotationNumber}`, 'Invoices', quotation.id, quotation.quotationNumber, {
+        total: quotation.total,
+        currency: quotation.currency,
+        validUntil: quotation.validUntil
+      });
+      
+      res.status(201).json(quotation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quotation data", errors: error.errors });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating quotation:", error);
+      res.status(500).json({ message: "Failed to create quotation" });
+    }
+  });
+
+  app.post("/api/quotations/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const quotation = await storage.getQuotationWithItems(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Quotation not found" });
+      }
+      
+      const pdfBuffer = await generateQuotationPDF(quotation, quotation.items, await settingsService.getCompanyProfile());
+      
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="quotation-${quotation.quotationNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length,
+      });
+      
+      res.send(pdfBuffer);
+    } catch (error) {
+      console.error("Error generating quotation PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
+    }
+  });
+
+  app.post("/api/quotations/:id/email", isAuthenticated, async (req: any, res) => {
+    try {
+      const quotation = await storage.getQuotationWithItems(req.params.id);
+      if (!quotation) {
+        return res.status(404).json({ message: "Quotation not found" });
+      }
+      
+      if (quotation.status === 'Converted' || quotation.status === 'Cancelled') {
+        return res.status(400).json({ message: `Cannot email a ${quotation.status.toLowerCase()} quotation` });
+      }
+      
+      if (!quotation.customerEmail) {
+        return res.status(400).json({ message: "Customer email is required to send quotation" });
+      }
+      
+      const pdfBuffer = await generateQuotationPDF(quotation, quotation.items, await settingsService.getCompanyProfile());
+      
+      const transporter = createEmailTransporter();
+      const { from, companyName, signature } = await settingsService.emailIdentity();
+      
+      await transporter.sendMail({
+        from,
+        to: quotation.customerEmail,
+        subject: `Quotation ${quotation.quotationNumber} - ${companyName}`,
+        html: `
+          <h2>Your Quotation</h2>
+          <p>Dear ${quotation.customerName},</p>
+          <p>Please find quotation ${quotation.quotationNumber} attached.</p>
+          <p>Total Amount: ${formatMoney(quotation.total, quotation.currency)}</p>
+          <p>This quotation is valid until ${new Date(quotation.validUntil).toLocaleDateString()}.</p>
+          <p>Best regards,<br>${signature}</p>
+        `,
+        attachments: [
+          {
+            filename: `quotation-${quotation.quotationNumber}.pdf`,
+            content: pdfBuffer,
+            contentType: 'application/pdf'
+          }
+        ]
+      });
+      
+      const updated = await storage.markQuotationSent(quotation.id);
+      
+      await logActivity(req, `Sent quotation ${quotation.quotationNumber} via email to ${quotation.customerEmail}`, 'Invoices', quotation.id, quotation.quotationNumber);
+      
+      res.json(updated);
+    } catch (error) {
+      console.error("Error sending quotation email:", error);
+      res.status(500).json({ message: "Failed to send email" });
+    }
+  });
+
+  app.post("/api/quotations/:id/convert", isAuthenticated, async (req: any, res) => {
+    try {
+      const { quotation, invoice } = await storage.convertQuotationToInvoice(req.params.id, req.user.id);
+      
+      await logActivity(req, `Converted quotation ${quotation.quotationNumber} to invoice ${invoice.invoiceNumber}`, 'Invoices', invoice.id, invoice.invoiceNumber, {
+        quotationId: quotation.id,
+        quotationNumber: quotation.quotationNumber,
+        total: invoice.total
+      });
+      
+      res.status(201).json({ quotation, invoice });
+    } catch (error) {
+      if (error instanceof InsufficientStockError) {
+        return res.status(409).json({ message: "Insufficient stock for one or more items", shortages: error.shortages });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error converting quotation:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to convert quotation" });
+    }
+  });
+
+  app.post("/api/quotations/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const quotation = await storage.cancelQuotation(req.params.id);
+      
+      await logActivity(req, `Cancelled quotation ${quotation.quotationNumber}`, 'Invoices', quotation.id, quotation.quotationNumber);
+      
+      res.json(quotation);
+    } catch (error) {
+      console.error("Error cancelling quotation:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to cancel quotation" });
+    }
+  });
+
+  // Tax configuration routes
+  app.get("/api/tax-rates", isAuthenticated, async (req, res) => {
+    try {
+      const result = await storage.getTaxRates();
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      res.status(500).json({ message: "Failed to fetch tax rates" });
+    }
+  });
+
+  app.post("/api/tax-rates", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage tax rates" });
+      }
+      
+      const validatedTaxRate = insertTaxRateSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      const taxRate = await storage.createTaxRate(validatedTaxRate);
+      
+      await logActivity(req, `Created tax rate "${taxRate.name}" at ${formatTaxRate(taxRate.rate)}`, 'System', taxRate.id, taxRate.name);
+      
+      res.status(201).json(taxRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate data", errors: error.errors });
+      }
+      console.error("Error creating tax rate:", error);
+      res.status(500).json({ message: "Failed to create tax rate" });
+    }
+  });
+
+  app.put("/api/tax-rates/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage tax rates" });
+      }
+      
+      const existing = await storage.getTaxRate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Tax rate not found" });
+      }
+      
+      const updates = insertTaxRateSchema.omit({ createdBy: true }).partial().parse(req.body);
+      const taxRate = await storage.updateTaxRate(req.params.id, updates);
+      
+      await logActivity(req, `Updated tax rate "${taxRate.name}"`, 'System', taxRate.id, taxRate.name, {
+        previous: { rate: existing.rate, isDefault: existing.isDefault, isActive: existing.isActive },
+        current: { rate: taxRate.rate, isDefault: taxRate.isDefault, isActive: taxRate.isActive }
+      });
+      
+      res.json(taxRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax rate data", errors: error.errors });
+      }
+      console.error("Error updating tax rate:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update tax rate" });
+    }
+  });
+
+  app.put("/api/tax-rates/categories/:category", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage tax rates" });
+      }
+      
+      const { taxRateId } = z.object({ taxRateId: z.string().nullable() }).parse(req.body);
+      if (taxRateId) {
+        const taxRate = await storage.getTaxRate(taxRateId);
+        if (!taxRate || !taxRate.isActive) {
+          return res.status(400).json({ message: "Tax rate not found" });
+        }
+      }
+      
+      const categoryTaxRate = await storage.setCategoryTaxRate(req.params.category, taxRateId);
+      
+      await logActivity(req, `Set tax class for category "${req.params.category}"`, 'System', undefined, req.params.category, { taxRateId });
+      
+      res.json(categoryTaxRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid tax class", errors: error.errors });
+      }
+      console.error("Error setting category tax rate:", error);
+      res.status(500).json({ message: "Failed to set category tax rate" });
+    }
+  });
+
+  // Exchange rate routes
+  app.get("/api/exchange-rates", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getExchangeRates());
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  // Rates are never edited in place; a correction is a new rate with its own effective date
+  app.post("/api/exchange-rates", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage exchange rates" });
+      }
+
+      const validatedRate = insertExchangeRateSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      const exchangeRate = await storage.createExchangeRate(validatedRate);
+
+      await logActivity(req, `Set ${exchangeRate.currency} exchange rate to ${exchangeRate.rate} from ${exchangeRate.effectiveFrom.toLocaleDateString()}`, 'System', exchangeRate.id, exchangeRate.currency);
+
+      res.status(201).json(exchangeRate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid exchange rate data", errors: error.errors });
+      }
+      console.error("Error creating exchange rate:", error);
+      res.status(500).json({ message: "Failed to create exchange rate" });
+    }
+  });
+
+  // Document numbering routes
+  app.get("/api/number-sequences", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage document numbering" });
+      }
+
+      res.json(await storage.getNumberSequences());
+    } catch (error) {
+      console.error("Error fetching number sequences:", error);
+      res.status(500).json({ message: "Failed to fetch number sequences" });
+    }
+  });
+
+  app.put("/api/number-sequences/:series", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can manage document numbering" });
+      }
+
+      const series = z.enum(numberingSeries).parse(req.params.series);
+      const settings = numberSequenceSettingsSchema.parse(req.body);
+      const sequence = await storage.updateNumberSequence(series, settings, req.user.id);
+
+      await logActivity(req, `Updated ${numberingSeriesLabels[series].toLowerCase()} numbering to "${sequence.format}"`, 'System', series, numberingSeriesLabels[series], {
+        format: sequence.format,
+        resetYearly: sequence.resetYearly,
+        nextValue: settings.nextValue
+      });
+
+      res.json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid numbering settings", errors: error.errors });
+      }
+      console.error("Error updating number sequence:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update number sequence" });
+    }
+  });
+
+  // Company profile routes; anyone signed in can read it, since it is printed on their documents
+  app.get("/api/company-profile", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await settingsService.getCompanyProfile());
+    } catch (error) {
+      console.error("Error fetching company profile:", error);
+      res.status(500).json({ message: "Failed to fetch company profile" });
+    }
+  });
+
+  app.put("/api/company-profile", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can edit the company profile" });
+      }
+
+      const settings = companyProfileSchema.parse(req.body);
+      const profile = await settingsService.updateCompanyProfile(settings, req.user.id);
+
+      await logActivity(req, `Updated company profile for "${profile.companyName}"`, 'System', profile.id, profile.companyName, {
+        invoiceTemplate: profile.invoiceTemplate,
+        showProductImages: profile.showProductImages
+      });
+
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid company profile", errors: error.errors });
+      }
+      console.error("Error updating company profile:", error);
+      res.status(500).json({ message: "Failed to update company profile" });
+    }
+  });
+
+  app.put("/api/company-profile/logo", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can edit the company profile" });
+      }
+
+      const { logoUrl } = z.object({ logoUrl: z.string().min(1).nullable() }).parse(req.body);
+      let logoPath: string | null = null;
+      if (logoUrl) {
+        // The logo appears on documents sent to customers, so it is readable by anyone with the link
+        const objectStorageService = new ObjectStorageService();
+        logoPath = await objectStorageService.trySetObjectEntityAclPolicy(logoUrl, {
+          owner: req.user.id,
+          visibility: 'public'
+        });
+      }
+      const profile = await settingsService.setCompanyLogo(logoPath, req.user.id);
+
+      await logActivity(req, logoPath ? 'Updated company logo' : 'Removed company logo', 'System', profile.id, profile.companyName, { logoPath });
+
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid logo", errors: error.errors });
+      }
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ message: "Uploaded logo not found" });
+      }
+      console.error("Error updating company logo:", error);
+      res.status(500).json({ message: "Failed to update company logo" });
+    }
+  });
+
+  // Settings routes; readable by everyone signed in since forms and the dashboard use them
+  app.get("/api/settings", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await settingsService.getSettings());
+    } catch (error) {
+      console.error("Error fetching settings:", error);
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (user?.role !== 'Admin') {
+        return res.status(403).json({ message: "Only admins can change settings" });
+      }
+
+      const changes = updateSettingsSchema.parse(req.body);
+      const updated = await settingsService.updateSettings(changes, req.user.id);
+
+      await logActivity(req, `Updated settings: ${Object.keys(changes).join(', ')}`, 'System', undefined, undefined, changes);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      console.error("Error updating settings:", error);
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Recurring invoice routes
+  app.get("/api/recurring-invoices", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getRecurringInvoices());
+    } catch (error) {
+      console.error("Error fetching recurring invoices:", error);
+      res.status(500).json({ message: "Failed to fetch recurring invoices" });
+    }
+  });
+
+  app.get("/api/recurring-invoices/:id", isAuthenticated, async (req, res) => {
+    try {
+      const schedule = await storage.getRecurringInvoice(req.params.id);
+      if (!schedule) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error fetching recurring invoice:", error);
+      res.status(500).json({ message: "Failed to fetch recurring invoice" });
+    }
+  });
+
+  app.post("/api/recurring-invoices", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage recurring invoices" });
+      }
+
+      const schedule = insertRecurringInvoiceSchema.parse({ ...req.body.schedule, createdBy: req.user.id });
+      const items = z.array(insertRecurringInvoiceItemSchema).parse(req.body.items || []);
+      const validationError = await validateRecurringInvoice(schedule.customerId, items);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const created = await storage.createRecurringInvoice(schedule, items);
+
+      await logActivity(req, `Created recurring invoice "${created.name}"`, 'Invoices', created.id, created.name, {
+        interval: describeRecurringInterval(created.interval, created.intervalCount),
+        nextRunAt: created.nextRunAt,
+        autoEmail: created.autoEmail
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurring invoice", errors: error.errors });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating recurring invoice:", error);
+      res.status(500).json({ message: "Failed to create recurring invoice" });
+    }
+  });
+
+  app.put("/api/recurring-invoices/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage recurring invoices" });
+      }
+
+      const existing = await storage.getRecurringInvoice(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      // Generated invoices stay attributed to whoever set the schedule up
+      const schedule = insertRecurringInvoiceSchema.parse({ ...req.body.schedule, createdBy: existing.createdBy });
+      const items = z.array(insertRecurringInvoiceItemSchema).parse(req.body.items || []);
+      const validationError = await validateRecurringInvoice(schedule.customerId, items);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const updated = await storage.updateRecurringInvoice(req.params.id, schedule, items);
+
+      await logActivity(req, `Updated recurring invoice "${updated.name}"`, 'Invoices', updated.id, updated.name, {
+        interval: describeRecurringInterval(updated.interval, updated.intervalCount),
+        nextRunAt: updated.nextRunAt,
+        itemCount: items.length
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurring invoice", errors: error.errors });
+      }
+      if (error instanceof MissingExchangeRateError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error updating recurring invoice:", error);
+      res.status(500).json({ message: "Failed to update recurring invoice" });
+    }
+  });
+
+  app.put("/api/recurring-invoices/:id/active", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage recurring invoices" });
+      }
+
+      const { isActive } = z.object({ isActive: z.boolean() }).parse(req.body);
+      const existing = await storage.getRecurringInvoice(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const updated = await storage.setRecurringInvoiceActive(req.params.id, isActive);
+
+      await logActivity(req, `${isActive ? 'Resumed' : 'Paused'} recurring invoice "${updated.name}"`, 'Invoices', updated.id, updated.name);
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      console.error("Error updating recurring invoice:", error);
+      res.status(500).json({ message: "Failed to update recurring invoice" });
+    }
+  });
+
+  // Price list routes
+  app.get("/api/price-lists", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getPriceLists());
+    } catch (error) {
+      console.error("Error fetching price lists:", error);
+      res.status(500).json({ message: "Failed to fetch price lists" });
+    }
+  });
+
+  app.get("/api/price-lists/:id", isAuthenticated, async (req, res) => {
+    try {
+      const priceList = await storage.getPriceList(req.params.id);
+      if (!priceList) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      res.json(priceList);
+    } catch (error) {
+      console.error("Error fetching price list:", error);
+      res.status(500).json({ message: "Failed to fetch price list" });
+    }
+  });
+
+  app.post("/api/price-lists", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage price lists" });
+      }
+
+      const validatedPriceList = insertPriceListSchema.parse(req.body);
+      const priceList = await storage.createPriceList(validatedPriceList);
+
+      await logActivity(req, `Created price list "${priceList.name}"`, 'Customers', priceList.id, priceList.name);
+
+      res.status(201).json(priceList);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price list data", errors: error.errors });
+      }
+      console.error("Error creating price list:", error);
+      res.status(500).json({ message: "Failed to create price list" });
+    }
+  });
+
+  app.put("/api/price-lists/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage price lists" });
+      }
+
+      const existing = await storage.getPriceList(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      const updates = insertPriceListSchema.partial().parse(req.body);
+      const priceList = await storage.updatePriceList(req.params.id, updates);
+
+      await logActivity(req, `Updated price list "${priceList.name}"`, 'Customers', priceList.id, priceList.name, {
+        previous: { name: existing.name, isActive: existing.isActive },
+        current: { name: priceList.name, isActive: priceList.isActive }
+      });
+
+      res.json(priceList);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price list data", errors: error.errors });
+      }
+      console.error("Error updating price list:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update price list" });
+    }
+  });
+
+  app.put("/api/price-lists/:id/prices/:productId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage price lists" });
+      }
+
+      const [priceList, product] = await Promise.all([
+        storage.getPriceList(req.params.id),
+        storage.getProduct(req.params.productId)
+      ]);
+      if (!priceList) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const { price } = priceListPriceSchema.parse(req.body);
+      const item = await storage.setPriceListPrice(priceList.id, product.id, price);
+
+      await logActivity(req, `Set ${product.productName} to ${price} on price list "${priceList.name}"`, 'Products', product.id, product.productName, {
+        priceListId: priceList.id,
+        price
+      });
+
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid price", errors: error.errors });
+      }
+      console.error("Error setting price list price:", error);
+      res.status(500).json({ message: "Failed to set price" });
+    }
+  });
+
+  app.delete("/api/price-lists/:id/prices/:productId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage price lists" });
+      }
+
+      const priceList = await storage.getPriceList(req.params.id);
+      if (!priceList) {
+        return res.status(404).json({ message: "Price list not found" });
+      }
+
+      await storage.removePriceListPrice(priceList.id, req.params.productId);
+
+      const product = priceList.items.find(item => item.productId === req.params.productId)?.product;
+      await logActivity(req, `Removed ${product?.productName || 'product'} from price list "${priceList.name}"`, 'Products', req.params.productId, product?.productName, {
+        priceListId: priceList.id
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing price list price:", error);
+      res.status(500).json({ message: "Failed to remove price" });
+    }
+  });
+
+  // Promotion routes
+  app.get("/api/promotions", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getPromotions());
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      res.status(500).json({ message: "Failed to fetch promotions" });
+    }
+  });
+
+  app.post("/api/promotions", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage promotions" });
+      }
+
+      const validatedPromotion = createPromotionSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      if (validatedPromotion.scope === 'product' && !await storage.getProductByProductId(validatedPromotion.scopeValue || '')) {
+        return res.status(400).json({ message: `Product ${validatedPromotion.scopeValue} not found` });
+      }
+      if (validatedPromotion.code && await storage.getPromotionByCode(validatedPromotion.code)) {
+        return res.status(400).json({ message: "Another promotion already uses that coupon code" });
+      }
+      const promotion = await storage.createPromotion(validatedPromotion);
+
+      await logActivity(req, `Created promotion "${promotion.name}"`, 'Invoices', promotion.id, promotion.name, {
+        type: promotion.type,
+        scope: promotion.scope,
+        scopeValue: promotion.scopeValue,
+        value: promotion.value,
+        code: promotion.code
+      });
+
+      res.status(201).json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      console.error("Error creating promotion:", error);
+      res.status(500).json({ message: "Failed to create promotion" });
+    }
+  });
+
+  app.put("/api/promotions/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage promotions" });
+      }
+
+      const existing = await storage.getPromotion(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Promotion not found" });
+      }
+
+      // Rules are checked against the promotion as it will be saved, not just the fields sent
+      const updates = updatePromotionSchema.parse(req.body);
+      createPromotionSchema.parse({ ...existing, ...updates });
+      if (updates.scopeValue && (updates.scope || existing.scope) === 'product' && !await storage.getProductByProductId(updates.scopeValue)) {
+        return res.status(400).json({ message: `Product ${updates.scopeValue} not found` });
+      }
+      if (updates.code && updates.code !== existing.code && await storage.getPromotionByCode(updates.code)) {
+        return res.status(400).json({ message: "Another promotion already uses that coupon code" });
+      }
+      const promotion = await storage.updatePromotion(existing.id, updates);
+
+      await logActivity(req, `Updated promotion "${promotion.name}"`, 'Invoices', promotion.id, promotion.name, {
+        previous: { value: existing.value, isActive: existing.isActive, startsAt: existing.startsAt, endsAt: existing.endsAt },
+        current: { value: promotion.value, isActive: promotion.isActive, startsAt: promotion.startsAt, endsAt: promotion.endsAt }
+      });
+
+      res.json(promotion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid promotion data", errors: error.errors });
+      }
+      console.error("Error updating promotion:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update promotion" });
+    }
+  });
+
+  // Customer routes
+  app.get("/api/customers", isAuthenticated, async (req, res) => {
+    try {
+      const { page = "1", limit = "20", search, includeInactive } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const result = await storage.getAllCustomers({
+        limit: parseInt(limit as string),
+        offset,
+        search: search as string,
+        includeInactive: includeInactive === 'true'
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+
+  app.get("/api/customers/:id", isAuthenticated, async (req, res) => {
+    try {
+      const customer = await storage.getCustomerWithHistory(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(customer);
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+
+  // Used to preview line prices while building an invoice; the server resolves them again on save
+  app.get("/api/customers/:id/prices", isAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getCustomerPrices(req.params.id));
+    } catch (error) {
+      console.error("Error fetching customer prices:", error);
+      res.status(500).json({ message: "Failed to fetch customer prices" });
+    }
+  });
+
+  app.post("/api/customers", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager', 'Staff'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage customers" });
+      }
+      
+      const validatedCustomer = insertCustomerSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      
+      const customer = await storage.createCustomer(validatedCustomer);
+      
+      await logActivity(req, `Created customer "${customer.name}"`, 'Customers', customer.id, customer.name);
+      
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      }
+      console.error("Error creating customer:", error);
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  app.put("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager', 'Staff'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage customers" });
       }
       
-      if (invoice.status !== 'Processed') {
-        return res.status(400).json({ message: "Can only generate PDF for processed invoices" });
+      const existing = await storage.getCustomer(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
       }
       
-      const pdfBuffer = await generateInvoicePDF(invoice, invoice.items);
+      const updates = insertCustomerSchema.partial().parse(req.body);
+      const customer = await storage.updateCustomer(req.params.id, updates);
       
-      res.set({
-        'Content-Type': 'application/pdf',
-        'Content-Disposition': `attachment; filename="invoice-${invoice.invoiceNumber}.pdf"`,
-        'Content-Length': pdfBuffer.length,
+      await logActivity(req, `Updated customer "${customer.name}"`, 'Customers', customer.id, customer.name);
+      
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid customer data", errors: error.errors });
+      }
+      console.error("Error updating customer:", error);
+      res.status(500).json({ message: "Failed to update customer" });
+    }
+  });
+
+  app.delete("/api/customers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to delete customers" });
+      }
+      
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      await storage.deleteCustomer(req.params.id);
+      
+      await logActivity(req, `Deleted customer "${customer.name}"`, 'Customers', customer.id, customer.name);
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      res.status(500).json({ message: "Failed to delete customer" });
+    }
+  });
+
+  app.post("/api/customers/link-invoices", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to link invoices to customers" });
+      }
+      
+      const result = await storage.linkInvoicesToCustomers();
+      
+      if (result.invoiceCount > 0) {
+        await logActivity(req, `Linked ${result.invoiceCount} invoices to ${result.customerCount} customers by phone number`, 'Customers', undefined, undefined, result);
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error linking invoices to customers:", error);
+      res.status(500).json({ message: "Failed to link invoices to customers" });
+    }
+  });
+
+  // Supplier routes
+  app.get("/api/suppliers", isAuthenticated, async (req, res) => {
+    try {
+      const { search, includeInactive } = req.query;
+      const suppliers = await storage.getAllSuppliers({
+        search: search as string,
+        includeInactive: includeInactive === 'true'
+      });
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.get("/api/suppliers/:id", isAuthenticated, async (req, res) => {
+    try {
+      const supplier = await storage.getSupplier(req.params.id);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error fetching supplier:", error);
+      res.status(500).json({ message: "Failed to fetch supplier" });
+    }
+  });
+
+  app.post("/api/suppliers", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage suppliers" });
+      }
+      
+      const validatedSupplier = insertSupplierSchema.parse({
+        ...req.body,
+        createdBy: req.user.id
       });
       
-      res.send(pdfBuffer);
+      const supplier = await storage.createSupplier(validatedSupplier);
+      
+      await logActivity(req, `Created supplier "${supplier.name}"`, 'Purchasing', supplier.id, supplier.name);
+      
+      res.status(201).json(supplier);
     } catch (error) {
-      console.error("Error generating PDF:", error);
-      res.status(500).json({ message: "Failed to generate PDF" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
+      }
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
     }
   });
 
-  app.post("/api/invoices/:id/email", isAuthenticated, async (req: any, res) => {
+  app.put("/api/suppliers/:id", isAuthenticated, async (req: any, res) => {
     try {
-      const invoice = await storage.getInvoiceWithItems(req.params.id);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to manage suppliers" });
       }
       
-      if (invoice.status?.toLowerCase() === 'deleted') {
-        return res.status(403).json({ message: "Cannot email deleted invoices" });
+      const existing = await storage.getSupplier(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Supplier not found" });
       }
       
-      if (invoice.status !== 'Processed') {
-        return res.status(400).json({ message: "Can only email processed invoices" });
+      const updates = insertSupplierSchema.partial().parse(req.body);
+      const supplier = await storage.updateSupplier(req.params.id, updates);
+      
+      await logActivity(req, `Updated supplier "${supplier.name}"`, 'Purchasing', supplier.id, supplier.name);
+      
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid supplier data", errors: error.errors });
       }
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  // Purchase order routes
+  app.get("/api/purchase-orders", isAuthenticated, async (req, res) => {
+    try {
+      const { page = "1", limit = "20", status, supplierId } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
       
-      if (!invoice.customerEmail) {
-        return res.status(400).json({ message: "Customer email is required to send invoice" });
+      const result = await storage.getAllPurchaseOrders({
+        limit: parseInt(limit as string),
+        offset,
+        status: status as string,
+        supplierId: supplierId as string
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", isAuthenticated, async (req, res) => {
+    try {
+      const purchaseOrder = await storage.getPurchaseOrderWithItems(req.params.id);
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(purchaseOrder);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to create purchase orders" });
       }
       
-      const pdfBuffer = await generateInvoicePDF(invoice, invoice.items);
+      const { purchaseOrder: purchaseOrderData, items: itemsData } = req.body;
       
-      const transporter = createEmailTransporter();
+      const validatedPurchaseOrder = insertPurchaseOrderSchema.parse({
+        ...purchaseOrderData,
+        createdBy: req.user.id
+      });
       
-      await transporter.sendMail({
-        from: process.env.EMAIL_USER || 'noreply@fashionhub.com',
-        to: invoice.customerEmail,
-        subject: `Invoice ${invoice.invoiceNumber} - FashionHub`,
-        html: `
-          <h2>Your Invoice is Ready</h2>
-          <p>Dear ${invoice.customerName},</p>
-          <p>Please find your invoice ${invoice.invoiceNumber} attached.</p>
-          <p>Total Amount: $${parseFloat(invoice.total).toFixed(2)}</p>
-          <p>Thank you for your business!</p>
-          <p>Best regards,<br>FashionHub Team</p>
-        `,
-        attachments: [
-          {
-            filename: `invoice-${invoice.invoiceNumber}.pdf`,
-            content: pdfBuffer,
-            contentType: 'application/pdf'
-          }
-        ]
+      const validatedItems = z.array(insertPurchaseOrderItemSchema.extend({
+        quantityOrdered: z.number().int().min(1)
+      })).min(1, "At least one line is required").parse(itemsData);
+      
+      const supplier = await storage.getSupplier(validatedPurchaseOrder.supplierId);
+      if (!supplier) {
+        return res.status(400).json({ message: "Supplier not found" });
+      }
+      
+      for (const item of validatedItems) {
+        const variantError = await validateItemVariant(item.productId, item.variantId);
+        if (variantError) {
+          return res.status(400).json({ message: variantError });
+        }
+      }
+      
+      const purchaseOrder = await storage.createPurchaseOrder(validatedPurchaseOrder, validatedItems);
+      
+      await logActivity(req, `Created purchase order ${purchaseOrder.poNumber} for ${supplier.name}`, 'Purchasing', purchaseOrder.id, purchaseOrder.poNumber);
+      
+      res.status(201).json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid purchase order data", errors: error.errors });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  app.put("/api/purchase-orders/:id/status", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to update purchase orders" });
+      }
+      
+      const { status } = z.object({ status: z.enum(['Ordered', 'Cancelled']) }).parse(req.body);
+      
+      const existing = await storage.getPurchaseOrder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      
+      const purchaseOrder = await storage.updatePurchaseOrderStatus(req.params.id, status);
+      
+      await logActivity(req, `Marked purchase order ${purchaseOrder.poNumber} as ${status}`, 'Purchasing', purchaseOrder.id, purchaseOrder.poNumber);
+      
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status. Only 'Ordered' and 'Cancelled' are allowed", errors: error.errors });
+      }
+      console.error("Error updating purchase order status:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update purchase order status" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to receive goods" });
+      }
+      
+      const { receipts } = z.object({
+        receipts: z.array(z.object({
+          itemId: z.string(),
+          quantity: z.number().int().min(0)
+        })).min(1)
+      }).parse(req.body);
+      
+      const existing = await storage.getPurchaseOrder(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      
+      const purchaseOrder = await storage.receivePurchaseOrder(req.params.id, receipts, req.user.id);
+      const unitsReceived = receipts.reduce((sum, receipt) => sum + receipt.quantity, 0);
+      
+      await logActivity(req, `Received ${unitsReceived} units against purchase order ${purchaseOrder.poNumber}`, 'Purchasing', purchaseOrder.id, purchaseOrder.poNumber, {
+        receipts: receipts.filter(receipt => receipt.quantity > 0),
+        status: purchaseOrder.status
       });
       
-      await logActivity(req, `Sent invoice ${invoice.invoiceNumber} via email to ${invoice.customerEmail}`, 'Invoices', invoice.id, invoice.invoiceNumber);
+      res.json(purchaseOrder);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid receipt data", errors: error.errors });
+      }
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to receive purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/pdf", isAuthenticated, async (req: any, res) => {
+    try {
+      const purchaseOrder = await storage.getPurchaseOrderWithItems(req.params.id);
+      if (!purchaseOrder) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      
+      const pdfBuffer = await generatePurchaseOrderPDF(purchaseOrder, purchaseOrder.supplier, purchaseOrder.items, await settingsService.getCompanyProfile());
+      
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="purchase-order-${purchaseOrder.poNumber}.pdf"`,
+        'Content-Length': pdfBuffer.length,
+      });
       
-      res.json({ message: "Email sent successfully" });
+      res.send(pdfBuffer);
     } catch (error) {
-      console.error("Error sending email:", error);
-      res.status(500).json({ message: "Failed to send email" });
+      console.error("Error generating purchase order PDF:", error);
+      res.status(500).json({ message: "Failed to generate PDF" });
     }
   });
 
-  app.post("/api/invoices/:id/whatsapp", isAuthenticated, async (req: any, res) => {
+  // Stock take routes
+  app.get("/api/stock-takes", isAuthenticated, async (req, res) => {
     try {
-      const invoice = await storage.getInvoiceWithItems(req.params.id);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const { page = "1", limit = "20", status } = req.query;
+      const offset = (parseInt(page as string) - 1) * parseInt(limit as string);
+      
+      const result = await storage.getAllStockTakes({
+        limit: parseInt(limit as string),
+        offset,
+        status: status as string
+      });
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error fetching stock takes:", error);
+      res.status(500).json({ message: "Failed to fetch stock takes" });
+    }
+  });
+
+  app.get("/api/stock-takes/scopes", isAuthenticated, async (req, res) => {
+    try {
+      const scopes = await storage.getStockTakeScopes();
+      res.json(scopes);
+    } catch (error) {
+      console.error("Error fetching stock take scopes:", error);
+      res.status(500).json({ message: "Failed to fetch stock take scopes" });
+    }
+  });
+
+  app.get("/api/stock-takes/:id", isAuthenticated, async (req, res) => {
+    try {
+      const stockTake = await storage.getStockTakeWithLines(req.params.id);
+      if (!stockTake) {
+        return res.status(404).json({ message: "Stock take not found" });
+      }
+      res.json(stockTake);
+    } catch (error) {
+      console.error("Error fetching stock take:", error);
+      res.status(500).json({ message: "Failed to fetch stock take" });
+    }
+  });
+
+  app.post("/api/stock-takes", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager', 'Staff'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to start a stock take" });
       }
       
-      if (invoice.status?.toLowerCase() === 'deleted') {
-        return res.status(403).json({ message: "Cannot send deleted invoices via WhatsApp" });
+      const validatedStockTake = insertStockTakeSchema.extend({
+        scopeValue: z.string().trim().min(1, "Choose a category or manufacturer to count")
+      }).parse({
+        ...req.body,
+        createdBy: req.user.id
+      });
+      
+      const stockTake = await storage.createStockTake(validatedStockTake);
+      
+      await logActivity(req, `Started stock take ${stockTake.reference} for ${stockTake.scopeType} "${stockTake.scopeValue}"`, 'Inventory', stockTake.id, stockTake.reference);
+      
+      res.status(201).json(stockTake);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid stock take data", errors: error.errors });
+      }
+      console.error("Error creating stock take:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to create stock take" });
+    }
+  });
+
+  app.put("/api/stock-takes/:id/lines/:lineId", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager', 'Staff'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to record counts" });
       }
       
-      if (invoice.status !== 'Processed') {
-        return res.status(400).json({ message: "Can only send processed invoices via WhatsApp" });
+      const { countedQuantity } = z.object({
+        countedQuantity: z.number().int().min(0)
+      }).parse(req.body);
+      
+      const stockTake = await storage.recordStockTakeCount(req.params.id, req.params.lineId, countedQuantity, req.user.id);
+      res.json(stockTake);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid counted quantity", errors: error.errors });
+      }
+      console.error("Error recording stock take count:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to record count" });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/approve", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Only managers can approve stock adjustments" });
       }
       
-      if (!invoice.customerPhone) {
-        return res.status(400).json({ message: "Customer phone number is required for WhatsApp" });
+      const existing = await storage.getStockTake(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Stock take not found" });
+      }
+      
+      const { stockDeltas, ...stockTake } = await storage.approveStockTake(req.params.id, req.user.id);
+      const netAdjustment = stockDeltas.reduce((sum, delta) => sum + delta.quantity, 0);
+      
+      await logActivity(req, `Approved stock take ${stockTake.reference}: ${stockDeltas.length} line(s) adjusted, net ${netAdjustment > 0 ? '+' : ''}${netAdjustment} units`, 'Inventory', stockTake.id, stockTake.reference, {
+        scopeType: stockTake.scopeType,
+        scopeValue: stockTake.scopeValue,
+        stockDeltas
+      });
+      
+      res.json(stockTake);
+    } catch (error) {
+      console.error("Error approving stock take:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to approve stock take" });
+    }
+  });
+
+  app.post("/api/stock-takes/:id/cancel", isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!['Admin', 'Manager'].includes(user?.role || '')) {
+        return res.status(403).json({ message: "Insufficient permissions to cancel stock takes" });
       }
       
-      // For demo purposes, create a download link
-      const pdfUrl = `${process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000'}/api/invoices/${invoice.id}/pdf`;
+      const existing = await storage.getStockTake(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Stock take not found" });
+      }
       
-      await sendWhatsAppMessage(invoice.customerPhone, pdfUrl);
+      const stockTake = await storage.cancelStockTake(req.params.id);
       
-      await logActivity(req, `Sent invoice ${invoice.invoiceNumber} via WhatsApp to ${invoice.customerPhone}`, 'Invoices', invoice.id, invoice.invoiceNumber);
+      await logActivity(req, `Cancelled stock take ${stockTake.reference}`, 'Inventory', stockTake.id, stockTake.reference);
       
-      res.json({ message: "WhatsApp message sent successfully" });
+      res.json(stockTake);
     } catch (error) {
-      console.error("Error sending WhatsApp:", error);
-      res.status(500).json({ message: "Failed to send WhatsApp message" });
+      console.error("Error cancelling stock take:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to cancel stock take" });
     }
   });
 
@@ -1267,6 +3284,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Background jobs - readable by whoever queued them, and by Admins and Managers
+  app.get("/api/jobs/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (job.createdBy !== req.user.id) {
+        const user = await storage.getUser(req.user.id);
+        if (!['Admin', 'Manager'].includes(user?.role || '')) {
+          return res.status(404).json({ message: "Job not found" });
+        }
+      }
+      res.json(toJobSummary(job));
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ message: "Failed to fetch job" });
+    }
+  });
+
   // Activity logs
   app.get("/api/activity-logs", isAuthenticated, async (req, res) => {
     try {
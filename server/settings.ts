@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import type { CompanyProfile, CompanyProfileSettings, SettingsUpdate } from "@shared/schema";
+import type { AppSettings } from "@shared/settings";
+
+// Settings and the company profile are read on nearly every PDF, email and dashboard
+// request, so they are kept in memory for a short while. Writes made through this
+// service refresh the copy straight away.
+const CACHE_TTL_MS = 60 * 1000;
+
+type CacheEntry<T> = { value: Promise<T>; expiresAt: number };
+
+export class SettingsService {
+  private settingsCache: CacheEntry<AppSettings> | null = null;
+  private profileCache: CacheEntry<CompanyProfile> | null = null;
+
+  private cached<T>(entry: CacheEntry<T> | null, load: () => Promise<T>, store: (entry: CacheEntry<T> | null) => void): Promise<T> {
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value;
+    }
+    const value = load();
+    store({ value, expiresAt: Date.now() + CACHE_TTL_MS });
+    // Don't keep a failed load around; the next caller retries
+    value.catch(() => store(null));
+    return value;
+  }
+
+  getSettings(): Promise<AppSettings> {
+    return this.cached(this.settingsCache, () => storage.getSettings(), entry => { this.settingsCache = entry; });
+  }
+
+  getCompanyProfile(): Promise<CompanyProfile> {
+    return this.cached(this.profileCache, () => storage.getCompanyProfile(), entry => { this.profileCache = entry; });
+  }
+
+  async updateSettings(changes: SettingsUpdate, userId: string): Promise<AppSettings> {
+    const updated = await storage.updateSettings(changes, userId);
+    this.settingsCache = { value: Promise.resolve(updated), expiresAt: Date.now() + CACHE_TTL_MS };
+    return updated;
+  }
+
+  async updateCompanyProfile(profile: CompanyProfileSettings, userId: string): Promise<CompanyProfile> {
+    const updated = await storage.updateCompanyProfile(profile, userId);
+    this.profileCache = { value: Promise.resolve(updated), expiresAt: Date.now() + CACHE_TTL_MS };
+    return updated;
+  }
+
+  async setCompanyLogo(logoPath: string | null, userId: string): Promise<CompanyProfile> {
+    const updated = await storage.setCompanyLogo(logoPath, userId);
+    this.profileCache = { value: Promise.resolve(updated), expiresAt: Date.now() + CACHE_TTL_MS };
+    return updated;
+  }
+
+  // Absolute link for QR codes and messages sent outside the app
+  async publicUrl(path: string): Promise<string> {
+    const { publicBaseUrl } = await this.getSettings();
+    const base = publicBaseUrl || process.env.REPLIT_DOMAINS?.split(',')[0] || 'localhost:5000';
+    return `${base}${path}`;
+  }
+
+  // Sender and sign-off for customer-facing emails
+  async emailIdentity(): Promise<{ from: { name: string; address: string }; companyName: string; signature: string }> {
+    const [settings, profile] = await Promise.all([this.getSettings(), this.getCompanyProfile()]);
+    return {
+      from: {
+        name: settings.emailFromName || profile.companyName,
+        address: settings.emailFromAddress || process.env.EMAIL_USER || profile.email || '',
+      },
+      companyName: profile.companyName,
+      signature: settings.emailSignature || `${profile.companyName} Team`,
+    };
+  }
+}
+
+export const settingsService = new SettingsService();
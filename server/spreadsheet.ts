@@ -0,0 +1,204 @@
+import ExcelJS from "exceljs";
+import type { Response } from "express";
+import { toCsv } from "@shared/csv";
+import type { ExportFormat } from "@shared/exports";
+
+// The upload could not be opened as a workbook at all
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+// One worksheet read as a table: a header per column, then the data rows with their row numbers in the sheet
+export type SheetTable = {
+  name: string;
+  headers: string[];
+  rows: { rowNumber: number; record: string[] }[];
+};
+
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  // Excel stores dates as midnight UTC unless a time was entered
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ');
+};
+
+// Typed cell values as the text someone would have typed into a CSV: numbers without float noise,
+// dates as ISO dates, formulas as their last calculated result and rich text without its styling
+export const cellText = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number') return String(parseFloat(value.toPrecision(15)));
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return formatDate(value);
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('hyperlink' in value) return cellText(value.text);
+  if ('formula' in value || 'sharedFormula' in value) return cellText(value.result as ExcelJS.CellValue);
+  // Error values such as #N/A read as empty
+  return '';
+};
+
+const readRecord = (row: ExcelJS.Row, columnCount: number): string[] =>
+  Array.from({ length: columnCount }, (_, index) => cellText(row.getCell(index + 1).value).trim());
+
+const hasMergedCell = (row: ExcelJS.Row, columnCount: number): boolean =>
+  Array.from({ length: columnCount }, (_, index) => row.getCell(index + 1)).some(cell => cell.isMerged);
+
+// A banner such as "Spring order form": one merged cell across the sheet and nothing else in the row
+const isTitleRow = (row: ExcelJS.Row, record: string[]): boolean => {
+  const filled = record.map((text, index) => ({ text, cell: row.getCell(index + 1) })).filter(entry => entry.text);
+  return filled.length > 0
+    && filled.every(entry => entry.cell.isMerged && entry.cell.master.address === filled[0].cell.master.address);
+};
+
+const readSheet = (worksheet: ExcelJS.Worksheet): SheetTable => {
+  const columnCount = worksheet.columnCount;
+  const rows: { row: ExcelJS.Row; record: string[] }[] = [];
+  worksheet.eachRow((row) => {
+    const record = readRecord(row, columnCount);
+    if (record.some(Boolean)) {
+      rows.push({ row, record });
+    }
+  });
+
+  while (rows.length > 1 && isTitleRow(rows[0].row, rows[0].record)) {
+    rows.shift();
+  }
+  if (rows.length === 0) {
+    return { name: worksheet.name, headers: [], rows: [] };
+  }
+
+  // Merged cells in the header mean a second header row underneath, e.g. "Product" over "ID" and "Name".
+  // Merged cells read as their top-left value, so a header merged down both rows appears in each.
+  let headers = rows[0].record;
+  let dataStart = 1;
+  if (rows.length > 1 && hasMergedCell(rows[0].row, columnCount)) {
+    const subHeaders = rows[1].record;
+    headers = headers.map((top, index) => {
+      const bottom = subHeaders[index];
+      if (!bottom || bottom === top) return top;
+      return top ? `${top} ${bottom}` : bottom;
+    });
+    dataStart = 2;
+  }
+
+  return {
+    name: worksheet.name,
+    headers,
+    rows: rows.slice(dataStart).map(({ row, record }) => ({ rowNumber: row.number, record }))
+  };
+};
+
+// Reads every visible worksheet that has any content
+export async function readWorkbook(buffer: Buffer): Promise<SheetTable[]> {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new SpreadsheetError('The file is not a valid Excel (.xlsx) workbook');
+  }
+  return workbook.worksheets
+    .filter(worksheet => worksheet.state === 'visible')
+    .map(readSheet)
+    .filter(table => table.headers.length > 0);
+}
+
+export type ExportCell = string | number | Date | null;
+
+export type ExportColumn = {
+  header: string;
+  format?: 'integer' | 'decimal' | 'money' | 'date';
+  width?: number;
+};
+
+export type ExportSheet = {
+  name: string;
+  // Printed above the header, e.g. the period a report covers
+  title?: string;
+  columns: ExportColumn[];
+  rows: ExportCell[][];
+  totals?: ExportCell[];
+};
+
+const numberFormats: Record<NonNullable<ExportColumn['format']>, string> = {
+  integer: '#,##0',
+  decimal: '0.00##',
+  money: '#,##0.00',
+  date: 'yyyy-mm-dd',
+};
+
+export async function writeWorkbook(sheets: ExportSheet[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    // Sheet names are limited to 31 characters
+    const worksheet = workbook.addWorksheet(sheet.name.slice(0, 31));
+    if (sheet.title) {
+      worksheet.addRow([sheet.title]).font = { bold: true, size: 13 };
+      worksheet.addRow([]);
+    }
+
+    const headerRow = worksheet.addRow(sheet.columns.map(column => column.header));
+    headerRow.font = { bold: true };
+    worksheet.addRows(sheet.rows);
+    if (sheet.totals) {
+      worksheet.addRow(sheet.totals).font = { bold: true };
+    }
+
+    sheet.columns.forEach((column, index) => {
+      const worksheetColumn = worksheet.getColumn(index + 1);
+      worksheetColumn.width = column.width ?? Math.max(12, column.header.length + 4);
+      if (column.format) {
+        worksheetColumn.numFmt = numberFormats[column.format];
+      }
+    });
+    worksheet.views = [{ state: 'frozen', ySplit: headerRow.number }];
+    if (sheet.rows.length > 0) {
+      worksheet.autoFilter = {
+        from: { row: headerRow.number, column: 1 },
+        to: { row: headerRow.number + sheet.rows.length, column: sheet.columns.length }
+      };
+    }
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+const csvCell = (value: ExportCell) => value instanceof Date ? formatDate(value) : value;
+
+// CSV has no sheets, so each one becomes a block under its name
+export function sheetsToCsv(sheets: ExportSheet[]): string {
+  return sheets
+    .map(sheet => toCsv([
+      ...(sheets.length > 1 ? [[sheet.name]] : []),
+      ...(sheet.title ? [[sheet.title]] : []),
+      sheet.columns.map(column => column.header),
+      ...sheet.rows.map(row => row.map(csvCell)),
+      ...(sheet.totals ? [sheet.totals.map(csvCell)] : []),
+    ]))
+    .join('\r\n\r\n');
+}
+
+export const sendSpreadsheet = async (res: Response, format: ExportFormat, filename: string, sheets: ExportSheet[]) => {
+  if (format === 'csv') {
+    // The byte order mark makes Excel read the file as UTF-8
+    const csv = Buffer.from(`\ufeff${sheetsToCsv(sheets)}`, 'utf8');
+    res.set({
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${filename}.csv"`,
+      'Content-Length': csv.length,
+    });
+    res.send(csv);
+    return;
+  }
+
+  const workbook = await writeWorkbook(sheets);
+  res.set({
+    'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'Content-Disposition': `attachment; filename="${filename}.xlsx"`,
+    'Content-Length': workbook.length,
+  });
+  res.send(workbook);
+};
@@ -1,25 +1,1074 @@
 import {
   users,
   products,
+  productVariants,
   invoices,
   invoiceItems,
+  quotations,
+  quotationItems,
   activityLogs,
   passwordResetTokens,
+  stockMovements,
+  suppliers,
+  customers,
+  priceLists,
+  priceListItems,
+  promotions,
+  invoicePromotions,
+  invoiceVersions,
+  payments,
+  creditNotes,
+  creditNoteItems,
+  taxRates,
+  categoryTaxRates,
+  exchangeRates,
+  numberSequences,
+  companyProfile,
+  settings,
+  updateSettingsSchema,
+  recurringInvoices,
+  recurringInvoiceItems,
+  recurringInvoiceRuns,
+  jobs,
+  purchaseOrders,
+  purchaseOrderItems,
+  stockTakes,
+  stockTakeLines,
   type User,
+  type UserSummary,
   type UpsertUser,
   type InsertProduct,
   type Product,
+  type InsertProductVariant,
+  type ProductVariant,
+  type ProductWithVariants,
+  type ProductImportUpdate,
   type InsertInvoice,
   type Invoice,
   type InsertInvoiceItem,
   type InvoiceItem,
+  type InvoiceWithPaymentState,
+  type InvoiceItemRequest,
+  type LineDiscount,
+  type InsertPriceList,
+  type PriceList,
+  type PriceListItem,
+  type InsertPromotion,
+  type Promotion,
+  type InvoicePromotion,
+  type InvoiceVersionSnapshot,
+  type InvoiceVersionSummary,
+  type InvoiceVersionWithUser,
+  type PromotionUptake,
+  type PriceListSummary,
+  type PriceListWithItems,
+  type InsertQuotation,
+  type Quotation,
+  type InsertQuotationItem,
+  type QuotationWithItems,
+  type QuotationsResponse,
+  type PaymentStatus,
+  type InsertPayment,
+  type Payment,
+  type PaymentWithUsers,
+  type InsertCreditNote,
+  type CreditNoteLine,
+  type CreditNote,
+  type CreditNoteWithItems,
+  type CreditNotesResponse,
+  type InsertTaxRate,
+  type TaxRate,
+  type CategoryTaxRate,
+  type TaxRatesResponse,
+  type InsertExchangeRate,
+  type ExchangeRate,
+  type ExchangeRatesResponse,
+  type NumberSequence,
+  type NumberSequenceSettings,
+  type CompanyProfile,
+  type CompanyProfileSettings,
+  type SettingsUpdate,
+  type InsertRecurringInvoice,
+  type InsertRecurringInvoiceItem,
+  type RecurringInvoice,
+  type RecurringInvoiceItem,
+  type RecurringInvoiceRun,
+  type InsertJob,
+  type Job,
+  type RecurringInvoiceSummary,
+  type RecurringInvoiceWithDetails,
   type InsertActivityLog,
   type ActivityLog,
   type InsertPasswordResetToken,
   type PasswordResetToken,
+  type StockShortage,
+  type StockDelta,
+  type StockMovementReason,
+  type StockMovementWithRefs,
+  type InsertSupplier,
+  type Supplier,
+  type InsertCustomer,
+  type Customer,
+  type CustomersResponse,
+  type InvoiceCustomerBackfill,
+  type CustomerWithHistory,
+  type InsertPurchaseOrder,
+  type PurchaseOrder,
+  type InsertPurchaseOrderItem,
+  type PurchaseOrderItem,
+  type PurchaseOrderWithItems,
+  type DashboardMetrics,
+  type ReorderSuggestion,
+  type ReorderSuggestionGroup,
+  type ReorderSuggestionsResponse,
+  type InsertStockTake,
+  type StockTake,
+  type StockTakeWithLines,
+  type StockTakesResponse,
 } from "@shared/schema";
+import { resolveTaxRate, calculateInvoiceTax } from "@shared/tax";
+import { BASE_CURRENCY, toBaseCurrency, fromBaseCurrency, formatMoney } from "@shared/currency";
+import { calculateLineTotal, type LineDiscountType } from "@shared/pricing";
+import { applyPromotions, sumLineDiscounts, type AppliedPromotion } from "@shared/promotions";
+import { defaultSettings, type AppSettings } from "@shared/settings";
+import { nextRunDate } from "@shared/recurring";
+import type { InvoiceChangeType } from "@shared/invoiceVersions";
+import type { JobType } from "@shared/jobs";
+import { numberingSeries, defaultNumberFormats, formatDocumentNumber, type NumberingSeries } from "@shared/numbering";
 import { db } from "./db";
-import { eq, desc, and, ilike, count, sql, isNull, gt } from "drizzle-orm";
+import { eq, desc, and, or, ilike, count, max, sql, isNull, gt, gte, lte, inArray } from "drizzle-orm";
+
+// Transaction handle passed to helpers that must run inside db.transaction
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Builds a SKU such as "F00123-M-BLACK" from the product code and variant attributes
+export const buildVariantSku = (productCode: string, size: string, color: string): string => {
+  const normalize = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '');
+  return `${productCode.trim()}-${normalize(size)}-${normalize(color)}`;
+};
+
+// Keep products.quantity and reservedQuantity equal to the sum of its active variants, if it has any
+const syncProductStockFromVariants = async (tx: Tx, productId: string): Promise<void> => {
+  const [result] = await tx
+    .select({
+      variantCount: count(),
+      total: sql<number>`COALESCE(SUM(${productVariants.quantity}), 0)`,
+      reserved: sql<number>`COALESCE(SUM(${productVariants.reservedQuantity}), 0)`,
+    })
+    .from(productVariants)
+    .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)));
+
+  if (result.variantCount === 0) return;
+
+  await tx
+    .update(products)
+    .set({ quantity: Number(result.total), reservedQuantity: Number(result.reserved), updatedAt: new Date() })
+    .where(eq(products.id, productId));
+};
+
+// Thrown when invoice lines cannot be covered by stock; carries the per-line report
+export class InsufficientStockError extends Error {
+  constructor(public shortages: StockShortage[]) {
+    super('Insufficient stock');
+    this.name = 'InsufficientStockError';
+  }
+}
+
+// Thrown when a variant change would drop stock that pending invoices have reserved: the reservation
+// sits on the product or variant row it was made against, and would no longer add up
+export class ReservedStockError extends Error {
+  constructor(public skus: string[]) {
+    super(`Stock reserved by pending invoices can't be moved or removed: ${skus.join(', ')}`);
+    this.name = 'ReservedStockError';
+  }
+}
+
+// Thrown when an invoice is raised in a currency with no rate in force yet
+export class MissingExchangeRateError extends Error {
+  constructor(public currency: string) {
+    super(`No exchange rate for ${currency} is in effect`);
+    this.name = 'MissingExchangeRateError';
+  }
+}
+
+// Thrown when a coupon code doesn't unlock any promotion running on the invoice's date
+export class InvalidCouponError extends Error {
+  constructor(public code: string) {
+    super(`Coupon code ${code} is not valid`);
+    this.name = 'InvalidCouponError';
+  }
+}
+
+// Thrown when a processed invoice with credit notes would be reverted or deleted: the credited units
+// are already back in stock, so undoing the sale would return them twice
+export class InvoiceHasCreditNotesError extends Error {
+  constructor(public status: string) {
+    super(`Invoices with credit notes cannot be ${status === 'Deleted' ? 'deleted' : `reverted to ${status}`}`);
+    this.name = 'InvoiceHasCreditNotesError';
+  }
+}
+
+type StockLine = { productId: string; variantId: string | null; quantity: number };
+
+// Merge lines for the same product/variant so each stock row is checked and updated once
+const aggregateStockLines = (lines: StockLine[]): StockLine[] => {
+  const merged = new Map<string, StockLine>();
+  for (const line of lines) {
+    const key = line.variantId || line.productId;
+    const existing = merged.get(key);
+    if (existing) {
+      existing.quantity += line.quantity;
+    } else {
+      merged.set(key, { ...line });
+    }
+  }
+  // Stable order so concurrent transactions acquire row locks in the same sequence
+  return Array.from(merged.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, line]) => line);
+};
+
+// Lock the stock rows behind the given lines (SELECT ... FOR UPDATE) and report every line that
+// cannot be covered. 'available' counts against unreserved stock, 'onHand' against physical stock.
+const lockAndCheckStock = async (tx: Tx, lines: StockLine[], basis: 'available' | 'onHand'): Promise<StockShortage[]> => {
+  const shortages: StockShortage[] = [];
+
+  for (const line of aggregateStockLines(lines)) {
+    const [product] = await tx
+      .select()
+      .from(products)
+      .where(eq(products.id, line.productId))
+      .for('update');
+
+    let row: { quantity: number; reservedQuantity: number } | undefined = product;
+    let variant: ProductVariant | undefined;
+    if (line.variantId) {
+      [variant] = await tx
+        .select()
+        .from(productVariants)
+        .where(eq(productVariants.id, line.variantId))
+        .for('update');
+      row = variant;
+    }
+
+    const available = row
+      ? (basis === 'onHand' ? row.quantity : row.quantity - row.reservedQuantity)
+      : 0;
+
+    if (available < line.quantity) {
+      shortages.push({
+        productId: line.productId,
+        variantId: line.variantId,
+        productName: product?.productName || 'Unknown Product',
+        sku: variant?.sku || product?.productId || null,
+        requested: line.quantity,
+        available: Math.max(available, 0),
+      });
+    }
+  }
+
+  return shortages;
+};
+
+type MovementContext = {
+  reason: StockMovementReason;
+  invoiceId?: string | null;
+  purchaseOrderId?: string | null;
+  stockTakeId?: string | null;
+  creditNoteId?: string | null;
+  userId?: string | null;
+  note?: string | null;
+};
+
+// Append a ledger row for an on-hand change that has already been applied to the stock rows
+const recordStockMovement = async (tx: Tx, line: StockLine, quantity: number, context: MovementContext): Promise<void> => {
+  const [product] = await tx
+    .select({ quantity: products.quantity })
+    .from(products)
+    .where(eq(products.id, line.productId));
+
+  await tx.insert(stockMovements).values({
+    productId: line.productId,
+    variantId: line.variantId,
+    quantity,
+    balanceAfter: product?.quantity ?? 0,
+    reason: context.reason,
+    invoiceId: context.invoiceId || null,
+    purchaseOrderId: context.purchaseOrderId || null,
+    stockTakeId: context.stockTakeId || null,
+    creditNoteId: context.creditNoteId || null,
+    userId: context.userId || null,
+    note: context.note || null,
+  });
+};
+
+// Apply on-hand and reserved deltas to a product or variant row. Reservations never go below zero.
+// Every on-hand change is written to the stock movement ledger, so a reason is required for it.
+const adjustStock = async (
+  tx: Tx,
+  line: StockLine,
+  change: { onHand?: number; reserved?: number },
+  movement?: MovementContext
+): Promise<void> => {
+  const onHand = change.onHand || 0;
+  const reserved = change.reserved || 0;
+
+  if (onHand !== 0 && !movement) {
+    throw new Error('Stock movement reason is required for on-hand changes');
+  }
+
+  if (line.variantId) {
+    await tx
+      .update(productVariants)
+      .set({
+        quantity: sql`${productVariants.quantity} + ${onHand}`,
+        reservedQuantity: sql`GREATEST(${productVariants.reservedQuantity} + ${reserved}, 0)`,
+        updatedAt: new Date()
+      })
+      .where(eq(productVariants.id, line.variantId));
+
+    await syncProductStockFromVariants(tx, line.productId);
+  } else {
+    await tx
+      .update(products)
+      .set({
+        quantity: sql`${products.quantity} + ${onHand}`,
+        reservedQuantity: sql`GREATEST(${products.reservedQuantity} + ${reserved}, 0)`,
+        updatedAt: new Date()
+      })
+      .where(eq(products.id, line.productId));
+  }
+
+  if (onHand !== 0 && movement) {
+    await recordStockMovement(tx, line, onHand, movement);
+  }
+};
+
+// Inserts new products with zero stock, then books each opening quantity as an import movement
+const insertImportedProducts = async (tx: Tx, productList: InsertProduct[]): Promise<Product[]> => {
+  const created = await tx
+    .insert(products)
+    .values(productList.map(product => ({ ...product, quantity: 0 })))
+    .returning();
+
+  for (let index = 0; index < created.length; index++) {
+    const quantity = productList[index].quantity || 0;
+    if (quantity) {
+      await adjustStock(tx, toStockLine({ productId: created[index].id, quantity: 0 }), { onHand: quantity }, {
+        reason: 'import',
+        userId: created[index].createdBy,
+        note: 'Bulk import',
+      });
+    }
+  }
+
+  return await tx.select().from(products).where(inArray(products.id, created.map(product => product.id)));
+};
+
+// Reserve stock for new pending lines, failing with a shortage report if it is not available
+const reserveStock = async (tx: Tx, lines: StockLine[]): Promise<void> => {
+  const shortages = await lockAndCheckStock(tx, lines, 'available');
+  if (shortages.length > 0) {
+    throw new InsufficientStockError(shortages);
+  }
+  for (const line of aggregateStockLines(lines)) {
+    await adjustStock(tx, line, { reserved: line.quantity });
+  }
+};
+
+const releaseStock = async (tx: Tx, lines: StockLine[]): Promise<void> => {
+  for (const line of aggregateStockLines(lines)) {
+    await adjustStock(tx, line, { reserved: -line.quantity });
+  }
+};
+
+// Describe the on-hand change applied to each line (negative for deductions) for activity logs
+const buildStockDeltas = async (tx: Tx, lines: StockLine[], sign: 1 | -1): Promise<StockDelta[]> => {
+  const merged = aggregateStockLines(lines);
+  if (merged.length === 0) return [];
+
+  const productIds = Array.from(new Set(merged.map(line => line.productId)));
+  const variantIds = merged.map(line => line.variantId).filter((id): id is string => !!id);
+
+  const [productRows, variantRows] = await Promise.all([
+    tx.select().from(products).where(inArray(products.id, productIds)),
+    variantIds.length > 0
+      ? tx.select().from(productVariants).where(inArray(productVariants.id, variantIds))
+      : Promise.resolve([] as ProductVariant[]),
+  ]);
+
+  return merged.map(line => {
+    const product = productRows.find(p => p.id === line.productId);
+    const variant = variantRows.find(v => v.id === line.variantId);
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      productName: product?.productName || 'Unknown Product',
+      sku: variant?.sku || product?.productId || null,
+      quantity: sign * line.quantity,
+    };
+  });
+};
+
+const toStockLine = (item: { productId: string; variantId?: string | null; quantity: number }): StockLine => ({
+  productId: item.productId,
+  variantId: item.variantId || null,
+  quantity: item.quantity,
+});
+
+// Replaces a product's variants, booking every stock change to the ledger. The caller holds the
+// product row lock.
+const replaceProductVariants = async (tx: Tx, product: Product, variants: InsertProductVariant[], userId?: string): Promise<ProductVariant[]> => {
+  const productId = product.id;
+  const existing = await tx.select().from(productVariants).where(eq(productVariants.productId, productId));
+  const keptIds = new Set<string>();
+  const movement: MovementContext = { reason: 'adjustment', userId, note: 'Variant stock update' };
+  const skuFor = (variant: InsertProductVariant) => variant.sku || buildVariantSku(product.productId, variant.size, variant.color);
+  const findExisting = (variant: InsertProductVariant) =>
+    existing.find(e => e.sku === skuFor(variant) || (e.size === variant.size && e.color === variant.color));
+
+  // Pending invoice lines keep reserving against the product or variant row they were raised on,
+  // so a product with flat reservations can't switch to variants, nor can a reserved variant be removed
+  const switchingToVariants = variants.length > 0 && !existing.some(v => v.isActive);
+  const matchedIds = new Set(variants.map(variant => findExisting(variant)?.id));
+  const reservedSkus = [
+    ...(switchingToVariants && product.reservedQuantity > 0 ? [product.productId] : []),
+    ...existing
+      .filter(variant => variant.isActive && variant.reservedQuantity > 0 && !matchedIds.has(variant.id))
+      .map(variant => variant.sku)
+  ];
+  if (reservedSkus.length > 0) {
+    throw new ReservedStockError(reservedSkus);
+  }
+
+  // A product switching to per-variant stock hands its flat quantity over to the variants
+  if (switchingToVariants && product.quantity !== 0) {
+    await adjustStock(tx, toStockLine({ productId, quantity: 0 }), { onHand: -product.quantity }, {
+      ...movement,
+      note: 'Stock moved to size/color variants',
+    });
+  }
+
+  for (const variant of variants) {
+    const sku = skuFor(variant);
+    const match = findExisting(variant);
+
+    let variantId: string;
+    let currentQuantity = 0;
+    if (match) {
+      variantId = match.id;
+      currentQuantity = match.isActive ? match.quantity : 0;
+      await tx
+        .update(productVariants)
+        .set({ sku, quantity: currentQuantity, isActive: true, updatedAt: new Date() })
+        .where(eq(productVariants.id, match.id));
+    } else {
+      const [created] = await tx
+        .insert(productVariants)
+        .values({ ...variant, productId, sku, quantity: 0 })
+        .returning();
+      variantId = created.id;
+    }
+    keptIds.add(variantId);
+
+    const targetQuantity = variant.quantity ?? currentQuantity;
+    if (targetQuantity !== currentQuantity) {
+      await adjustStock(tx, { productId, variantId, quantity: 0 }, { onHand: targetQuantity - currentQuantity }, movement);
+    }
+  }
+
+  // Variants may be referenced by invoice items, so deactivate rather than delete.
+  // Their remaining stock is written off so the ledger keeps matching the product total.
+  for (const variant of existing) {
+    if (!keptIds.has(variant.id) && variant.isActive) {
+      if (variant.quantity !== 0) {
+        await adjustStock(tx, { productId, variantId: variant.id, quantity: 0 }, { onHand: -variant.quantity }, {
+          ...movement,
+          note: 'Variant removed',
+        });
+      }
+      await tx
+        .update(productVariants)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(productVariants.id, variant.id));
+    }
+  }
+
+  await syncProductStockFromVariants(tx, productId);
+
+  return await tx
+    .select()
+    .from(productVariants)
+    .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)))
+    .orderBy(productVariants.color, productVariants.size);
+};
+
+// Invoices without an explicit due date are payable within this many days of creation
+const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+// Quotations without an explicit validity date can be accepted for this many days
+const DEFAULT_QUOTATION_VALIDITY_DAYS = 30;
+
+// An invoice is overdue once its whole due day has passed with money still owing.
+// Credit notes reduce what is owed, so a credited invoice can end up with a negative balance (a refund due).
+const withPaymentState = <T extends Invoice>(invoice: T, now: Date = new Date()): T & Omit<InvoiceWithPaymentState, keyof Invoice> => {
+  const total = parseFloat(invoice.total) - parseFloat(invoice.creditedAmount);
+  const amountPaid = parseFloat(invoice.amountPaid);
+  const balanceDue = parseFloat((total - amountPaid).toFixed(2));
+
+  let paymentStatus: PaymentStatus;
+  if (balanceDue <= 0) {
+    paymentStatus = 'Paid';
+  } else {
+    const endOfDueDay = invoice.dueDate ? new Date(invoice.dueDate) : null;
+    endOfDueDay?.setHours(23, 59, 59, 999);
+    if (endOfDueDay && endOfDueDay < now) {
+      paymentStatus = 'Overdue';
+    } else {
+      paymentStatus = amountPaid > 0 ? 'Partially Paid' : 'Unpaid';
+    }
+  }
+
+  return { ...invoice, balanceDue, paymentStatus };
+};
+
+// SQL equivalent of withPaymentState, for filtering invoice lists by payment status
+const paymentStatusCondition = (paymentStatus: PaymentStatus) => {
+  const owing = sql`${invoices.amountPaid} + ${invoices.creditedAmount} < ${invoices.total}`;
+  const overdue = sql`(${owing} AND ${invoices.dueDate} IS NOT NULL AND ${invoices.dueDate}::date < CURRENT_DATE)`;
+  switch (paymentStatus) {
+    case 'Paid':
+      return sql`${invoices.amountPaid} + ${invoices.creditedAmount} >= ${invoices.total}`;
+    case 'Overdue':
+      return overdue;
+    case 'Partially Paid':
+      return sql`${owing} AND ${invoices.amountPaid} > 0 AND NOT ${overdue}`;
+    case 'Unpaid':
+      return sql`${owing} AND ${invoices.amountPaid} = 0 AND NOT ${overdue}`;
+  }
+};
+
+// Look up the tax class for each product so new invoice lines can snapshot their rate
+const resolveItemTaxRates = async (tx: Tx, productIds: string[]): Promise<Map<string, { taxRateId: string | null; taxRate: string }>> => {
+  const resolved = new Map<string, { taxRateId: string | null; taxRate: string }>();
+  if (productIds.length === 0) return resolved;
+
+  const [productRows, rateRows, categoryRows] = await Promise.all([
+    tx.select({ id: products.id, category: products.category, taxRateId: products.taxRateId })
+      .from(products)
+      .where(inArray(products.id, productIds)),
+    tx.select().from(taxRates),
+    tx.select().from(categoryTaxRates),
+  ]);
+
+  for (const product of productRows) {
+    const rate = resolveTaxRate(product, rateRows, categoryRows);
+    resolved.set(product.id, { taxRateId: rate?.id || null, taxRate: rate?.rate || "0.0000" });
+  }
+  return resolved;
+};
+
+// The customer's price-list price where the list has one, otherwise the product's own price,
+// converted into the document currency
+const resolveUnitPrices = async (tx: Tx, productIds: string[], customerId: string | null, exchangeRate: string): Promise<Map<string, string>> => {
+  const resolved = new Map<string, string>();
+  if (productIds.length === 0) return resolved;
+
+  const productRows = await tx
+    .select({ id: products.id, price: products.price })
+    .from(products)
+    .where(inArray(products.id, productIds));
+
+  const [customer] = customerId
+    ? await tx.select({ priceListId: customers.priceListId }).from(customers).where(eq(customers.id, customerId))
+    : [];
+  const listRows = customer?.priceListId
+    ? await tx
+        .select({ productId: priceListItems.productId, price: priceListItems.price })
+        .from(priceListItems)
+        .innerJoin(priceLists, eq(priceListItems.priceListId, priceLists.id))
+        .where(and(
+          eq(priceListItems.priceListId, customer.priceListId),
+          eq(priceLists.isActive, true),
+          inArray(priceListItems.productId, productIds)
+        ))
+    : [];
+
+  for (const product of productRows) {
+    const basePrice = listRows.find(row => row.productId === product.id)?.price || product.price;
+    resolved.set(product.id, fromBaseCurrency(basePrice, exchangeRate).toFixed(2));
+  }
+  return resolved;
+};
+
+// Purchase order line costs, like invoice line totals, are never taken from the client
+const withLineCost = <T extends { unitCost: string; quantityOrdered: number }>(item: T) => ({
+  ...item,
+  totalCost: (parseFloat(item.unitCost) * item.quantityOrdered).toFixed(2)
+});
+
+// Stored line totals always come from the unit price, quantity and discount rather than from the client
+const withLineTotal = <T extends { unitPrice: string; quantity: number; discountType?: LineDiscountType | null; discountValue?: string }>(item: T) => {
+  const line = calculateLineTotal(item.unitPrice, item.quantity, item.discountType, item.discountValue);
+  return { ...item, discountAmount: line.discountAmount.toFixed(2), totalPrice: line.total.toFixed(2) };
+};
+
+// Latest rate whose effective date has passed; the base currency is always 1
+const resolveExchangeRate = async (tx: Tx, currency: string, at: Date): Promise<string> => {
+  if (currency === BASE_CURRENCY) return "1";
+
+  const [rate] = await tx
+    .select()
+    .from(exchangeRates)
+    .where(and(eq(exchangeRates.currency, currency), lte(exchangeRates.effectiveFrom, at)))
+    .orderBy(desc(exchangeRates.effectiveFrom))
+    .limit(1);
+  if (!rate) {
+    throw new MissingExchangeRateError(currency);
+  }
+  return rate.rate;
+};
+
+// Highest trailing number already issued in a series, so a new sequence continues from it
+const lastIssuedNumber = async (tx: Tx, series: NumberingSeries): Promise<number> => {
+  const trailingNumber = (column: typeof invoices.invoiceNumber | typeof creditNotes.creditNoteNumber | typeof purchaseOrders.poNumber | typeof quotations.quotationNumber | typeof stockTakes.reference) =>
+    sql<number>`COALESCE(MAX(CAST(substring(${column} from '[0-9]+$') AS integer)), 0)`;
+
+  const queries: Record<NumberingSeries, () => Promise<{ value: number }[]>> = {
+    invoice: () => tx.select({ value: trailingNumber(invoices.invoiceNumber) }).from(invoices),
+    credit_note: () => tx.select({ value: trailingNumber(creditNotes.creditNoteNumber) }).from(creditNotes),
+    purchase_order: () => tx.select({ value: trailingNumber(purchaseOrders.poNumber) }).from(purchaseOrders),
+    quotation: () => tx.select({ value: trailingNumber(quotations.quotationNumber) }).from(quotations),
+    stock_take: () => tx.select({ value: trailingNumber(stockTakes.reference) }).from(stockTakes),
+  };
+  const [result] = await queries[series]();
+  return Number(result.value);
+};
+
+// A schedule never runs for a date already behind it: paused or edited schedules pick up
+// from today, and the same date is never taken twice
+const nextRecurringRun = (schedule: InsertRecurringInvoice | RecurringInvoice, lastRunFor: Date | null): Date | null => {
+  const from = new Date();
+  from.setHours(0, 0, 0, 0);
+  if (lastRunFor && lastRunFor >= from) {
+    from.setTime(lastRunFor.getTime() + 1);
+  }
+  return nextRunDate(schedule, from);
+};
+
+// A product is low on stock at its own reorder point, or at the shop-wide threshold if that is higher
+const lowStockLevel = (threshold: number) => sql`GREATEST(${products.reorderPoint}, ${threshold})`;
+
+// Printed until an admin fills in the company profile
+const DEFAULT_COMPANY_PROFILE: Omit<CompanyProfile, 'updatedAt' | 'updatedBy'> = {
+  id: 'default',
+  companyName: 'Volume Fashion Collection',
+  addressLines: [
+    '4006-4008 Room, 5th Floor, Changjiang International Garment Building',
+    'No.931, Renmingbei Road, Yuexiu District, Guangzhou, China'
+  ],
+  phone: '+86 132 8868 9165',
+  email: 'info@volumefashion.com',
+  website: null,
+  taxNumber: null,
+  logoPath: null,
+  bankName: null,
+  bankAccountName: null,
+  bankAccountNumber: null,
+  bankIban: null,
+  bankSwift: null,
+  invoiceTemplate: 'classic',
+  showProductImages: true,
+  footerNote: null,
+};
+
+// Create the series row on first use; concurrent creators race harmlessly on the primary key
+const ensureNumberSequence = async (tx: Tx, series: NumberingSeries): Promise<void> => {
+  const [existing] = await tx.select({ series: numberSequences.series }).from(numberSequences).where(eq(numberSequences.series, series));
+  if (existing) return;
+
+  await tx
+    .insert(numberSequences)
+    .values({ series, format: defaultNumberFormats[series], lastValue: await lastIssuedNumber(tx, series) })
+    .onConflictDoNothing();
+};
+
+// Allocate the next number inside the document's own transaction. The row lock serialises concurrent
+// requests, and if the document insert fails the counter rolls back with it, so no number is skipped.
+const nextDocumentNumber = async (tx: Tx, series: NumberingSeries, at: Date = new Date()): Promise<string> => {
+  await ensureNumberSequence(tx, series);
+
+  const [sequence] = await tx
+    .select()
+    .from(numberSequences)
+    .where(eq(numberSequences.series, series))
+    .for('update');
+
+  const year = at.getFullYear();
+  const value = sequence.resetYearly && sequence.period !== year ? 1 : sequence.lastValue + 1;
+
+  await tx
+    .update(numberSequences)
+    .set({ lastValue: value, period: year })
+    .where(eq(numberSequences.series, series));
+
+  return formatDocumentNumber(sequence.format, value, at);
+};
+
+// Active promotions whose window covers the given date; coded ones only when their coupon was entered
+const runningPromotions = (at: Date, couponCode: string | null) => and(
+  eq(promotions.isActive, true),
+  lte(promotions.startsAt, at),
+  or(isNull(promotions.endsAt), gte(promotions.endsAt, at)),
+  couponCode ? or(isNull(promotions.code), eq(promotions.code, couponCode)) : isNull(promotions.code)
+);
+
+// Promotions are judged against the invoice date, so editing an old pending invoice keeps the offers it was raised under
+const evaluateInvoicePromotions = async (tx: Tx, invoice: Invoice, items: InvoiceItem[]): Promise<AppliedPromotion[]> => {
+  if (items.length === 0) return [];
+
+  const rules = await tx
+    .select()
+    .from(promotions)
+    .where(runningPromotions(invoice.createdAt || new Date(), invoice.couponCode));
+  if (rules.length === 0) return [];
+
+  const productRows = await tx
+    .select({ id: products.id, productId: products.productId, category: products.category, manufacturer: products.manufacturer })
+    .from(products)
+    .where(inArray(products.id, Array.from(new Set(items.map(item => item.productId)))));
+  const productsById = new Map(productRows.map(product => [product.id, product]));
+
+  // Product-scoped rules name the product by its code, as staff see it
+  return applyPromotions(rules, items.map(item => ({
+    productId: productsById.get(item.productId)?.productId || item.productId,
+    category: productsById.get(item.productId)?.category || null,
+    manufacturer: productsById.get(item.productId)?.manufacturer || null,
+    quantity: item.quantity,
+    totalPrice: parseFloat(item.totalPrice)
+  })), invoice.exchangeRate);
+};
+
+// Recompute per-line tax and the invoice totals from the stored lines, discount and price mode
+const applyInvoiceTotals = async (tx: Tx, invoiceId: string): Promise<Invoice> => {
+  const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+  const items = await tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+
+  const applied = await evaluateInvoicePromotions(tx, invoice, items);
+  const linePromotions = sumLineDiscounts(applied, items.length);
+
+  const breakdown = calculateInvoiceTax(
+    items.map((item, i) => ({ totalPrice: parseFloat(item.totalPrice), taxRate: parseFloat(item.taxRate), promotionDiscount: linePromotions[i] })),
+    parseFloat(invoice.discountAmount || "0"),
+    invoice.pricesIncludeTax
+  );
+
+  for (let i = 0; i < items.length; i++) {
+    const taxAmount = breakdown.lineTaxes[i].toFixed(2);
+    const promotionDiscount = linePromotions[i].toFixed(2);
+    if (taxAmount !== items[i].taxAmount || promotionDiscount !== items[i].promotionDiscount) {
+      await tx.update(invoiceItems).set({ taxAmount, promotionDiscount }).where(eq(invoiceItems.id, items[i].id));
+    }
+  }
+
+  // The record of applied promotions always reflects the latest evaluation
+  await tx.delete(invoicePromotions).where(eq(invoicePromotions.invoiceId, invoiceId));
+  if (applied.length > 0) {
+    await tx.insert(invoicePromotions).values(applied.map(promotion => ({
+      invoiceId,
+      promotionId: promotion.promotionId,
+      promotionName: promotion.name,
+      discountAmount: promotion.discountAmount.toFixed(2)
+    })));
+  }
+
+  const [updatedInvoice] = await tx
+    .update(invoices)
+    .set({
+      subtotal: breakdown.subtotal.toFixed(2),
+      promotionDiscount: applied.reduce((sum, promotion) => sum + promotion.discountAmount, 0).toFixed(2),
+      taxRate: breakdown.effectiveRate.toFixed(4),
+      taxAmount: breakdown.taxAmount.toFixed(2),
+      total: breakdown.total.toFixed(2),
+      updatedAt: new Date()
+    })
+    .where(eq(invoices.id, invoiceId))
+    .returning();
+
+  return updatedInvoice;
+};
+
+// The invoice and its lines as they stand inside the transaction, with product names as billed
+const snapshotInvoice = async (tx: Tx, invoiceId: string): Promise<InvoiceVersionSnapshot> => {
+  const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId));
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+  const rows = await tx
+    .select()
+    .from(invoiceItems)
+    .innerJoin(products, eq(invoiceItems.productId, products.id))
+    .leftJoin(productVariants, eq(invoiceItems.variantId, productVariants.id))
+    .where(eq(invoiceItems.invoiceId, invoiceId))
+    .orderBy(invoiceItems.createdAt);
+
+  return {
+    status: invoice.status,
+    currency: invoice.currency,
+    couponCode: invoice.couponCode,
+    subtotal: invoice.subtotal,
+    discountAmount: invoice.discountAmount,
+    promotionDiscount: invoice.promotionDiscount,
+    taxAmount: invoice.taxAmount,
+    total: invoice.total,
+    items: rows.map(row => ({
+      id: row.invoice_items.id,
+      productId: row.invoice_items.productId,
+      productCode: row.products.productId,
+      productName: row.products.productName,
+      variant: row.product_variants ? `${row.product_variants.size} / ${row.product_variants.color}` : null,
+      quantity: row.invoice_items.quantity,
+      unitPrice: row.invoice_items.unitPrice,
+      discountType: row.invoice_items.discountType,
+      discountValue: row.invoice_items.discountValue,
+      discountAmount: row.invoice_items.discountAmount,
+      totalPrice: row.invoice_items.totalPrice
+    }))
+  };
+};
+
+type InvoiceChange = { changeType: InvoiceChangeType; summary: string; userId?: string | null };
+
+const saveInvoiceVersion = async (tx: Tx, invoiceId: string, version: number, change: InvoiceChange): Promise<void> => {
+  await tx.insert(invoiceVersions).values({
+    invoiceId,
+    version,
+    changeType: change.changeType,
+    summary: change.summary,
+    snapshot: await snapshotInvoice(tx, invoiceId),
+    createdBy: change.userId || null
+  });
+};
+
+// Called at the start of every change to an invoice: locks it until the transaction ends, so versions
+// are numbered in the order changes land, and returns the number the change will be saved under.
+// Invoices raised before versions were kept get their current state saved first as a baseline.
+const nextInvoiceVersion = async (tx: Tx, invoiceId: string): Promise<number> => {
+  const [invoice] = await tx.select({ id: invoices.id }).from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+  if (!invoice) {
+    throw new Error('Invoice not found');
+  }
+  const [{ latest }] = await tx
+    .select({ latest: max(invoiceVersions.version) })
+    .from(invoiceVersions)
+    .where(eq(invoiceVersions.invoiceId, invoiceId));
+  if (latest !== null) {
+    return latest + 1;
+  }
+  await saveInvoiceVersion(tx, invoiceId, 1, { changeType: 'baseline', summary: 'Before edit history was kept' });
+  return 2;
+};
+
+// Starts a change to one invoice line: locks its invoice, then re-reads the line and the invoice status
+// under the lock, so concurrent edits and a racing status change can't work from a stale quantity
+const lockPendingInvoiceItem = async (tx: Tx, invoiceItemId: string, notPendingMessage: string): Promise<{ item: InvoiceItem; version: number }> => {
+  const [line] = await tx.select({ invoiceId: invoiceItems.invoiceId }).from(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
+  if (!line) {
+    throw new Error('Invoice item not found');
+  }
+  const version = await nextInvoiceVersion(tx, line.invoiceId);
+  const [item] = await tx.select().from(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
+  if (!item) {
+    throw new Error('Invoice item not found');
+  }
+  const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, item.invoiceId));
+  if (invoice.status !== 'Pending') {
+    throw new Error(notPendingMessage);
+  }
+  return { item, version };
+};
+
+// "Linen Shirt (M / White)", for version summaries
+const describeInvoiceLine = async (tx: Tx, line: { productId: string; variantId?: string | null }): Promise<string> => {
+  const [product] = await tx.select({ productName: products.productName }).from(products).where(eq(products.id, line.productId));
+  const [variant] = line.variantId
+    ? await tx.select().from(productVariants).where(eq(productVariants.id, line.variantId))
+    : [];
+  const name = product?.productName || 'Unknown product';
+  return variant ? `${name} (${variant.size} / ${variant.color})` : name;
+};
+
+// Coupon codes must match a promotion that is running on the invoice's date
+const assertValidCoupon = async (tx: Tx, code: string, at: Date): Promise<void> => {
+  const [promotion] = await tx
+    .select({ id: promotions.id })
+    .from(promotions)
+    .where(and(eq(promotions.code, code), runningPromotions(at, code)))
+    .limit(1);
+  if (!promotion) {
+    throw new InvalidCouponError(code);
+  }
+};
+
+// Invoices entered without picking a customer are matched on phone number (digits only),
+// so "+1 (555) 010-2000" and "5550102000" land on the same record; otherwise a customer is created
+const findOrCreateCustomer = async (
+  tx: Tx,
+  details: Pick<InsertInvoice, "customerName" | "customerEmail" | "customerPhone" | "customerAddress" | "createdBy">
+): Promise<Customer> => {
+  const phoneDigits = details.customerPhone.replace(/\D/g, '');
+  if (phoneDigits) {
+    const [existing] = await tx
+      .select()
+      .from(customers)
+      .where(and(
+        eq(customers.isActive, true),
+        sql`regexp_replace(${customers.phone}, '[^0-9]', '', 'g') = ${phoneDigits}`
+      ))
+      .orderBy(customers.createdAt)
+      .limit(1);
+    if (existing) return existing;
+  }
+
+  const [created] = await tx
+    .insert(customers)
+    .values({
+      name: details.customerName,
+      email: details.customerEmail || null,
+      phone: details.customerPhone,
+      address: details.customerAddress || null,
+      createdBy: details.createdBy || null,
+    })
+    .returning();
+  return created;
+};
+
+type ReportWindow = { startDate?: string; endDate?: string; range?: string };
+
+// Report filters on a date column: a custom start/end, or a predefined range; 'all' adds no filter
+const reportDateWindow = (column: typeof invoices.createdAt | typeof creditNotes.createdAt, options?: ReportWindow) => {
+  if (options?.startDate && options?.endDate) {
+    return [
+      sql`${column} >= ${options.startDate}::timestamp`,
+      sql`${column} <= ${options.endDate}::timestamp + interval '1 day'`
+    ];
+  }
+  switch (options?.range) {
+    case 'week':
+      return [sql`${column} >= current_date - interval '7 days'`];
+    case 'month':
+      return [sql`${column} >= current_date - interval '30 days'`];
+    case 'quarter':
+      return [sql`${column} >= current_date - interval '3 months'`];
+    case 'year':
+      return [sql`${column} >= current_date - interval '1 year'`];
+    default:
+      return [];
+  }
+};
+
+// Shared by new invoices and converted quotations so both number, price and reserve stock the same way.
+// Unit prices come from the customer's price list unless the caller already agreed them (a quotation).
+const insertInvoice = async (tx: Tx, invoice: InsertInvoice, items: InsertInvoiceItem[], keepUnitPrices = false): Promise<Invoice> => {
+  const invoiceNumber = await nextDocumentNumber(tx, 'invoice');
+
+  const customerId = invoice.customerId || (await findOrCreateCustomer(tx, invoice)).id;
+  const dueDate = invoice.dueDate || new Date(Date.now() + DEFAULT_PAYMENT_TERMS_DAYS * 24 * 60 * 60 * 1000);
+  const currency = invoice.currency || BASE_CURRENCY;
+  const exchangeRate = await resolveExchangeRate(tx, currency, new Date());
+  const couponCode = invoice.couponCode || null;
+  if (couponCode) {
+    await assertValidCoupon(tx, couponCode, new Date());
+  }
+
+  const [newInvoice] = await tx
+    .insert(invoices)
+    .values({ ...invoice, invoiceNumber, customerId, dueDate, currency, exchangeRate, couponCode })
+    .returning();
+
+  const productIds = Array.from(new Set(items.map(item => item.productId)));
+  const itemTaxRates = await resolveItemTaxRates(tx, productIds);
+  const unitPrices = keepUnitPrices ? null : await resolveUnitPrices(tx, productIds, customerId, exchangeRate);
+  const invoiceItemsWithId = items.map(item => withLineTotal({
+    ...item,
+    unitPrice: unitPrices?.get(item.productId) || item.unitPrice,
+    ...itemTaxRates.get(item.productId),
+    invoiceId: newInvoice.id
+  }));
+
+  await tx.insert(invoiceItems).values(invoiceItemsWithId);
+
+  // Pending invoices hold their stock until they are processed or deleted
+  if ((newInvoice.status || 'Pending') === 'Pending') {
+    await reserveStock(tx, items.map(toStockLine));
+  }
+
+  // Totals sent by the client are only a preview; tax is worked out here from each line's rate
+  const created = await applyInvoiceTotals(tx, newInvoice.id);
+  await saveInvoiceVersion(tx, newInvoice.id, 1, { changeType: 'created', summary: 'Invoice created', userId: invoice.createdBy });
+  return created;
+};
+
+// A quotation can be accepted up to the end of its validity day
+const isQuotationExpired = (quotation: Quotation, now: Date = new Date()): boolean => {
+  const endOfValidDay = new Date(quotation.validUntil);
+  endOfValidDay.setHours(23, 59, 59, 999);
+  return endOfValidDay < now;
+};
+
+// Columns of the users table that are safe to return with the records a user created
+const userSummaryColumns = {
+  id: users.id,
+  username: users.username,
+  firstName: users.firstName,
+  lastName: users.lastName
+};
+
+// Load the invoice, issuer and item rows for a batch of credit notes in one round trip each
+const withCreditNoteDetails = async (rows: CreditNote[]): Promise<CreditNoteWithItems[]> => {
+  if (rows.length === 0) return [];
+
+  const invoiceIds = Array.from(new Set(rows.map(row => row.invoiceId)));
+  const userIds = Array.from(new Set(rows.map(row => row.createdBy)))
+    .filter((userId): userId is string => !!userId);
+
+  const [invoiceRows, userRows, itemRows] = await Promise.all([
+    db.select().from(invoices).where(inArray(invoices.id, invoiceIds)),
+    userIds.length > 0
+      ? db.select(userSummaryColumns).from(users).where(inArray(users.id, userIds))
+      : Promise.resolve([] as UserSummary[]),
+    db.select()
+      .from(creditNoteItems)
+      .innerJoin(products, eq(creditNoteItems.productId, products.id))
+      .leftJoin(productVariants, eq(creditNoteItems.variantId, productVariants.id))
+      .where(inArray(creditNoteItems.creditNoteId, rows.map(row => row.id)))
+      .orderBy(creditNoteItems.createdAt)
+  ]);
+
+  return rows.map(creditNote => {
+    const invoice = invoiceRows.find(row => row.id === creditNote.invoiceId)!;
+    return {
+      ...creditNote,
+      invoice: {
+        id: invoice.id,
+        invoiceNumber: invoice.invoiceNumber,
+        customerName: invoice.customerName,
+        customerEmail: invoice.customerEmail,
+        customerPhone: invoice.customerPhone,
+        customerAddress: invoice.customerAddress,
+        currency: invoice.currency,
+        createdAt: invoice.createdAt
+      },
+      createdByUser: userRows.find(user => user.id === creditNote.createdBy) || null,
+      items: itemRows
+        .filter(row => row.credit_note_items.creditNoteId === creditNote.id)
+        .map(row => ({ ...row.credit_note_items, product: row.products, variant: row.product_variants }))
+    };
+  });
+};
 
 export interface IStorage {
   // User operations
@@ -39,41 +1088,173 @@ export interface IStorage {
   markPasswordResetTokenUsed(tokenId: string): Promise<void>;
 
   // Product operations
-  createProduct(product: InsertProduct): Promise<Product>;
+  createProduct(product: InsertProduct, variants?: InsertProductVariant[], reason?: StockMovementReason): Promise<Product>;
   getProduct(id: string): Promise<Product | undefined>;
+  getProductWithVariants(id: string): Promise<ProductWithVariants | undefined>;
   getProductByProductId(productId: string): Promise<Product | undefined>;
-  getAllProducts(options?: { limit?: number; offset?: number; search?: string; category?: string; size?: string; stockLevel?: string }): Promise<{ products: Product[]; total: number }>;
-  updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product>;
+  getProductsByProductIds(productIds: string[]): Promise<ProductWithVariants[]>;
+  findProductsByProductIdsIgnoringCase(productIds: string[]): Promise<Product[]>;
+  getAllProducts(options?: { limit?: number; offset?: number; search?: string; category?: string; size?: string; stockLevel?: string; lowStockThreshold?: number }): Promise<{ products: ProductWithVariants[]; total: number }>;
+  // With `variants`, the product's variants are replaced in the same transaction and set its stock
+  updateProduct(id: string, product: Partial<InsertProduct>, userId?: string, variants?: InsertProductVariant[]): Promise<Product>;
   deleteProduct(id: string): Promise<void>;
   updateProductQRCode(id: string, qrCodeUrl: string): Promise<Product>;
   createBulkProducts(products: InsertProduct[]): Promise<Product[]>;
-  getLowStockProducts(threshold?: number): Promise<Product[]>;
+  applyProductImport(creates: InsertProduct[], updates: ProductImportUpdate[], userId: string, onProgress?: (done: number) => Promise<void>): Promise<{ created: Product[]; updated: Product[] }>;
+  getLowStockProducts(lowStockThreshold?: number): Promise<Product[]>;
+
+  // Product variant operations
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  setProductVariants(productId: string, variants: InsertProductVariant[], userId?: string): Promise<ProductVariant[]>;
+
+  // Stock movement ledger
+  getStockMovements(productId: string, options?: { limit?: number; offset?: number }): Promise<{ movements: StockMovementWithRefs[]; total: number }>;
 
   // Invoice operations
   createInvoice(invoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice>;
   getInvoice(id: string): Promise<Invoice | undefined>;
-  getAllInvoices(options?: { limit?: number; offset?: number; status?: string; startDate?: string; endDate?: string; customerName?: string }): Promise<{ invoices: Invoice[]; total: number }>;
-  updateInvoiceStatus(id: string, status: string, processedBy?: string): Promise<Invoice>;
+  getAllInvoices(options?: { limit?: number; offset?: number; status?: string; paymentStatus?: PaymentStatus; startDate?: string; endDate?: string; customerName?: string; customerId?: string }): Promise<{ invoices: InvoiceWithPaymentState[]; total: number }>;
+  updateInvoiceStatus(id: string, status: string, processedBy?: string): Promise<Invoice & { previousStatus: string | null; stockDeltas: StockDelta[] }>;
   updateInvoicePdfPath(id: string, pdfPath: string): Promise<Invoice>;
-  getInvoiceItems(invoiceId: string): Promise<(InvoiceItem & { product: Product })[]>;
-  getInvoiceWithItems(id: string): Promise<(Invoice & { items: (InvoiceItem & { product: Product })[] }) | undefined>;
-  updateInvoiceDiscount(id: string, discountAmount: number): Promise<Invoice>;
-  addInvoiceItem(invoiceId: string, item: InsertInvoiceItem): Promise<InvoiceItem>;
-  updateInvoiceItemQuantity(invoiceItemId: string, quantity: number): Promise<InvoiceItem>;
-  deleteInvoiceItem(invoiceItemId: string): Promise<void>;
+  getInvoiceItems(invoiceId: string): Promise<(InvoiceItem & { product: Product; variant: ProductVariant | null })[]>;
+  getInvoiceWithItems(id: string): Promise<(InvoiceWithPaymentState & { items: (InvoiceItem & { product: Product; variant: ProductVariant | null })[]; promotions: InvoicePromotion[] }) | undefined>;
+  updateInvoiceDiscount(id: string, discountAmount: number, userId?: string): Promise<Invoice>;
+  addInvoiceItem(invoiceId: string, item: InvoiceItemRequest, userId?: string): Promise<InvoiceItem>;
+  updateInvoiceItemQuantity(invoiceItemId: string, quantity: number, userId?: string): Promise<InvoiceItem>;
+  updateInvoiceItemDiscount(invoiceItemId: string, discount: LineDiscount, userId?: string): Promise<InvoiceItem>;
+  deleteInvoiceItem(invoiceItemId: string, userId?: string): Promise<void>;
   recalculateInvoiceTotals(invoiceId: string): Promise<Invoice>;
+  setInvoiceCoupon(invoiceId: string, code: string | null, userId?: string): Promise<Invoice>;
+
+  // Invoice versions (newest first)
+  getInvoiceVersions(invoiceId: string): Promise<InvoiceVersionSummary[]>;
+  getInvoiceVersion(invoiceId: string, version: number): Promise<InvoiceVersionWithUser | undefined>;
+
+  // Quotation operations
+  createQuotation(quotation: InsertQuotation, items: InsertQuotationItem[]): Promise<Quotation>;
+  getQuotation(id: string): Promise<Quotation | undefined>;
+  getQuotationWithItems(id: string): Promise<QuotationWithItems | undefined>;
+  getAllQuotations(options?: { limit?: number; offset?: number; search?: string; status?: string }): Promise<QuotationsResponse>;
+  markQuotationSent(id: string): Promise<Quotation>;
+  cancelQuotation(id: string): Promise<Quotation>;
+  convertQuotationToInvoice(id: string, userId: string): Promise<{ quotation: Quotation; invoice: Invoice }>;
+
+  // Payment operations
+  getPayment(id: string): Promise<Payment | undefined>;
+  getInvoicePayments(invoiceId: string): Promise<PaymentWithUsers[]>;
+  recordPayment(invoiceId: string, payment: InsertPayment): Promise<{ payment: Payment; invoice: InvoiceWithPaymentState }>;
+  voidPayment(paymentId: string, userId: string, reason?: string): Promise<{ payment: Payment; invoice: InvoiceWithPaymentState }>;
+
+  // Credit note operations
+  createCreditNote(invoiceId: string, creditNote: InsertCreditNote, lines: CreditNoteLine[]): Promise<CreditNote & { stockDeltas: StockDelta[] }>;
+  getCreditNote(id: string): Promise<CreditNote | undefined>;
+  getCreditNoteWithItems(id: string): Promise<CreditNoteWithItems | undefined>;
+  getAllCreditNotes(options?: { limit?: number; offset?: number; search?: string }): Promise<CreditNotesResponse>;
+  getInvoiceCreditNotes(invoiceId: string): Promise<CreditNoteWithItems[]>;
+
+  // Tax configuration
+  getTaxRates(): Promise<TaxRatesResponse>;
+  getTaxRate(id: string): Promise<TaxRate | undefined>;
+  createTaxRate(taxRate: InsertTaxRate): Promise<TaxRate>;
+  updateTaxRate(id: string, taxRate: Partial<InsertTaxRate>): Promise<TaxRate>;
+  setCategoryTaxRate(category: string, taxRateId: string | null): Promise<CategoryTaxRate | null>;
+
+  // Exchange rates
+  getExchangeRates(): Promise<ExchangeRatesResponse>;
+  createExchangeRate(exchangeRate: InsertExchangeRate): Promise<ExchangeRate>;
+
+  // Document numbering
+  getNumberSequences(): Promise<NumberSequence[]>;
+  updateNumberSequence(series: NumberingSeries, settings: NumberSequenceSettings, userId: string): Promise<NumberSequence>;
+
+  // Company profile
+  getCompanyProfile(): Promise<CompanyProfile>;
+  updateCompanyProfile(settings: CompanyProfileSettings, userId: string): Promise<CompanyProfile>;
+  setCompanyLogo(logoPath: string | null, userId: string): Promise<CompanyProfile>;
+
+  // Settings
+  getSettings(): Promise<AppSettings>;
+  updateSettings(changes: SettingsUpdate, userId: string): Promise<AppSettings>;
+
+  // Recurring invoices
+  getRecurringInvoices(): Promise<RecurringInvoiceSummary[]>;
+  getRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails | undefined>;
+  createRecurringInvoice(schedule: InsertRecurringInvoice, items: InsertRecurringInvoiceItem[]): Promise<RecurringInvoice>;
+  updateRecurringInvoice(id: string, schedule: InsertRecurringInvoice, items: InsertRecurringInvoiceItem[]): Promise<RecurringInvoice>;
+  setRecurringInvoiceActive(id: string, isActive: boolean): Promise<RecurringInvoice>;
+  getDueRecurringInvoiceIds(now: Date): Promise<string[]>;
+  claimRecurringInvoiceRun(id: string, now: Date): Promise<{ schedule: RecurringInvoice; items: RecurringInvoiceItem[]; scheduledFor: Date } | undefined>;
+  recordRecurringInvoiceRun(run: Omit<RecurringInvoiceRun, 'id' | 'createdAt'>): Promise<RecurringInvoiceRun>;
+
+  // Background jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobsForTarget(targetId: string, types: JobType[], limit?: number): Promise<Job[]>;
+  claimNextJob(now: Date, staleBefore: Date): Promise<Job | undefined>;
+  updateJobProgress(id: string, progress: number, total?: number): Promise<void>;
+  completeJob(id: string, result: unknown): Promise<Job>;
+  failJob(id: string, error: string, retryAt: Date | null): Promise<Job>;
+
+  // Price lists
+  getPriceLists(): Promise<PriceListSummary[]>;
+  getPriceList(id: string): Promise<PriceListWithItems | undefined>;
+  createPriceList(priceList: InsertPriceList): Promise<PriceList>;
+  updatePriceList(id: string, priceList: Partial<InsertPriceList>): Promise<PriceList>;
+  setPriceListPrice(priceListId: string, productId: string, price: string): Promise<PriceListItem>;
+  removePriceListPrice(priceListId: string, productId: string): Promise<void>;
+  getCustomerPrices(customerId: string): Promise<Record<string, string>>;
+
+  // Promotions
+  getPromotions(): Promise<Promotion[]>;
+  getPromotion(id: string): Promise<Promotion | undefined>;
+  getPromotionByCode(code: string): Promise<Promotion | undefined>;
+  createPromotion(promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion>;
+  getPromotionUptake(options?: ReportWindow): Promise<PromotionUptake[]>;
+
+  // Customer operations
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  getAllCustomers(options?: { limit?: number; offset?: number; search?: string; includeInactive?: boolean }): Promise<CustomersResponse>;
+  updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer>;
+  deleteCustomer(id: string): Promise<void>;
+  getCustomerWithHistory(id: string): Promise<CustomerWithHistory | undefined>;
+  linkInvoicesToCustomers(): Promise<InvoiceCustomerBackfill>;
+
+  // Supplier operations
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  getAllSuppliers(options?: { search?: string; includeInactive?: boolean }): Promise<Supplier[]>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier>;
+
+  // Purchase order operations
+  createPurchaseOrder(purchaseOrder: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined>;
+  getPurchaseOrderWithItems(id: string): Promise<PurchaseOrderWithItems | undefined>;
+  getAllPurchaseOrders(options?: { limit?: number; offset?: number; status?: string; supplierId?: string }): Promise<{ purchaseOrders: (PurchaseOrder & { supplier: Supplier })[]; total: number }>;
+  updatePurchaseOrderStatus(id: string, status: 'Ordered' | 'Cancelled'): Promise<PurchaseOrder>;
+  receivePurchaseOrder(id: string, receipts: { itemId: string; quantity: number }[], userId?: string): Promise<PurchaseOrder>;
+
+  // Stock take operations
+  getStockTakeScopes(): Promise<{ categories: string[]; manufacturers: string[] }>;
+  createStockTake(stockTake: InsertStockTake): Promise<StockTake>;
+  getStockTake(id: string): Promise<StockTake | undefined>;
+  getStockTakeWithLines(id: string): Promise<StockTakeWithLines | undefined>;
+  getAllStockTakes(options?: { limit?: number; offset?: number; status?: string }): Promise<StockTakesResponse>;
+  recordStockTakeCount(stockTakeId: string, lineId: string, countedQuantity: number, userId?: string): Promise<StockTakeWithLines>;
+  approveStockTake(id: string, userId: string): Promise<StockTake & { stockDeltas: StockDelta[] }>;
+  cancelStockTake(id: string): Promise<StockTake>;
 
   // Activity log operations
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
-  getActivityLogs(options?: { limit?: number; offset?: number; userId?: string; module?: string; startDate?: string; endDate?: string }): Promise<{ logs: (ActivityLog & { user: User | null })[];  total: number }>;
+  getActivityLogs(options?: { limit?: number; offset?: number; userId?: string; module?: string; startDate?: string; endDate?: string }): Promise<{ logs: (ActivityLog & { user: UserSummary | null })[];  total: number }>;
 
   // Dashboard metrics
-  getDashboardMetrics(): Promise<{
-    totalProducts: number;
-    lowStockItems: number;
-    pendingInvoices: number;
-    monthlyRevenue: number;
-  }>;
+  getDashboardMetrics(lowStockThreshold?: number): Promise<DashboardMetrics>;
+
+  // Reorder suggestions
+  getReorderSuggestions(options?: { lookbackDays?: number; coverDays?: number }): Promise<ReorderSuggestionsResponse>;
 
   // Manufacturer statistics
   getManufacturerStats(options?: {
@@ -189,9 +1370,39 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Product operations
-  async createProduct(product: InsertProduct): Promise<Product> {
-    const [newProduct] = await db.insert(products).values(product).returning();
-    return newProduct;
+  async createProduct(product: InsertProduct, variants: InsertProductVariant[] = [], reason: StockMovementReason = 'receipt'): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      // Rows start empty; opening stock is booked through the ledger like any other movement
+      const [newProduct] = await tx.insert(products).values({ ...product, quantity: 0 }).returning();
+      const movement: MovementContext = { reason, userId: product.createdBy, note: 'Opening stock' };
+
+      if (variants.length === 0) {
+        if (product.quantity) {
+          await adjustStock(tx, toStockLine({ productId: newProduct.id, quantity: 0 }), { onHand: product.quantity }, movement);
+        }
+      } else {
+        const createdVariants = await tx.insert(productVariants).values(
+          variants.map(variant => ({
+            ...variant,
+            productId: newProduct.id,
+            sku: variant.sku || buildVariantSku(newProduct.productId, variant.size, variant.color),
+            quantity: 0,
+          }))
+        ).returning();
+
+        await syncProductStockFromVariants(tx, newProduct.id);
+
+        for (let index = 0; index < createdVariants.length; index++) {
+          const quantity = variants[index].quantity || 0;
+          if (quantity) {
+            await adjustStock(tx, { productId: newProduct.id, variantId: createdVariants[index].id, quantity }, { onHand: quantity }, movement);
+          }
+        }
+      }
+
+      const [createdProduct] = await tx.select().from(products).where(eq(products.id, newProduct.id));
+      return createdProduct;
+    });
   }
 
   async getProduct(id: string): Promise<Product | undefined> {
@@ -199,13 +1410,44 @@ export class DatabaseStorage implements IStorage {
     return product;
   }
 
+  async getProductWithVariants(id: string): Promise<ProductWithVariants | undefined> {
+    const product = await this.getProduct(id);
+    if (!product) return undefined;
+
+    const variants = await this.getProductVariants(id);
+    return { ...product, variants };
+  }
+
   async getProductByProductId(productId: string): Promise<Product | undefined> {
     const [product] = await db.select().from(products).where(eq(products.productId, productId));
     return product;
   }
 
-  async getAllProducts(options?: { limit?: number; offset?: number; search?: string; category?: string; size?: string; stockLevel?: string }): Promise<{ products: Product[]; total: number }> {
-    const { limit = 50, offset = 0, search, category, size, stockLevel } = options || {};
+  // For product IDs typed or saved by hand, such as image file names, where the case may have changed.
+  // Deactivated products are included, since their IDs stay taken.
+  async findProductsByProductIdsIgnoringCase(productIds: string[]): Promise<Product[]> {
+    if (productIds.length === 0) return [];
+    return await db
+      .select()
+      .from(products)
+      .where(inArray(sql`lower(${products.productId})`, productIds.map(productId => productId.toLowerCase())));
+  }
+
+  async getProductsByProductIds(productIds: string[]): Promise<ProductWithVariants[]> {
+    if (productIds.length === 0) return [];
+    const productRows = await db.select().from(products).where(inArray(products.productId, productIds));
+    const variantRows = productRows.length > 0
+      ? await db.select().from(productVariants)
+          .where(and(inArray(productVariants.productId, productRows.map(product => product.id)), eq(productVariants.isActive, true)))
+      : [];
+    return productRows.map(product => ({
+      ...product,
+      variants: variantRows.filter(variant => variant.productId === product.id)
+    }));
+  }
+
+  async getAllProducts(options?: { limit?: number; offset?: number; search?: string; category?: string; size?: string; stockLevel?: string; lowStockThreshold?: number }): Promise<{ products: ProductWithVariants[]; total: number }> {
+    const { limit = 50, offset = 0, search, category, size, stockLevel, lowStockThreshold = 0 } = options || {};
     
     const conditions = [eq(products.isActive, true)];
     
@@ -219,12 +1461,14 @@ export class DatabaseStorage implements IStorage {
       // Size is now an array, so we need to check if it contains the size
       conditions.push(sql`${size} = ANY(${products.size})`);
     }
+    // Stock levels are judged on what can still be sold, i.e. net of reservations
+    const availableStock = sql`(${products.quantity} - ${products.reservedQuantity})`;
     if (stockLevel === 'low') {
-      conditions.push(sql`${products.quantity} <= 5`);
+      conditions.push(sql`${availableStock} <= ${lowStockLevel(lowStockThreshold)}`);
     } else if (stockLevel === 'out') {
-      conditions.push(eq(products.quantity, 0));
+      conditions.push(sql`${availableStock} <= 0`);
     } else if (stockLevel === 'in') {
-      conditions.push(sql`${products.quantity} > 5`);
+      conditions.push(sql`${availableStock} > ${lowStockLevel(lowStockThreshold)}`);
     }
     
     const whereCondition = conditions.length === 1 ? conditions[0] : and(...conditions);
@@ -237,20 +1481,69 @@ export class DatabaseStorage implements IStorage {
         .offset(offset),
       db.select({ count: count() }).from(products).where(whereCondition)
     ]);
+
+    // Attach variants for the current page in a single query
+    const productIds = productsResult.map(product => product.id);
+    const variantRows = productIds.length > 0
+      ? await db.select().from(productVariants)
+          .where(and(inArray(productVariants.productId, productIds), eq(productVariants.isActive, true)))
+          .orderBy(productVariants.color, productVariants.size)
+      : [];
     
     return {
-      products: productsResult,
+      products: productsResult.map(product => ({
+        ...product,
+        variants: variantRows.filter(variant => variant.productId === product.id)
+      })),
       total: totalResult[0].count
     };
   }
 
-  async updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product> {
-    const [updatedProduct] = await db
-      .update(products)
-      .set({ ...product, updatedAt: new Date() })
-      .where(eq(products.id, id))
-      .returning();
-    return updatedProduct;
+  async updateProduct(id: string, product: Partial<InsertProduct>, userId?: string, variants?: InsertProductVariant[]): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      const { quantity, ...fields } = product;
+
+      const [current] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, id))
+        .for('update');
+      if (!current) {
+        throw new Error('Product not found');
+      }
+
+      const [updatedProduct] = await tx
+        .update(products)
+        .set({ ...fields, updatedAt: new Date() })
+        .where(eq(products.id, id))
+        .returning();
+
+      // Variant stock overrides the flat quantity, so only one of them is booked to the ledger
+      if (variants) {
+        await replaceProductVariants(tx, updatedProduct, variants, userId);
+        const [productWithVariants] = await tx.select().from(products).where(eq(products.id, id));
+        return productWithVariants;
+      }
+
+      // Quantity is derived for products stocked per variant; otherwise book the difference as an adjustment
+      const [{ variantCount }] = await tx
+        .select({ variantCount: count() })
+        .from(productVariants)
+        .where(and(eq(productVariants.productId, id), eq(productVariants.isActive, true)));
+
+      if (quantity === undefined || variantCount > 0 || quantity === current.quantity) {
+        return updatedProduct;
+      }
+
+      await adjustStock(tx, toStockLine({ productId: id, quantity: 0 }), { onHand: quantity - current.quantity }, {
+        reason: 'adjustment',
+        userId,
+        note: 'Manual quantity update',
+      });
+
+      const [adjustedProduct] = await tx.select().from(products).where(eq(products.id, id));
+      return adjustedProduct;
+    });
   }
 
   async deleteProduct(id: string): Promise<void> {
@@ -267,50 +1560,145 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBulkProducts(productList: InsertProduct[]): Promise<Product[]> {
-    return await db.insert(products).values(productList).returning();
+    return await db.transaction(async (tx) => insertImportedProducts(tx, productList));
+  }
+
+  // Creates and updates from one import succeed or fail together. onProgress hears how many
+  // products have been written so far.
+  async applyProductImport(creates: InsertProduct[], updates: ProductImportUpdate[], userId: string, onProgress?: (done: number) => Promise<void>): Promise<{ created: Product[]; updated: Product[] }> {
+    return await db.transaction(async (tx) => {
+      const created = creates.length > 0 ? await insertImportedProducts(tx, creates) : [];
+      await onProgress?.(created.length);
+
+      const updated: Product[] = [];
+      for (const update of updates) {
+        const [current] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, update.id))
+          .for('update');
+        if (!current) {
+          throw new Error('Product not found');
+        }
+
+        if (Object.keys(update.fields).length > 0) {
+          await tx
+            .update(products)
+            .set({ ...update.fields, updatedAt: new Date() })
+            .where(eq(products.id, update.id));
+        }
+
+        // Products stocked per size/color keep their derived quantity
+        const [{ variantCount }] = await tx
+          .select({ variantCount: count() })
+          .from(productVariants)
+          .where(and(eq(productVariants.productId, update.id), eq(productVariants.isActive, true)));
+        if (update.quantity && variantCount === 0) {
+          const delta = update.quantity.mode === 'add' ? update.quantity.value : update.quantity.value - current.quantity;
+          if (delta !== 0) {
+            await adjustStock(tx, toStockLine({ productId: update.id, quantity: 0 }), { onHand: delta }, {
+              reason: 'import',
+              userId,
+              note: update.quantity.mode === 'add' ? 'Bulk import (added)' : 'Bulk import (set)',
+            });
+          }
+        }
+
+        const [product] = await tx.select().from(products).where(eq(products.id, update.id));
+        updated.push(product);
+        await onProgress?.(created.length + updated.length);
+      }
+
+      return { created, updated };
+    });
   }
 
-  async getLowStockProducts(threshold: number = 5): Promise<Product[]> {
+  async getLowStockProducts(lowStockThreshold = 0): Promise<Product[]> {
     return await db
       .select()
       .from(products)
       .where(and(
         eq(products.isActive, true),
-        sql`${products.quantity} <= ${threshold}`
+        sql`${products.quantity} - ${products.reservedQuantity} <= ${lowStockLevel(lowStockThreshold)}`
       ))
-      .orderBy(products.quantity);
+      .orderBy(sql`${products.quantity} - ${products.reservedQuantity}`);
   }
 
-  // Invoice operations
-  async createInvoice(invoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice> {
+  // Product variant operations
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariants)
+      .where(and(eq(productVariants.productId, productId), eq(productVariants.isActive, true)))
+      .orderBy(productVariants.color, productVariants.size);
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  async setProductVariants(productId: string, variants: InsertProductVariant[], userId?: string): Promise<ProductVariant[]> {
     return await db.transaction(async (tx) => {
-      // Generate invoice number
-      const invoiceCount = await tx.select({ count: count() }).from(invoices);
-      const invoiceNumber = `INV-${String(invoiceCount[0].count + 1).padStart(4, '0')}`;
-      
-      const [newInvoice] = await tx
-        .insert(invoices)
-        .values({ ...invoice, invoiceNumber })
-        .returning();
-      
-      const invoiceItemsWithId = items.map(item => ({
-        ...item,
-        invoiceId: newInvoice.id
-      }));
-      
-      await tx.insert(invoiceItems).values(invoiceItemsWithId);
-      
-      return newInvoice;
+      const [product] = await tx
+        .select()
+        .from(products)
+        .where(eq(products.id, productId))
+        .for('update');
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      return await replaceProductVariants(tx, product, variants, userId);
     });
   }
 
+  // Stock movement ledger (append-only: rows are never updated or deleted)
+  async getStockMovements(productId: string, options?: { limit?: number; offset?: number }): Promise<{ movements: StockMovementWithRefs[]; total: number }> {
+    const { limit = 50, offset = 0 } = options || {};
+
+    const [rows, totalResult] = await Promise.all([
+      db.select({
+        movement: stockMovements,
+        user: userSummaryColumns,
+        invoiceNumber: invoices.invoiceNumber,
+        poNumber: purchaseOrders.poNumber,
+        stockTakeReference: stockTakes.reference,
+        creditNoteNumber: creditNotes.creditNoteNumber,
+        variant: { sku: productVariants.sku, size: productVariants.size, color: productVariants.color }
+      })
+        .from(stockMovements)
+        .leftJoin(users, eq(stockMovements.userId, users.id))
+        .leftJoin(invoices, eq(stockMovements.invoiceId, invoices.id))
+        .leftJoin(purchaseOrders, eq(stockMovements.purchaseOrderId, purchaseOrders.id))
+        .leftJoin(stockTakes, eq(stockMovements.stockTakeId, stockTakes.id))
+        .leftJoin(creditNotes, eq(stockMovements.creditNoteId, creditNotes.id))
+        .leftJoin(productVariants, eq(stockMovements.variantId, productVariants.id))
+        .where(eq(stockMovements.productId, productId))
+        .orderBy(desc(stockMovements.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(stockMovements).where(eq(stockMovements.productId, productId))
+    ]);
+
+    return {
+      movements: rows.map(({ movement, ...refs }) => ({ ...movement, ...refs })),
+      total: totalResult[0].count
+    };
+  }
+
+  // Invoice operations
+  async createInvoice(invoice: InsertInvoice, items: InsertInvoiceItem[]): Promise<Invoice> {
+    return await db.transaction(async (tx) => insertInvoice(tx, invoice, items));
+  }
+
   async getInvoice(id: string): Promise<Invoice | undefined> {
     const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
     return invoice;
   }
 
-  async getAllInvoices(options?: { limit?: number; offset?: number; status?: string; startDate?: string; endDate?: string; customerName?: string }): Promise<{ invoices: Invoice[]; total: number }> {
-    const { limit = 50, offset = 0, status, startDate, endDate, customerName } = options || {};
+  async getAllInvoices(options?: { limit?: number; offset?: number; status?: string; paymentStatus?: PaymentStatus; startDate?: string; endDate?: string; customerName?: string; customerId?: string }): Promise<{ invoices: InvoiceWithPaymentState[]; total: number }> {
+    const { limit = 50, offset = 0, status, paymentStatus, startDate, endDate, customerName, customerId } = options || {};
     
     const conditions = [];
     
@@ -320,6 +1708,9 @@ export class DatabaseStorage implements IStorage {
     if (status) {
       conditions.push(eq(invoices.status, status as any));
     }
+    if (paymentStatus) {
+      conditions.push(paymentStatusCondition(paymentStatus));
+    }
     if (startDate) {
       conditions.push(sql`${invoices.createdAt} >= ${startDate}`);
     }
@@ -329,6 +1720,9 @@ export class DatabaseStorage implements IStorage {
     if (customerName) {
       conditions.push(ilike(invoices.customerName, `%${customerName}%`));
     }
+    if (customerId) {
+      conditions.push(eq(invoices.customerId, customerId));
+    }
     
     const whereCondition = conditions.length > 0 
       ? (conditions.length === 1 ? conditions[0] : and(...conditions))
@@ -350,14 +1744,80 @@ export class DatabaseStorage implements IStorage {
         : db.select({ count: count() }).from(invoices)
     ]);
     
+    const now = new Date();
     return {
-      invoices: invoicesResult,
+      invoices: invoicesResult.map(invoice => withPaymentState(invoice, now)),
       total: totalResult[0].count
     };
   }
 
-  async updateInvoiceStatus(id: string, status: string, processedBy?: string): Promise<Invoice> {
+  async updateInvoiceStatus(id: string, status: string, processedBy?: string): Promise<Invoice & { previousStatus: string | null; stockDeltas: StockDelta[] }> {
     return await db.transaction(async (tx) => {
+      // Lock the invoice so concurrent status changes are applied one at a time
+      const version = await nextInvoiceVersion(tx, id);
+      const [current] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, id))
+        .for('update');
+      
+      if (!current) {
+        throw new Error('Invoice not found');
+      }
+      // A credit note for free or fully discounted lines restocks without changing the credited amount,
+      // so the credit notes themselves are counted
+      if (current.status === 'Processed' && status !== 'Processed') {
+        const [{ creditNoteCount }] = await tx
+          .select({ creditNoteCount: count() })
+          .from(creditNotes)
+          .where(eq(creditNotes.invoiceId, id));
+        if (creditNoteCount > 0) {
+          throw new InvoiceHasCreditNotesError(status);
+        }
+      }
+      
+      const items = await tx
+        .select()
+        .from(invoiceItems)
+        .where(eq(invoiceItems.invoiceId, id));
+      const lines = items.map(toStockLine);
+      let stockDeltas: StockDelta[] = [];
+      
+      if (current.status === 'Pending' && status === 'Processed') {
+        // Convert the reservation into a deduction, refusing to drive stock negative
+        const shortages = await lockAndCheckStock(tx, lines, 'onHand');
+        if (shortages.length > 0) {
+          throw new InsufficientStockError(shortages);
+        }
+        for (const line of aggregateStockLines(lines)) {
+          await adjustStock(tx, line, { onHand: -line.quantity, reserved: -line.quantity }, {
+            reason: 'sale',
+            invoiceId: id,
+            userId: processedBy,
+            note: `Invoice ${current.invoiceNumber} processed`,
+          });
+        }
+        stockDeltas = await buildStockDeltas(tx, lines, -1);
+      } else if (current.status === 'Pending' && status === 'Deleted') {
+        await releaseStock(tx, lines);
+      } else if (current.status === 'Processed' && (status === 'Pending' || status === 'Deleted')) {
+        // Return the deducted quantities; a reverted invoice holds them again as a reservation
+        for (const line of aggregateStockLines(lines)) {
+          await adjustStock(tx, line, {
+            onHand: line.quantity,
+            reserved: status === 'Pending' ? line.quantity : 0
+          }, {
+            reason: 'return',
+            invoiceId: id,
+            userId: processedBy,
+            note: status === 'Pending'
+              ? `Invoice ${current.invoiceNumber} reverted to Pending`
+              : `Invoice ${current.invoiceNumber} deleted`,
+          });
+        }
+        stockDeltas = await buildStockDeltas(tx, lines, 1);
+      }
+      
       const updateData: any = { status, updatedAt: new Date() };
       if (status === 'Processed' && processedBy) {
         updateData.processedBy = processedBy;
@@ -370,36 +1830,14 @@ export class DatabaseStorage implements IStorage {
         .set(updateData)
         .where(eq(invoices.id, id))
         .returning();
+
+      await saveInvoiceVersion(tx, id, version, {
+        changeType: 'status',
+        summary: status === 'Deleted' ? 'Invoice deleted' : `Status changed from ${current.status} to ${status}`,
+        userId: processedBy
+      });
       
-      // If processing the invoice, deduct inventory quantities
-      if (status === 'Processed') {
-        // Get invoice items
-        const items = await tx
-          .select()
-          .from(invoiceItems)
-          .where(eq(invoiceItems.invoiceId, id));
-        
-        // Deduct inventory for each item
-        for (const item of items) {
-          // Get current product quantity first
-          const [currentProduct] = await tx
-            .select({ quantity: products.quantity })
-            .from(products)
-            .where(eq(products.id, item.productId));
-          
-          const newQuantity = (currentProduct?.quantity || 0) - item.quantity;
-          
-          await tx
-            .update(products)
-            .set({ 
-              quantity: newQuantity,
-              updatedAt: new Date()
-            })
-            .where(eq(products.id, item.productId));
-        }
-      }
-      
-      return invoice;
+      return { ...invoice, previousStatus: current.status, stockDeltas };
     });
   }
 
@@ -412,173 +1850,1922 @@ export class DatabaseStorage implements IStorage {
     return invoice;
   }
 
-  async getInvoiceItems(invoiceId: string): Promise<(InvoiceItem & { product: Product })[]> {
+  async getInvoiceItems(invoiceId: string): Promise<(InvoiceItem & { product: Product; variant: ProductVariant | null })[]> {
     const result = await db
       .select()
       .from(invoiceItems)
       .leftJoin(products, eq(invoiceItems.productId, products.id))
+      .leftJoin(productVariants, eq(invoiceItems.variantId, productVariants.id))
       .where(eq(invoiceItems.invoiceId, invoiceId));
     
     return result.map(row => ({
       ...row.invoice_items,
-      product: row.products!
+      product: row.products!,
+      variant: row.product_variants
     }));
   }
 
-  async getInvoiceWithItems(id: string): Promise<(Invoice & { items: (InvoiceItem & { product: Product })[] }) | undefined> {
+  async getInvoiceWithItems(id: string): Promise<(InvoiceWithPaymentState & { items: (InvoiceItem & { product: Product; variant: ProductVariant | null })[]; promotions: InvoicePromotion[] }) | undefined> {
     const invoice = await this.getInvoice(id);
     if (!invoice) return undefined;
     
-    const items = await this.getInvoiceItems(id);
+    const [items, appliedPromotions] = await Promise.all([
+      this.getInvoiceItems(id),
+      db.select().from(invoicePromotions).where(eq(invoicePromotions.invoiceId, id)).orderBy(desc(invoicePromotions.discountAmount))
+    ]);
     
     return {
-      ...invoice,
-      items
+      ...withPaymentState(invoice),
+      items,
+      promotions: appliedPromotions
     };
   }
 
-  async updateInvoiceDiscount(id: string, discountAmount: number): Promise<Invoice> {
-    const [invoice] = await db
-      .select()
-      .from(invoices)
-      .where(eq(invoices.id, id));
-    
-    if (!invoice) {
-      throw new Error('Invoice not found');
-    }
-    
-    if (invoice.status !== 'Pending') {
-      throw new Error('Can only update discount for pending invoices');
-    }
-    
-    // Calculate new values based on discount amount (no tax)
-    const subtotal = parseFloat(invoice.subtotal);
-    const total = subtotal - discountAmount;
-    
-    // Calculate percentage for reference (optional, can be removed if not needed)
-    const discountPercentage = subtotal > 0 ? (discountAmount / subtotal) : 0;
-    
-    const [updatedInvoice] = await db
-      .update(invoices)
-      .set({
-        discountPercentage: discountPercentage.toFixed(4),
-        discountAmount: discountAmount.toFixed(2),
-        taxAmount: "0.00",
-        total: total.toFixed(2),
-        updatedAt: new Date()
-      })
-      .where(eq(invoices.id, id))
-      .returning();
-    
-    return updatedInvoice;
+  async updateInvoiceDiscount(id: string, discountAmount: number, userId?: string): Promise<Invoice> {
+    // The discount changes the taxable amount of every line, so tax and total are recomputed with it
+    return await db.transaction(async (tx) => {
+      const version = await nextInvoiceVersion(tx, id);
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, id));
+      if (invoice.status !== 'Pending') {
+        throw new Error('Can only update discount for pending invoices');
+      }
+      
+      const subtotal = parseFloat(invoice.subtotal);
+      
+      // Calculate percentage for reference (optional, can be removed if not needed)
+      const discountPercentage = subtotal > 0 ? (discountAmount / subtotal) : 0;
+      
+      await tx
+        .update(invoices)
+        .set({
+          discountPercentage: discountPercentage.toFixed(4),
+          discountAmount: discountAmount.toFixed(2)
+        })
+        .where(eq(invoices.id, id));
+      const updated = await applyInvoiceTotals(tx, id);
+      await saveInvoiceVersion(tx, id, version, {
+        changeType: 'discount',
+        summary: `Invoice discount changed from ${formatMoney(invoice.discountAmount || 0, invoice.currency)} to ${formatMoney(discountAmount, invoice.currency)}`,
+        userId
+      });
+      return updated;
+    });
   }
 
-  async addInvoiceItem(invoiceId: string, item: InsertInvoiceItem): Promise<InvoiceItem> {
-    // First check that the invoice exists and is pending
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
-    if (!invoice) {
-      throw new Error('Invoice not found');
-    }
-    if (invoice.status !== 'Pending') {
-      throw new Error('Can only add items to pending invoices');
-    }
-
-    // Insert the new item
-    const [newItem] = await db
-      .insert(invoiceItems)
-      .values({ ...item, invoiceId })
-      .returning();
-
-    // Recalculate invoice totals
-    await this.recalculateInvoiceTotals(invoiceId);
-
-    return newItem;
+  async addInvoiceItem(invoiceId: string, item: InvoiceItemRequest, userId?: string): Promise<InvoiceItem> {
+    // Insert the new item, reserve its stock and update the totals together
+    return await db.transaction(async (tx) => {
+      const version = await nextInvoiceVersion(tx, invoiceId);
+      // Checked under the invoice lock, so a line can't be added as the invoice is processed
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId));
+      if (invoice.status !== 'Pending') {
+        throw new Error('Can only add items to pending invoices');
+      }
+      await reserveStock(tx, [toStockLine(item)]);
+      const [itemTaxRates, unitPrices] = await Promise.all([
+        resolveItemTaxRates(tx, [item.productId]),
+        resolveUnitPrices(tx, [item.productId], invoice.customerId, invoice.exchangeRate)
+      ]);
+      const unitPrice = unitPrices.get(item.productId);
+      if (!unitPrice) {
+        throw new Error('Product not found');
+      }
+      const [inserted] = await tx
+        .insert(invoiceItems)
+        .values(withLineTotal({ ...item, unitPrice, ...itemTaxRates.get(item.productId), invoiceId }))
+        .returning();
+      await applyInvoiceTotals(tx, invoiceId);
+      await saveInvoiceVersion(tx, invoiceId, version, {
+        changeType: 'item_added',
+        summary: `Added ${await describeInvoiceLine(tx, item)} × ${item.quantity}`,
+        userId
+      });
+      return inserted;
+    });
   }
 
-  async updateInvoiceItemQuantity(invoiceItemId: string, quantity: number): Promise<InvoiceItem> {
-    // Get the invoice item
-    const [item] = await db.select().from(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
-    if (!item) {
-      throw new Error('Invoice item not found');
-    }
+  async updateInvoiceItemQuantity(invoiceItemId: string, quantity: number, userId?: string): Promise<InvoiceItem> {
+    return await db.transaction(async (tx) => {
+      const { item, version } = await lockPendingInvoiceItem(tx, invoiceItemId, 'Can only update items in pending invoices');
 
-    // Check that the invoice is pending
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, item.invoiceId));
-    if (!invoice) {
-      throw new Error('Invoice not found');
-    }
-    if (invoice.status !== 'Pending') {
-      throw new Error('Can only update items in pending invoices');
-    }
+      // Update the quantity and total price; an amount discount stays fixed, a percentage scales with the line
+      const { discountAmount, totalPrice } = withLineTotal({ ...item, quantity });
 
-    // Update the quantity and total price
-    const unitPrice = parseFloat(item.unitPrice);
-    const totalPrice = (unitPrice * quantity).toFixed(2);
+      // Only the difference needs to be reserved or released
+      const delta = quantity - item.quantity;
+      if (delta > 0) {
+        await reserveStock(tx, [toStockLine({ ...item, quantity: delta })]);
+      } else if (delta < 0) {
+        await releaseStock(tx, [toStockLine({ ...item, quantity: -delta })]);
+      }
 
-    const [updatedItem] = await db
-      .update(invoiceItems)
-      .set({ 
-        quantity,
-        totalPrice
-      })
-      .where(eq(invoiceItems.id, invoiceItemId))
-      .returning();
+      const [updated] = await tx
+        .update(invoiceItems)
+        .set({ 
+          quantity,
+          discountAmount,
+          totalPrice
+        })
+        .where(eq(invoiceItems.id, invoiceItemId))
+        .returning();
+      await applyInvoiceTotals(tx, item.invoiceId);
+      await saveInvoiceVersion(tx, item.invoiceId, version, {
+        changeType: 'item_quantity',
+        summary: `Changed ${await describeInvoiceLine(tx, item)} quantity from ${item.quantity} to ${quantity}`,
+        userId
+      });
+      return updated;
+    });
+  }
 
-    // Recalculate invoice totals
-    await this.recalculateInvoiceTotals(item.invoiceId);
+  async updateInvoiceItemDiscount(invoiceItemId: string, discount: LineDiscount, userId?: string): Promise<InvoiceItem> {
+    const discountType = discount.discountValue > 0 ? discount.discountType : null;
+    const discountValue = discountType ? discount.discountValue.toFixed(4) : "0.0000";
 
-    return updatedItem;
+    return await db.transaction(async (tx) => {
+      const { item, version } = await lockPendingInvoiceItem(tx, invoiceItemId, 'Can only discount items in pending invoices');
+      const line = withLineTotal({ ...item, discountType, discountValue });
+      const [updated] = await tx
+        .update(invoiceItems)
+        .set({ discountType, discountValue, discountAmount: line.discountAmount, totalPrice: line.totalPrice })
+        .where(eq(invoiceItems.id, invoiceItemId))
+        .returning();
+      await applyInvoiceTotals(tx, item.invoiceId);
+      await saveInvoiceVersion(tx, item.invoiceId, version, {
+        changeType: 'item_discount',
+        summary: discountType
+          ? `Changed ${await describeInvoiceLine(tx, item)} discount`
+          : `Removed ${await describeInvoiceLine(tx, item)} discount`,
+        userId
+      });
+      return updated;
+    });
   }
 
-  async deleteInvoiceItem(invoiceItemId: string): Promise<void> {
-    // Get the invoice item
-    const [item] = await db.select().from(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
-    if (!item) {
-      throw new Error('Invoice item not found');
-    }
+  async deleteInvoiceItem(invoiceItemId: string, userId?: string): Promise<void> {
+    // Delete the item, release its reservation and update the totals together
+    await db.transaction(async (tx) => {
+      const { item, version } = await lockPendingInvoiceItem(tx, invoiceItemId, 'Can only delete items from pending invoices');
+      const label = await describeInvoiceLine(tx, item);
+      await releaseStock(tx, [toStockLine(item)]);
+      await tx.delete(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
+      await applyInvoiceTotals(tx, item.invoiceId);
+      await saveInvoiceVersion(tx, item.invoiceId, version, { changeType: 'item_removed', summary: `Removed ${label}`, userId });
+    });
+  }
 
-    // Check that the invoice is pending
-    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, item.invoiceId));
-    if (!invoice) {
-      throw new Error('Invoice not found');
+  async recalculateInvoiceTotals(invoiceId: string): Promise<Invoice> {
+    return await db.transaction(async (tx) => applyInvoiceTotals(tx, invoiceId));
+  }
+
+  async setInvoiceCoupon(invoiceId: string, code: string | null, userId?: string): Promise<Invoice> {
+    return await db.transaction(async (tx) => {
+      const version = await nextInvoiceVersion(tx, invoiceId);
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for('update');
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status !== 'Pending') {
+        throw new Error('Coupons can only be applied to pending invoices');
+      }
+      if (code) {
+        await assertValidCoupon(tx, code, invoice.createdAt || new Date());
+      }
+
+      await tx.update(invoices).set({ couponCode: code }).where(eq(invoices.id, invoiceId));
+      const updated = await applyInvoiceTotals(tx, invoiceId);
+      await saveInvoiceVersion(tx, invoiceId, version, {
+        changeType: 'coupon',
+        summary: code ? `Applied coupon ${code}` : `Removed coupon ${invoice.couponCode}`,
+        userId
+      });
+      return updated;
+    });
+  }
+
+  // Invoice versions
+  async getInvoiceVersions(invoiceId: string): Promise<InvoiceVersionSummary[]> {
+    const rows = await db
+      .select({ invoice_versions: invoiceVersions, users: userSummaryColumns })
+      .from(invoiceVersions)
+      .leftJoin(users, eq(invoiceVersions.createdBy, users.id))
+      .where(eq(invoiceVersions.invoiceId, invoiceId))
+      .orderBy(desc(invoiceVersions.version));
+
+    return rows.map(({ invoice_versions: { snapshot, ...version }, users: user }) => ({
+      ...version,
+      createdByUser: user,
+      total: snapshot.total,
+      itemCount: snapshot.items.length
+    }));
+  }
+
+  async getInvoiceVersion(invoiceId: string, version: number): Promise<InvoiceVersionWithUser | undefined> {
+    const [row] = await db
+      .select({ invoice_versions: invoiceVersions, users: userSummaryColumns })
+      .from(invoiceVersions)
+      .leftJoin(users, eq(invoiceVersions.createdBy, users.id))
+      .where(and(eq(invoiceVersions.invoiceId, invoiceId), eq(invoiceVersions.version, version)));
+    return row ? { ...row.invoice_versions, createdByUser: row.users } : undefined;
+  }
+
+  // Quotation operations
+  async createQuotation(quotation: InsertQuotation, items: InsertQuotationItem[]): Promise<Quotation> {
+    return await db.transaction(async (tx) => {
+      const quotationNumber = await nextDocumentNumber(tx, 'quotation');
+      const validUntil = quotation.validUntil || new Date(Date.now() + DEFAULT_QUOTATION_VALIDITY_DAYS * 24 * 60 * 60 * 1000);
+      const currency = quotation.currency || BASE_CURRENCY;
+      // The rate is fixed again on conversion, but a currency without one could never become an invoice
+      const exchangeRate = await resolveExchangeRate(tx, currency, new Date());
+
+      const productIds = Array.from(new Set(items.map(item => item.productId)));
+      const [itemTaxRates, unitPrices] = await Promise.all([
+        resolveItemTaxRates(tx, productIds),
+        resolveUnitPrices(tx, productIds, quotation.customerId || null, exchangeRate)
+      ]);
+      const lines = items.map(item => withLineTotal({
+        ...item,
+        unitPrice: unitPrices.get(item.productId) || item.unitPrice,
+        ...(itemTaxRates.get(item.productId) || { taxRateId: null, taxRate: "0.0000" })
+      }));
+      const breakdown = calculateInvoiceTax(
+        lines.map(line => ({ totalPrice: parseFloat(line.totalPrice), taxRate: parseFloat(line.taxRate) })),
+        parseFloat(quotation.discountAmount || "0"),
+        quotation.pricesIncludeTax || false
+      );
+
+      const [newQuotation] = await tx
+        .insert(quotations)
+        .values({
+          ...quotation,
+          quotationNumber,
+          validUntil,
+          currency,
+          subtotal: breakdown.subtotal.toFixed(2),
+          taxRate: breakdown.effectiveRate.toFixed(4),
+          taxAmount: breakdown.taxAmount.toFixed(2),
+          total: breakdown.total.toFixed(2)
+        })
+        .returning();
+
+      await tx.insert(quotationItems).values(lines.map((line, i) => ({
+        ...line,
+        taxAmount: breakdown.lineTaxes[i].toFixed(2),
+        quotationId: newQuotation.id
+      })));
+
+      return newQuotation;
+    });
+  }
+
+  async getQuotation(id: string): Promise<Quotation | undefined> {
+    const [quotation] = await db.select().from(quotations).where(eq(quotations.id, id));
+    return quotation;
+  }
+
+  async getQuotationWithItems(id: string): Promise<QuotationWithItems | undefined> {
+    const quotation = await this.getQuotation(id);
+    if (!quotation) return undefined;
+
+    const [itemRows, [createdByUser], [invoice]] = await Promise.all([
+      db.select()
+        .from(quotationItems)
+        .innerJoin(products, eq(quotationItems.productId, products.id))
+        .leftJoin(productVariants, eq(quotationItems.variantId, productVariants.id))
+        .where(eq(quotationItems.quotationId, id)),
+      quotation.createdBy
+        ? db.select(userSummaryColumns).from(users).where(eq(users.id, quotation.createdBy))
+        : Promise.resolve([]),
+      quotation.invoiceId
+        ? db.select({ id: invoices.id, invoiceNumber: invoices.invoiceNumber, status: invoices.status })
+            .from(invoices)
+            .where(eq(invoices.id, quotation.invoiceId))
+        : Promise.resolve([])
+    ]);
+
+    return {
+      ...quotation,
+      createdByUser: createdByUser || null,
+      invoice: invoice || null,
+      items: itemRows.map(row => ({ ...row.quotation_items, product: row.products, variant: row.product_variants }))
+    };
+  }
+
+  async getAllQuotations(options?: { limit?: number; offset?: number; search?: string; status?: string }): Promise<QuotationsResponse> {
+    const { limit = 50, offset = 0, search, status } = options || {};
+
+    const conditions = [];
+    if (search) {
+      conditions.push(or(
+        ilike(quotations.quotationNumber, `%${search}%`),
+        ilike(quotations.customerName, `%${search}%`)
+      ));
+    }
+    if (status) {
+      conditions.push(eq(quotations.status, status as Quotation["status"]));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, totalResult] = await Promise.all([
+      db.select()
+        .from(quotations)
+        .where(whereClause)
+        .orderBy(desc(quotations.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(quotations).where(whereClause)
+    ]);
+
+    return {
+      quotations: rows,
+      total: totalResult[0].count
+    };
+  }
+
+  // Only an open quotation moves to Sent; resending a sent one leaves it as it is
+  async markQuotationSent(id: string): Promise<Quotation> {
+    await db
+      .update(quotations)
+      .set({ status: 'Sent', updatedAt: new Date() })
+      .where(and(eq(quotations.id, id), eq(quotations.status, 'Open')));
+
+    const quotation = await this.getQuotation(id);
+    if (!quotation) {
+      throw new Error('Quotation not found');
+    }
+    return quotation;
+  }
+
+  async cancelQuotation(id: string): Promise<Quotation> {
+    return await db.transaction(async (tx) => {
+      const [quotation] = await tx
+        .select()
+        .from(quotations)
+        .where(eq(quotations.id, id))
+        .for('update');
+
+      if (!quotation) {
+        throw new Error('Quotation not found');
+      }
+      if (quotation.status === 'Converted') {
+        throw new Error('Converted quotations cannot be cancelled');
+      }
+
+      const [cancelled] = await tx
+        .update(quotations)
+        .set({ status: 'Cancelled', updatedAt: new Date() })
+        .where(eq(quotations.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  // The invoice starts Pending like any other, so stock is only deducted once it is processed.
+  // Quoted prices are kept; tax is resolved again from the current tax classes.
+  async convertQuotationToInvoice(id: string, userId: string): Promise<{ quotation: Quotation; invoice: Invoice }> {
+    return await db.transaction(async (tx) => {
+      // Lock the quotation so a double click can't produce two invoices
+      const [quotation] = await tx
+        .select()
+        .from(quotations)
+        .where(eq(quotations.id, id))
+        .for('update');
+
+      if (!quotation) {
+        throw new Error('Quotation not found');
+      }
+      if (quotation.status === 'Converted' || quotation.status === 'Cancelled') {
+        throw new Error(`Quotation is already ${quotation.status.toLowerCase()}`);
+      }
+      if (isQuotationExpired(quotation)) {
+        throw new Error('Quotation has expired');
+      }
+
+      const items = await tx.select().from(quotationItems).where(eq(quotationItems.quotationId, id));
+      if (items.length === 0) {
+        throw new Error('Quotation has no items');
+      }
+
+      // A customer deactivated since the quote was issued is matched or recreated from the quoted details
+      const [customer] = quotation.customerId
+        ? await tx.select().from(customers).where(eq(customers.id, quotation.customerId))
+        : [];
+
+      const invoice = await insertInvoice(tx, {
+        customerId: customer?.isActive ? customer.id : null,
+        customerName: quotation.customerName,
+        customerEmail: quotation.customerEmail,
+        customerPhone: quotation.customerPhone,
+        customerAddress: quotation.customerAddress,
+        status: 'Pending',
+        subtotal: quotation.subtotal,
+        discountAmount: quotation.discountAmount,
+        taxRate: quotation.taxRate,
+        taxAmount: quotation.taxAmount,
+        pricesIncludeTax: quotation.pricesIncludeTax,
+        currency: quotation.currency as InsertInvoice["currency"],
+        total: quotation.total,
+        notes: quotation.notes,
+        createdBy: userId
+      }, items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discountType: item.discountType,
+        discountValue: item.discountValue,
+        totalPrice: item.totalPrice
+      })), true);
+
+      const [converted] = await tx
+        .update(quotations)
+        .set({ status: 'Converted', invoiceId: invoice.id, convertedAt: new Date(), convertedBy: userId, updatedAt: new Date() })
+        .where(eq(quotations.id, id))
+        .returning();
+
+      return { quotation: converted, invoice };
+    });
+  }
+
+  // Payment operations
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getInvoicePayments(invoiceId: string): Promise<PaymentWithUsers[]> {
+    const rows = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.invoiceId, invoiceId))
+      .orderBy(desc(payments.paidAt), desc(payments.createdAt));
+
+    const userIds = Array.from(new Set(rows.flatMap(payment => [payment.createdBy, payment.voidedBy])))
+      .filter((userId): userId is string => !!userId);
+    const userRows = userIds.length > 0
+      ? await db.select(userSummaryColumns).from(users).where(inArray(users.id, userIds))
+      : [];
+
+    return rows.map(payment => ({
+      ...payment,
+      createdByUser: userRows.find(user => user.id === payment.createdBy) || null,
+      voidedByUser: userRows.find(user => user.id === payment.voidedBy) || null
+    }));
+  }
+
+  async recordPayment(invoiceId: string, payment: InsertPayment): Promise<{ payment: Payment; invoice: InvoiceWithPaymentState }> {
+    return await db.transaction(async (tx) => {
+      // Lock the invoice so concurrent payments can't overpay it
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, invoiceId))
+        .for('update');
+
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status === 'Deleted') {
+        throw new Error('Cannot record payments against a deleted invoice');
+      }
+
+      const { balanceDue } = withPaymentState(invoice);
+      const amount = parseFloat(payment.amount);
+      if (amount - balanceDue > 0.005) {
+        throw new Error(`Payment of ${amount.toFixed(2)} exceeds the balance due of ${Math.max(balanceDue, 0).toFixed(2)}`);
+      }
+
+      const [newPayment] = await tx
+        .insert(payments)
+        .values({ ...payment, invoiceId })
+        .returning();
+
+      const [updatedInvoice] = await tx
+        .update(invoices)
+        .set({ amountPaid: (parseFloat(invoice.amountPaid) + amount).toFixed(2), updatedAt: new Date() })
+        .where(eq(invoices.id, invoiceId))
+        .returning();
+
+      return { payment: newPayment, invoice: withPaymentState(updatedInvoice) };
+    });
+  }
+
+  async voidPayment(paymentId: string, userId: string, reason?: string): Promise<{ payment: Payment; invoice: InvoiceWithPaymentState }> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(payments).where(eq(payments.id, paymentId));
+      if (!existing) {
+        throw new Error('Payment not found');
+      }
+
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, existing.invoiceId))
+        .for('update');
+
+      // Re-read under the invoice lock so a payment can't be voided twice
+      const [payment] = await tx.select().from(payments).where(eq(payments.id, paymentId));
+      if (payment.voidedAt) {
+        throw new Error('Payment has already been voided');
+      }
+
+      const [voidedPayment] = await tx
+        .update(payments)
+        .set({ voidedAt: new Date(), voidedBy: userId, voidReason: reason || null })
+        .where(eq(payments.id, paymentId))
+        .returning();
+
+      const amountPaid = Math.max(parseFloat(invoice.amountPaid) - parseFloat(payment.amount), 0);
+      const [updatedInvoice] = await tx
+        .update(invoices)
+        .set({ amountPaid: amountPaid.toFixed(2), updatedAt: new Date() })
+        .where(eq(invoices.id, invoice.id))
+        .returning();
+
+      return { payment: voidedPayment, invoice: withPaymentState(updatedInvoice) };
+    });
+  }
+
+  // Credit note operations
+  async createCreditNote(invoiceId: string, creditNote: InsertCreditNote, lines: CreditNoteLine[]): Promise<CreditNote & { stockDeltas: StockDelta[] }> {
+    return await db.transaction(async (tx) => {
+      // Lock the invoice so two credit notes can't both credit the same units
+      const [invoice] = await tx
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, invoiceId))
+        .for('update');
+
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      if (invoice.status !== 'Processed') {
+        throw new Error('Credit notes can only be issued against processed invoices');
+      }
+
+      const requested = lines.filter(line => line.quantity > 0);
+      if (requested.length === 0) {
+        throw new Error('Select at least one item to credit');
+      }
+
+      const [items, creditedRows] = await Promise.all([
+        tx.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId)),
+        tx.select({
+          invoiceItemId: creditNoteItems.invoiceItemId,
+          quantity: sql<number>`SUM(${creditNoteItems.quantity})`
+        })
+          .from(creditNoteItems)
+          .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+          .where(eq(creditNotes.invoiceId, invoiceId))
+          .groupBy(creditNoteItems.invoiceItemId)
+      ]);
+
+      const creditLines = requested.map(line => {
+        const item = items.find(i => i.id === line.invoiceItemId);
+        if (!item) {
+          throw new Error('Invoice item not found');
+        }
+        const alreadyCredited = Number(creditedRows.find(row => row.invoiceItemId === item.id)?.quantity || 0);
+        const creditable = item.quantity - alreadyCredited;
+        if (line.quantity > creditable) {
+          throw new Error(`Cannot credit ${line.quantity} units; only ${creditable} left to credit on this line`);
+        }
+        return { item, quantity: line.quantity, restock: line.restock };
+      });
+
+      // Lines are credited at what was charged for them, after any line discount
+      const creditedValue = (line: typeof creditLines[number]) =>
+        parseFloat(line.item.totalPrice) * line.quantity / line.item.quantity;
+      const subtotal = creditLines.reduce((sum, line) => sum + creditedValue(line), 0);
+      // Promotions come back with the units they were given on; the invoice discount
+      // is shared across what is left in proportion to value
+      const promotionShare = creditLines.reduce(
+        (sum, line) => sum + parseFloat(line.item.promotionDiscount) * line.quantity / line.item.quantity,
+        0
+      );
+      const invoiceNet = parseFloat(invoice.subtotal) - parseFloat(invoice.promotionDiscount);
+      const discountAmount = promotionShare + (invoiceNet > 0
+        ? (subtotal - promotionShare) * parseFloat(invoice.discountAmount || "0") / invoiceNet
+        : 0);
+      // Each line gives back its own tax in proportion to the units credited
+      const taxAmount = creditLines.reduce(
+        (sum, line) => sum + parseFloat(line.item.taxAmount) * line.quantity / line.item.quantity,
+        0
+      );
+      const remaining = parseFloat(invoice.total) - parseFloat(invoice.creditedAmount);
+      const gross = invoice.pricesIncludeTax
+        ? subtotal - discountAmount
+        : subtotal - discountAmount + taxAmount;
+      const total = Math.min(gross, Math.max(remaining, 0));
+
+      const creditNoteNumber = await nextDocumentNumber(tx, 'credit_note');
+
+      const [newCreditNote] = await tx
+        .insert(creditNotes)
+        .values({
+          ...creditNote,
+          creditNoteNumber,
+          invoiceId,
+          customerId: invoice.customerId,
+          subtotal: subtotal.toFixed(2),
+          discountAmount: discountAmount.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2)
+        })
+        .returning();
+
+      await tx.insert(creditNoteItems).values(creditLines.map(line => ({
+        creditNoteId: newCreditNote.id,
+        invoiceItemId: line.item.id,
+        productId: line.item.productId,
+        variantId: line.item.variantId,
+        quantity: line.quantity,
+        unitPrice: (parseFloat(line.item.totalPrice) / line.item.quantity).toFixed(2),
+        totalPrice: creditedValue(line).toFixed(2),
+        restock: line.restock
+      })));
+
+      // Returned goods go back on the shelf; damaged or written-off lines are credited without restocking
+      const restockLines = creditLines
+        .filter(line => line.restock)
+        .map(line => toStockLine({ ...line.item, quantity: line.quantity }));
+      for (const line of aggregateStockLines(restockLines)) {
+        await adjustStock(tx, line, { onHand: line.quantity }, {
+          reason: 'return',
+          invoiceId,
+          creditNoteId: newCreditNote.id,
+          userId: creditNote.createdBy,
+          note: `Returned on ${creditNoteNumber}`,
+        });
+      }
+
+      await tx
+        .update(invoices)
+        .set({ creditedAmount: (parseFloat(invoice.creditedAmount) + total).toFixed(2), updatedAt: new Date() })
+        .where(eq(invoices.id, invoiceId));
+
+      const stockDeltas = await buildStockDeltas(tx, restockLines, 1);
+      return { ...newCreditNote, stockDeltas };
+    });
+  }
+
+  async getCreditNote(id: string): Promise<CreditNote | undefined> {
+    const [creditNote] = await db.select().from(creditNotes).where(eq(creditNotes.id, id));
+    return creditNote;
+  }
+
+  async getCreditNoteWithItems(id: string): Promise<CreditNoteWithItems | undefined> {
+    const creditNote = await this.getCreditNote(id);
+    if (!creditNote) return undefined;
+
+    const [withItems] = await withCreditNoteDetails([creditNote]);
+    return withItems;
+  }
+
+  async getAllCreditNotes(options?: { limit?: number; offset?: number; search?: string }): Promise<CreditNotesResponse> {
+    const { limit = 50, offset = 0, search } = options || {};
+
+    const conditions = [];
+    if (search) {
+      conditions.push(or(
+        ilike(creditNotes.creditNoteNumber, `%${search}%`),
+        ilike(invoices.invoiceNumber, `%${search}%`),
+        ilike(invoices.customerName, `%${search}%`)
+      ));
+    }
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, totalResult] = await Promise.all([
+      db.select()
+        .from(creditNotes)
+        .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+        .where(whereClause)
+        .orderBy(desc(creditNotes.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(creditNotes)
+        .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+        .where(whereClause)
+    ]);
+
+    return {
+      creditNotes: rows.map(row => ({
+        ...row.credit_notes,
+        invoice: { id: row.invoices.id, invoiceNumber: row.invoices.invoiceNumber, customerName: row.invoices.customerName, currency: row.invoices.currency }
+      })),
+      total: totalResult[0].count
+    };
+  }
+
+  async getInvoiceCreditNotes(invoiceId: string): Promise<CreditNoteWithItems[]> {
+    const rows = await db
+      .select()
+      .from(creditNotes)
+      .where(eq(creditNotes.invoiceId, invoiceId))
+      .orderBy(desc(creditNotes.createdAt));
+
+    return withCreditNoteDetails(rows);
+  }
+
+  // Tax configuration
+  async getTaxRates(): Promise<TaxRatesResponse> {
+    const [rateRows, categoryRows, productCategories] = await Promise.all([
+      db.select().from(taxRates).orderBy(desc(taxRates.isDefault), taxRates.name),
+      db.select().from(categoryTaxRates).orderBy(categoryTaxRates.category),
+      db.selectDistinct({ value: products.category })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`${products.category} IS NOT NULL AND ${products.category} != ''`))
+        .orderBy(products.category)
+    ]);
+
+    return {
+      taxRates: rateRows,
+      categoryRates: categoryRows,
+      categories: productCategories.map(row => row.value!)
+    };
+  }
+
+  async getTaxRate(id: string): Promise<TaxRate | undefined> {
+    const [taxRate] = await db.select().from(taxRates).where(eq(taxRates.id, id));
+    return taxRate;
+  }
+
+  async createTaxRate(taxRate: InsertTaxRate): Promise<TaxRate> {
+    return await db.transaction(async (tx) => {
+      // Only one rate can be the default
+      if (taxRate.isDefault) {
+        await tx.update(taxRates).set({ isDefault: false }).where(eq(taxRates.isDefault, true));
+      }
+      const [newTaxRate] = await tx.insert(taxRates).values(taxRate).returning();
+      return newTaxRate;
+    });
+  }
+
+  async updateTaxRate(id: string, taxRate: Partial<InsertTaxRate>): Promise<TaxRate> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(taxRates).where(eq(taxRates.id, id)).for('update');
+      if (!existing) {
+        throw new Error('Tax rate not found');
+      }
+      const isDefault = taxRate.isDefault ?? existing.isDefault;
+      if (taxRate.isActive === false && isDefault) {
+        throw new Error('The default tax rate cannot be deactivated; make another rate the default first');
+      }
+      if (taxRate.isDefault && !existing.isDefault) {
+        await tx.update(taxRates).set({ isDefault: false }).where(eq(taxRates.isDefault, true));
+      }
+
+      // Existing invoice lines keep the rate they were created with
+      const [updatedTaxRate] = await tx
+        .update(taxRates)
+        .set({ ...taxRate, updatedAt: new Date() })
+        .where(eq(taxRates.id, id))
+        .returning();
+      return updatedTaxRate;
+    });
+  }
+
+  async setCategoryTaxRate(category: string, taxRateId: string | null): Promise<CategoryTaxRate | null> {
+    if (!taxRateId) {
+      await db.delete(categoryTaxRates).where(eq(categoryTaxRates.category, category));
+      return null;
+    }
+
+    const [categoryTaxRate] = await db
+      .insert(categoryTaxRates)
+      .values({ category, taxRateId })
+      .onConflictDoUpdate({
+        target: categoryTaxRates.category,
+        set: { taxRateId, updatedAt: new Date() }
+      })
+      .returning();
+    return categoryTaxRate;
+  }
+
+  // Exchange rates
+  async getExchangeRates(): Promise<ExchangeRatesResponse> {
+    const rates = await db
+      .select()
+      .from(exchangeRates)
+      .orderBy(exchangeRates.currency, desc(exchangeRates.effectiveFrom));
+
+    // Rows are newest first per currency, so the first one already in effect wins
+    const now = new Date();
+    const current: Record<string, string> = { [BASE_CURRENCY]: "1" };
+    rates.forEach(rate => {
+      if (!current[rate.currency] && rate.effectiveFrom <= now) {
+        current[rate.currency] = rate.rate;
+      }
+    });
+
+    return {
+      baseCurrency: BASE_CURRENCY,
+      current,
+      rates: [...rates].sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime()),
+    };
+  }
+
+  async createExchangeRate(exchangeRate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [newRate] = await db.insert(exchangeRates).values(exchangeRate).returning();
+    return newRate;
+  }
+
+  // Document numbering
+  async getNumberSequences(): Promise<NumberSequence[]> {
+    return await db.transaction(async (tx) => {
+      for (const series of numberingSeries) {
+        await ensureNumberSequence(tx, series);
+      }
+      const sequences = await tx.select().from(numberSequences);
+      return numberingSeries.map(series => sequences.find(sequence => sequence.series === series)!);
+    });
+  }
+
+  async updateNumberSequence(series: NumberingSeries, settings: NumberSequenceSettings, userId: string): Promise<NumberSequence> {
+    return await db.transaction(async (tx) => {
+      await ensureNumberSequence(tx, series);
+
+      const [sequence] = await tx
+        .select()
+        .from(numberSequences)
+        .where(eq(numberSequences.series, series))
+        .for('update');
+
+      // Moving the counter back would reissue numbers that are already on documents
+      if (settings.nextValue !== undefined && settings.nextValue <= sequence.lastValue) {
+        throw new Error(`Next number must be greater than ${sequence.lastValue}, the last one issued`);
+      }
+
+      const [updated] = await tx
+        .update(numberSequences)
+        .set({
+          format: settings.format,
+          resetYearly: settings.resetYearly,
+          lastValue: settings.nextValue !== undefined ? settings.nextValue - 1 : sequence.lastValue,
+          updatedAt: new Date(),
+          updatedBy: userId
+        })
+        .where(eq(numberSequences.series, series))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Company profile
+  async getCompanyProfile(): Promise<CompanyProfile> {
+    const [profile] = await db.select().from(companyProfile).where(eq(companyProfile.id, DEFAULT_COMPANY_PROFILE.id));
+    return profile || { ...DEFAULT_COMPANY_PROFILE, updatedAt: null, updatedBy: null };
+  }
+
+  async updateCompanyProfile(settings: CompanyProfileSettings, userId: string): Promise<CompanyProfile> {
+    const changes = { ...settings, updatedAt: new Date(), updatedBy: userId };
+    const [profile] = await db
+      .insert(companyProfile)
+      .values({ ...DEFAULT_COMPANY_PROFILE, ...changes })
+      .onConflictDoUpdate({ target: companyProfile.id, set: changes })
+      .returning();
+    return profile;
+  }
+
+  async setCompanyLogo(logoPath: string | null, userId: string): Promise<CompanyProfile> {
+    const changes = { logoPath, updatedAt: new Date(), updatedBy: userId };
+    const [profile] = await db
+      .insert(companyProfile)
+      .values({ ...DEFAULT_COMPANY_PROFILE, ...changes })
+      .onConflictDoUpdate({ target: companyProfile.id, set: changes })
+      .returning();
+    return profile;
+  }
+
+  // Settings
+  async getSettings(): Promise<AppSettings> {
+    const rows = await db.select().from(settings);
+    const stored: Partial<AppSettings> = {};
+    rows.forEach(row => {
+      // A value that no longer validates (e.g. after a type change) falls back to the default
+      const parsed = updateSettingsSchema.shape[row.key].safeParse(row.value);
+      if (parsed.success && parsed.data !== undefined) {
+        Object.assign(stored, { [row.key]: parsed.data });
+      }
+    });
+    return { ...defaultSettings, ...stored };
+  }
+
+  async updateSettings(changes: SettingsUpdate, userId: string): Promise<AppSettings> {
+    const rows = Object.entries(changes)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => ({
+        key: key as keyof AppSettings,
+        value,
+        updatedAt: new Date(),
+        updatedBy: userId,
+      }));
+    if (rows.length > 0) {
+      await db
+        .insert(settings)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: settings.key,
+          set: {
+            value: sql`excluded.value`,
+            updatedAt: sql`excluded.updated_at`,
+            updatedBy: sql`excluded.updated_by`,
+          },
+        });
+    }
+    return this.getSettings();
+  }
+
+  // Recurring invoices
+  async getRecurringInvoices(): Promise<RecurringInvoiceSummary[]> {
+    const [rows, lastRuns] = await Promise.all([
+      db.select({
+        schedule: recurringInvoices,
+        customer: { id: customers.id, name: customers.name, email: customers.email },
+        itemCount: sql<number>`COUNT(${recurringInvoiceItems.id})`
+      })
+        .from(recurringInvoices)
+        .innerJoin(customers, eq(recurringInvoices.customerId, customers.id))
+        .leftJoin(recurringInvoiceItems, eq(recurringInvoiceItems.recurringInvoiceId, recurringInvoices.id))
+        .groupBy(recurringInvoices.id, customers.id)
+        .orderBy(desc(recurringInvoices.isActive), sql`${recurringInvoices.nextRunAt} ASC NULLS LAST`),
+      db.selectDistinctOn([recurringInvoiceRuns.recurringInvoiceId], {
+        recurringInvoiceId: recurringInvoiceRuns.recurringInvoiceId,
+        status: recurringInvoiceRuns.status,
+        scheduledFor: recurringInvoiceRuns.scheduledFor
+      })
+        .from(recurringInvoiceRuns)
+        .orderBy(recurringInvoiceRuns.recurringInvoiceId, desc(recurringInvoiceRuns.scheduledFor))
+    ]);
+
+    return rows.map(row => {
+      const lastRun = lastRuns.find(run => run.recurringInvoiceId === row.schedule.id);
+      return {
+        ...row.schedule,
+        customer: row.customer,
+        itemCount: Number(row.itemCount),
+        lastRun: lastRun ? { status: lastRun.status, scheduledFor: lastRun.scheduledFor } : null
+      };
+    });
+  }
+
+  async getRecurringInvoice(id: string): Promise<RecurringInvoiceWithDetails | undefined> {
+    const [row] = await db
+      .select({
+        schedule: recurringInvoices,
+        customer: { id: customers.id, name: customers.name, email: customers.email, phone: customers.phone, isActive: customers.isActive }
+      })
+      .from(recurringInvoices)
+      .innerJoin(customers, eq(recurringInvoices.customerId, customers.id))
+      .where(eq(recurringInvoices.id, id));
+    if (!row) return undefined;
+
+    const [itemRows, runRows] = await Promise.all([
+      db.select({
+        item: recurringInvoiceItems,
+        product: { id: products.id, productId: products.productId, productName: products.productName, price: products.price },
+        variant: productVariants
+      })
+        .from(recurringInvoiceItems)
+        .innerJoin(products, eq(recurringInvoiceItems.productId, products.id))
+        .leftJoin(productVariants, eq(recurringInvoiceItems.variantId, productVariants.id))
+        .where(eq(recurringInvoiceItems.recurringInvoiceId, id))
+        .orderBy(recurringInvoiceItems.createdAt),
+      db.select({
+        run: recurringInvoiceRuns,
+        invoice: { id: invoices.id, invoiceNumber: invoices.invoiceNumber, status: invoices.status, total: invoices.total, currency: invoices.currency }
+      })
+        .from(recurringInvoiceRuns)
+        .leftJoin(invoices, eq(recurringInvoiceRuns.invoiceId, invoices.id))
+        .where(eq(recurringInvoiceRuns.recurringInvoiceId, id))
+        .orderBy(desc(recurringInvoiceRuns.scheduledFor))
+    ]);
+
+    return {
+      ...row.schedule,
+      customer: row.customer,
+      items: itemRows.map(({ item, product, variant }) => ({ ...item, product, variant })),
+      runs: runRows.map(({ run, invoice }) => ({ ...run, invoice }))
+    };
+  }
+
+  async createRecurringInvoice(schedule: InsertRecurringInvoice, items: InsertRecurringInvoiceItem[]): Promise<RecurringInvoice> {
+    return await db.transaction(async (tx) => {
+      // Fail now rather than on every run if the currency has no rate
+      await resolveExchangeRate(tx, schedule.currency || BASE_CURRENCY, new Date());
+
+      const [created] = await tx
+        .insert(recurringInvoices)
+        .values({ ...schedule, nextRunAt: nextRecurringRun(schedule, null) })
+        .returning();
+      await tx.insert(recurringInvoiceItems).values(items.map(item => ({ ...item, recurringInvoiceId: created.id })));
+      return created;
+    });
+  }
+
+  async updateRecurringInvoice(id: string, schedule: InsertRecurringInvoice, items: InsertRecurringInvoiceItem[]): Promise<RecurringInvoice> {
+    return await db.transaction(async (tx) => {
+      // Lock against the scheduler taking a run while the template is replaced
+      const [current] = await tx.select().from(recurringInvoices).where(eq(recurringInvoices.id, id)).for('update');
+      if (!current) {
+        throw new Error('Recurring invoice not found');
+      }
+      await resolveExchangeRate(tx, schedule.currency || BASE_CURRENCY, new Date());
+
+      const [updated] = await tx
+        .update(recurringInvoices)
+        .set({ ...schedule, nextRunAt: nextRecurringRun(schedule, current.lastRunFor), updatedAt: new Date() })
+        .where(eq(recurringInvoices.id, id))
+        .returning();
+      await tx.delete(recurringInvoiceItems).where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+      await tx.insert(recurringInvoiceItems).values(items.map(item => ({ ...item, recurringInvoiceId: id })));
+      return updated;
+    });
+  }
+
+  async setRecurringInvoiceActive(id: string, isActive: boolean): Promise<RecurringInvoice> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(recurringInvoices).where(eq(recurringInvoices.id, id)).for('update');
+      if (!current) {
+        throw new Error('Recurring invoice not found');
+      }
+      // Runs missed while paused are skipped rather than raised all at once on resume
+      const [updated] = await tx
+        .update(recurringInvoices)
+        .set({
+          isActive,
+          nextRunAt: isActive ? nextRecurringRun(current, current.lastRunFor) : current.nextRunAt,
+          updatedAt: new Date()
+        })
+        .where(eq(recurringInvoices.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getDueRecurringInvoiceIds(now: Date): Promise<string[]> {
+    const rows = await db
+      .select({ id: recurringInvoices.id })
+      .from(recurringInvoices)
+      .where(and(eq(recurringInvoices.isActive, true), lte(recurringInvoices.nextRunAt, now)))
+      .orderBy(recurringInvoices.nextRunAt);
+    return rows.map(row => row.id);
+  }
+
+  async claimRecurringInvoiceRun(id: string, now: Date): Promise<{ schedule: RecurringInvoice; items: RecurringInvoiceItem[]; scheduledFor: Date } | undefined> {
+    return await db.transaction(async (tx) => {
+      // Whoever locks the row first takes the run; a second scheduler finds it no longer due
+      const [current] = await tx.select().from(recurringInvoices).where(eq(recurringInvoices.id, id)).for('update');
+      if (!current || !current.isActive || !current.nextRunAt || current.nextRunAt > now) {
+        return undefined;
+      }
+
+      const scheduledFor = current.nextRunAt;
+      const [schedule] = await tx
+        .update(recurringInvoices)
+        .set({ lastRunFor: scheduledFor, nextRunAt: nextRunDate(current, new Date(scheduledFor.getTime() + 1)) })
+        .where(eq(recurringInvoices.id, id))
+        .returning();
+      const items = await tx.select().from(recurringInvoiceItems).where(eq(recurringInvoiceItems.recurringInvoiceId, id));
+      return { schedule, items, scheduledFor };
+    });
+  }
+
+  async recordRecurringInvoiceRun(run: Omit<RecurringInvoiceRun, 'id' | 'createdAt'>): Promise<RecurringInvoiceRun> {
+    const [recorded] = await db.insert(recurringInvoiceRuns).values(run).returning();
+    return recorded;
+  }
+
+  // Background jobs
+  async createJob(job: InsertJob): Promise<Job> {
+    const [created] = await db.insert(jobs).values(job).returning();
+    return created;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobsForTarget(targetId: string, types: JobType[], limit = 10): Promise<Job[]> {
+    return await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.targetId, targetId), inArray(jobs.type, types)))
+      .orderBy(desc(jobs.createdAt))
+      .limit(limit);
+  }
+
+  async claimNextJob(now: Date, staleBefore: Date): Promise<Job | undefined> {
+    return await db.transaction(async (tx) => {
+      // SKIP LOCKED lets several workers poll at once, each taking a different job
+      const [next] = await tx
+        .select()
+        .from(jobs)
+        .where(or(
+          and(eq(jobs.status, 'queued'), lte(jobs.runAt, now)),
+          and(eq(jobs.status, 'running'), lte(jobs.lockedAt, staleBefore))
+        ))
+        .orderBy(jobs.runAt)
+        .limit(1)
+        .for('update', { skipLocked: true });
+      if (!next) return undefined;
+
+      const [claimed] = await tx
+        .update(jobs)
+        .set({ status: 'running', attempts: next.attempts + 1, lockedAt: now, updatedAt: now })
+        .where(eq(jobs.id, next.id))
+        .returning();
+      return claimed;
+    });
+  }
+
+  async updateJobProgress(id: string, progress: number, total?: number): Promise<void> {
+    const now = new Date();
+    // Progress also renews the lock, so a long job isn't mistaken for one whose worker died
+    await db
+      .update(jobs)
+      .set({ progress, ...(total !== undefined ? { total } : {}), lockedAt: now, updatedAt: now })
+      .where(eq(jobs.id, id));
+  }
+
+  async completeJob(id: string, result: unknown): Promise<Job> {
+    const now = new Date();
+    const [job] = await db
+      .update(jobs)
+      .set({ status: 'completed', result, error: null, lockedAt: null, updatedAt: now, finishedAt: now })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<Job> {
+    const now = new Date();
+    const [job] = await db
+      .update(jobs)
+      .set(retryAt
+        ? { status: 'queued', error, runAt: retryAt, lockedAt: null, updatedAt: now }
+        : { status: 'failed', error, lockedAt: null, updatedAt: now, finishedAt: now })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // Price lists
+  async getPriceLists(): Promise<PriceListSummary[]> {
+    const [rows, customerCounts] = await Promise.all([
+      db.select({
+        priceList: priceLists,
+        productCount: sql<number>`COUNT(${priceListItems.id})`
+      })
+        .from(priceLists)
+        .leftJoin(priceListItems, eq(priceListItems.priceListId, priceLists.id))
+        .groupBy(priceLists.id)
+        .orderBy(priceLists.name),
+      db.select({ priceListId: customers.priceListId, count: count() })
+        .from(customers)
+        .where(and(eq(customers.isActive, true), sql`${customers.priceListId} IS NOT NULL`))
+        .groupBy(customers.priceListId)
+    ]);
+
+    const customersByList = new Map(customerCounts.map(row => [row.priceListId!, row.count]));
+    return rows.map(row => ({
+      ...row.priceList,
+      productCount: Number(row.productCount),
+      customerCount: customersByList.get(row.priceList.id) || 0
+    }));
+  }
+
+  async getPriceList(id: string): Promise<PriceListWithItems | undefined> {
+    const [priceList] = await db.select().from(priceLists).where(eq(priceLists.id, id));
+    if (!priceList) return undefined;
+
+    const items = await db
+      .select({
+        item: priceListItems,
+        product: {
+          id: products.id,
+          productId: products.productId,
+          productName: products.productName,
+          price: products.price
+        }
+      })
+      .from(priceListItems)
+      .innerJoin(products, eq(priceListItems.productId, products.id))
+      .where(eq(priceListItems.priceListId, id))
+      .orderBy(products.productName);
+
+    return {
+      ...priceList,
+      items: items.map(row => ({ ...row.item, product: row.product }))
+    };
+  }
+
+  async createPriceList(priceList: InsertPriceList): Promise<PriceList> {
+    const [newPriceList] = await db.insert(priceLists).values(priceList).returning();
+    return newPriceList;
+  }
+
+  // Lines already on invoices keep the price they were added at
+  async updatePriceList(id: string, priceList: Partial<InsertPriceList>): Promise<PriceList> {
+    const [updatedPriceList] = await db
+      .update(priceLists)
+      .set({ ...priceList, updatedAt: new Date() })
+      .where(eq(priceLists.id, id))
+      .returning();
+    if (!updatedPriceList) {
+      throw new Error('Price list not found');
     }
-    if (invoice.status !== 'Pending') {
-      throw new Error('Can only delete items from pending invoices');
+    return updatedPriceList;
+  }
+
+  async setPriceListPrice(priceListId: string, productId: string, price: string): Promise<PriceListItem> {
+    const [item] = await db
+      .insert(priceListItems)
+      .values({ priceListId, productId, price })
+      .onConflictDoUpdate({
+        target: [priceListItems.priceListId, priceListItems.productId],
+        set: { price, updatedAt: new Date() }
+      })
+      .returning();
+    return item;
+  }
+
+  async removePriceListPrice(priceListId: string, productId: string): Promise<void> {
+    await db
+      .delete(priceListItems)
+      .where(and(eq(priceListItems.priceListId, priceListId), eq(priceListItems.productId, productId)));
+  }
+
+  // Base-currency prices from the customer's list, keyed by product; products not on the list are left out
+  async getCustomerPrices(customerId: string): Promise<Record<string, string>> {
+    const rows = await db
+      .select({ productId: priceListItems.productId, price: priceListItems.price })
+      .from(customers)
+      .innerJoin(priceLists, and(eq(customers.priceListId, priceLists.id), eq(priceLists.isActive, true)))
+      .innerJoin(priceListItems, eq(priceListItems.priceListId, priceLists.id))
+      .where(eq(customers.id, customerId));
+
+    return Object.fromEntries(rows.map(row => [row.productId, row.price]));
+  }
+
+  // Promotions
+  async getPromotions(): Promise<Promotion[]> {
+    return await db.select().from(promotions).orderBy(desc(promotions.isActive), desc(promotions.startsAt));
+  }
+
+  async getPromotion(id: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.id, id));
+    return promotion;
+  }
+
+  async getPromotionByCode(code: string): Promise<Promotion | undefined> {
+    const [promotion] = await db.select().from(promotions).where(eq(promotions.code, code.toUpperCase()));
+    return promotion;
+  }
+
+  async createPromotion(promotion: InsertPromotion): Promise<Promotion> {
+    const [newPromotion] = await db.insert(promotions).values(promotion).returning();
+    return newPromotion;
+  }
+
+  // Pending invoices pick up the change the next time they are recalculated; processed ones keep what they got
+  async updatePromotion(id: string, promotion: Partial<InsertPromotion>): Promise<Promotion> {
+    const [updatedPromotion] = await db
+      .update(promotions)
+      .set({ ...promotion, updatedAt: new Date() })
+      .where(eq(promotions.id, id))
+      .returning();
+    if (!updatedPromotion) {
+      throw new Error('Promotion not found');
     }
+    return updatedPromotion;
+  }
 
-    // Delete the item
-    await db.delete(invoiceItems).where(eq(invoiceItems.id, invoiceItemId));
+  async getPromotionUptake(options?: ReportWindow): Promise<PromotionUptake[]> {
+    const rows = await db
+      .select({
+        promotionId: invoicePromotions.promotionId,
+        name: promotions.name,
+        code: promotions.code,
+        invoiceCount: sql<number>`COUNT(DISTINCT ${invoicePromotions.invoiceId})`,
+        discountTotal: sql<number>`SUM(${invoicePromotions.discountAmount} * ${invoices.exchangeRate})`,
+        invoiceRevenue: sql<number>`SUM((${invoices.total} - ${invoices.creditedAmount}) * ${invoices.exchangeRate})`,
+      })
+      .from(invoicePromotions)
+      .innerJoin(invoices, eq(invoicePromotions.invoiceId, invoices.id))
+      .innerJoin(promotions, eq(invoicePromotions.promotionId, promotions.id))
+      .where(and(eq(invoices.status, 'Processed'), ...reportDateWindow(invoices.createdAt, options)))
+      .groupBy(invoicePromotions.promotionId, promotions.name, promotions.code);
+
+    const round2 = (value: unknown) => Math.round(parseFloat(String(value || 0)) * 100) / 100;
+    return rows
+      .map(row => ({
+        promotionId: row.promotionId,
+        name: row.name,
+        code: row.code,
+        invoiceCount: Number(row.invoiceCount),
+        discountTotal: round2(row.discountTotal),
+        invoiceRevenue: round2(row.invoiceRevenue)
+      }))
+      .sort((a, b) => b.discountTotal - a.discountTotal);
+  }
 
-    // Recalculate invoice totals
-    await this.recalculateInvoiceTotals(item.invoiceId);
+  // Customer operations
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    const [newCustomer] = await db.insert(customers).values(customer).returning();
+    return newCustomer;
   }
 
-  async recalculateInvoiceTotals(invoiceId: string): Promise<Invoice> {
-    // Get all invoice items
-    const items = await db.select().from(invoiceItems).where(eq(invoiceItems.invoiceId, invoiceId));
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
 
-    // Calculate subtotal
-    const subtotal = items.reduce((sum, item) => sum + parseFloat(item.totalPrice), 0);
+  async getAllCustomers(options?: { limit?: number; offset?: number; search?: string; includeInactive?: boolean }): Promise<CustomersResponse> {
+    const { limit = 50, offset = 0, search, includeInactive = false } = options || {};
 
-    // Get current invoice to preserve discount
-    const [currentInvoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
-    const discountAmount = parseFloat(currentInvoice?.discountAmount || "0");
+    const conditions = [];
+    if (!includeInactive) {
+      conditions.push(eq(customers.isActive, true));
+    }
+    if (search) {
+      conditions.push(or(
+        ilike(customers.name, `%${search}%`),
+        ilike(customers.email, `%${search}%`),
+        ilike(customers.phone, `%${search}%`)
+      ));
+    }
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
 
-    // Calculate total (no tax)
-    const total = subtotal - discountAmount;
+    const [customersResult, totalResult] = await Promise.all([
+      db.select()
+        .from(customers)
+        .where(whereCondition)
+        .orderBy(customers.name)
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(customers).where(whereCondition)
+    ]);
 
-    // Update the invoice
-    const [updatedInvoice] = await db
-      .update(invoices)
+    return {
+      customers: customersResult,
+      total: totalResult[0].count
+    };
+  }
+
+  async updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer> {
+    const [updatedCustomer] = await db
+      .update(customers)
+      .set({ ...customer, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return updatedCustomer;
+  }
+
+  // Customers are referenced by their invoices, so they are deactivated rather than removed
+  async deleteCustomer(id: string): Promise<void> {
+    await db.update(customers).set({ isActive: false, updatedAt: new Date() }).where(eq(customers.id, id));
+  }
+
+  async getCustomerWithHistory(id: string): Promise<CustomerWithHistory | undefined> {
+    const customer = await this.getCustomer(id);
+    if (!customer) return undefined;
+
+    const customerInvoices = await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.customerId, id), sql`LOWER(${invoices.status}) != 'deleted'`))
+      .orderBy(desc(invoices.createdAt));
+
+    const now = new Date();
+    const invoicesWithState = customerInvoices.map(invoice => withPaymentState(invoice, now));
+
+    return {
+      ...customer,
+      invoices: invoicesWithState,
+      invoiceCount: customerInvoices.length,
+      lifetimeRevenue: customerInvoices
+        .filter(invoice => invoice.status === 'Processed')
+        .reduce((sum, invoice) => sum + toBaseCurrency(parseFloat(invoice.total) - parseFloat(invoice.creditedAmount), invoice.exchangeRate), 0),
+      outstandingBalance: invoicesWithState
+        .reduce((sum, invoice) => sum + toBaseCurrency(Math.max(invoice.balanceDue, 0), invoice.exchangeRate), 0),
+      lastInvoiceAt: customerInvoices[0]?.createdAt || null
+    };
+  }
+
+  // Invoices saved without a customer are grouped by phone number the way findOrCreateCustomer
+  // matches them, and each group is linked to the matching customer, or a new one made from the
+  // group's latest invoice. Invoices without a phone number are left alone.
+  async linkInvoicesToCustomers(): Promise<InvoiceCustomerBackfill> {
+    return await db.transaction(async (tx) => {
+      const unlinked = await tx
+        .select()
+        .from(invoices)
+        .where(and(isNull(invoices.customerId), sql`LOWER(${invoices.status}) != 'deleted'`))
+        .orderBy(desc(invoices.createdAt))
+        .for('update');
+
+      const byPhone = new Map<string, Invoice[]>();
+      unlinked.forEach(invoice => {
+        const phoneDigits = invoice.customerPhone.replace(/\D/g, '');
+        if (phoneDigits) {
+          byPhone.set(phoneDigits, [...(byPhone.get(phoneDigits) || []), invoice]);
+        }
+      });
+
+      let invoiceCount = 0;
+      for (const group of Array.from(byPhone.values())) {
+        const customer = await findOrCreateCustomer(tx, group[0]);
+        const invoiceIds = group.map(invoice => invoice.id);
+        await tx.update(invoices).set({ customerId: customer.id }).where(inArray(invoices.id, invoiceIds));
+        await tx
+          .update(creditNotes)
+          .set({ customerId: customer.id })
+          .where(and(inArray(creditNotes.invoiceId, invoiceIds), isNull(creditNotes.customerId)));
+        invoiceCount += group.length;
+      }
+
+      return { invoiceCount, customerCount: byPhone.size };
+    });
+  }
+
+  // Supplier operations
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const [newSupplier] = await db.insert(suppliers).values(supplier).returning();
+    return newSupplier;
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async getAllSuppliers(options?: { search?: string; includeInactive?: boolean }): Promise<Supplier[]> {
+    const { search, includeInactive = false } = options || {};
+
+    const conditions = [];
+    if (!includeInactive) {
+      conditions.push(eq(suppliers.isActive, true));
+    }
+    if (search) {
+      conditions.push(ilike(suppliers.name, `%${search}%`));
+    }
+
+    return await db
+      .select()
+      .from(suppliers)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(suppliers.name);
+  }
+
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const [updatedSupplier] = await db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updatedSupplier;
+  }
+
+  // Purchase order operations
+  async createPurchaseOrder(purchaseOrder: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const poNumber = await nextDocumentNumber(tx, 'purchase_order');
+
+      const lines = items.map(withLineCost);
+      const subtotal = lines.reduce((sum, line) => sum + parseFloat(line.totalCost), 0);
+
+      const [newPurchaseOrder] = await tx
+        .insert(purchaseOrders)
+        .values({ ...purchaseOrder, poNumber, subtotal: subtotal.toFixed(2) })
+        .returning();
+
+      await tx.insert(purchaseOrderItems).values(
+        lines.map(line => ({ ...line, purchaseOrderId: newPurchaseOrder.id }))
+      );
+
+      return newPurchaseOrder;
+    });
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrder | undefined> {
+    const [purchaseOrder] = await db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    return purchaseOrder;
+  }
+
+  async getPurchaseOrderWithItems(id: string): Promise<PurchaseOrderWithItems | undefined> {
+    const [row] = await db
+      .select()
+      .from(purchaseOrders)
+      .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .where(eq(purchaseOrders.id, id));
+    if (!row) return undefined;
+
+    const itemRows = await db
+      .select()
+      .from(purchaseOrderItems)
+      .leftJoin(products, eq(purchaseOrderItems.productId, products.id))
+      .leftJoin(productVariants, eq(purchaseOrderItems.variantId, productVariants.id))
+      .where(eq(purchaseOrderItems.purchaseOrderId, id))
+      .orderBy(purchaseOrderItems.createdAt);
+
+    return {
+      ...row.purchase_orders,
+      supplier: row.suppliers,
+      items: itemRows.map(itemRow => ({
+        ...itemRow.purchase_order_items,
+        product: itemRow.products!,
+        variant: itemRow.product_variants
+      }))
+    };
+  }
+
+  async getAllPurchaseOrders(options?: { limit?: number; offset?: number; status?: string; supplierId?: string }): Promise<{ purchaseOrders: (PurchaseOrder & { supplier: Supplier })[]; total: number }> {
+    const { limit = 50, offset = 0, status, supplierId } = options || {};
+
+    const conditions = [];
+    if (status) {
+      conditions.push(eq(purchaseOrders.status, status as any));
+    }
+    if (supplierId) {
+      conditions.push(eq(purchaseOrders.supplierId, supplierId));
+    }
+
+    const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [rows, totalResult] = await Promise.all([
+      db.select()
+        .from(purchaseOrders)
+        .innerJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+        .where(whereCondition)
+        .orderBy(desc(purchaseOrders.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(purchaseOrders).where(whereCondition)
+    ]);
+
+    return {
+      purchaseOrders: rows.map(row => ({ ...row.purchase_orders, supplier: row.suppliers })),
+      total: totalResult[0].count
+    };
+  }
+
+  async updatePurchaseOrderStatus(id: string, status: 'Ordered' | 'Cancelled'): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getPurchaseOrder(id);
+    if (!purchaseOrder) {
+      throw new Error('Purchase order not found');
+    }
+
+    // Draft -> Ordered, and only orders with nothing received yet can be cancelled
+    if (status === 'Ordered' && purchaseOrder.status !== 'Draft') {
+      throw new Error('Only draft purchase orders can be marked as ordered');
+    }
+    if (status === 'Cancelled' && !['Draft', 'Ordered'].includes(purchaseOrder.status || '')) {
+      throw new Error('Only draft or ordered purchase orders can be cancelled');
+    }
+
+    const [updatedPurchaseOrder] = await db
+      .update(purchaseOrders)
       .set({
-        subtotal: subtotal.toFixed(2),
-        total: total.toFixed(2),
+        status,
+        ...(status === 'Ordered' ? { orderedAt: new Date() } : {}),
         updatedAt: new Date()
       })
-      .where(eq(invoices.id, invoiceId))
+      .where(eq(purchaseOrders.id, id))
       .returning();
+    return updatedPurchaseOrder;
+  }
+
+  async receivePurchaseOrder(id: string, receipts: { itemId: string; quantity: number }[], userId?: string): Promise<PurchaseOrder> {
+    return await db.transaction(async (tx) => {
+      const [purchaseOrder] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for('update');
+      if (!purchaseOrder) {
+        throw new Error('Purchase order not found');
+      }
+      if (!['Ordered', 'Partially Received'].includes(purchaseOrder.status || '')) {
+        throw new Error('Can only receive goods against ordered purchase orders');
+      }
+
+      const items = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id));
+
+      for (const receipt of receipts) {
+        if (receipt.quantity <= 0) continue;
+
+        const item = items.find(i => i.id === receipt.itemId);
+        if (!item) {
+          throw new Error('Purchase order item not found');
+        }
+        const outstanding = item.quantityOrdered - item.quantityReceived;
+        if (receipt.quantity > outstanding) {
+          throw new Error(`Cannot receive ${receipt.quantity} units; only ${outstanding} outstanding on this line`);
+        }
+
+        item.quantityReceived += receipt.quantity;
+        await tx
+          .update(purchaseOrderItems)
+          .set({ quantityReceived: item.quantityReceived })
+          .where(eq(purchaseOrderItems.id, item.id));
+
+        await adjustStock(tx, toStockLine({ ...item, quantity: receipt.quantity }), { onHand: receipt.quantity }, {
+          reason: 'receipt',
+          purchaseOrderId: id,
+          userId,
+          note: `Received against ${purchaseOrder.poNumber}`,
+        });
+      }
+
+      const fullyReceived = items.every(item => item.quantityReceived >= item.quantityOrdered);
+      const anyReceived = items.some(item => item.quantityReceived > 0);
+
+      const [updatedPurchaseOrder] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: fullyReceived ? 'Received' : anyReceived ? 'Partially Received' : purchaseOrder.status,
+          receivedAt: fullyReceived ? new Date() : null,
+          updatedAt: new Date()
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      return updatedPurchaseOrder;
+    });
+  }
+
+  // Stock take operations
+  async getStockTakeScopes(): Promise<{ categories: string[]; manufacturers: string[] }> {
+    const [categoryRows, manufacturerRows] = await Promise.all([
+      db.selectDistinct({ value: products.category })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`COALESCE(${products.category}, '') <> ''`))
+        .orderBy(products.category),
+      db.selectDistinct({ value: products.manufacturer })
+        .from(products)
+        .where(and(eq(products.isActive, true), sql`COALESCE(${products.manufacturer}, '') <> ''`))
+        .orderBy(products.manufacturer)
+    ]);
+
+    return {
+      categories: categoryRows.map(row => row.value!),
+      manufacturers: manufacturerRows.map(row => row.value!)
+    };
+  }
+
+  async createStockTake(stockTake: InsertStockTake): Promise<StockTake> {
+    return await db.transaction(async (tx) => {
+      const scopeColumn = stockTake.scopeType === 'category' ? products.category : products.manufacturer;
+      const scopedProducts = await tx
+        .select()
+        .from(products)
+        .where(and(eq(products.isActive, true), eq(scopeColumn, stockTake.scopeValue)))
+        .orderBy(products.productName);
+
+      if (scopedProducts.length === 0) {
+        throw new Error(`No active products found for ${stockTake.scopeType} "${stockTake.scopeValue}"`);
+      }
+
+      const reference = await nextDocumentNumber(tx, 'stock_take');
+
+      const [newStockTake] = await tx
+        .insert(stockTakes)
+        .values({ ...stockTake, reference })
+        .returning();
+
+      // Products stocked per size/color are counted per variant, everything else per product
+      const variants = await tx
+        .select()
+        .from(productVariants)
+        .where(and(
+          inArray(productVariants.productId, scopedProducts.map(product => product.id)),
+          eq(productVariants.isActive, true)
+        ))
+        .orderBy(productVariants.size, productVariants.color);
+
+      const lines = scopedProducts.flatMap((product): { stockTakeId: string; productId: string; variantId: string | null }[] => {
+        const productVariantRows = variants.filter(variant => variant.productId === product.id);
+        if (productVariantRows.length === 0) {
+          return [{ stockTakeId: newStockTake.id, productId: product.id, variantId: null }];
+        }
+        return productVariantRows.map(variant => ({ stockTakeId: newStockTake.id, productId: product.id, variantId: variant.id }));
+      });
+
+      await tx.insert(stockTakeLines).values(lines);
+
+      return newStockTake;
+    });
+  }
+
+  async getStockTake(id: string): Promise<StockTake | undefined> {
+    const [stockTake] = await db.select().from(stockTakes).where(eq(stockTakes.id, id));
+    return stockTake;
+  }
+
+  async getStockTakeWithLines(id: string): Promise<StockTakeWithLines | undefined> {
+    const stockTake = await this.getStockTake(id);
+    if (!stockTake) return undefined;
+
+    const userIds = [stockTake.createdBy, stockTake.approvedBy].filter((userId): userId is string => !!userId);
+
+    const [lineRows, userRows] = await Promise.all([
+      db.select()
+        .from(stockTakeLines)
+        .innerJoin(products, eq(stockTakeLines.productId, products.id))
+        .leftJoin(productVariants, eq(stockTakeLines.variantId, productVariants.id))
+        .where(eq(stockTakeLines.stockTakeId, id))
+        .orderBy(products.productName, productVariants.size, productVariants.color),
+      userIds.length > 0
+        ? db.select(userSummaryColumns).from(users).where(inArray(users.id, userIds))
+        : Promise.resolve([] as UserSummary[])
+    ]);
+
+    return {
+      ...stockTake,
+      createdByUser: userRows.find(user => user.id === stockTake.createdBy) || null,
+      approvedByUser: userRows.find(user => user.id === stockTake.approvedBy) || null,
+      lines: lineRows.map(row => {
+        const line = row.stock_take_lines;
+        const variant = row.product_variants;
+        const systemQuantity = line.systemQuantityAtCount ?? (variant ? variant.quantity : row.products.quantity);
+        return {
+          ...line,
+          product: { id: row.products.id, productId: row.products.productId, productName: row.products.productName },
+          variant: variant ? { id: variant.id, sku: variant.sku, size: variant.size, color: variant.color } : null,
+          systemQuantity,
+          // Once approved, the booked adjustment is the variance of record
+          variance: line.adjustment ?? (line.countedQuantity === null ? null : line.countedQuantity - systemQuantity)
+        };
+      })
+    };
+  }
+
+  async getAllStockTakes(options?: { limit?: number; offset?: number; status?: string }): Promise<StockTakesResponse> {
+    const { limit = 50, offset = 0, status } = options || {};
+
+    const whereCondition = status ? eq(stockTakes.status, status as any) : undefined;
 
-    return updatedInvoice;
+    const [rows, totalResult] = await Promise.all([
+      db.select({
+        stockTake: stockTakes,
+        lineCount: sql<number>`COUNT(${stockTakeLines.id})`,
+        countedCount: sql<number>`COUNT(${stockTakeLines.countedQuantity})`
+      })
+        .from(stockTakes)
+        .leftJoin(stockTakeLines, eq(stockTakeLines.stockTakeId, stockTakes.id))
+        .where(whereCondition)
+        .groupBy(stockTakes.id)
+        .orderBy(desc(stockTakes.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(stockTakes).where(whereCondition)
+    ]);
+
+    return {
+      stockTakes: rows.map(row => ({
+        ...row.stockTake,
+        lineCount: Number(row.lineCount),
+        countedCount: Number(row.countedCount)
+      })),
+      total: totalResult[0].count
+    };
+  }
+
+  async recordStockTakeCount(stockTakeId: string, lineId: string, countedQuantity: number, userId?: string): Promise<StockTakeWithLines> {
+    await db.transaction(async (tx) => {
+      // Locked like approval and cancellation do, so a count can't land after approval has read the lines
+      const [stockTake] = await tx
+        .select()
+        .from(stockTakes)
+        .where(eq(stockTakes.id, stockTakeId))
+        .for('update');
+      if (!stockTake) {
+        throw new Error('Stock take not found');
+      }
+      if (stockTake.status !== 'In Progress') {
+        throw new Error('Counts can only be recorded while the stock take is in progress');
+      }
+
+      const [line] = await tx
+        .select()
+        .from(stockTakeLines)
+        .where(and(eq(stockTakeLines.id, lineId), eq(stockTakeLines.stockTakeId, stockTakeId)))
+        .for('update');
+      if (!line) {
+        throw new Error('Stock take line not found');
+      }
+
+      const [stock] = line.variantId
+        ? await tx.select({ quantity: productVariants.quantity }).from(productVariants).where(eq(productVariants.id, line.variantId))
+        : await tx.select({ quantity: products.quantity }).from(products).where(eq(products.id, line.productId));
+
+      await tx
+        .update(stockTakeLines)
+        .set({ countedQuantity, systemQuantityAtCount: stock?.quantity ?? 0, countedBy: userId || null, countedAt: new Date() })
+        .where(eq(stockTakeLines.id, line.id));
+    });
+
+    return (await this.getStockTakeWithLines(stockTakeId))!;
+  }
+
+  async approveStockTake(id: string, userId: string): Promise<StockTake & { stockDeltas: StockDelta[] }> {
+    return await db.transaction(async (tx) => {
+      const [stockTake] = await tx
+        .select()
+        .from(stockTakes)
+        .where(eq(stockTakes.id, id))
+        .for('update');
+      if (!stockTake) {
+        throw new Error('Stock take not found');
+      }
+      if (stockTake.status !== 'In Progress') {
+        throw new Error('Only stock takes in progress can be approved');
+      }
+
+      // Uncounted lines are left as they are
+      const lines = await tx
+        .select()
+        .from(stockTakeLines)
+        .where(and(eq(stockTakeLines.stockTakeId, id), sql`${stockTakeLines.countedQuantity} IS NOT NULL`));
+
+      // Variances are taken against the stock recorded with each count, so sales and receipts
+      // booked between counting and approval stay in the books; rows are locked while adjusting
+      const adjustments: StockLine[] = [];
+      for (const line of lines.sort((a, b) => (a.variantId || a.productId).localeCompare(b.variantId || b.productId))) {
+        const [product] = await tx
+          .select()
+          .from(products)
+          .where(eq(products.id, line.productId))
+          .for('update');
+
+        let onHand = product?.quantity ?? 0;
+        if (line.variantId) {
+          const [variant] = await tx
+            .select()
+            .from(productVariants)
+            .where(eq(productVariants.id, line.variantId))
+            .for('update');
+          onHand = variant?.quantity ?? 0;
+        }
+
+        // Lines counted before the count snapshot was kept fall back to current stock
+        const systemQuantity = line.systemQuantityAtCount ?? onHand;
+        const variance = line.countedQuantity! - systemQuantity;
+
+        await tx
+          .update(stockTakeLines)
+          .set({ adjustment: variance })
+          .where(eq(stockTakeLines.id, line.id));
+
+        if (variance !== 0) {
+          const stockLine = toStockLine({ ...line, quantity: variance });
+          await adjustStock(tx, stockLine, { onHand: variance }, {
+            reason: 'adjustment',
+            stockTakeId: id,
+            userId,
+            note: `Stock take ${stockTake.reference}: counted ${line.countedQuantity}, system ${systemQuantity}`,
+          });
+          adjustments.push(stockLine);
+        }
+      }
+
+      const [approvedStockTake] = await tx
+        .update(stockTakes)
+        .set({ status: 'Approved', approvedBy: userId, approvedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stockTakes.id, id))
+        .returning();
+
+      return { ...approvedStockTake, stockDeltas: await buildStockDeltas(tx, adjustments, 1) };
+    });
+  }
+
+  async cancelStockTake(id: string): Promise<StockTake> {
+    return await db.transaction(async (tx) => {
+      const [stockTake] = await tx
+        .select()
+        .from(stockTakes)
+        .where(eq(stockTakes.id, id))
+        .for('update');
+      if (!stockTake) {
+        throw new Error('Stock take not found');
+      }
+      if (stockTake.status !== 'In Progress') {
+        throw new Error('Only stock takes in progress can be cancelled');
+      }
+
+      const [cancelledStockTake] = await tx
+        .update(stockTakes)
+        .set({ status: 'Cancelled', updatedAt: new Date() })
+        .where(eq(stockTakes.id, id))
+        .returning();
+      return cancelledStockTake;
+    });
   }
 
   // Activity log operations
@@ -587,7 +3774,7 @@ export class DatabaseStorage implements IStorage {
     return newLog;
   }
 
-  async getActivityLogs(options?: { limit?: number; offset?: number; userId?: string; module?: string; startDate?: string; endDate?: string }): Promise<{ logs: (ActivityLog & { user: User | null })[]; total: number }> {
+  async getActivityLogs(options?: { limit?: number; offset?: number; userId?: string; module?: string; startDate?: string; endDate?: string }): Promise<{ logs: (ActivityLog & { user: UserSummary | null })[]; total: number }> {
     const { limit = 50, offset = 0, userId, module, startDate, endDate } = options || {};
     
     const conditions = [];
@@ -611,14 +3798,14 @@ export class DatabaseStorage implements IStorage {
     
     const [logsResult, totalResult] = await Promise.all([
       whereCondition
-        ? db.select()
+        ? db.select({ activity_logs: activityLogs, users: userSummaryColumns })
             .from(activityLogs)
             .leftJoin(users, eq(activityLogs.userId, users.id))
             .where(whereCondition)
             .orderBy(desc(activityLogs.createdAt))
             .limit(limit)
             .offset(offset)
-        : db.select()
+        : db.select({ activity_logs: activityLogs, users: userSummaryColumns })
             .from(activityLogs)
             .leftJoin(users, eq(activityLogs.userId, users.id))
             .orderBy(desc(activityLogs.createdAt))
@@ -641,41 +3828,150 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Dashboard metrics
-  async getDashboardMetrics(): Promise<{
-    totalProducts: number;
-    lowStockItems: number;
-    pendingInvoices: number;
-    monthlyRevenue: number;
-  }> {
+  async getDashboardMetrics(lowStockThreshold = 0): Promise<DashboardMetrics> {
     const [
       totalProductsResult,
       lowStockResult,
       pendingInvoicesResult,
-      monthlyRevenueResult
+      monthlyRevenueResult,
+      monthlyCreditsResult,
+      stockTotalsResult
     ] = await Promise.all([
       db.select({ count: count() }).from(products).where(eq(products.isActive, true)),
       db.select({ count: count() }).from(products).where(
-        and(eq(products.isActive, true), sql`${products.quantity} <= 5`)
+        and(eq(products.isActive, true), sql`${products.quantity} - ${products.reservedQuantity} <= ${lowStockLevel(lowStockThreshold)}`)
       ),
       db.select({ count: count() }).from(invoices).where(eq(invoices.status, 'Pending')),
       db.select({ 
-        total: sql<number>`COALESCE(SUM(${invoices.total}), 0)` 
+        total: sql<number>`COALESCE(SUM(${invoices.total} * ${invoices.exchangeRate}), 0)` 
       }).from(invoices).where(
         and(
           eq(invoices.status, 'Processed'),
           sql`${invoices.createdAt} >= date_trunc('month', current_date)`
         )
-      )
+      ),
+      // Credits count against the month they are issued in, not the month of the original sale
+      // Converted at the rate of the invoice being credited
+      db.select({
+        total: sql<number>`COALESCE(SUM(${creditNotes.total} * ${invoices.exchangeRate}), 0)`
+      })
+        .from(creditNotes)
+        .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+        .where(sql`${creditNotes.createdAt} >= date_trunc('month', current_date)`),
+      db.select({
+        onHand: sql<number>`COALESCE(SUM(${products.quantity}), 0)`,
+        reserved: sql<number>`COALESCE(SUM(${products.reservedQuantity}), 0)`
+      }).from(products).where(eq(products.isActive, true))
     ]);
 
+    const onHandUnits = Number(stockTotalsResult[0].onHand);
+    const reservedUnits = Number(stockTotalsResult[0].reserved);
+    const round2 = (value: number) => Math.round(value * 100) / 100;
+    const monthlyCredits = round2(Number(monthlyCreditsResult[0].total));
+
     return {
+      baseCurrency: BASE_CURRENCY,
       totalProducts: totalProductsResult[0].count,
       lowStockItems: lowStockResult[0].count,
+      lowStockThreshold,
       pendingInvoices: pendingInvoicesResult[0].count,
-      monthlyRevenue: monthlyRevenueResult[0].total || 0
+      monthlyRevenue: round2(Number(monthlyRevenueResult[0].total) - monthlyCredits),
+      monthlyCredits,
+      onHandUnits,
+      reservedUnits,
+      availableUnits: onHandUnits - reservedUnits
     };
   }
 
+  // Reorder suggestions
+  async getReorderSuggestions(options?: { lookbackDays?: number; coverDays?: number }): Promise<ReorderSuggestionsResponse> {
+    const { lookbackDays = 30, coverDays = 30 } = options || {};
+
+    const [activeProducts, salesResult, onOrderResult, supplierResult] = await Promise.all([
+      db.select().from(products).where(eq(products.isActive, true)),
+      db.select({
+        productId: invoiceItems.productId,
+        unitsSold: sql<number>`SUM(${invoiceItems.quantity})`
+      })
+        .from(invoiceItems)
+        .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+        .where(and(
+          eq(invoices.status, 'Processed'),
+          sql`COALESCE(${invoices.processedAt}, ${invoices.createdAt}) >= now() - make_interval(days => ${lookbackDays})`
+        ))
+        .groupBy(invoiceItems.productId),
+      db.select({
+        productId: purchaseOrderItems.productId,
+        onOrder: sql<number>`SUM(${purchaseOrderItems.quantityOrdered} - ${purchaseOrderItems.quantityReceived})`
+      })
+        .from(purchaseOrderItems)
+        .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+        .where(inArray(purchaseOrders.status, ['Ordered', 'Partially Received']))
+        .groupBy(purchaseOrderItems.productId),
+      db.select({ id: suppliers.id, name: suppliers.name, manufacturer: suppliers.manufacturer })
+        .from(suppliers)
+        .where(eq(suppliers.isActive, true))
+        .orderBy(suppliers.name)
+    ]);
+
+    const unitsSoldByProduct = new Map(salesResult.map(row => [row.productId, Number(row.unitsSold)]));
+    const onOrderByProduct = new Map(onOrderResult.map(row => [row.productId, Number(row.onOrder)]));
+
+    const groupsByManufacturer = new Map<string, ReorderSuggestionGroup>();
+
+    for (const product of activeProducts) {
+      const available = product.quantity - product.reservedQuantity;
+      const onOrder = onOrderByProduct.get(product.id) || 0;
+      const unitsSold = unitsSoldByProduct.get(product.id) || 0;
+      const dailyVelocity = unitsSold / lookbackDays;
+      const projected = available + onOrder;
+
+      // Cover the target window of demand and finish it no lower than the reorder point
+      const demand = Math.ceil(dailyVelocity * coverDays);
+      const target = demand + product.reorderPoint;
+      if (projected > product.reorderPoint && projected >= target) continue;
+
+      const suggestedQuantity = Math.max(target - projected, product.reorderQuantity, 1);
+
+      const suggestion: ReorderSuggestion = {
+        productId: product.id,
+        productCode: product.productId,
+        productName: product.productName,
+        available,
+        onOrder,
+        reorderPoint: product.reorderPoint,
+        reorderQuantity: product.reorderQuantity,
+        unitsSold,
+        dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+        daysOfCover: dailyVelocity > 0 ? Math.floor(Math.max(available, 0) / dailyVelocity) : null,
+        suggestedQuantity,
+      };
+
+      const manufacturer = product.manufacturer?.trim() || 'Unknown';
+      let group = groupsByManufacturer.get(manufacturer);
+      if (!group) {
+        const supplier = supplierResult.find(s => s.manufacturer?.trim().toLowerCase() === manufacturer.toLowerCase());
+        group = {
+          manufacturer,
+          supplier: supplier ? { id: supplier.id, name: supplier.name } : null,
+          totalUnits: 0,
+          items: []
+        };
+        groupsByManufacturer.set(manufacturer, group);
+      }
+      group.items.push(suggestion);
+      group.totalUnits += suggestedQuantity;
+    }
+
+    // Most urgent first: products already out of cover lead each group
+    const urgency = (item: ReorderSuggestion) => item.daysOfCover ?? (item.available <= 0 ? 0 : Number.MAX_SAFE_INTEGER);
+    const groups = Array.from(groupsByManufacturer.values());
+    groups.forEach(group => group.items.sort((a, b) => urgency(a) - urgency(b)));
+    groups.sort((a, b) => b.totalUnits - a.totalUnits);
+
+    return { lookbackDays, coverDays, groups };
+  }
+
   async getManufacturerStats(options?: {
     startDate?: string;
     endDate?: string;
@@ -686,54 +3982,53 @@ export class DatabaseStorage implements IStorage {
     totalRevenue: number;
     productCount: number;
   }[]> {
-    // Build date filter conditions
-    const conditions = [eq(invoices.status, 'Processed')];
-    
-    if (options?.startDate && options?.endDate) {
-      // Custom date range
-      conditions.push(
-        sql`${invoices.createdAt} >= ${options.startDate}::timestamp`,
-        sql`${invoices.createdAt} <= ${options.endDate}::timestamp + interval '1 day'`
-      );
-    } else if (options?.range) {
-      // Predefined ranges
-      switch (options.range) {
-        case 'week':
-          conditions.push(sql`${invoices.createdAt} >= current_date - interval '7 days'`);
-          break;
-        case 'month':
-          conditions.push(sql`${invoices.createdAt} >= current_date - interval '30 days'`);
-          break;
-        case 'quarter':
-          conditions.push(sql`${invoices.createdAt} >= current_date - interval '3 months'`);
-          break;
-        case 'year':
-          conditions.push(sql`${invoices.createdAt} >= current_date - interval '1 year'`);
-          break;
-        // 'all' - no additional filter
-      }
-    }
-
-    const stats = await db
-      .select({
-        manufacturer: sql<string>`COALESCE(NULLIF(${products.manufacturer}, ''), 'Unknown')`,
-        totalQuantitySold: sql<number>`SUM(${invoiceItems.quantity})`,
-        totalRevenue: sql<number>`SUM(${invoiceItems.totalPrice})`,
-        productCount: sql<number>`COUNT(DISTINCT ${invoiceItems.productId})`,
+    // Sales are dated by invoice, returns by the credit note that booked them
+    const dateWindow = (column: typeof invoices.createdAt | typeof creditNotes.createdAt) => reportDateWindow(column, options);
+
+    const manufacturerName = sql<string>`COALESCE(NULLIF(${products.manufacturer}, ''), 'Unknown')`;
+
+    const [stats, credits] = await Promise.all([
+      db
+        .select({
+          manufacturer: manufacturerName,
+          totalQuantitySold: sql<number>`SUM(${invoiceItems.quantity})`,
+          // Line totals are in the invoice currency; revenue is reported in the base currency, after promotions
+          totalRevenue: sql<number>`SUM((${invoiceItems.totalPrice} - ${invoiceItems.promotionDiscount}) * ${invoices.exchangeRate})`,
+          productCount: sql<number>`COUNT(DISTINCT ${invoiceItems.productId})`,
+        })
+        .from(invoiceItems)
+        .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
+        .innerJoin(products, eq(invoiceItems.productId, products.id))
+        .where(and(eq(invoices.status, 'Processed'), ...dateWindow(invoices.createdAt)))
+        .groupBy(manufacturerName),
+      db
+        .select({
+          manufacturer: manufacturerName,
+          quantity: sql<number>`SUM(${creditNoteItems.quantity})`,
+          amount: sql<number>`SUM(${creditNoteItems.totalPrice} * ${invoices.exchangeRate})`,
+        })
+        .from(creditNoteItems)
+        .innerJoin(creditNotes, eq(creditNoteItems.creditNoteId, creditNotes.id))
+        .innerJoin(invoices, eq(creditNotes.invoiceId, invoices.id))
+        .innerJoin(products, eq(creditNoteItems.productId, products.id))
+        .where(and(...dateWindow(creditNotes.createdAt)))
+        .groupBy(manufacturerName)
+    ]);
+
+    // Returns booked in the window count against their manufacturer even without sales in it
+    const manufacturers = Array.from(new Set([...stats, ...credits].map(row => row.manufacturer)));
+    return manufacturers
+      .map(manufacturer => {
+        const sold = stats.find(stat => stat.manufacturer === manufacturer);
+        const credited = credits.find(credit => credit.manufacturer === manufacturer);
+        return {
+          manufacturer,
+          totalQuantitySold: Number(sold?.totalQuantitySold || 0) - Number(credited?.quantity || 0),
+          totalRevenue: Math.round((parseFloat(String(sold?.totalRevenue || 0)) - parseFloat(String(credited?.amount || 0))) * 100) / 100,
+          productCount: Number(sold?.productCount || 0),
+        };
       })
-      .from(invoiceItems)
-      .innerJoin(invoices, eq(invoiceItems.invoiceId, invoices.id))
-      .innerJoin(products, eq(invoiceItems.productId, products.id))
-      .where(and(...conditions))
-      .groupBy(sql`COALESCE(NULLIF(${products.manufacturer}, ''), 'Unknown')`)
-      .orderBy(sql`SUM(${invoiceItems.quantity}) DESC`);
-
-    return stats.map(stat => ({
-      manufacturer: stat.manufacturer,
-      totalQuantitySold: Number(stat.totalQuantitySold),
-      totalRevenue: parseFloat(String(stat.totalRevenue)),
-      productCount: Number(stat.productCount),
-    }));
+      .sort((a, b) => b.totalQuantitySold - a.totalQuantitySold);
   }
 }
 
@@ -0,0 +1,19 @@
+// WhatsApp integration (using Twilio)
+export const sendWhatsAppMessage = async (to: string, pdfUrl: string) => {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID || process.env.TWILIO_SID || 'default_sid';
+  const authToken = process.env.TWILIO_AUTH_TOKEN || process.env.TWILIO_TOKEN || 'default_token';
+  const twilioNumber = process.env.TWILIO_WHATSAPP_NUMBER || 'whatsapp:+14155238886';
+  
+  const client = require('twilio')(accountSid, authToken);
+  
+  try {
+    await client.messages.create({
+      body: `Your invoice is ready! Download it here: ${pdfUrl}`,
+      from: twilioNumber,
+      to: `whatsapp:${to}`
+    });
+  } catch (error) {
+    console.error('WhatsApp send error:', error);
+    throw new Error('Failed to send WhatsApp message');
+  }
+};
@@ -0,0 +1,81 @@
+// CSV as described in RFC 4180: fields may be quoted, quoted fields may hold commas,
+// line breaks and doubled quotes (""), and records end in CRLF or LF
+
+export class CsvParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CsvParseError";
+  }
+}
+
+// Splits CSV text into records of raw field values. A leading byte order mark and
+// blank lines (including the usual trailing newline) are dropped.
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\r" && text[i + 1] === "\n") {
+      endRecord();
+      i++;
+    } else if (char === "\n" || char === "\r") {
+      endRecord();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError("A quoted field is never closed");
+  }
+  if (field !== "" || record.length > 0) {
+    endRecord();
+  }
+  return records;
+}
+
+// Quotes only the fields that need it, so plain exports stay readable
+export function toCsv(records: (string | number | null | undefined)[][]): string {
+  return records
+    .map(record => record
+      .map(value => {
+        const text = value == null ? "" : String(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(","))
+    .join("\r\n");
+}
@@ -0,0 +1,35 @@
+// Currencies invoices can be issued in; reporting converts everything to the base currency
+export const BASE_CURRENCY = "USD";
+
+export const currencyCodes = ["USD", "EUR", "GBP", "CAD", "AUD", "AED", "SAR", "TRY", "CNY", "JPY"] as const;
+
+export type CurrencyCode = typeof currencyCodes[number];
+
+// Intl picks the symbol and decimal places for the currency (e.g. none for JPY)
+export const formatMoney = (amount: number | string, currency: string = BASE_CURRENCY): string => {
+  const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(isNaN(numAmount) ? 0 : numAmount);
+  } catch {
+    // Unknown currency code; show the code rather than fail the whole document
+    return `${currency} ${(isNaN(numAmount) ? 0 : numAmount).toFixed(2)}`;
+  }
+};
+
+// Invoice amounts are stored in the invoice currency; rate is the base value of one unit
+export const toBaseCurrency = (amount: number | string, exchangeRate: number | string): number => {
+  const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+  const numRate = typeof exchangeRate === 'string' ? parseFloat(exchangeRate) : exchangeRate;
+  return Math.round((numAmount || 0) * (numRate || 1) * 100) / 100;
+};
+
+// Product prices are kept in the base currency and converted when they go on an invoice
+export const fromBaseCurrency = (amount: number | string, exchangeRate: number | string): number => {
+  const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
+  const numRate = typeof exchangeRate === 'string' ? parseFloat(exchangeRate) : exchangeRate;
+  return Math.round((numAmount || 0) / (numRate || 1) * 100) / 100;
+};
@@ -0,0 +1,14 @@
+// Downloadable lists and reports. The server builds each one as an Excel workbook,
+// or as CSV for tools that can't read .xlsx.
+
+export const exportFormats = ["xlsx", "csv"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  xlsx: "Excel (.xlsx)",
+  csv: "CSV",
+};
+
+// Matches the report types on the Reports page
+export const reportExports = ["sales", "inventory", "manufacturers", "promotions", "reorder", "invoices"] as const;
+export type ReportExport = typeof reportExports[number];
@@ -0,0 +1,56 @@
+import type { InvoiceVersionLine, InvoiceVersionSnapshot } from "./schema";
+
+export const invoiceChangeTypes = [
+  "baseline",
+  "created",
+  "status",
+  "discount",
+  "coupon",
+  "item_added",
+  "item_quantity",
+  "item_discount",
+  "item_removed",
+] as const;
+
+export type InvoiceChangeType = typeof invoiceChangeTypes[number];
+
+// Totals shown before/after in the version diff, in invoice order
+export const versionTotalFields = [
+  { key: "subtotal", label: "Subtotal" },
+  { key: "discountAmount", label: "Discount" },
+  { key: "promotionDiscount", label: "Promotions" },
+  { key: "taxAmount", label: "Tax" },
+  { key: "total", label: "Total" },
+] as const;
+
+const comparedLineFields = ["quantity", "unitPrice", "discountType", "discountValue", "totalPrice"] as const;
+
+export type VersionLineField = typeof comparedLineFields[number];
+
+export type VersionLineChange = {
+  status: "added" | "removed" | "changed" | "unchanged";
+  before: InvoiceVersionLine | null;
+  after: InvoiceVersionLine | null;
+  changedFields: VersionLineField[];
+};
+
+// Pairs up the lines of two versions by invoice item; lines only in `after` were added,
+// lines only in `before` were removed. Kept lines come first, in `after` order.
+export function diffVersionLines(before: InvoiceVersionSnapshot | null, after: InvoiceVersionSnapshot): VersionLineChange[] {
+  const beforeItems = before?.items || [];
+  const changes: VersionLineChange[] = after.items.map(line => {
+    const previous = beforeItems.find(item => item.id === line.id) || null;
+    if (!previous) {
+      return { status: "added", before: null, after: line, changedFields: [] };
+    }
+    const changedFields = comparedLineFields.filter(field => previous[field] !== line[field]);
+    return { status: changedFields.length > 0 ? "changed" : "unchanged", before: previous, after: line, changedFields };
+  });
+
+  for (const line of beforeItems) {
+    if (!after.items.some(item => item.id === line.id)) {
+      changes.push({ status: "removed", before: line, after: null, changedFields: [] });
+    }
+  }
+  return changes;
+}
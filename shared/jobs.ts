@@ -0,0 +1,37 @@
+// Background jobs: work a request hands off to the server's job workers so it can answer
+// straight away. Pages poll the job for its progress and result.
+
+export const jobTypes = ["product_import", "invoice_email", "invoice_whatsapp"] as const;
+export type JobType = typeof jobTypes[number];
+
+export const jobTypeLabels: Record<JobType, string> = {
+  product_import: "Product import",
+  invoice_email: "Invoice email",
+  invoice_whatsapp: "Invoice WhatsApp message",
+};
+
+// A failed attempt goes back to "queued" until the job runs out of attempts
+export const jobStatuses = ["queued", "running", "completed", "failed"] as const;
+export type JobStatus = typeof jobStatuses[number];
+
+export const isJobFinished = (status: JobStatus) => status === "completed" || status === "failed";
+
+// Percentage done, or null while the job hasn't said how much work there is
+export const jobPercent = (job: { progress: number; total: number | null; status: JobStatus }): number | null => {
+  if (job.status === "completed") return 100;
+  if (!job.total) return null;
+  return Math.min(100, Math.round((job.progress / job.total) * 100));
+};
+
+export const describeJobStatus = (job: { status: JobStatus; attempts: number; maxAttempts: number; progress: number; total: number | null }): string => {
+  switch (job.status) {
+    case "queued":
+      return job.attempts > 0 ? `Waiting to retry (attempt ${job.attempts + 1} of ${job.maxAttempts})` : "Waiting to start";
+    case "running":
+      return job.total ? `${job.progress} of ${job.total}` : "Starting...";
+    case "completed":
+      return "Done";
+    case "failed":
+      return "Failed";
+  }
+};
@@ -0,0 +1,46 @@
+// Document number formats, shared by the numbering service and the settings preview
+
+export const numberingSeries = ["invoice", "credit_note", "purchase_order", "quotation", "stock_take"] as const;
+
+export type NumberingSeries = typeof numberingSeries[number];
+
+export const numberingSeriesLabels: Record<NumberingSeries, string> = {
+  invoice: "Invoices",
+  credit_note: "Credit Notes",
+  purchase_order: "Purchase Orders",
+  quotation: "Quotations",
+  stock_take: "Stock Takes",
+};
+
+// Matches the numbers issued before sequences existed, so existing series carry on unchanged
+export const defaultNumberFormats: Record<NumberingSeries, string> = {
+  invoice: "INV-{seq:4}",
+  credit_note: "CN-{seq:4}",
+  purchase_order: "PO-{seq:4}",
+  quotation: "QT-{seq:4}",
+  stock_take: "ST-{seq:4}",
+};
+
+const yearToken = /\{YY(YY)?\}/;
+const seqToken = /\{seq(?::(\d+))?\}/g;
+
+// Tokens: {YYYY}, {YY}, {MM}, {seq} and {seq:N} for a sequence zero-padded to N digits
+export const formatDocumentNumber = (format: string, value: number, date: Date = new Date()): string => {
+  const year = String(date.getFullYear());
+  return format
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, String(date.getMonth() + 1).padStart(2, '0'))
+    .replace(seqToken, (_, width?: string) => String(value).padStart(Number(width || 1), '0'));
+};
+
+// A yearly reset repeats sequence values, so the year must be part of the number to keep it unique
+export const validateNumberFormat = (format: string, resetYearly: boolean): string | null => {
+  if (!format.match(seqToken)) {
+    return "Format must include {seq}";
+  }
+  if (resetYearly && !yearToken.test(format)) {
+    return "Formats that reset yearly must include {YYYY} or {YY}";
+  }
+  return null;
+};
@@ -0,0 +1,17 @@
+// Invoice PDF layouts; the company profile picks the default and a download can ask for another
+
+export const pdfTemplates = ["classic", "modern", "compact"] as const;
+
+export type PdfTemplate = typeof pdfTemplates[number];
+
+export const pdfTemplateLabels: Record<PdfTemplate, string> = {
+  classic: "Classic",
+  modern: "Modern",
+  compact: "Compact",
+};
+
+export const pdfTemplateDescriptions: Record<PdfTemplate, string> = {
+  classic: "Black and white with product thumbnails",
+  modern: "Coloured header band and larger thumbnails",
+  compact: "Small type without images, for long orders",
+};
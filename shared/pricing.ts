@@ -0,0 +1,43 @@
+// Line pricing shared by the server (stored line totals) and the client (previews while editing)
+
+export const lineDiscountTypes = ["percentage", "amount"] as const;
+
+export type LineDiscountType = typeof lineDiscountTypes[number];
+
+export type LineTotal = {
+  gross: number;
+  discountAmount: number;
+  total: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Percentages are stored as a fraction (0.1 for 10%); amounts come off the whole line, not each unit.
+// A discount can take a line down to zero but never below it.
+export const calculateLineTotal = (
+  unitPrice: number | string,
+  quantity: number,
+  discountType?: LineDiscountType | null,
+  discountValue: number | string = 0
+): LineTotal => {
+  const gross = round2(Number(unitPrice) * quantity);
+  const value = Number(discountValue) || 0;
+  const requested = discountType === 'percentage'
+    ? gross * value
+    : discountType === 'amount' ? value : 0;
+  const discountAmount = round2(Math.min(Math.max(requested, 0), gross));
+  return { gross, discountAmount, total: round2(gross - discountAmount) };
+};
+
+// "10%" or a formatted amount, for showing a line's discount next to its price
+export const describeLineDiscount = (
+  discountType: LineDiscountType | null,
+  discountValue: number | string,
+  formatAmount: (amount: number) => string
+): string | null => {
+  const value = Number(discountValue) || 0;
+  if (!discountType || value <= 0) return null;
+  return discountType === 'percentage'
+    ? `${parseFloat((value * 100).toFixed(2))}%`
+    : formatAmount(value);
+};
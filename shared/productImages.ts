@@ -0,0 +1,24 @@
+// Bulk product image import: each photo is matched to a product by the product ID at the start
+// of its file name, e.g. "ABC-123.jpg" or "ABC-123_front.png"
+
+export const productImageExtensions = [".jpg", ".jpeg", ".png", ".webp", ".gif"] as const;
+
+export type ProductImageMatch = {
+  filename: string;
+  productId: string;
+  productName: string;
+  imageUrl: string;
+};
+
+// A file that wasn't used, and why
+export type ProductImageSkip = {
+  filename: string;
+  reason: string;
+};
+
+export type ProductImageImportResult = {
+  matched: ProductImageMatch[];
+  unmatched: ProductImageSkip[];
+  // Matched to a product, but storing the image or saving the product failed
+  failed: ProductImageSkip[];
+};
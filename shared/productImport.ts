@@ -0,0 +1,165 @@
+// Product import columns. Files may use any header names; each field is matched to a column
+// by the aliases below unless the user maps it by hand.
+
+export const productImportFields = [
+  "productId",
+  "productName",
+  "color",
+  "size",
+  "quantity",
+  "price",
+  "manufacturer",
+  "category",
+  "description",
+  "reorderPoint",
+  "reorderQuantity",
+] as const;
+
+export type ProductImportField = typeof productImportFields[number];
+
+export const requiredImportFields: ProductImportField[] = ["productId", "productName", "color", "size", "price"];
+
+export const productImportFieldLabels: Record<ProductImportField, string> = {
+  productId: "Product ID",
+  productName: "Product Name",
+  color: "Colors",
+  size: "Sizes",
+  quantity: "Quantity",
+  price: "Price",
+  manufacturer: "Manufacturer",
+  category: "Category",
+  description: "Description",
+  reorderPoint: "Reorder Point",
+  reorderQuantity: "Reorder Quantity",
+};
+
+// Compared after normalizeHeader, so "Product ID", "product_id" and "ProductID" all match
+const fieldAliases: Record<ProductImportField, string[]> = {
+  productId: ["productid", "id", "sku", "code", "productcode", "itemcode", "stylecode"],
+  productName: ["productname", "name", "title", "product", "itemname"],
+  color: ["color", "colors", "colour", "colours"],
+  size: ["size", "sizes"],
+  quantity: ["quantity", "qty", "stock", "onhand", "quantityonhand"],
+  price: ["price", "unitprice", "sellingprice", "retailprice"],
+  manufacturer: ["manufacturer", "brand", "maker", "make", "vendor"],
+  category: ["category", "type", "department"],
+  description: ["description", "details", "desc"],
+  reorderPoint: ["reorderpoint", "reorderlevel", "minstock", "minimumstock"],
+  reorderQuantity: ["reorderquantity", "reorderqty"],
+};
+
+// Field -> zero-based column index; unmapped fields are left out
+export type ProductImportMapping = Partial<Record<ProductImportField, number>>;
+
+// Hints in brackets are dropped, so the template's "Colors (comma-separated)" matches too
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/\(.*?\)/g, "").replace(/[^a-z0-9]/g, "");
+
+export function detectImportMapping(headers: string[]): ProductImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ProductImportMapping = {};
+  for (const field of productImportFields) {
+    const index = normalized.findIndex((header, column) =>
+      fieldAliases[field].includes(header) && !Object.values(mapping).includes(column)
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+// Colors and sizes are lists in one cell: "Red, Blue" or "S|M|L"
+export const splitListCell = (value: string): string[] =>
+  value.split(/[,;|]/).map(item => item.trim()).filter(Boolean);
+
+// What an import does with rows whose product ID already exists (or doesn't)
+export const productImportModes = ["create", "update", "upsert"] as const;
+export type ProductImportMode = typeof productImportModes[number];
+
+export const productImportModeLabels: Record<ProductImportMode, string> = {
+  create: "Create new products only",
+  update: "Update existing products only",
+  upsert: "Create new and update existing",
+};
+
+// "set" replaces the on-hand quantity; "add" books the file's value on top of it, as for a delivery
+export const quantityImportModes = ["set", "add"] as const;
+export type QuantityImportMode = typeof quantityImportModes[number];
+
+// The product ID is how rows find an existing product, so it is never overwritten
+export const updatableImportFields = productImportFields.filter(field => field !== "productId");
+
+export type ProductImportOptions = {
+  mode: ProductImportMode;
+  // Fields an update may change; empty cells never overwrite anything
+  overwrite: ProductImportField[];
+  quantityMode: QuantityImportMode;
+};
+
+export const defaultProductImportOptions: ProductImportOptions = {
+  mode: "create",
+  overwrite: updatableImportFields,
+  quantityMode: "set",
+};
+
+export type ProductImportValues = {
+  productId: string;
+  productName: string;
+  color: string[];
+  size: string[];
+  quantity: number;
+  price: string;
+  manufacturer: string | null;
+  category: string | null;
+  description: string | null;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+};
+
+export type ProductImportAction = "create" | "update" | "unchanged" | "skip";
+
+export type ProductImportChange = { field: ProductImportField; from: string; to: string };
+
+export type ProductImportRow = {
+  // Line of the record in the file, counting the header as row 1 (for JSON, position in the list)
+  rowNumber: number;
+  // The mapped cells as they appear in the file, for the preview table
+  cells: Partial<Record<ProductImportField, string>>;
+  action: ProductImportAction;
+  // Values for the new product when the row creates one
+  product: ProductImportValues | null;
+  // What an update changes on the existing product, field by field
+  changes: ProductImportChange[];
+  // Cells that were read but left alone, e.g. quantity on a product stocked per size/color
+  warnings: string[];
+  errors: string[];
+};
+
+export type ProductImportPreview = {
+  // Worksheet names of an Excel upload and the one being read; empty and null for CSV
+  sheets: string[];
+  sheet: string | null;
+  headers: string[];
+  mapping: ProductImportMapping;
+  options: ProductImportOptions;
+  // Fields the mode requires but no column provides; rows needing them are invalid until mapped
+  unmappedFields: ProductImportField[];
+  rows: ProductImportRow[];
+  createCount: number;
+  updateCount: number;
+  unchangedCount: number;
+  invalidCount: number;
+};
+
+export type ProductImportResult = {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: { rowNumber: number; productId: string | null; errors: string[] }[];
+};
+
+export const productImportTemplate = [
+  ["Product ID", "Product Name", "Colors (comma-separated)", "Sizes (comma-separated)", "Quantity", "Reorder Point", "Reorder Quantity", "Price", "Category", "Manufacturer", "Description"],
+  ["PROD-12345-ABC", "Sample T-Shirt", "Red, Blue, Green", "S, M, L, XL", "100", "10", "50", "29.99", "Clothing", "FashionCo", "High quality cotton t-shirt, pre-shrunk"],
+];
@@ -0,0 +1,143 @@
+// Promotion rules, evaluated by the server whenever an invoice's totals are recalculated
+import { fromBaseCurrency } from "./currency";
+
+export const promotionTypes = ["percentage", "fixed_amount", "buy_x_get_y"] as const;
+
+export type PromotionType = typeof promotionTypes[number];
+
+export const promotionTypeLabels: Record<PromotionType, string> = {
+  percentage: "Percentage off",
+  fixed_amount: "Fixed amount off",
+  buy_x_get_y: "Buy X get Y free",
+};
+
+// "all" covers every line; the others match the line's product category, manufacturer or code
+export const promotionScopes = ["all", "category", "manufacturer", "product"] as const;
+
+export type PromotionScope = typeof promotionScopes[number];
+
+export const promotionScopeLabels: Record<PromotionScope, string> = {
+  all: "Whole invoice",
+  category: "Category",
+  manufacturer: "Manufacturer",
+  product: "Product",
+};
+
+export type PromotionRule = {
+  id: string;
+  name: string;
+  type: PromotionType;
+  scope: PromotionScope;
+  scopeValue: string | null;
+  // Fraction for percentages (0.15 for 15%), base-currency amount for fixed discounts
+  value: string;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  // Base-currency spend on in-scope lines needed before the promotion applies
+  minSubtotal: string | null;
+  stackable: boolean;
+};
+
+export type PromotionLine = {
+  // The product's code (e.g. F00001), which product-scoped rules match on
+  productId: string;
+  category: string | null;
+  manufacturer: string | null;
+  quantity: number;
+  // After any line discount, in the invoice currency
+  totalPrice: number;
+};
+
+export type AppliedPromotion = {
+  promotionId: string;
+  name: string;
+  discountAmount: number;
+  // Indexed like the lines passed in
+  lineDiscounts: number[];
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const inScope = (rule: PromotionRule, line: PromotionLine) => {
+  switch (rule.scope) {
+    case 'category':
+      return !!line.category && line.category === rule.scopeValue;
+    case 'manufacturer':
+      return !!line.manufacturer && line.manufacturer === rule.scopeValue;
+    case 'product':
+      return line.productId === rule.scopeValue;
+    default:
+      return true;
+  }
+};
+
+// What one promotion would take off each line on its own, or null if it doesn't apply
+export const evaluatePromotion = (rule: PromotionRule, lines: PromotionLine[], exchangeRate: string): AppliedPromotion | null => {
+  const matches = lines.map(line => inScope(rule, line) && line.totalPrice > 0);
+  const scopedTotal = lines.reduce((sum, line, i) => matches[i] ? sum + line.totalPrice : sum, 0);
+  if (scopedTotal <= 0) return null;
+  if (rule.minSubtotal && scopedTotal < fromBaseCurrency(rule.minSubtotal, exchangeRate)) return null;
+
+  const value = parseFloat(rule.value) || 0;
+  let lineDiscounts: number[];
+
+  if (rule.type === 'percentage') {
+    lineDiscounts = lines.map((line, i) => matches[i] ? line.totalPrice * Math.min(value, 1) : 0);
+  } else if (rule.type === 'fixed_amount') {
+    // Spread over the in-scope lines by value so each line's tax is worked out on what it really cost
+    const amount = Math.min(fromBaseCurrency(value, exchangeRate), scopedTotal);
+    lineDiscounts = lines.map((line, i) => matches[i] ? amount * line.totalPrice / scopedTotal : 0);
+  } else {
+    // Free units are counted per product across its lines (e.g. sizes) and valued at its average net price
+    const buy = rule.buyQuantity || 0;
+    const get = rule.getQuantity || 0;
+    if (buy < 1 || get < 1) return null;
+    const quantities = new Map<string, number>();
+    lines.forEach((line, i) => {
+      if (matches[i]) quantities.set(line.productId, (quantities.get(line.productId) || 0) + line.quantity);
+    });
+    lineDiscounts = lines.map((line, i) => {
+      if (!matches[i]) return 0;
+      const quantity = quantities.get(line.productId) || 0;
+      const free = Math.floor(quantity / (buy + get)) * get;
+      return line.totalPrice * free / quantity;
+    });
+  }
+
+  lineDiscounts = lineDiscounts.map(round2);
+  const discountAmount = round2(lineDiscounts.reduce((sum, amount) => sum + amount, 0));
+  if (discountAmount <= 0) return null;
+  return { promotionId: rule.id, name: rule.name, discountAmount, lineDiscounts };
+};
+
+// Stackable promotions combine with each other; an exclusive one applies alone. Whichever
+// gives the customer more wins, and no line is ever discounted below zero.
+export const applyPromotions = (rules: PromotionRule[], lines: PromotionLine[], exchangeRate: string): AppliedPromotion[] => {
+  const candidates = rules
+    .map(rule => ({ rule, applied: evaluatePromotion(rule, lines, exchangeRate) }))
+    .filter((candidate): candidate is { rule: PromotionRule; applied: AppliedPromotion } => candidate.applied !== null);
+
+  const remaining = lines.map(line => line.totalPrice);
+  const stacked: AppliedPromotion[] = [];
+  candidates
+    .filter(candidate => candidate.rule.stackable)
+    .sort((a, b) => b.applied.discountAmount - a.applied.discountAmount)
+    .forEach(({ applied }) => {
+      const lineDiscounts = applied.lineDiscounts.map((amount, i) => round2(Math.min(amount, remaining[i])));
+      lineDiscounts.forEach((amount, i) => { remaining[i] -= amount; });
+      const discountAmount = round2(lineDiscounts.reduce((sum, amount) => sum + amount, 0));
+      if (discountAmount > 0) stacked.push({ ...applied, discountAmount, lineDiscounts });
+    });
+  const stackedTotal = stacked.reduce((sum, applied) => sum + applied.discountAmount, 0);
+
+  const bestExclusive = candidates
+    .filter(candidate => !candidate.rule.stackable)
+    .map(candidate => candidate.applied)
+    .sort((a, b) => b.discountAmount - a.discountAmount)[0];
+
+  return bestExclusive && bestExclusive.discountAmount > stackedTotal ? [bestExclusive] : stacked;
+};
+
+// Per-line total across the applied promotions
+export const sumLineDiscounts = (applied: AppliedPromotion[], lineCount: number): number[] =>
+  Array.from({ length: lineCount }, (_, i) => round2(applied.reduce((sum, promotion) => sum + promotion.lineDiscounts[i], 0)));
@@ -0,0 +1,63 @@
+// Recurring invoice schedules run every N weeks or months counted from the start date
+
+export const recurringIntervals = ["weekly", "monthly", "quarterly", "yearly"] as const;
+
+export type RecurringInterval = typeof recurringIntervals[number];
+
+export const recurringIntervalLabels: Record<RecurringInterval, string> = {
+  weekly: "Weekly",
+  monthly: "Monthly",
+  quarterly: "Quarterly",
+  yearly: "Yearly",
+};
+
+const intervalMonths: Record<Exclude<RecurringInterval, "weekly">, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+export type RecurringSchedule = {
+  interval: RecurringInterval;
+  intervalCount: number;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+};
+
+// The run `index` periods after the start; month-based runs keep the start day,
+// falling back to the last day of shorter months (Jan 31 → Feb 28 → Mar 31)
+export function recurringRunDate(schedule: RecurringSchedule, index: number): Date {
+  const date = new Date(schedule.startDate);
+  if (schedule.interval === "weekly") {
+    date.setDate(date.getDate() + 7 * schedule.intervalCount * index);
+    return date;
+  }
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + intervalMonths[schedule.interval] * schedule.intervalCount * index);
+  const lastDayOfMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, lastDayOfMonth));
+  return date;
+}
+
+// The next `count` runs on or after `from`, stopping at the end date
+export function upcomingRunDates(schedule: RecurringSchedule, from: Date, count: number): Date[] {
+  const endDate = schedule.endDate ? new Date(schedule.endDate) : null;
+  const dates: Date[] = [];
+  for (let index = 0; dates.length < count; index++) {
+    const runDate = recurringRunDate(schedule, index);
+    if (endDate && runDate > endDate) break;
+    if (runDate >= from) dates.push(runDate);
+  }
+  return dates;
+}
+
+export function nextRunDate(schedule: RecurringSchedule, from: Date): Date | null {
+  return upcomingRunDates(schedule, from, 1)[0] || null;
+}
+
+export function describeRecurringInterval(interval: RecurringInterval, intervalCount: number): string {
+  if (intervalCount === 1) return recurringIntervalLabels[interval];
+  const unit = interval === "weekly" ? "weeks" : interval === "monthly" ? "months" : interval === "quarterly" ? "quarters" : "years";
+  return `Every ${intervalCount} ${unit}`;
+}
@@ -9,10 +9,20 @@ import {
   integer,
   decimal,
   boolean,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { BASE_CURRENCY, currencyCodes } from "./currency";
+import { numberingSeries, validateNumberFormat } from "./numbering";
+import { lineDiscountTypes, type LineDiscountType } from "./pricing";
+import { invoiceChangeTypes } from "./invoiceVersions";
+import { promotionTypes, promotionScopes } from "./promotions";
+import { pdfTemplates } from "./pdfTemplates";
+import { settingKeys, type AppSettings } from "./settings";
+import { recurringIntervals } from "./recurring";
+import { jobTypes, jobStatuses } from "./jobs";
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -51,6 +61,26 @@ export const passwordResetTokens = pgTable("password_reset_tokens", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Tax rates table - named rates such as "Standard VAT" or "Zero rated"
+export const taxRates = pgTable("tax_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  rate: decimal("rate", { precision: 5, scale: 4 }).notNull(), // 0.2000 = 20%
+  // Used for products with no tax class of their own or of their category; at most one is default
+  isDefault: boolean("is_default").notNull().default(false),
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
+// Category tax classes - the rate applied to every product in a category unless the product overrides it
+export const categoryTaxRates = pgTable("category_tax_rates", {
+  category: varchar("category").primaryKey(),
+  taxRateId: varchar("tax_rate_id").notNull().references(() => taxRates.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Products table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -59,11 +89,19 @@ export const products = pgTable("products", {
   color: text("color").array().notNull(),
   price: decimal("price", { precision: 10, scale: 2 }).notNull(),
   quantity: integer("quantity").notNull().default(0),
+  // Units held by pending invoices; available = quantity - reservedQuantity
+  reservedQuantity: integer("reserved_quantity").notNull().default(0),
+  // Low stock once available quantity falls to the reorder point
+  reorderPoint: integer("reorder_point").notNull().default(5),
+  // Preferred order size; 0 sizes suggestions from sales velocity instead
+  reorderQuantity: integer("reorder_quantity").notNull().default(0),
   size: text("size").array().notNull(),
   manufacturer: varchar("manufacturer"),
   imageUrl: varchar("image_url"),
   qrCodeUrl: varchar("qr_code_url"),
   category: varchar("category"),
+  // Product-level tax class; null falls back to the category's class, then the default rate
+  taxRateId: varchar("tax_rate_id").references(() => taxRates.id),
   description: text("description"),
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
@@ -71,10 +109,108 @@ export const products = pgTable("products", {
   createdBy: varchar("created_by").references(() => users.id),
 });
 
+// Product variants table - stock per size/color combination
+export const productVariants = pgTable(
+  "product_variants",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    sku: varchar("sku").notNull().unique(),
+    size: varchar("size").notNull(),
+    color: varchar("color").notNull(),
+    quantity: integer("quantity").notNull().default(0),
+    reservedQuantity: integer("reserved_quantity").notNull().default(0),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [index("IDX_product_variants_product").on(table.productId)],
+);
+
+// Price lists table - named price levels such as "Wholesale" or "VIP" assigned to customers
+export const priceLists = pgTable("price_lists", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(),
+  description: text("description"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Price list items table - a product's price on a list, in the base currency; unlisted products keep their own price
+export const priceListItems = pgTable(
+  "price_list_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    priceListId: varchar("price_list_id").notNull().references(() => priceLists.id, { onDelete: "cascade" }),
+    productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+    price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_price_list_items_list_product").on(table.priceListId, table.productId)],
+);
+
+// Promotions table - automatic discount rules, optionally unlocked by a coupon code
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  description: text("description"),
+  code: varchar("code").unique(),
+  type: varchar("type", { enum: promotionTypes }).notNull(),
+  scope: varchar("scope", { enum: promotionScopes }).notNull().default("all"),
+  // Category or manufacturer name, or product code (e.g. F00001); null when the scope is "all"
+  scopeValue: varchar("scope_value"),
+  // Fraction for percentages (0.1500 for 15%), base-currency amount for fixed discounts
+  value: decimal("value", { precision: 10, scale: 4 }).notNull().default("0.0000"),
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at"),
+  // Stackable promotions combine; an exclusive one only applies when it beats them all together
+  stackable: boolean("stackable").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
+// Customers table - master record for everyone we invoice
+export const customers = pgTable(
+  "customers",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name").notNull(),
+    email: varchar("email"),
+    phone: varchar("phone").notNull(),
+    address: text("address"),
+    notes: text("notes"),
+    // Prices for this customer come from the list where it has one for the product
+    priceListId: varchar("price_list_id").references(() => priceLists.id),
+    isActive: boolean("is_active").default(true),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [index("IDX_customers_phone").on(table.phone)],
+);
+
+// Exchange rates table - locally maintained; a rate applies from its effective date until the next one
+export const exchangeRates = pgTable("exchange_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // base-currency value of one unit
+  effectiveFrom: timestamp("effective_from").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
 // Invoices table
 export const invoices = pgTable("invoices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   invoiceNumber: varchar("invoice_number").notNull().unique(),
+  customerId: varchar("customer_id").references(() => customers.id),
+  // Customer details as billed; kept on the invoice so later customer edits don't rewrite history
   customerName: varchar("customer_name").notNull(),
   customerEmail: varchar("customer_email"),
   customerPhone: varchar("customer_phone").notNull(),
@@ -83,9 +219,25 @@ export const invoices = pgTable("invoices", {
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   discountPercentage: decimal("discount_percentage", { precision: 5, scale: 4 }).default("0.00"),
   discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).default("0.00"),
-  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).default("0.085"),
+  // Sum of the promotions applied on the last recalculation; kept apart from the manual discount above
+  promotionDiscount: decimal("promotion_discount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  // Unlocks promotions that carry this code; stored upper-case
+  couponCode: varchar("coupon_code"),
+  // Effective rate across all lines (taxAmount over the taxable amount); each line carries its own rate
+  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).default("0.0000"),
   taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  // All amounts on the invoice, its payments and credit notes are in this currency
+  currency: varchar("currency", { length: 3 }).notNull().default(BASE_CURRENCY),
+  // Base-currency value of one unit of the invoice currency, fixed when the invoice is created
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }).notNull().default("1"),
+  // Inclusive: unit prices already contain tax, which is extracted rather than added on top
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  // Sum of non-voided payments, kept in step with the payments table
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  // Sum of credit note totals issued against this invoice
+  creditedAmount: decimal("credited_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  dueDate: timestamp("due_date"),
   notes: text("notes"),
   pdfPath: varchar("pdf_path"),
   createdAt: timestamp("created_at").defaultNow(),
@@ -100,10 +252,362 @@ export const invoiceItems = pgTable("invoice_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
   productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  // Percentage values are fractions (0.1000 for 10%); amounts are taken off the whole line
+  discountType: varchar("discount_type", { enum: lineDiscountTypes }),
+  discountValue: decimal("discount_value", { precision: 10, scale: 4 }).notNull().default("0.0000"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(), // after the line discount
+  // This line's share of the invoice's promotions, taken off before tax
+  promotionDiscount: decimal("promotion_discount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  // Rate resolved when the line was added, so later rate changes don't rewrite the invoice
+  taxRateId: varchar("tax_rate_id").references(() => taxRates.id),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).notNull().default("0.0000"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Invoice versions table - a snapshot of the invoice and its lines after each change, numbered per invoice
+export const invoiceVersions = pgTable(
+  "invoice_versions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+    version: integer("version").notNull(),
+    // "baseline" is the state of an invoice raised before versions were kept, saved on its first edit
+    changeType: varchar("change_type", { enum: invoiceChangeTypes }).notNull(),
+    summary: text("summary").notNull(),
+    snapshot: jsonb("snapshot").$type<InvoiceVersionSnapshot>().notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [
+    uniqueIndex("IDX_invoice_versions_invoice_version").on(table.invoiceId, table.version),
+  ],
+);
+
+// Invoice promotions table - what each promotion took off an invoice, rewritten on every recalculation
+export const invoicePromotions = pgTable(
+  "invoice_promotions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    invoiceId: varchar("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+    promotionId: varchar("promotion_id").notNull().references(() => promotions.id),
+    // Name as applied, so renaming a promotion doesn't rewrite old invoices
+    promotionName: varchar("promotion_name").notNull(),
+    discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(), // invoice currency
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_invoice_promotions_invoice_promotion").on(table.invoiceId, table.promotionId),
+    index("IDX_invoice_promotions_promotion").on(table.promotionId),
+  ],
+);
+
+// Quotations table - priced offers that become invoices once the customer accepts
+export const quotations = pgTable("quotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationNumber: varchar("quotation_number").notNull().unique(),
+  customerId: varchar("customer_id").references(() => customers.id),
+  customerName: varchar("customer_name").notNull(),
+  customerEmail: varchar("customer_email"),
+  customerPhone: varchar("customer_phone").notNull(),
+  customerAddress: text("customer_address"),
+  // Expiry is derived from validUntil rather than stored as a status
+  status: varchar("status", { enum: ["Open", "Sent", "Converted", "Cancelled"] }).notNull().default("Open"),
+  validUntil: timestamp("valid_until").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default(BASE_CURRENCY),
+  pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).notNull().default("0.0000"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull(),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  notes: text("notes"),
+  // The invoice created when the quotation was accepted
+  invoiceId: varchar("invoice_id").references(() => invoices.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+  convertedAt: timestamp("converted_at"),
+  convertedBy: varchar("converted_by").references(() => users.id),
+});
+
+// Quotation items table - quoted lines; stock is untouched until the quotation is converted
+export const quotationItems = pgTable("quotation_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quotationId: varchar("quotation_id").notNull().references(() => quotations.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  discountType: varchar("discount_type", { enum: lineDiscountTypes }),
+  discountValue: decimal("discount_value", { precision: 10, scale: 4 }).notNull().default("0.0000"),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  taxRateId: varchar("tax_rate_id").references(() => taxRates.id),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 4 }).notNull().default("0.0000"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Recurring invoice schedules - standing orders that raise a Pending invoice for the customer on each run
+export const recurringInvoices = pgTable(
+  "recurring_invoices",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name").notNull(),
+    customerId: varchar("customer_id").notNull().references(() => customers.id),
+    interval: varchar("interval", { enum: recurringIntervals }).notNull(),
+    intervalCount: integer("interval_count").notNull().default(1),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date"),
+    currency: varchar("currency", { length: 3 }).notNull().default(BASE_CURRENCY),
+    pricesIncludeTax: boolean("prices_include_tax").notNull().default(false),
+    notes: text("notes"),
+    // Email each generated invoice to the customer
+    autoEmail: boolean("auto_email").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    // Scheduled date of the latest run taken, successful or not
+    lastRunFor: timestamp("last_run_for"),
+    // Null once the end date has passed
+    nextRunAt: timestamp("next_run_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [index("IDX_recurring_invoices_next_run").on(table.nextRunAt)],
+);
+
+// Recurring invoice items - the template lines; prices are resolved when each invoice is raised
+export const recurringInvoiceItems = pgTable("recurring_invoice_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recurringInvoiceId: varchar("recurring_invoice_id").notNull().references(() => recurringInvoices.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  quantity: integer("quantity").notNull(),
+  discountType: varchar("discount_type", { enum: lineDiscountTypes }),
+  discountValue: decimal("discount_value", { precision: 10, scale: 4 }).notNull().default("0.0000"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Recurring invoice runs - one row per scheduled date, whether or not an invoice came out of it
+export const recurringInvoiceRuns = pgTable(
+  "recurring_invoice_runs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    recurringInvoiceId: varchar("recurring_invoice_id").notNull().references(() => recurringInvoices.id, { onDelete: "cascade" }),
+    scheduledFor: timestamp("scheduled_for").notNull(),
+    status: varchar("status", { enum: ["Created", "Failed"] }).notNull(),
+    invoiceId: varchar("invoice_id").references(() => invoices.id),
+    // Why no invoice was raised, or why emailing it failed
+    error: text("error"),
+    // Null when the schedule doesn't email or the customer has no address
+    emailStatus: varchar("email_status", { enum: ["Sent", "Failed"] }),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_recurring_invoice_runs_schedule_date").on(table.recurringInvoiceId, table.scheduledFor)],
+);
+
+// Payments table - money received against an invoice; voided rather than deleted
+export const payments = pgTable(
+  "payments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    invoiceId: varchar("invoice_id").notNull().references(() => invoices.id),
+    amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+    method: varchar("method", { enum: ["Cash", "Card", "Bank Transfer", "Cheque", "Mobile Money", "Other"] }).notNull(),
+    reference: varchar("reference"),
+    paidAt: timestamp("paid_at").notNull(),
+    notes: text("notes"),
+    voidedAt: timestamp("voided_at"),
+    voidedBy: varchar("voided_by").references(() => users.id),
+    voidReason: text("void_reason"),
+    createdAt: timestamp("created_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [index("IDX_payments_invoice").on(table.invoiceId)],
+);
+
+// Credit notes table - goods returned against a processed invoice
+export const creditNotes = pgTable(
+  "credit_notes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    creditNoteNumber: varchar("credit_note_number").notNull().unique(),
+    invoiceId: varchar("invoice_id").notNull().references(() => invoices.id),
+    customerId: varchar("customer_id").references(() => customers.id),
+    reason: varchar("reason", { enum: ["Return", "Damaged", "Wrong Item", "Pricing Error", "Other"] }).notNull(),
+    subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+    discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+    taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0.00"),
+    total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    createdBy: varchar("created_by").references(() => users.id),
+  },
+  (table) => [index("IDX_credit_notes_invoice").on(table.invoiceId)],
+);
+
+// Credit note items table - the invoice lines (and quantities) being credited
+export const creditNoteItems = pgTable("credit_note_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  creditNoteId: varchar("credit_note_id").notNull().references(() => creditNotes.id, { onDelete: "cascade" }),
+  invoiceItemId: varchar("invoice_item_id").notNull().references(() => invoiceItems.id),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
   quantity: integer("quantity").notNull(),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
+  restock: boolean("restock").notNull().default(true), // false for goods written off rather than returned to stock
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Suppliers table - who purchase orders are placed with
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  // Matches products.manufacturer so reorders can be grouped per supplier
+  manufacturer: varchar("manufacturer"),
+  contactName: varchar("contact_name"),
+  email: varchar("email"),
+  phone: varchar("phone"),
+  address: text("address"),
+  notes: text("notes"),
+  isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
+// Purchase orders table
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  poNumber: varchar("po_number").notNull().unique(),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: varchar("status", { enum: ["Draft", "Ordered", "Partially Received", "Received", "Cancelled"] }).default("Draft"),
+  expectedDeliveryDate: timestamp("expected_delivery_date"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  notes: text("notes"),
+  orderedAt: timestamp("ordered_at"),
+  receivedAt: timestamp("received_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+});
+
+// Purchase order items table
+export const purchaseOrderItems = pgTable("purchase_order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id),
+  variantId: varchar("variant_id").references(() => productVariants.id),
+  quantityOrdered: integer("quantity_ordered").notNull(),
+  quantityReceived: integer("quantity_received").notNull().default(0),
+  unitCost: decimal("unit_cost", { precision: 10, scale: 2 }).notNull(),
+  totalCost: decimal("total_cost", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Stock movements table - append-only ledger of every on-hand quantity change
+export const stockMovements = pgTable(
+  "stock_movements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    productId: varchar("product_id").notNull().references(() => products.id),
+    variantId: varchar("variant_id").references(() => productVariants.id),
+    quantity: integer("quantity").notNull(), // signed: negative for stock leaving
+    balanceAfter: integer("balance_after").notNull(), // product on-hand quantity after this movement
+    reason: varchar("reason", { enum: ["sale", "return", "adjustment", "receipt", "import"] }).notNull(),
+    invoiceId: varchar("invoice_id").references(() => invoices.id),
+    purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id),
+    stockTakeId: varchar("stock_take_id").references(() => stockTakes.id),
+    creditNoteId: varchar("credit_note_id").references(() => creditNotes.id),
+    userId: varchar("user_id").references(() => users.id),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_stock_movements_product").on(table.productId, table.createdAt)],
+);
+
+// Stock takes table - physical count sessions for one category or manufacturer
+export const stockTakes = pgTable("stock_takes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  reference: varchar("reference").notNull().unique(),
+  scopeType: varchar("scope_type", { enum: ["category", "manufacturer"] }).notNull(),
+  scopeValue: varchar("scope_value").notNull(),
+  status: varchar("status", { enum: ["In Progress", "Approved", "Cancelled"] }).default("In Progress"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+});
+
+// Stock take lines table - one per product, or per variant for products stocked by size/color
+export const stockTakeLines = pgTable(
+  "stock_take_lines",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    stockTakeId: varchar("stock_take_id").notNull().references(() => stockTakes.id, { onDelete: "cascade" }),
+    productId: varchar("product_id").notNull().references(() => products.id),
+    variantId: varchar("variant_id").references(() => productVariants.id),
+    countedQuantity: integer("counted_quantity"), // null until the line has been counted
+    // On-hand stock when the count was recorded; the variance is taken against this, so stock
+    // sold or received between counting and approval is left as it was booked
+    systemQuantityAtCount: integer("system_quantity_at_count"),
+    adjustment: integer("adjustment"), // on-hand change booked when the count was approved
+    countedBy: varchar("counted_by").references(() => users.id),
+    countedAt: timestamp("counted_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_stock_take_lines_stock_take").on(table.stockTakeId)],
+);
+
+// Number sequences table - one row per document series, locked while a number is allocated
+export const numberSequences = pgTable("number_sequences", {
+  series: varchar("series", { enum: numberingSeries }).primaryKey(),
+  format: varchar("format").notNull(),
+  resetYearly: boolean("reset_yearly").notNull().default(false),
+  // Year the last number was issued in; a yearly series restarts when this changes
+  period: integer("period"),
+  lastValue: integer("last_value").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+});
+
+// Company profile table - a single "default" row with the details printed on generated documents
+export const companyProfile = pgTable("company_profile", {
+  id: varchar("id").primaryKey().default("default"),
+  companyName: varchar("company_name").notNull(),
+  addressLines: text("address_lines").array().notNull(),
+  phone: varchar("phone"),
+  email: varchar("email"),
+  website: varchar("website"),
+  taxNumber: varchar("tax_number"),
+  // Object storage path (/objects/...) of a PNG or JPEG logo
+  logoPath: varchar("logo_path"),
+  bankName: varchar("bank_name"),
+  bankAccountName: varchar("bank_account_name"),
+  bankAccountNumber: varchar("bank_account_number"),
+  bankIban: varchar("bank_iban"),
+  bankSwift: varchar("bank_swift"),
+  invoiceTemplate: varchar("invoice_template", { enum: pdfTemplates }).notNull().default("classic"),
+  showProductImages: boolean("show_product_images").notNull().default(true),
+  footerNote: text("footer_note"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+});
+
+// Settings table - one row per typed key in shared/settings.ts, value stored as JSON
+export const settings = pgTable("settings", {
+  key: varchar("key", { enum: settingKeys }).primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  updatedBy: varchar("updated_by").references(() => users.id),
 });
 
 // Activity logs table
@@ -120,6 +624,40 @@ export const activityLogs = pgTable("activity_logs", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Jobs table - background work queued by a request and run by the job workers in server/jobs.ts
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: varchar("type", { enum: jobTypes }).notNull(),
+    status: varchar("status", { enum: jobStatuses }).notNull().default("queued"),
+    // Everything the handler needs, so the job can run after the request is gone
+    payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+    result: jsonb("result"),
+    // The last attempt's error; kept while the job waits to be retried
+    error: text("error"),
+    // Items done out of the total, e.g. rows imported; total stays null until it is known
+    progress: integer("progress").notNull().default(0),
+    total: integer("total"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    // Not picked up before this time; pushed back after each failed attempt
+    runAt: timestamp("run_at").notNull().defaultNow(),
+    // Set while a worker holds the job; a stale lock means the worker died and the job is taken again
+    lockedAt: timestamp("locked_at"),
+    // The record the job works on, e.g. the invoice being sent
+    targetId: varchar("target_id"),
+    createdBy: varchar("created_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+    finishedAt: timestamp("finished_at"),
+  },
+  (table) => [
+    index("IDX_jobs_status_run_at").on(table.status, table.runAt),
+    index("IDX_jobs_target").on(table.targetId),
+  ],
+);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   products: many(products),
@@ -136,15 +674,69 @@ export const passwordResetTokensRelations = relations(passwordResetTokens, ({ on
   }),
 }));
 
+export const taxRatesRelations = relations(taxRates, ({ many }) => ({
+  products: many(products),
+  categories: many(categoryTaxRates),
+}));
+
+export const categoryTaxRatesRelations = relations(categoryTaxRates, ({ one }) => ({
+  taxRate: one(taxRates, {
+    fields: [categoryTaxRates.taxRateId],
+    references: [taxRates.id],
+  }),
+}));
+
 export const productsRelations = relations(products, ({ one, many }) => ({
   createdBy: one(users, {
     fields: [products.createdBy],
     references: [users.id],
   }),
   invoiceItems: many(invoiceItems),
+  variants: many(productVariants),
+  stockMovements: many(stockMovements),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
+  invoiceItems: many(invoiceItems),
+}));
+
+export const priceListsRelations = relations(priceLists, ({ many }) => ({
+  items: many(priceListItems),
+  customers: many(customers),
+}));
+
+export const priceListItemsRelations = relations(priceListItems, ({ one }) => ({
+  priceList: one(priceLists, {
+    fields: [priceListItems.priceListId],
+    references: [priceLists.id],
+  }),
+  product: one(products, {
+    fields: [priceListItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const customersRelations = relations(customers, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [customers.createdBy],
+    references: [users.id],
+  }),
+  priceList: one(priceLists, {
+    fields: [customers.priceListId],
+    references: [priceLists.id],
+  }),
+  invoices: many(invoices),
 }));
 
 export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [invoices.customerId],
+    references: [customers.id],
+  }),
   createdBy: one(users, {
     fields: [invoices.createdBy],
     references: [users.id],
@@ -154,6 +746,156 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
     references: [users.id],
   }),
   items: many(invoiceItems),
+  payments: many(payments),
+  creditNotes: many(creditNotes),
+  promotions: many(invoicePromotions),
+  versions: many(invoiceVersions),
+}));
+
+export const invoiceVersionsRelations = relations(invoiceVersions, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceVersions.invoiceId],
+    references: [invoices.id],
+  }),
+  createdBy: one(users, {
+    fields: [invoiceVersions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const promotionsRelations = relations(promotions, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [promotions.createdBy],
+    references: [users.id],
+  }),
+  invoices: many(invoicePromotions),
+}));
+
+export const invoicePromotionsRelations = relations(invoicePromotions, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoicePromotions.invoiceId],
+    references: [invoices.id],
+  }),
+  promotion: one(promotions, {
+    fields: [invoicePromotions.promotionId],
+    references: [promotions.id],
+  }),
+}));
+
+export const quotationsRelations = relations(quotations, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [quotations.customerId],
+    references: [customers.id],
+  }),
+  invoice: one(invoices, {
+    fields: [quotations.invoiceId],
+    references: [invoices.id],
+  }),
+  createdBy: one(users, {
+    fields: [quotations.createdBy],
+    references: [users.id],
+  }),
+  items: many(quotationItems),
+}));
+
+export const quotationItemsRelations = relations(quotationItems, ({ one }) => ({
+  quotation: one(quotations, {
+    fields: [quotationItems.quotationId],
+    references: [quotations.id],
+  }),
+  product: one(products, {
+    fields: [quotationItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [quotationItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const recurringInvoicesRelations = relations(recurringInvoices, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [recurringInvoices.customerId],
+    references: [customers.id],
+  }),
+  createdBy: one(users, {
+    fields: [recurringInvoices.createdBy],
+    references: [users.id],
+  }),
+  items: many(recurringInvoiceItems),
+  runs: many(recurringInvoiceRuns),
+}));
+
+export const recurringInvoiceItemsRelations = relations(recurringInvoiceItems, ({ one }) => ({
+  recurringInvoice: one(recurringInvoices, {
+    fields: [recurringInvoiceItems.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  product: one(products, {
+    fields: [recurringInvoiceItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [recurringInvoiceItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const recurringInvoiceRunsRelations = relations(recurringInvoiceRuns, ({ one }) => ({
+  recurringInvoice: one(recurringInvoices, {
+    fields: [recurringInvoiceRuns.recurringInvoiceId],
+    references: [recurringInvoices.id],
+  }),
+  invoice: one(invoices, {
+    fields: [recurringInvoiceRuns.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [payments.invoiceId],
+    references: [invoices.id],
+  }),
+  createdBy: one(users, {
+    fields: [payments.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const creditNotesRelations = relations(creditNotes, ({ one, many }) => ({
+  invoice: one(invoices, {
+    fields: [creditNotes.invoiceId],
+    references: [invoices.id],
+  }),
+  customer: one(customers, {
+    fields: [creditNotes.customerId],
+    references: [customers.id],
+  }),
+  createdBy: one(users, {
+    fields: [creditNotes.createdBy],
+    references: [users.id],
+  }),
+  items: many(creditNoteItems),
+}));
+
+export const creditNoteItemsRelations = relations(creditNoteItems, ({ one }) => ({
+  creditNote: one(creditNotes, {
+    fields: [creditNoteItems.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  invoiceItem: one(invoiceItems, {
+    fields: [creditNoteItems.invoiceItemId],
+    references: [invoiceItems.id],
+  }),
+  product: one(products, {
+    fields: [creditNoteItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [creditNoteItems.variantId],
+    references: [productVariants.id],
+  }),
 }));
 
 export const invoiceItemsRelations = relations(invoiceItems, ({ one }) => ({
@@ -165,6 +907,99 @@ export const invoiceItemsRelations = relations(invoiceItems, ({ one }) => ({
     fields: [invoiceItems.productId],
     references: [products.id],
   }),
+  variant: one(productVariants, {
+    fields: [invoiceItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [suppliers.createdBy],
+    references: [users.id],
+  }),
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  createdBy: one(users, {
+    fields: [purchaseOrders.createdBy],
+    references: [users.id],
+  }),
+  items: many(purchaseOrderItems),
+}));
+
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  product: one(products, {
+    fields: [purchaseOrderItems.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [purchaseOrderItems.variantId],
+    references: [productVariants.id],
+  }),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+  product: one(products, {
+    fields: [stockMovements.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [stockMovements.variantId],
+    references: [productVariants.id],
+  }),
+  invoice: one(invoices, {
+    fields: [stockMovements.invoiceId],
+    references: [invoices.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [stockMovements.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  stockTake: one(stockTakes, {
+    fields: [stockMovements.stockTakeId],
+    references: [stockTakes.id],
+  }),
+  creditNote: one(creditNotes, {
+    fields: [stockMovements.creditNoteId],
+    references: [creditNotes.id],
+  }),
+  user: one(users, {
+    fields: [stockMovements.userId],
+    references: [users.id],
+  }),
+}));
+
+export const stockTakesRelations = relations(stockTakes, ({ one, many }) => ({
+  lines: many(stockTakeLines),
+  createdBy: one(users, {
+    fields: [stockTakes.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const stockTakeLinesRelations = relations(stockTakeLines, ({ one }) => ({
+  stockTake: one(stockTakes, {
+    fields: [stockTakeLines.stockTakeId],
+    references: [stockTakes.id],
+  }),
+  product: one(products, {
+    fields: [stockTakeLines.productId],
+    references: [products.id],
+  }),
+  variant: one(productVariants, {
+    fields: [stockTakeLines.variantId],
+    references: [productVariants.id],
+  }),
 }));
 
 export const activityLogsRelations = relations(activityLogs, ({ one }) => ({
@@ -181,28 +1016,336 @@ export const insertUserSchema = createInsertSchema(users).omit({
   updatedAt: true,
 });
 
-export const insertProductSchema = createInsertSchema(products).omit({
+export const insertProductSchema = createInsertSchema(products, {
+  reorderPoint: z.number().int().min(0),
+  reorderQuantity: z.number().int().min(0),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   qrCodeUrl: true,
+  reservedQuantity: true,
 });
 
-export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+// SKU is optional on input; storage derives it from the product ID, size and color
+export const insertProductVariantSchema = createInsertSchema(productVariants).omit({
+  id: true,
+  productId: true,
+  reservedQuantity: true,
+  createdAt: true,
+  updatedAt: true,
+}).partial({ sku: true });
+
+export const insertCustomerSchema = createInsertSchema(customers, {
+  name: z.string().trim().min(1),
+  phone: z.string().trim().min(1),
+  email: z.string().email().nullish().or(z.literal("")),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The exchange rate is looked up from the rate table when the invoice is created
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  dueDate: z.coerce.date().nullish(),
+  currency: z.enum(currencyCodes).optional(),
+}).omit({
   id: true,
   invoiceNumber: true,
+  exchangeRate: true,
+  amountPaid: true,
+  creditedAmount: true,
   createdAt: true,
   updatedAt: true,
   processedAt: true,
   pdfPath: true,
+  promotionDiscount: true,
+}).extend({
+  couponCode: z.string().trim().toUpperCase().nullish(),
+});
+
+// A line discount arrives as a type and value; the amount it takes off is always worked out on the server
+const lineDiscountFields = {
+  discountType: z.enum(lineDiscountTypes).nullish(),
+  discountValue: z.coerce.number().min(0).transform(value => value.toFixed(4)).optional(),
+};
+
+export const lineDiscountSchema = z.object({
+  discountType: z.enum(lineDiscountTypes).nullable(),
+  discountValue: z.coerce.number().min(0),
+}).refine(
+  discount => discount.discountType !== 'percentage' || discount.discountValue <= 1,
+  { message: "A percentage discount cannot exceed 100%", path: ["discountValue"] }
+);
+
+// Tax is resolved from the product's tax class on the server, never taken from the client
+export const insertInvoiceItemSchema = createInsertSchema(invoiceItems, lineDiscountFields).omit({
+  id: true,
+  invoiceId: true,
+  discountAmount: true,
+  promotionDiscount: true,
+  taxRateId: true,
+  taxRate: true,
+  taxAmount: true,
+  createdAt: true,
+});
+
+// Lines added to an existing invoice are priced on the server from the customer's price list
+export const invoiceItemRequestSchema = insertInvoiceItemSchema.pick({
+  productId: true,
+  variantId: true,
+  discountType: true,
+  discountValue: true,
+}).extend({
+  quantity: z.number().int().min(1),
 });
 
-export const insertInvoiceItemSchema = createInsertSchema(invoiceItems).omit({
+// Totals and tax are worked out on the server from the lines, as for invoices
+export const insertQuotationSchema = createInsertSchema(quotations, {
+  validUntil: z.coerce.date().optional(),
+  currency: z.enum(currencyCodes).optional(),
+}).omit({
   id: true,
+  quotationNumber: true,
+  status: true,
+  subtotal: true,
+  taxRate: true,
+  taxAmount: true,
+  total: true,
   invoiceId: true,
   createdAt: true,
+  updatedAt: true,
+  convertedAt: true,
+  convertedBy: true,
+});
+
+export const insertQuotationItemSchema = createInsertSchema(quotationItems, lineDiscountFields).omit({
+  id: true,
+  quotationId: true,
+  discountAmount: true,
+  taxRateId: true,
+  taxRate: true,
+  taxAmount: true,
+  createdAt: true,
+});
+
+// The next run date is worked out on the server from the start date and interval
+export const insertRecurringInvoiceSchema = createInsertSchema(recurringInvoices, {
+  name: z.string().trim().min(1),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+  currency: z.enum(currencyCodes).optional(),
+}).omit({
+  id: true,
+  lastRunFor: true,
+  nextRunAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  intervalCount: z.coerce.number().int().min(1).max(52),
+}).refine(
+  schedule => !schedule.endDate || schedule.endDate >= schedule.startDate,
+  { message: "The end date must be after the start date", path: ["endDate"] }
+);
+
+export const insertRecurringInvoiceItemSchema = createInsertSchema(recurringInvoiceItems, lineDiscountFields).omit({
+  id: true,
+  recurringInvoiceId: true,
+  createdAt: true,
+}).extend({
+  quantity: z.number().int().min(1),
+});
+
+export const insertPriceListSchema = createInsertSchema(priceLists, {
+  name: z.string().trim().min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const priceListPriceSchema = z.object({
+  price: z.coerce.number().positive().transform(price => price.toFixed(2)),
+});
+
+// Amounts are entered in the base currency and percentages as fractions, like tax rates
+export const insertPromotionSchema = createInsertSchema(promotions, {
+  name: z.string().trim().min(1),
+  code: z.string().trim().toUpperCase().transform(code => code || null).nullish(),
+  scopeValue: z.string().trim().nullish(),
+  value: z.coerce.number().min(0).transform(value => value.toFixed(4)),
+  buyQuantity: z.coerce.number().int().min(1).nullish(),
+  getQuantity: z.coerce.number().int().min(1).nullish(),
+  minSubtotal: z.coerce.number().min(0).transform(amount => amount.toFixed(2)).nullish(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
+// Shared by create and update; on update only the fields being sent are checked
+const checkPromotionRules = (promotion: Partial<z.infer<typeof insertPromotionSchema>>, ctx: z.RefinementCtx) => {
+  if (promotion.scope !== undefined && promotion.scope !== 'all' && !promotion.scopeValue) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Choose what the promotion applies to", path: ["scopeValue"] });
+  }
+  if (promotion.type === 'percentage' && promotion.value !== undefined && parseFloat(promotion.value) > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "A percentage cannot exceed 100%", path: ["value"] });
+  }
+  if (promotion.type === 'buy_x_get_y' && (!promotion.buyQuantity || !promotion.getQuantity)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Buy and get quantities are required", path: ["buyQuantity"] });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt < promotion.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The end date must be after the start date", path: ["endsAt"] });
+  }
+};
+
+export const createPromotionSchema = insertPromotionSchema.superRefine(checkPromotionRules);
+export const updatePromotionSchema = insertPromotionSchema.omit({ createdBy: true }).partial().superRefine(checkPromotionRules);
+
+export const invoiceCouponSchema = z.object({
+  code: z.string().trim().toUpperCase().transform(code => code || null).nullable(),
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  currency: z.enum(currencyCodes).refine(currency => currency !== BASE_CURRENCY, "The base currency always has a rate of 1"),
+  rate: z.coerce.number().positive().transform(rate => rate.toFixed(8)),
+  effectiveFrom: z.coerce.date(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTaxRateSchema = createInsertSchema(taxRates, {
+  name: z.string().trim().min(1),
+  rate: z.coerce.number().min(0).max(1).transform(rate => rate.toFixed(4)),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount: z.coerce.number().positive().transform(amount => amount.toFixed(2)),
+  paidAt: z.coerce.date(),
+}).omit({
+  id: true,
+  invoiceId: true,
+  voidedAt: true,
+  voidedBy: true,
+  voidReason: true,
+  createdAt: true,
+});
+
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({
+  id: true,
+  creditNoteNumber: true,
+  invoiceId: true,
+  customerId: true,
+  subtotal: true,
+  discountAmount: true,
+  taxAmount: true,
+  total: true,
+  createdAt: true,
+});
+
+// Lines are picked from the invoice; prices and products come from the invoice item, not the client
+export const creditNoteLineSchema = z.object({
+  invoiceItemId: z.string().min(1),
+  quantity: z.coerce.number().int().positive(),
+  restock: z.boolean().default(true),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders, {
+  expectedDeliveryDate: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  poNumber: true,
+  status: true,
+  subtotal: true,
+  orderedAt: true,
+  receivedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems).omit({
+  id: true,
+  purchaseOrderId: true,
+  quantityReceived: true,
+  totalCost: true,
+  createdAt: true,
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStockTakeSchema = createInsertSchema(stockTakes).omit({
+  id: true,
+  reference: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  approvedBy: true,
+  approvedAt: true,
+});
+
+// Admin-editable part of a sequence; nextValue can only move the counter forward
+export const numberSequenceSettingsSchema = z.object({
+  format: z.string().trim().min(1).max(40),
+  resetYearly: z.boolean(),
+  nextValue: z.number().int().positive().optional(),
+}).superRefine((settings, ctx) => {
+  const error = validateNumberFormat(settings.format, settings.resetYearly);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["format"], message: error });
+  }
+});
+
+// Blank optional fields are stored as null; the logo is set separately once uploaded
+const optionalText = z.string().trim().transform(value => value || null).nullish();
+
+export const companyProfileSchema = createInsertSchema(companyProfile, {
+  companyName: z.string().trim().min(1, "Company name is required"),
+  addressLines: z.array(z.string().trim()).transform(lines => lines.filter(Boolean)),
+  phone: optionalText,
+  email: z.string().trim().email().or(z.literal("")).transform(value => value || null).nullish(),
+  website: optionalText,
+  taxNumber: optionalText,
+  bankName: optionalText,
+  bankAccountName: optionalText,
+  bankAccountNumber: optionalText,
+  bankIban: optionalText,
+  bankSwift: optionalText,
+  footerNote: optionalText,
+}).omit({
+  id: true,
+  logoPath: true,
+  updatedAt: true,
+  updatedBy: true,
+});
+
+// Every key is optional on update; only the ones sent are saved
+export const updateSettingsSchema = z.object({
+  emailFromName: z.string().trim().max(100),
+  emailFromAddress: z.string().trim().email("Enter a valid sender address").or(z.literal("")),
+  emailSignature: z.string().trim().max(200),
+  publicBaseUrl: z.string().trim().url("Enter a full URL, e.g. https://shop.example.com").or(z.literal(""))
+    .transform(url => url.replace(/\/+$/, "")),
+  lowStockThreshold: z.number().int().min(0),
+  pricesIncludeTax: z.boolean(),
+}).partial() satisfies z.ZodType<Partial<AppSettings>, z.ZodTypeDef, unknown>;
+
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
   createdAt: true,
@@ -216,12 +1359,83 @@ export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTo
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+// The parts of a user shown alongside the records they created; never the password or email
+export type UserSummary = Pick<User, "id" | "username" | "firstName" | "lastName">;
+export type InsertTaxRate = z.infer<typeof insertTaxRateSchema>;
+export type TaxRate = typeof taxRates.$inferSelect;
+export type CategoryTaxRate = typeof categoryTaxRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type ProductWithVariants = Product & { variants: ProductVariant[] };
+// An existing product changed by a bulk import. Quantity is resolved against the locked row,
+// so "add" still adds to the current stock if it moved after the preview.
+export type ProductImportUpdate = {
+  id: string;
+  fields: Partial<Omit<InsertProduct, "productId" | "quantity">>;
+  quantity?: { mode: "set" | "add"; value: number };
+};
+export type InsertPriceList = z.infer<typeof insertPriceListSchema>;
+export type PriceList = typeof priceLists.$inferSelect;
+export type PriceListItem = typeof priceListItems.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+export type InvoicePromotion = typeof invoicePromotions.$inferSelect;
+export type InvoiceVersion = typeof invoiceVersions.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoiceItem = z.infer<typeof insertInvoiceItemSchema>;
 export type InvoiceItem = typeof invoiceItems.$inferSelect;
+export type InvoiceItemRequest = z.infer<typeof invoiceItemRequestSchema>;
+export type LineDiscount = z.infer<typeof lineDiscountSchema>;
+export type InsertQuotation = z.infer<typeof insertQuotationSchema>;
+export type Quotation = typeof quotations.$inferSelect;
+export type QuotationStatus = Quotation["status"];
+export type InsertQuotationItem = z.infer<typeof insertQuotationItemSchema>;
+export type QuotationItem = typeof quotationItems.$inferSelect;
+export type InsertRecurringInvoice = z.infer<typeof insertRecurringInvoiceSchema>;
+export type RecurringInvoice = typeof recurringInvoices.$inferSelect;
+export type InsertRecurringInvoiceItem = z.infer<typeof insertRecurringInvoiceItemSchema>;
+export type RecurringInvoiceItem = typeof recurringInvoiceItems.$inferSelect;
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+export type Job = typeof jobs.$inferSelect;
+// A job as the status endpoints report it, without its payload
+export type JobSummary = Omit<Job, "payload" | "lockedAt">;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type PaymentMethod = Payment["method"];
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CreditNoteLine = z.infer<typeof creditNoteLineSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type CreditNoteItem = typeof creditNoteItems.$inferSelect;
+export type CreditNoteReason = CreditNote["reason"];
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type PurchaseOrderWithItems = PurchaseOrder & {
+  supplier: Supplier;
+  items: (PurchaseOrderItem & { product: Product; variant: ProductVariant | null })[];
+};
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+export type StockMovementReason = StockMovement["reason"];
+export type InsertStockTake = z.infer<typeof insertStockTakeSchema>;
+export type StockTake = typeof stockTakes.$inferSelect;
+export type NumberSequence = typeof numberSequences.$inferSelect;
+export type NumberSequenceSettings = z.infer<typeof numberSequenceSettingsSchema>;
+export type CompanyProfile = typeof companyProfile.$inferSelect;
+export type CompanyProfileSettings = z.infer<typeof companyProfileSchema>;
+export type SettingsUpdate = z.infer<typeof updateSettingsSchema>;
+export type StockTakeLine = typeof stockTakeLines.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
@@ -231,21 +1445,255 @@ export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type DashboardMetrics = {
   totalProducts: number;
   lowStockItems: number;
+  // Shop-wide floor applied on top of each product's reorder point
+  lowStockThreshold: number;
   pendingInvoices: number;
-  monthlyRevenue: number;
+  // Both in the base currency, converted at each invoice's exchange rate
+  baseCurrency: string;
+  monthlyRevenue: number; // processed invoices less credit notes issued this month
+  monthlyCredits: number;
+  onHandUnits: number;
+  reservedUnits: number;
+  availableUnits: number;
+};
+
+// Net on-hand change applied to one product/variant by an invoice status transition
+export type StockDelta = {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  sku: string | null;
+  quantity: number;
+};
+
+// One line of a failed stock check, returned with 409 responses
+export type StockShortage = {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  sku: string | null;
+  requested: number;
+  available: number;
+};
+
+// One product that needs ordering, sized to cover the target window of sales
+export type ReorderSuggestion = {
+  productId: string;
+  productCode: string;
+  productName: string;
+  available: number;
+  onOrder: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+  unitsSold: number;
+  dailyVelocity: number;
+  daysOfCover: number | null; // null when the product has not sold in the lookback window
+  suggestedQuantity: number;
+};
+
+export type ReorderSuggestionGroup = {
+  manufacturer: string;
+  supplier: Pick<Supplier, "id" | "name"> | null;
+  totalUnits: number;
+  items: ReorderSuggestion[];
+};
+
+export type ReorderSuggestionsResponse = {
+  lookbackDays: number;
+  coverDays: number;
+  groups: ReorderSuggestionGroup[];
+};
+
+// Everything the tax settings page and invoice previews need to resolve a product's rate
+export type TaxRatesResponse = {
+  taxRates: TaxRate[];
+  categoryRates: CategoryTaxRate[];
+  categories: string[];
+};
+
+export type ExchangeRatesResponse = {
+  baseCurrency: string;
+  // Rate in force right now for each currency that has one
+  current: Record<string, string>;
+  // Full history, newest effective date first
+  rates: ExchangeRate[];
 };
 
 export type ProductsResponse = {
-  products: Product[];
+  products: ProductWithVariants[];
   total: number;
 };
 
+// Derived from amountPaid and dueDate; independent of the Pending/Processed workflow status
+export const paymentStatuses = ["Unpaid", "Partially Paid", "Paid", "Overdue"] as const;
+export type PaymentStatus = typeof paymentStatuses[number];
+
+export type InvoiceWithPaymentState = Invoice & {
+  balanceDue: number;
+  paymentStatus: PaymentStatus;
+};
+
+// One invoice line as it stood in a version; id is the invoice item id, so lines can be matched across versions
+export type InvoiceVersionLine = {
+  id: string;
+  productId: string;
+  productCode: string;
+  productName: string;
+  variant: string | null;
+  quantity: number;
+  unitPrice: string;
+  discountType: LineDiscountType | null;
+  discountValue: string;
+  discountAmount: string;
+  totalPrice: string;
+};
+
+export type InvoiceVersionSnapshot = Pick<
+  Invoice,
+  "status" | "currency" | "couponCode" | "subtotal" | "discountAmount" | "promotionDiscount" | "taxAmount" | "total"
+> & {
+  items: InvoiceVersionLine[];
+};
+
+export type InvoiceVersionSummary = Omit<InvoiceVersion, "snapshot"> & {
+  createdByUser: UserSummary | null;
+  total: string;
+  itemCount: number;
+};
+
+export type InvoiceVersionWithUser = InvoiceVersion & {
+  createdByUser: UserSummary | null;
+};
+
+export type PaymentWithUsers = Payment & {
+  createdByUser: UserSummary | null;
+  voidedByUser: UserSummary | null;
+};
+
 export type InvoicesResponse = {
-  invoices: Invoice[];
+  invoices: InvoiceWithPaymentState[];
+  total: number;
+};
+
+export type PriceListSummary = PriceList & {
+  productCount: number;
+  customerCount: number;
+};
+
+export type PriceListWithItems = PriceList & {
+  items: (PriceListItem & { product: Pick<Product, "id" | "productId" | "productName" | "price"> })[];
+};
+
+// Processed invoices a promotion was applied to; amounts in the base currency
+export type PromotionUptake = {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  invoiceCount: number;
+  discountTotal: number;
+  invoiceRevenue: number;
+};
+
+export type QuotationWithItems = Quotation & {
+  createdByUser: UserSummary | null;
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "status"> | null;
+  items: (QuotationItem & { product: Product; variant: ProductVariant | null })[];
+};
+
+export type QuotationsResponse = {
+  quotations: Quotation[];
+  total: number;
+};
+
+export type RecurringInvoiceSummary = RecurringInvoice & {
+  customer: Pick<Customer, "id" | "name" | "email">;
+  itemCount: number;
+  lastRun: Pick<RecurringInvoiceRun, "status" | "scheduledFor"> | null;
+};
+
+export type RecurringInvoiceWithDetails = RecurringInvoice & {
+  customer: Pick<Customer, "id" | "name" | "email" | "phone" | "isActive">;
+  items: (RecurringInvoiceItem & { product: Pick<Product, "id" | "productId" | "productName" | "price">; variant: ProductVariant | null })[];
+  // Newest first
+  runs: (RecurringInvoiceRun & { invoice: Pick<Invoice, "id" | "invoiceNumber" | "status" | "total" | "currency"> | null })[];
+};
+
+export type CreditNoteWithItems = CreditNote & {
+  invoice: Pick<Invoice, "id" | "invoiceNumber" | "customerName" | "customerEmail" | "customerPhone" | "customerAddress" | "currency" | "createdAt">;
+  createdByUser: UserSummary | null;
+  items: (CreditNoteItem & { product: Product; variant: ProductVariant | null })[];
+};
+
+export type CreditNotesResponse = {
+  creditNotes: (CreditNote & { invoice: Pick<Invoice, "id" | "invoiceNumber" | "customerName" | "currency"> })[];
+  total: number;
+};
+
+export type CustomersResponse = {
+  customers: Customer[];
+  total: number;
+};
+
+// Invoices from before customer records existed, now linked to a customer by phone number
+export type InvoiceCustomerBackfill = {
+  invoiceCount: number;
+  customerCount: number;
+};
+
+// Customer record with the invoice history and totals shown on the detail page
+export type CustomerWithHistory = Customer & {
+  invoices: InvoiceWithPaymentState[];
+  invoiceCount: number;
+  // Base currency, since a customer's invoices may be in different currencies
+  lifetimeRevenue: number; // processed invoices, net of credit notes
+  outstandingBalance: number; // balance due across open invoices
+  lastInvoiceAt: Date | null;
+};
+
+export type PurchaseOrdersResponse = {
+  purchaseOrders: (PurchaseOrder & { supplier: Supplier })[];
+  total: number;
+};
+
+export type StockMovementWithRefs = StockMovement & {
+  user: UserSummary | null;
+  invoiceNumber: string | null;
+  poNumber: string | null;
+  stockTakeReference: string | null;
+  creditNoteNumber: string | null;
+  variant: Pick<ProductVariant, "sku" | "size" | "color"> | null;
+};
+
+export type StockMovementsResponse = {
+  movements: StockMovementWithRefs[];
+  total: number;
+};
+
+// Counted quantity next to the live on-hand figure it will be reconciled against
+export type StockTakeLineWithStock = StockTakeLine & {
+  product: Pick<Product, "id" | "productId" | "productName">;
+  variant: Pick<ProductVariant, "id" | "sku" | "size" | "color"> | null;
+  systemQuantity: number; // at the time of the count once counted, otherwise current
+  variance: number | null; // counted minus system; null until counted
+};
+
+export type StockTakeWithLines = StockTake & {
+  createdByUser: UserSummary | null;
+  approvedByUser: UserSummary | null;
+  lines: StockTakeLineWithStock[];
+};
+
+export type StockTakeSummary = StockTake & {
+  lineCount: number;
+  countedCount: number;
+};
+
+export type StockTakesResponse = {
+  stockTakes: StockTakeSummary[];
   total: number;
 };
 
 export type ActivityLogsResponse = {
-  logs: (ActivityLog & { user: User | null })[];
+  logs: (ActivityLog & { user: UserSummary | null })[];
   total: number;
 };
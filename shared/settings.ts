@@ -0,0 +1,45 @@
+// Application settings stored one row per key; anything not saved yet falls back to these defaults
+
+export const settingKeys = [
+  "emailFromName",
+  "emailFromAddress",
+  "emailSignature",
+  "publicBaseUrl",
+  "lowStockThreshold",
+  "pricesIncludeTax",
+] as const;
+
+export type SettingKey = typeof settingKeys[number];
+
+export type AppSettings = {
+  // Empty uses the company name from the company profile
+  emailFromName: string;
+  // Empty uses the mail account the server signs in with
+  emailFromAddress: string;
+  // Sign-off under customer emails; empty uses "<company name> Team"
+  emailSignature: string;
+  // Used in QR codes and shared links; empty uses the first deployment domain
+  publicBaseUrl: string;
+  // Products count as low on stock at their own reorder point, or at this level if it is higher
+  lowStockThreshold: number;
+  // Starting choice for new invoices and quotations
+  pricesIncludeTax: boolean;
+};
+
+export const defaultSettings: AppSettings = {
+  emailFromName: "",
+  emailFromAddress: "",
+  emailSignature: "",
+  publicBaseUrl: "",
+  lowStockThreshold: 0,
+  pricesIncludeTax: false,
+};
+
+export const settingLabels: Record<SettingKey, string> = {
+  emailFromName: "Sender name",
+  emailFromAddress: "Sender address",
+  emailSignature: "Email sign-off",
+  publicBaseUrl: "Public URL",
+  lowStockThreshold: "Low-stock threshold",
+  pricesIncludeTax: "Prices include tax by default",
+};
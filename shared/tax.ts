@@ -0,0 +1,60 @@
+// Tax arithmetic shared by the server (authoritative totals) and the client (previews while editing)
+
+type TaxRateRef = { id: string; rate: string; isDefault: boolean; isActive: boolean | null };
+
+// Product's own class first, then its category's, then the default rate; inactive rates are skipped
+export const resolveTaxRate = <T extends TaxRateRef>(
+  product: { taxRateId: string | null; category: string | null },
+  rates: T[],
+  categoryRates: { category: string; taxRateId: string }[]
+): T | null => {
+  const active = rates.filter(rate => rate.isActive !== false);
+  const categoryRateId = categoryRates.find(entry => entry.category === product.category)?.taxRateId;
+  return active.find(rate => rate.id === product.taxRateId)
+    || active.find(rate => rate.id === categoryRateId)
+    || active.find(rate => rate.isDefault)
+    || null;
+};
+
+// promotionDiscount is the line's own share of any promotions, already worked out per line
+export type TaxedLine = { totalPrice: number; taxRate: number; promotionDiscount?: number };
+
+export type InvoiceTaxBreakdown = {
+  subtotal: number;
+  lineTaxes: number[];
+  taxAmount: number;
+  effectiveRate: number;
+  total: number;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// The invoice discount is spread over lines by value (after promotions) before tax is worked out per line.
+// Exclusive prices have tax added on top; inclusive prices already contain it, so it is extracted.
+export const calculateInvoiceTax = (lines: TaxedLine[], discountAmount: number, pricesIncludeTax: boolean): InvoiceTaxBreakdown => {
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.totalPrice, 0));
+  const promotionDiscount = round2(lines.reduce((sum, line) => sum + (line.promotionDiscount || 0), 0));
+  const discountBase = subtotal - promotionDiscount;
+
+  const lineTaxes = lines.map(line => {
+    const net = line.totalPrice - (line.promotionDiscount || 0);
+    const share = discountBase > 0 ? discountAmount * net / discountBase : 0;
+    const discounted = net - share;
+    const tax = pricesIncludeTax
+      ? discounted - discounted / (1 + line.taxRate)
+      : discounted * line.taxRate;
+    return round2(tax);
+  });
+
+  const taxAmount = round2(lineTaxes.reduce((sum, tax) => sum + tax, 0));
+  const afterDiscount = round2(subtotal - promotionDiscount - discountAmount);
+  const taxable = pricesIncludeTax ? afterDiscount - taxAmount : afterDiscount;
+
+  return {
+    subtotal,
+    lineTaxes,
+    taxAmount,
+    effectiveRate: taxable > 0 ? taxAmount / taxable : 0,
+    total: pricesIncludeTax ? afterDiscount : round2(afterDiscount + taxAmount),
+  };
+};